@@ -2,6 +2,7 @@ import { useState, useEffect } from 'react';
 import { QueryClient, QueryClientProvider } from '@tanstack/react-query';
 import { UnifiedDashboard } from './pages/UnifiedDashboard';
 import { ProjectObservatory } from './pages/ProjectObservatory';
+import { ApiKeyDialog } from './components/organisms/ApiKeyDialog';
 
 // Create a client
 const queryClient = new QueryClient({
@@ -37,6 +38,7 @@ function App() {
   return (
     <QueryClientProvider client={queryClient}>
       {route === '/observatory' ? <ProjectObservatory /> : <UnifiedDashboard />}
+      <ApiKeyDialog />
     </QueryClientProvider>
   );
 }
@@ -9,7 +9,7 @@
 import { useState } from 'react';
 import { Card } from '../atoms';
 import type { AnalyticsData, AnalyticsSummary } from '../../lib/useAnalytics';
-import type { RatingStats } from '../../lib/useScriptRating';
+import type { RatingStats } from '../../lib/api';
 import { PLATFORM_LABELS, PLATFORM_ICONS, type Platform } from '../../lib/api';
 import {
     BarChart3,
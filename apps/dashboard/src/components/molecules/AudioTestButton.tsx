@@ -5,6 +5,7 @@
 
 import { useState, useRef } from 'react';
 import { Play, Pause, AlertCircle, Loader2 } from 'lucide-react';
+import { apiFetch } from '../../lib/api';
 
 interface AudioTestButtonProps {
     voiceId: string;
@@ -51,7 +52,7 @@ export function AudioTestButton({ voiceId, voiceName, provider }: AudioTestButto
             const url = `/api/voice/preview/${voiceId}?provider=${provider}`;
             console.log('[AudioTest] Fetching:', url);
 
-            const res = await fetch(url);
+            const res = await apiFetch(url);
             console.log('[AudioTest] Response:', res.status);
 
             if (!res.ok) throw new Error(`HTTP ${res.status}`);
@@ -1,28 +1,23 @@
 /**
  * HistoryPanel Component
  *
- * Displays script generation history with quick actions.
+ * Displays script generation history from the engine's script library,
+ * with full-text search and quick actions.
  *
  * @module components/molecules/HistoryPanel
  */
 
-import { useState } from 'react';
+import { useState, useEffect } from 'react';
 import { Card } from '../atoms';
-import type { ScriptHistoryEntry } from '../../lib/useScriptHistory';
-import { PLATFORM_LABELS, PLATFORM_ICONS, PLATFORM_COLORS } from '../../lib/api';
-import { History, Copy, Check, Trash2, Clock, ChevronDown, ChevronUp, FileText } from 'lucide-react';
+import { PLATFORM_LABELS, PLATFORM_ICONS, PLATFORM_COLORS, type LibraryScriptSummary } from '../../lib/api';
+import { useScriptLibrary, useDeleteLibraryScript } from '../../lib/hooks';
+import { History, Copy, Check, Trash2, Clock, ChevronDown, ChevronUp, FileText, Search } from 'lucide-react';
+
+const PAGE_SIZE = 20;
 
 interface HistoryPanelProps {
-    /** List of history entries */
-    history: ScriptHistoryEntry[];
-    /** Remove an entry */
-    onRemove: (id: string) => void;
-    /** Clear all history */
-    onClear: () => void;
     /** View a script */
-    onView?: (entry: ScriptHistoryEntry) => void;
-    /** Loading state */
-    isLoading?: boolean;
+    onView?: (entry: LibraryScriptSummary) => void;
 }
 
 /**
@@ -51,7 +46,7 @@ function HistoryEntry({
     onRemove,
     onView,
 }: {
-    entry: ScriptHistoryEntry;
+    entry: LibraryScriptSummary;
     onRemove: () => void;
     onView?: () => void;
 }) {
@@ -93,7 +88,16 @@ function HistoryEntry({
                             <Clock className="w-3 h-3" />
                             {formatRelativeTime(entry.createdAt)}
                         </span>
+                        {entry.score !== undefined && (
+                            <>
+                                <span>•</span>
+                                <span>{Math.round(entry.score)} puan</span>
+                            </>
+                        )}
                     </div>
+                    {entry.snippet && (
+                        <p className="mt-1 text-xs text-slate-400 line-clamp-2">{entry.snippet}</p>
+                    )}
                 </div>
 
                 {/* Actions */}
@@ -125,14 +129,19 @@ function HistoryEntry({
 /**
  * HistoryPanel - Script generation history panel
  */
-export function HistoryPanel({
-    history,
-    onRemove,
-    onClear,
-    onView,
-    isLoading = false,
-}: HistoryPanelProps) {
+export function HistoryPanel({ onView }: HistoryPanelProps) {
     const [isCollapsed, setIsCollapsed] = useState(false);
+    const [search, setSearch] = useState('');
+    const [query, setQuery] = useState('');
+
+    useEffect(() => {
+        const timer = setTimeout(() => setQuery(search.trim()), 300);
+        return () => clearTimeout(timer);
+    }, [search]);
+
+    const { data, isLoading } = useScriptLibrary({ q: query || undefined, limit: PAGE_SIZE });
+    const { mutate: removeScript } = useDeleteLibraryScript();
+    const history = data?.items ?? [];
 
     return (
         <Card padding="none" className="overflow-hidden">
@@ -145,7 +154,7 @@ export function HistoryPanel({
                     <History className="w-4 h-4 text-indigo-400" />
                     <span className="font-semibold text-indigo-200">Script Geçmişi</span>
                     <span className="text-xs text-slate-400 ml-2">
-                        {history.length} kayıt
+                        {data?.total ?? 0} kayıt
                     </span>
                 </div>
                 {isCollapsed ? (
@@ -158,6 +167,20 @@ export function HistoryPanel({
             {/* Content */}
             {!isCollapsed && (
                 <div>
+                    {/* Search */}
+                    <div className="px-4 py-2 border-b border-slate-800">
+                        <div className="relative">
+                            <Search className="absolute left-2 top-1/2 -translate-y-1/2 w-3 h-3 text-slate-500" />
+                            <input
+                                type="text"
+                                value={search}
+                                onChange={(e) => setSearch(e.target.value)}
+                                placeholder="Başlık, hook veya metinde ara..."
+                                className="w-full bg-slate-700/50 text-slate-300 text-xs rounded pl-7 pr-2 py-1.5 border border-slate-600 focus:outline-none focus:border-blue-500 placeholder-slate-500"
+                            />
+                        </div>
+                    </div>
+
                     {isLoading ? (
                         <div className="px-4 py-6 text-center text-slate-500 text-sm">
                             <div className="animate-spin w-6 h-6 border-2 border-slate-500 border-t-transparent rounded-full mx-auto mb-2" />
@@ -166,34 +189,26 @@ export function HistoryPanel({
                     ) : history.length === 0 ? (
                         <div className="px-4 py-6 text-center text-slate-500 text-sm">
                             <FileText className="w-8 h-8 mx-auto mb-2 opacity-50" />
-                            <p>Henüz script geçmişi yok</p>
-                            <p className="text-xs mt-1">Script oluşturduğunuzda burada görünecek</p>
+                            {query ? (
+                                <p>Eşleşen script bulunamadı</p>
+                            ) : (
+                                <>
+                                    <p>Henüz script geçmişi yok</p>
+                                    <p className="text-xs mt-1">Script oluşturduğunuzda burada görünecek</p>
+                                </>
+                            )}
                         </div>
                     ) : (
-                        <>
-                            {/* History Items */}
-                            <div className="max-h-80 overflow-y-auto divide-y divide-slate-800">
-                                {history.map((entry) => (
-                                    <HistoryEntry
-                                        key={entry.id}
-                                        entry={entry}
-                                        onRemove={() => onRemove(entry.id)}
-                                        onView={() => onView?.(entry)}
-                                    />
-                                ))}
-                            </div>
-
-                            {/* Clear All */}
-                            <div className="px-4 py-2 bg-slate-800/30 border-t border-slate-800">
-                                <button
-                                    onClick={onClear}
-                                    className="flex items-center gap-2 text-xs text-slate-500 hover:text-red-400 transition-colors"
-                                >
-                                    <Trash2 className="w-3 h-3" />
-                                    Geçmişi temizle
-                                </button>
-                            </div>
-                        </>
+                        <div className="max-h-80 overflow-y-auto divide-y divide-slate-800">
+                            {history.map((entry) => (
+                                <HistoryEntry
+                                    key={entry.id}
+                                    entry={entry}
+                                    onRemove={() => removeScript(entry.id)}
+                                    onView={() => onView?.(entry)}
+                                />
+                            ))}
+                        </div>
                     )}
                 </div>
             )}
@@ -1,5 +1,6 @@
 import { useState, useEffect, useCallback } from 'react';
 import { ImageCard, type ValidatedImage } from './ImageCard';
+import { apiFetch, type ScriptLanguage } from '../../lib/api';
 
 interface ImageSuggestionsPanelProps {
     /** Trend title to search images for */
@@ -8,6 +9,8 @@ interface ImageSuggestionsPanelProps {
     category?: string;
     /** Hook content for keyword extraction */
     hookContent?: string;
+    /** Script language, for the stopwords filtered from keywords */
+    language?: ScriptLanguage;
     /** Called when user selects an image */
     onImageSelect?: (image: ValidatedImage) => void;
     /** Number of images to display */
@@ -35,6 +38,7 @@ export function ImageSuggestionsPanel({
     title,
     category,
     hookContent,
+    language,
     onImageSelect,
     imageCount = 6,
     showValidation = true,
@@ -53,13 +57,14 @@ export function ImageSuggestionsPanel({
         setError(null);
 
         try {
-            const response = await fetch('/api/images/search-for-content', {
+            const response = await apiFetch('/api/images/search-for-content', {
                 method: 'POST',
                 headers: { 'Content-Type': 'application/json' },
                 body: JSON.stringify({
                     title,
                     category,
                     hookContent,
+                    language,
                     count: imageCount,
                     validate: showValidation,
                 }),
@@ -85,7 +90,7 @@ export function ImageSuggestionsPanel({
         } finally {
             setLoading(false);
         }
-    }, [title, category, hookContent, imageCount, showValidation]);
+    }, [title, category, hookContent, language, imageCount, showValidation]);
 
     useEffect(() => {
         fetchImages();
@@ -3,14 +3,16 @@
  *
  * Provides iteration controls for script sections.
  * Allows regenerating specific parts like hook, body, CTA, etc.
+ * Shows the script's version tree with diffs and restore.
  *
  * @module components/molecules/IterationPanel
  */
 
 import { useState, useCallback } from 'react';
-import { RefreshCw, Sparkles, Minus, Plus, Volume2, Zap, ChevronDown } from 'lucide-react';
-import type { PlatformScript, IterationTarget, IterationResult } from '../../lib/api';
-import { useIterateScript } from '../../lib/hooks';
+import { RefreshCw, Sparkles, Minus, Plus, Volume2, Zap, ChevronDown, Languages, GitBranch, RotateCcw } from 'lucide-react';
+import type { PlatformScript, IterationTarget, IterationResult, ScriptLanguage, ScriptVersion, ScriptDiffSection } from '../../lib/api';
+import { LANGUAGE_LABELS } from '../../lib/api';
+import { useIterateScript, useTranslateScript, useScriptVersions, useScriptDiff, useRestoreScriptVersion } from '../../lib/hooks';
 
 /**
  * Iteration button configuration
@@ -37,11 +39,144 @@ const ITERATION_BUTTONS: IterationButton[] = [
     { target: 'add_hooks', label: 'Re-Hook', icon: <Zap className="w-3 h-3" />, description: 'Pattern interrupt ekle', group: 'action' },
 ];
 
+const VERSION_ORIGIN_LABELS: Record<ScriptVersion['origin'], string> = {
+    generate: 'İlk versiyon',
+    variant: 'Varyant',
+    iteration: 'İyileştirme',
+    translation: 'Çeviri',
+    restore: 'Geri yükleme',
+};
+
+const DIFF_SECTION_LABELS: Record<ScriptDiffSection, string> = {
+    title: 'Başlık',
+    hook: 'Hook',
+    body: 'Body',
+    cta: 'CTA',
+    hashtags: 'Hashtag',
+};
+
+/**
+ * Version label: the iteration button for iterations, else the origin
+ */
+function versionLabel(version: ScriptVersion): string {
+    const target = version.change?.target;
+    const button = target ? ITERATION_BUTTONS.find(b => b.target === target) : undefined;
+    return button ? `${VERSION_ORIGIN_LABELS.iteration}: ${button.label}` : VERSION_ORIGIN_LABELS[version.origin];
+}
+
+/**
+ * VersionTree - Versions of the current script with diff and restore
+ */
+function VersionTree({
+    scriptId,
+    onRestored,
+}: {
+    scriptId: string;
+    onRestored?: (script: PlatformScript) => void;
+}) {
+    const [selectedId, setSelectedId] = useState<string | null>(null);
+    const { data: tree } = useScriptVersions(scriptId);
+    const { data: diff, isLoading: isDiffLoading } = useScriptDiff(scriptId, selectedId);
+    const { mutate: restore, isPending: isRestoring } = useRestoreScriptVersion();
+
+    if (!tree || tree.versions.length < 2) return null;
+
+    const handleRestore = (id: string) => {
+        restore(id, {
+            onSuccess: (restored) => {
+                setSelectedId(null);
+                onRestored?.(restored.script);
+            },
+        });
+    };
+
+    return (
+        <div>
+            <span className="text-xs text-slate-500 mb-1 flex items-center gap-1">
+                <GitBranch className="w-3 h-3" />
+                Versiyonlar ({tree.versions.length})
+            </span>
+            <div className="max-h-48 overflow-y-auto space-y-0.5">
+                {tree.versions.map((version, index) => {
+                    const isCurrent = version.id === scriptId;
+                    const isSelected = version.id === selectedId;
+
+                    return (
+                        <div key={version.id}>
+                            <button
+                                onClick={() => setSelectedId(isSelected || isCurrent ? null : version.id)}
+                                style={{ paddingLeft: `${version.depth * 12 + 8}px` }}
+                                className={`
+                                    w-full flex items-center gap-2 pr-2 py-1 rounded text-left text-xs transition-colors
+                                    ${isCurrent
+                                        ? 'bg-blue-500/20 text-blue-300'
+                                        : isSelected
+                                            ? 'bg-slate-600/50 text-slate-200'
+                                            : 'text-slate-400 hover:bg-slate-700/50'
+                                    }
+                                `}
+                            >
+                                <span className="text-slate-500">v{index + 1}</span>
+                                <span className="truncate">{versionLabel(version)}</span>
+                                {version.score !== undefined && (
+                                    <span className="ml-auto text-slate-500">{Math.round(version.score)}</span>
+                                )}
+                                {isCurrent && <span className="text-[10px] text-blue-400">şu an</span>}
+                            </button>
+
+                            {/* What restoring would change in the current version */}
+                            {isSelected && (
+                                <div className="ml-4 my-1 p-2 bg-slate-900/50 rounded border border-slate-700/50 space-y-2">
+                                    {isDiffLoading ? (
+                                        <RefreshCw className="w-3 h-3 animate-spin text-slate-500" />
+                                    ) : diff && diff.changedSections.length === 0 ? (
+                                        <p className="text-xs text-slate-500">Şu anki versiyonla aynı</p>
+                                    ) : (
+                                        diff?.sections.filter(section => section.changed).map(section => (
+                                            <div key={section.section} className="text-xs space-y-0.5">
+                                                <span className="text-slate-500">{DIFF_SECTION_LABELS[section.section]}</span>
+                                                <p className="text-red-300/80 line-through">{section.from || '—'}</p>
+                                                <p className="text-green-300/80">{section.to || '—'}</p>
+                                            </div>
+                                        ))
+                                    )}
+                                    {onRestored && (
+                                        <button
+                                            onClick={() => handleRestore(version.id)}
+                                            disabled={isRestoring}
+                                            className={`
+                                                flex items-center gap-1 px-2 py-1 rounded text-xs transition-all
+                                                bg-slate-700/50 text-slate-300 hover:bg-slate-600/50
+                                                ${isRestoring ? 'opacity-50 cursor-not-allowed' : ''}
+                                            `}
+                                        >
+                                            {isRestoring ? (
+                                                <RefreshCw className="w-3 h-3 animate-spin" />
+                                            ) : (
+                                                <RotateCcw className="w-3 h-3" />
+                                            )}
+                                            v{index + 1} versiyonunu geri yükle
+                                        </button>
+                                    )}
+                                </div>
+                            )}
+                        </div>
+                    );
+                })}
+            </div>
+        </div>
+    );
+}
+
 interface IterationPanelProps {
     /** Current script to iterate on */
     script: PlatformScript;
     /** Callback when script is updated */
     onScriptUpdated: (result: IterationResult) => void;
+    /** Callback with the translated script; hides translation when absent */
+    onScriptTranslated?: (script: PlatformScript) => void;
+    /** Callback with a restored older version; hides restore when absent */
+    onVersionRestored?: (script: PlatformScript) => void;
     /** Whether panel is compact */
     compact?: boolean;
 }
@@ -52,6 +187,8 @@ interface IterationPanelProps {
 export function IterationPanel({
     script,
     onScriptUpdated,
+    onScriptTranslated,
+    onVersionRestored,
     compact = false,
 }: IterationPanelProps) {
     const [expanded, setExpanded] = useState(!compact);
@@ -59,7 +196,15 @@ export function IterationPanel({
     const [additionalInstructions, setAdditionalInstructions] = useState('');
     const [selectedTone, setSelectedTone] = useState<'casual' | 'professional' | 'humorous' | 'dramatic'>('casual');
 
-    const { mutate: iterate, isPending } = useIterateScript();
+    const { mutate: iterate, isPending: isIterating } = useIterateScript();
+    const { mutate: translate, isPending: isTranslating } = useTranslateScript();
+    const isPending = isIterating || isTranslating;
+
+    const scriptLanguage: ScriptLanguage = script.metadata.language ?? 'tr';
+    const targetLanguages = (Object.keys(LANGUAGE_LABELS) as ScriptLanguage[]).filter(lang => lang !== scriptLanguage);
+    const [targetLanguage, setTargetLanguage] = useState<ScriptLanguage>(targetLanguages[0]);
+    // After a translation the script's own language drops out of the list
+    const selectedTarget = targetLanguages.includes(targetLanguage) ? targetLanguage : targetLanguages[0];
 
     const handleIterate = useCallback((target: IterationTarget) => {
         setActiveTarget(target);
@@ -84,6 +229,21 @@ export function IterationPanel({
         );
     }, [script, iterate, onScriptUpdated, additionalInstructions, selectedTone]);
 
+    const handleTranslate = useCallback(() => {
+        if (!onScriptTranslated) return;
+
+        translate(
+            { script, targetLanguages: [selectedTarget] },
+            {
+                onSuccess: (translations) => {
+                    if (translations[0]) {
+                        onScriptTranslated(translations[0].translatedScript);
+                    }
+                },
+            }
+        );
+    }, [script, selectedTarget, translate, onScriptTranslated]);
+
     const sectionButtons = ITERATION_BUTTONS.filter(b => b.group === 'section');
     const actionButtons = ITERATION_BUTTONS.filter(b => b.group === 'action');
 
@@ -191,6 +351,40 @@ export function IterationPanel({
                 </select>
             </div>
 
+            {/* Translation: same content, timing kept per section */}
+            {onScriptTranslated && (
+                <div className="flex items-center gap-2">
+                    <span className="text-xs text-slate-500">Çeviri:</span>
+                    <select
+                        value={selectedTarget}
+                        onChange={(e) => setTargetLanguage(e.target.value as ScriptLanguage)}
+                        className="bg-slate-700 text-slate-300 text-xs rounded px-2 py-1 border border-slate-600 focus:outline-none focus:border-blue-500"
+                        disabled={isPending}
+                    >
+                        {targetLanguages.map((lang) => (
+                            <option key={lang} value={lang}>{LANGUAGE_LABELS[lang]}</option>
+                        ))}
+                    </select>
+                    <button
+                        onClick={handleTranslate}
+                        disabled={isPending}
+                        className={`
+                            flex items-center gap-1 px-2 py-1 rounded text-xs transition-all
+                            bg-slate-700/50 text-slate-300 hover:bg-slate-600/50 border border-transparent
+                            ${isPending ? 'opacity-50 cursor-not-allowed' : ''}
+                        `}
+                        title="Süreleri koruyarak çevir, hashtag'leri yeniden üret"
+                    >
+                        {isTranslating ? (
+                            <RefreshCw className="w-3 h-3 animate-spin" />
+                        ) : (
+                            <Languages className="w-3 h-3" />
+                        )}
+                        Çevir
+                    </button>
+                </div>
+            )}
+
             {/* Additional instructions */}
             <div>
                 <input
@@ -202,6 +396,11 @@ export function IterationPanel({
                     disabled={isPending}
                 />
             </div>
+
+            {/* Version tree */}
+            {script.metadata.libraryId && (
+                <VersionTree scriptId={script.metadata.libraryId} onRestored={onVersionRestored} />
+            )}
         </div>
     );
 }
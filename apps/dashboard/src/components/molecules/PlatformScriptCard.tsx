@@ -15,6 +15,8 @@ import { Copy, Check, ChevronDown, ChevronUp, Clock, FileText, AlertCircle, Spar
 import { AlgorithmEducationPanel } from './AlgorithmEducationPanel';
 import { AlgorithmScoreCard, CompactScoreBadge } from './AlgorithmScoreCard';
 import { IterationPanel } from './IterationPanel';
+import { RatingPanel } from './RatingPanel';
+import { useScriptRating, useRateScript } from '../../lib/hooks';
 import { VisualDiscoveryPanel, type SectionType } from './VisualDiscoveryPanel';
 import { SelectedVisualsPreview } from './SelectedVisualsPreview';
 import { useVisualSelections } from '../../lib/useVisualSelections';
@@ -154,6 +156,26 @@ function ScriptSection({
     );
 }
 
+/**
+ * Team rating of a saved script; liked scripts with 4+ stars become
+ * few-shot examples for new scripts
+ */
+function ScriptRatingSection({ libraryId }: { libraryId: string }) {
+    const { data: rating, isLoading } = useScriptRating(libraryId);
+    const { mutate: rate } = useRateScript();
+
+    if (isLoading) return null;
+
+    return (
+        <RatingPanel
+            key={rating?.updatedAt ?? 'unrated'}
+            currentRating={rating?.rating}
+            currentStars={rating?.stars}
+            onRate={(value, stars, feedback) => rate({ scriptId: libraryId, rating: value, stars, feedback })}
+        />
+    );
+}
+
 export function PlatformScriptCard({
     platform,
     result,
@@ -559,12 +581,21 @@ export function PlatformScriptCard({
                                 <IterationPanel
                                     script={script}
                                     onScriptUpdated={handleIterationResult}
+                                    onScriptTranslated={onScriptUpdated}
+                                    onVersionRestored={onScriptUpdated}
                                 />
                             </div>
                         )}
                     </div>
                 )}
 
+                {/* Rating */}
+                {script.metadata.libraryId && (
+                    <div className="px-3 py-2 border-t border-slate-800">
+                        <ScriptRatingSection libraryId={script.metadata.libraryId} />
+                    </div>
+                )}
+
                 {/* Hashtags */}
                 <div className="px-3 py-2 border-t border-slate-800 flex flex-wrap gap-1">
                     {script.hashtags.slice(0, 5).map((tag, i) => (
@@ -691,6 +722,7 @@ export function PlatformScriptCard({
                     sectionType={visualPanelSection}
                     content={visualPanelContent}
                     category={script.metadata.category}
+                    language={script.metadata.language}
                     onImageSelect={handleImageSelect}
                     isImageSelected={(imageId) => isSelected(visualPanelSection as SelectableSectionType, imageId)}
                     getSelectionOrder={(imageId) => getSelectionOrder(visualPanelSection as SelectableSectionType, imageId)}
@@ -703,6 +735,7 @@ export function PlatformScriptCard({
             <VoiceSelectionModal
                 isOpen={voiceModalOpen}
                 onClose={() => setVoiceModalOpen(false)}
+                language={script.metadata.language}
             />
 
             {/* Video Generation Modal */}
@@ -9,7 +9,7 @@
 
 import { useState } from 'react';
 import { ThumbsUp, ThumbsDown, Star, MessageSquare, Check } from 'lucide-react';
-import type { RatingType } from '../../lib/useScriptRating';
+import type { RatingType } from '../../lib/api';
 
 interface RatingPanelProps {
     /** Current rating if exists */
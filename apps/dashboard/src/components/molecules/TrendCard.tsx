@@ -16,6 +16,8 @@ interface TrendCardProps {
     title: string;
     subreddit: string;
     category: string;
+    /** Trend source; channels of non-Reddit sources are shown without the r/ prefix */
+    source?: 'reddit' | 'rss';
     nes: number;
     score: number;
     numComments: number;
@@ -59,6 +61,7 @@ function getNesVariant(nes: number): 'success' | 'warning' | 'danger' | 'default
 export function TrendCard({
     title,
     subreddit,
+    source = 'reddit',
     nes,
     score,
     numComments,
@@ -95,7 +98,9 @@ export function TrendCard({
                         size="sm"
                     />
                 )}
-                <span className="text-xs text-slate-500 ml-auto">r/{subreddit}</span>
+                <span className="text-xs text-slate-500 ml-auto">
+                    {source === 'reddit' ? `r/${subreddit}` : subreddit}
+                </span>
             </div>
 
             <a
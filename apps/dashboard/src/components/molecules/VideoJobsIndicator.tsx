@@ -23,6 +23,7 @@ import {
 import { useVideoJobs } from '../../lib/useVideoJobs';
 import type { VideoGenerationProgress, VideoJobStatus, Platform } from '../../lib/api';
 import { PLATFORM_LABELS, PLATFORM_COLORS } from '../../lib/api';
+import { withApiKey } from '../../lib/apiKey';
 
 // =============================================================================
 // Constants
@@ -179,7 +180,7 @@ export function VideoJobsIndicator() {
 
         // Create download link
         const link = document.createElement('a');
-        link.href = `/api/video/download/${jobId}`;
+        link.href = withApiKey(`/api/video/download/${jobId}`);
         link.download = `${jobId}.mp4`;
         document.body.appendChild(link);
         link.click();
@@ -8,9 +8,10 @@
  */
 
 import { useState, useRef } from 'react';
-import { Download, RefreshCw, Play, Pause, CheckCircle, Film, Clock, HardDrive } from 'lucide-react';
-import type { VideoGenerationResult, Platform } from '../../lib/api';
+import { Download, RefreshCw, Play, Pause, CheckCircle, Film, Clock, HardDrive, Captions, Music } from 'lucide-react';
+import type { VideoGenerationResult, Platform, SubtitleFormat } from '../../lib/api';
 import { PLATFORM_LABELS, PLATFORM_COLORS } from '../../lib/api';
+import { withApiKey } from '../../lib/apiKey';
 
 interface VideoPreviewCardProps {
     /** Generation result */
@@ -45,6 +46,8 @@ function formatDuration(seconds?: number): string {
     return mins > 0 ? `${mins}:${secs.toString().padStart(2, '0')}` : `${secs}s`;
 }
 
+const SUBTITLE_FORMATS: SubtitleFormat[] = ['srt', 'vtt', 'ass'];
+
 /**
  * Video preview card with playback controls
  */
@@ -77,7 +80,7 @@ export function VideoPreviewCard({
 
         // Create download link
         const link = document.createElement('a');
-        link.href = `/api/video/download/${result.jobId}`;
+        link.href = withApiKey(`/api/video/download/${result.jobId}`);
         link.download = `${platform}_video_${result.jobId}.mp4`;
         document.body.appendChild(link);
         link.click();
@@ -140,7 +143,7 @@ export function VideoPreviewCard({
                     <>
                         <video
                             ref={videoRef}
-                            src={`/api/video/stream/${result.jobId}`}
+                            src={withApiKey(`/api/video/stream/${result.jobId}`)}
                             className="w-full h-full object-contain"
                             onEnded={() => setIsPlaying(false)}
                             playsInline
@@ -182,6 +185,15 @@ export function VideoPreviewCard({
                             <HardDrive className="w-3 h-3" />
                             {formatFileSize(result.fileSize)}
                         </span>
+                        {result.backgroundMusic && (
+                            <span
+                                className="flex items-center gap-1 truncate max-w-[10rem]"
+                                title={`${result.backgroundMusic.title} (${result.backgroundMusic.mood})`}
+                            >
+                                <Music className="w-3 h-3 shrink-0" />
+                                {result.backgroundMusic.title}
+                            </span>
+                        )}
                     </div>
                     <div className="flex items-center gap-1 text-green-400">
                         <CheckCircle className="w-3 h-3" />
@@ -189,6 +201,24 @@ export function VideoPreviewCard({
                     </div>
                 </div>
 
+                {/* Subtitle Downloads */}
+                {result.subtitles && (
+                    <div className="flex items-center gap-2 mb-3 text-xs text-slate-400">
+                        <Captions className="w-3 h-3" />
+                        <span>Altyazı:</span>
+                        {SUBTITLE_FORMATS.map(format => (
+                            <a
+                                key={format}
+                                href={withApiKey(`/api/video/${result.jobId}/captions?format=${format}`)}
+                                download
+                                className="px-1.5 py-0.5 bg-slate-800 hover:bg-slate-700 text-slate-300 rounded uppercase transition-colors"
+                            >
+                                {format}
+                            </a>
+                        ))}
+                    </div>
+                )}
+
                 {/* Action Buttons */}
                 <div className="flex items-center gap-2">
                     <button
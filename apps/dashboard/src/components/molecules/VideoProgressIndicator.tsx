@@ -85,6 +85,9 @@ export function VideoProgressIndicator({
 }: VideoProgressIndicatorProps) {
     const { status, progress: percent, currentStep, estimatedTimeRemaining } = progress;
 
+    // ETA is only meaningful while the job is still running
+    const showEta = !!estimatedTimeRemaining && status !== 'complete' && status !== 'failed';
+
     // Filter out failed state from display steps (show only workflow steps)
     const displaySteps = VIDEO_STATUS_STEPS.filter(s => s.status !== 'failed');
 
@@ -119,7 +122,7 @@ export function VideoProgressIndicator({
                 {/* Current Step */}
                 <div className="flex items-center justify-between text-[10px]">
                     <span className="text-slate-400">{currentStep}</span>
-                    {estimatedTimeRemaining && (
+                    {showEta && (
                         <span className="text-slate-500">{formatTime(estimatedTimeRemaining)}</span>
                     )}
                 </div>
@@ -138,7 +141,7 @@ export function VideoProgressIndicator({
                             ? '❌ Hata Oluştu'
                             : '🎬 Video Oluşturuluyor...'}
                 </span>
-                {estimatedTimeRemaining && status !== 'complete' && status !== 'failed' && (
+                {showEta && (
                     <span className="text-xs text-slate-400">
                         {formatTime(estimatedTimeRemaining)}
                     </span>
@@ -11,6 +11,7 @@ import { useEffect, useCallback } from 'react';
 import { X, Image, Loader2, AlertCircle, Search, RefreshCw, CheckCircle } from 'lucide-react';
 import { VisualCard } from '../atoms/VisualCard';
 import { useVisualSearch, type ValidatedImage } from '../../lib/useVisualSearch';
+import type { ScriptLanguage } from '../../lib/api';
 
 /**
  * Section type for visual discovery
@@ -31,6 +32,8 @@ interface VisualDiscoveryPanelProps {
     content: string;
     /** Category for better matching */
     category?: string;
+    /** Script language, for the stopwords filtered from keywords */
+    language?: ScriptLanguage;
     /** Optional callback when image is selected */
     onImageSelect?: (image: ValidatedImage) => void;
     /** Function to check if an image is selected */
@@ -79,6 +82,7 @@ export function VisualDiscoveryPanel({
     sectionType,
     content,
     category = 'general',
+    language,
     onImageSelect,
     isImageSelected,
     getSelectionOrder,
@@ -96,6 +100,7 @@ export function VisualDiscoveryPanel({
     } = useVisualSearch({
         content,
         category,
+        language,
         count: 12,
         validateImages: false, // Skip validation for faster results
     });
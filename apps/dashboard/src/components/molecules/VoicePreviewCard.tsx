@@ -10,6 +10,7 @@
 import { useState, useRef } from 'react';
 import { Play, Pause, Check, Star, User, AlertCircle, Loader2 } from 'lucide-react';
 import type { Voice } from '../../lib/voiceTypes';
+import { apiFetch } from '../../lib/api';
 
 interface VoicePreviewCardProps {
     /** Voice data */
@@ -119,7 +120,7 @@ export function VoicePreviewCard({
             // Fetch base64 data URL from backend (cached for 7 days)
             const url = `/api/voice/preview/${voice.id}?provider=${voice.provider}`;
             console.log('[VoicePreviewCard] Fetching:', url);
-            const response = await fetch(url);
+            const response = await apiFetch(url);
             console.log('[VoicePreviewCard] Response status:', response.status);
 
             if (!response.ok) {
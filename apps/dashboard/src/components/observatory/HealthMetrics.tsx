@@ -8,6 +8,7 @@
 
 import { useQuery } from '@tanstack/react-query';
 import { Heart, Server, Brain, Database, Wifi, AlertTriangle, CheckCircle, XCircle } from 'lucide-react';
+import { apiFetch } from '../../lib/api';
 
 const API_BASE = import.meta.env.VITE_API_URL || '/api';
 
@@ -120,7 +121,7 @@ function MetricBox({
  * Fetch health data
  */
 async function fetchHealthData(): Promise<HealthData> {
-    const response = await fetch(`${API_BASE}/health`);
+    const response = await apiFetch(`${API_BASE}/health`);
     if (!response.ok) throw new Error('Health check failed');
     const json = await response.json();
     return {
@@ -136,7 +137,7 @@ async function fetchHealthData(): Promise<HealthData> {
  */
 async function fetchAIStatus(): Promise<AIStatus> {
     try {
-        const response = await fetch(`${API_BASE}/ai/status`);
+        const response = await apiFetch(`${API_BASE}/ai/status`);
         if (!response.ok) {
             return { isConfigured: false, model: 'N/A', status: 'error' };
         }
@@ -0,0 +1,315 @@
+/**
+ * Usage & Cost Panel
+ *
+ * Displays token, character and request usage with estimated cost,
+ * rolled up by day, trend, platform, provider or operation, and spend
+ * against the configured provider budgets.
+ *
+ * @module components/observatory/UsagePanel
+ */
+
+import { useState } from 'react';
+import { useQuery } from '@tanstack/react-query';
+import { Wallet, DollarSign, Brain, Mic, Image, Gauge } from 'lucide-react';
+import { apiFetch } from '../../lib/api';
+
+const API_BASE = import.meta.env.VITE_API_URL || '/api';
+
+/**
+ * Usage summary types (mirror engine usage/usageTypes)
+ */
+type UsageGroupBy = 'day' | 'trend' | 'platform' | 'provider' | 'operation';
+
+interface UsageTotals {
+    events: number;
+    inputTokens: number;
+    outputTokens: number;
+    characters: number;
+    requests: number;
+    costUsd: number;
+}
+
+interface UsageBucket extends UsageTotals {
+    key: string;
+}
+
+interface UsageSummary {
+    from: string;
+    to: string;
+    groupBy: UsageGroupBy;
+    currency: 'USD';
+    totals: UsageTotals;
+    buckets: UsageBucket[];
+}
+
+interface BudgetStatus {
+    provider: string;
+    period: 'daily' | 'monthly';
+    limitUsd: number;
+    spentUsd: number;
+    ratio: number;
+    state: 'ok' | 'warning' | 'exceeded';
+    resetsAt: string;
+}
+
+const BUDGET_STATE_STYLES: Record<BudgetStatus['state'], { bar: string; text: string }> = {
+    ok: { bar: 'bg-emerald-500', text: 'text-emerald-400' },
+    warning: { bar: 'bg-amber-500', text: 'text-amber-400' },
+    exceeded: { bar: 'bg-red-500', text: 'text-red-400' },
+};
+
+const GROUP_BY_OPTIONS: Array<{ id: UsageGroupBy; label: string }> = [
+    { id: 'day', label: 'Gün' },
+    { id: 'trend', label: 'Trend' },
+    { id: 'platform', label: 'Platform' },
+    { id: 'provider', label: 'Sağlayıcı' },
+    { id: 'operation', label: 'İşlem' },
+];
+
+/**
+ * Metric box component
+ */
+function MetricBox({
+    icon: Icon,
+    label,
+    value,
+    sublabel,
+    color = 'indigo',
+}: {
+    icon: React.ElementType;
+    label: string;
+    value: string | number;
+    sublabel?: string;
+    color?: 'indigo' | 'emerald' | 'amber' | 'cyan';
+}) {
+    const colors = {
+        indigo: 'border-indigo-500/30 text-indigo-400',
+        emerald: 'border-emerald-500/30 text-emerald-400',
+        amber: 'border-amber-500/30 text-amber-400',
+        cyan: 'border-cyan-500/30 text-cyan-400',
+    };
+
+    return (
+        <div className={`p-4 bg-slate-800/50 border ${colors[color]} rounded-lg`}>
+            <div className="flex items-center gap-2 text-sm text-slate-400 mb-2">
+                <Icon className={`w-4 h-4 ${colors[color].split(' ').pop()}`} />
+                {label}
+            </div>
+            <div className="text-2xl font-bold text-slate-100">{value}</div>
+            {sublabel && <div className="text-xs text-slate-500 mt-1">{sublabel}</div>}
+        </div>
+    );
+}
+
+function formatCost(value: number): string {
+    return `$${value.toFixed(value < 1 ? 4 : 2)}`;
+}
+
+function formatCount(value: number): string {
+    return value.toLocaleString('tr-TR');
+}
+
+/**
+ * Fetch usage summary
+ */
+async function fetchUsage(groupBy: UsageGroupBy): Promise<UsageSummary> {
+    const response = await apiFetch(`${API_BASE}/usage?groupBy=${groupBy}`);
+    if (!response.ok) throw new Error('Usage fetch failed');
+    const json = await response.json();
+    if (!json.success) throw new Error(json.error || 'Usage fetch failed');
+    return json.data as UsageSummary;
+}
+
+/**
+ * Fetch budget status
+ */
+async function fetchBudgets(): Promise<BudgetStatus[]> {
+    const response = await apiFetch(`${API_BASE}/usage/budgets`);
+    if (!response.ok) throw new Error('Budget fetch failed');
+    const json = await response.json();
+    return json.data?.budgets ?? [];
+}
+
+/**
+ * Budget progress bar
+ */
+function BudgetBar({ budget }: { budget: BudgetStatus }) {
+    const style = BUDGET_STATE_STYLES[budget.state];
+
+    return (
+        <div className="p-3 bg-slate-800/50 border border-slate-700 rounded-lg">
+            <div className="flex items-center justify-between text-sm mb-2">
+                <span className="text-slate-300">
+                    {budget.provider} • {budget.period === 'daily' ? 'Günlük' : 'Aylık'}
+                </span>
+                <span className={style.text}>
+                    {formatCost(budget.spentUsd)} / {formatCost(budget.limitUsd)}
+                </span>
+            </div>
+            <div className="h-2 bg-slate-700 rounded-full overflow-hidden">
+                <div
+                    className={`h-full ${style.bar}`}
+                    style={{ width: `${Math.min(budget.ratio, 1) * 100}%` }}
+                />
+            </div>
+            <div className="text-xs text-slate-500 mt-1">
+                Sıfırlanma: {new Date(budget.resetsAt).toLocaleString('tr-TR')}
+            </div>
+        </div>
+    );
+}
+
+/**
+ * Usage Panel Component
+ */
+export function UsagePanel() {
+    const [groupBy, setGroupBy] = useState<UsageGroupBy>('day');
+
+    const { data: usage, isLoading, error } = useQuery<UsageSummary>({
+        queryKey: ['observatory', 'usage', groupBy],
+        queryFn: () => fetchUsage(groupBy),
+        staleTime: 60 * 1000, // 1 minute
+    });
+
+    const { data: budgets } = useQuery<BudgetStatus[]>({
+        queryKey: ['observatory', 'usage-budgets'],
+        queryFn: fetchBudgets,
+        staleTime: 60 * 1000, // 1 minute
+    });
+
+    return (
+        <div className="space-y-6">
+            {/* Header */}
+            <div>
+                <h2 className="text-2xl font-bold text-slate-100 flex items-center gap-2">
+                    <Wallet className="w-6 h-6 text-lime-400" />
+                    Kullanım & Maliyet
+                </h2>
+                <p className="text-sm text-slate-400 mt-1">
+                    Son 30 gün • Maliyetler kayıt anındaki fiyatlarla hesaplanır
+                </p>
+            </div>
+
+            {/* Budgets */}
+            {budgets && budgets.length > 0 && (
+                <div>
+                    <h3 className="text-sm font-medium text-slate-400 flex items-center gap-2 mb-2">
+                        <Gauge className="w-4 h-4" />
+                        Bütçeler
+                    </h3>
+                    <div className="grid grid-cols-1 md:grid-cols-3 gap-3">
+                        {budgets.map(budget => (
+                            <BudgetBar key={`${budget.provider}-${budget.period}`} budget={budget} />
+                        ))}
+                    </div>
+                </div>
+            )}
+
+            {/* Group by switcher */}
+            <div className="flex flex-wrap gap-2">
+                {GROUP_BY_OPTIONS.map(option => (
+                    <button
+                        key={option.id}
+                        onClick={() => setGroupBy(option.id)}
+                        className={`px-3 py-1.5 rounded-full text-sm border transition-colors ${groupBy === option.id
+                            ? 'bg-lime-500/20 border-lime-500/40 text-lime-300'
+                            : 'bg-slate-800/50 border-slate-700 text-slate-400 hover:text-slate-200'
+                            }`}
+                    >
+                        {option.label}
+                    </button>
+                ))}
+            </div>
+
+            {isLoading && (
+                <div className="grid grid-cols-2 md:grid-cols-4 gap-4">
+                    {[...Array(4)].map((_, i) => (
+                        <div key={i} className="h-24 rounded-lg bg-slate-800/50 animate-pulse" />
+                    ))}
+                </div>
+            )}
+
+            {error && (
+                <div className="p-4 bg-red-900/30 border border-red-700 rounded-lg text-red-300">
+                    Kullanım verileri yüklenemedi: {error instanceof Error ? error.message : 'Bilinmeyen hata'}
+                </div>
+            )}
+
+            {usage && (
+                <>
+                    {/* Totals */}
+                    <div className="grid grid-cols-2 md:grid-cols-4 gap-4">
+                        <MetricBox
+                            icon={DollarSign}
+                            label="Toplam Maliyet"
+                            value={formatCost(usage.totals.costUsd)}
+                            sublabel={`${formatCount(usage.totals.events)} çağrı`}
+                            color="emerald"
+                        />
+                        <MetricBox
+                            icon={Brain}
+                            label="LLM Token"
+                            value={formatCount(usage.totals.inputTokens + usage.totals.outputTokens)}
+                            sublabel={`${formatCount(usage.totals.inputTokens)} girdi / ${formatCount(usage.totals.outputTokens)} çıktı`}
+                            color="indigo"
+                        />
+                        <MetricBox
+                            icon={Mic}
+                            label="TTS Karakter"
+                            value={formatCount(usage.totals.characters)}
+                            sublabel="ElevenLabs + Fish Audio"
+                            color="cyan"
+                        />
+                        <MetricBox
+                            icon={Image}
+                            label="Görsel İstekleri"
+                            value={formatCount(usage.totals.requests)}
+                            sublabel="Pexels"
+                            color="amber"
+                        />
+                    </div>
+
+                    {/* Buckets */}
+                    {usage.buckets.length === 0 ? (
+                        <div className="p-6 text-center text-sm text-slate-500 bg-slate-800/30 border border-slate-700 rounded-lg">
+                            Bu aralıkta kayıtlı kullanım yok
+                        </div>
+                    ) : (
+                        <div className="overflow-x-auto border border-slate-700 rounded-lg">
+                            <table className="w-full text-sm">
+                                <thead className="bg-slate-800/70 text-slate-400">
+                                    <tr>
+                                        <th className="px-4 py-2 text-left font-medium">
+                                            {GROUP_BY_OPTIONS.find(option => option.id === usage.groupBy)?.label}
+                                        </th>
+                                        <th className="px-4 py-2 text-right font-medium">Çağrı</th>
+                                        <th className="px-4 py-2 text-right font-medium">Token</th>
+                                        <th className="px-4 py-2 text-right font-medium">Karakter</th>
+                                        <th className="px-4 py-2 text-right font-medium">İstek</th>
+                                        <th className="px-4 py-2 text-right font-medium">Maliyet</th>
+                                    </tr>
+                                </thead>
+                                <tbody className="divide-y divide-slate-800">
+                                    {usage.buckets.map(bucket => (
+                                        <tr key={bucket.key} className="text-slate-300">
+                                            <td className="px-4 py-2 font-mono text-xs">{bucket.key}</td>
+                                            <td className="px-4 py-2 text-right">{formatCount(bucket.events)}</td>
+                                            <td className="px-4 py-2 text-right">
+                                                {formatCount(bucket.inputTokens + bucket.outputTokens)}
+                                            </td>
+                                            <td className="px-4 py-2 text-right">{formatCount(bucket.characters)}</td>
+                                            <td className="px-4 py-2 text-right">{formatCount(bucket.requests)}</td>
+                                            <td className="px-4 py-2 text-right text-emerald-400">
+                                                {formatCost(bucket.costUsd)}
+                                            </td>
+                                        </tr>
+                                    ))}
+                                </tbody>
+                            </table>
+                        </div>
+                    )}
+                </>
+            )}
+        </div>
+    );
+}
@@ -12,3 +12,4 @@ export { ArchitectureMap } from './ArchitectureMap';
 export { ApiCatalog } from './ApiCatalog';
 export { FeatureStatus } from './FeatureStatus';
 export { HealthMetrics } from './HealthMetrics';
+export { UsagePanel } from './UsagePanel';
@@ -0,0 +1,101 @@
+/**
+ * ApiKeyDialog Component
+ *
+ * Asks for the engine API key when the engine answers 401 or when the user
+ * opens it from the header. The key is kept in this browser only.
+ *
+ * @module components/organisms/ApiKeyDialog
+ */
+
+import { useEffect, useState, type FormEvent } from 'react';
+import { useQueryClient } from '@tanstack/react-query';
+import { KeyRound, X } from 'lucide-react';
+import { Button } from '../atoms';
+import { getApiKey, setApiKey, subscribeToApiKeyRequests, type ApiKeyPromptReason } from '../../lib/apiKey';
+import { reconnectJobEvents } from '../../lib/jobEvents';
+
+export function ApiKeyDialog() {
+    const queryClient = useQueryClient();
+    const [reason, setReason] = useState<ApiKeyPromptReason | null>(null);
+    const [draft, setDraft] = useState('');
+
+    useEffect(() => subscribeToApiKeyRequests((nextReason) => {
+        setDraft(getApiKey() ?? '');
+        setReason(nextReason);
+    }), []);
+
+    if (!reason) return null;
+
+    const close = () => setReason(null);
+
+    const handleSubmit = (event: FormEvent) => {
+        event.preventDefault();
+        setApiKey(draft.trim() || null);
+        close();
+
+        // Retry what failed with the new key
+        reconnectJobEvents();
+        queryClient.invalidateQueries();
+    };
+
+    return (
+        <div className="fixed inset-0 z-50 flex items-center justify-center p-4">
+            {/* Backdrop */}
+            <div
+                className="absolute inset-0 bg-black/70 backdrop-blur-sm"
+                onClick={close}
+            />
+
+            {/* Modal */}
+            <form
+                onSubmit={handleSubmit}
+                className="relative w-full max-w-md bg-slate-900 rounded-xl shadow-2xl border border-slate-700"
+            >
+                <div className="flex items-center justify-between p-4 border-b border-slate-700">
+                    <div className="flex items-center gap-3">
+                        <div className="p-2 rounded-lg bg-indigo-600/20">
+                            <KeyRound className="w-5 h-5 text-indigo-400" />
+                        </div>
+                        <h2 className="text-lg font-semibold text-slate-100">API Anahtarı</h2>
+                    </div>
+                    <button
+                        type="button"
+                        onClick={close}
+                        className="p-2 text-slate-400 hover:text-slate-200 hover:bg-slate-800 rounded-lg transition-colors"
+                    >
+                        <X className="w-5 h-5" />
+                    </button>
+                </div>
+
+                <div className="p-4 space-y-3">
+                    <p className="text-sm text-slate-400">
+                        {reason === 'unauthorized'
+                            ? 'Engine bu isteği reddetti. Geçerli bir API anahtarı girin.'
+                            : 'Engine isteklerinde kullanılacak API anahtarı. Boş bırakırsanız anahtar silinir.'}
+                    </p>
+                    <input
+                        type="password"
+                        value={draft}
+                        onChange={(e) => setDraft(e.target.value)}
+                        placeholder="ick_..."
+                        autoComplete="off"
+                        autoFocus
+                        className="w-full px-3 py-2 bg-slate-800 border border-slate-700 rounded-lg text-sm text-slate-100 placeholder-slate-500 focus:outline-none focus:ring-2 focus:ring-indigo-500"
+                    />
+                    <p className="text-xs text-slate-500">
+                        Anahtar yalnızca bu tarayıcıda saklanır.
+                    </p>
+                </div>
+
+                <div className="flex justify-end gap-2 p-4 border-t border-slate-700">
+                    <Button type="button" variant="ghost" size="sm" onClick={close}>
+                        İptal
+                    </Button>
+                    <Button type="submit" size="sm">
+                        Kaydet
+                    </Button>
+                </div>
+            </form>
+        </div>
+    );
+}
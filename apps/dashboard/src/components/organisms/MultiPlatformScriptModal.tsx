@@ -40,6 +40,10 @@ const TONE_OPTIONS: Array<{ value: MultiPlatformOptions['tone']; label: string }
 const LANGUAGE_OPTIONS: Array<{ value: MultiPlatformOptions['language']; label: string }> = [
     { value: 'tr', label: 'Türkçe' },
     { value: 'en', label: 'English' },
+    { value: 'es', label: 'Español' },
+    { value: 'de', label: 'Deutsch' },
+    { value: 'pt', label: 'Português' },
+    { value: 'ar', label: 'العربية' },
 ];
 
 /**
@@ -238,6 +242,9 @@ export function MultiPlatformScriptModal({ trend, isOpen, onClose }: MultiPlatfo
     if (!isOpen) return null;
 
     const hasFailures = result && result.metadata.failureCount > 0;
+    const firstScript = result && Object.values(result.results)
+        .find((r): r is Extract<typeof r, { success: true }> => r?.success === true)
+        ?.script;
 
     return (
         <div
@@ -565,11 +572,8 @@ export function MultiPlatformScriptModal({ trend, isOpen, onClose }: MultiPlatfo
                                     <ImageSuggestionsPanel
                                         title={trend.title}
                                         category={trend.category}
-                                        hookContent={
-                                            Object.values(result.results)
-                                                .find((r): r is Extract<typeof r, { success: true }> => r?.success === true)
-                                                ?.script.sections.hook?.content
-                                        }
+                                        hookContent={firstScript?.sections.hook?.content}
+                                        language={firstScript?.metadata.language}
                                         onImageSelect={setSelectedImage}
                                         imageCount={6}
                                         showValidation={true}
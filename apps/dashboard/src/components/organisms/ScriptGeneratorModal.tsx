@@ -62,6 +62,10 @@ const TONE_OPTIONS: Array<{ value: ScriptOptions['tone']; label: string }> = [
 const LANGUAGE_OPTIONS: Array<{ value: ScriptOptions['language']; label: string }> = [
     { value: 'tr', label: 'Türkçe' },
     { value: 'en', label: 'English' },
+    { value: 'es', label: 'Español' },
+    { value: 'de', label: 'Deutsch' },
+    { value: 'pt', label: 'Português' },
+    { value: 'ar', label: 'العربية' },
 ];
 
 /**
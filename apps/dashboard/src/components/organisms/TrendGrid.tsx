@@ -201,6 +201,7 @@ export function TrendGrid({
                             id={trend.id}
                             title={trend.title}
                             subreddit={trend.subreddit}
+                            source={trend.source}
                             category={trend.category}
                             nes={trend.nes}
                             score={trend.score}
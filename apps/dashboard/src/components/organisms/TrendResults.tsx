@@ -68,6 +68,7 @@ export function TrendResults({ trends, isLoading = false }: TrendResultsProps) {
                         id={trend.id}
                         title={trend.title}
                         subreddit={trend.subreddit}
+                        source={trend.source}
                         category={trend.category}
                         nes={trend.nes}
                         score={trend.score}
@@ -209,6 +209,7 @@ export function VideoGenerationModal({
             await startGeneration({
                 platform,
                 title: script.title,
+                language: script.metadata.language,
                 script: {
                     hook: script.sections.hook?.content || '',
                     body: script.sections.body.content,
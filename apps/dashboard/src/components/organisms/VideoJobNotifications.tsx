@@ -19,6 +19,7 @@ import {
 import { useVideoJobs } from '../../lib/useVideoJobs';
 import type { VideoGenerationProgress, Platform } from '../../lib/api';
 import { PLATFORM_LABELS, PLATFORM_COLORS } from '../../lib/api';
+import { withApiKey } from '../../lib/apiKey';
 
 // =============================================================================
 // Types
@@ -191,7 +192,7 @@ export function VideoJobNotifications() {
     // Handle download
     const handleDownload = useCallback((jobId: string) => {
         const link = document.createElement('a');
-        link.href = `/api/video/download/${jobId}`;
+        link.href = withApiKey(`/api/video/download/${jobId}`);
         link.download = `${jobId}.mp4`;
         document.body.appendChild(link);
         link.click();
@@ -12,6 +12,7 @@ import { useState, useEffect, useCallback } from 'react';
 import { X, Search, Volume2, AlertCircle, Loader2 } from 'lucide-react';
 import { VoicePreviewCard } from '../molecules/VoicePreviewCard';
 import type { Voice, VoiceProvider, VoiceListResponse } from '../../lib/voiceTypes';
+import { apiFetch, type ScriptLanguage } from '../../lib/api';
 import { useVoiceSelection } from '../../lib/useVoiceSelection';
 
 const API_BASE = '/api';
@@ -25,6 +26,8 @@ interface VoiceSelectionModalProps {
     onVoiceSelected?: (voice: Voice) => void;
     /** Title override */
     title?: string;
+    /** Only list voices that can speak this script language */
+    language?: ScriptLanguage;
 }
 
 export function VoiceSelectionModal({
@@ -32,6 +35,7 @@ export function VoiceSelectionModal({
     onClose,
     onVoiceSelected,
     title = 'Ses Seçimi',
+    language,
 }: VoiceSelectionModalProps) {
     const [voices, setVoices] = useState<Voice[]>([]);
     const [isLoading, setIsLoading] = useState(true);
@@ -55,7 +59,8 @@ export function VoiceSelectionModal({
             setError(null);
 
             try {
-                const response = await fetch(`${API_BASE}/voice/list`);
+                const query = language ? `?language=${language}` : '';
+                const response = await apiFetch(`${API_BASE}/voice/list${query}`);
 
                 if (!response.ok) {
                     const errorData = await response.json().catch(() => ({}));
@@ -79,7 +84,7 @@ export function VoiceSelectionModal({
         }
 
         fetchVoices();
-    }, [isOpen]);
+    }, [isOpen, language]);
 
     // Filter voices
     const filteredVoices = voices.filter(voice => {
@@ -9,4 +9,4 @@ export { FilterSidebar } from './FilterSidebar';
 export { VoiceSelectionModal } from './VoiceSelectionModal';
 export { VideoGenerationModal } from './VideoGenerationModal';
 export { VideoJobNotifications } from './VideoJobNotifications';
-
+export { ApiKeyDialog } from './ApiKeyDialog';
@@ -1,9 +1,29 @@
+import { getApiKey, requestApiKey } from './apiKey';
+
 const API_BASE = '/api';
 
 // Direct backend URL for large payload endpoints (bypasses Vite proxy body limit)
 // Video generation sends base64 audio which can exceed proxy limits
 const VIDEO_API_BASE = import.meta.env.DEV ? 'http://localhost:3000/api' : '/api';
 
+/**
+ * fetch for engine routes: sends the API key and asks for a new one
+ * when the engine answers 401
+ */
+export async function apiFetch(
+    url: string,
+    init: Omit<RequestInit, 'headers'> & { headers?: Record<string, string> } = {}
+): Promise<Response> {
+    const key = getApiKey();
+    const headers = key ? { Authorization: `Bearer ${key}`, ...init.headers } : init.headers;
+
+    const response = await fetch(url, { ...init, headers });
+    if (response.status === 401) {
+        requestApiKey('unauthorized');
+    }
+    return response;
+}
+
 export interface Category {
     id: string;
     label: string;
@@ -17,6 +37,11 @@ export interface Subreddit {
     tier: 1 | 2 | 3;
     subscribers: number;
     baselineScore: number;
+    /** Median observed average score, null until enough polls were recorded */
+    learnedBaseline?: number | null;
+    learnedSampleCount?: number;
+    /** Baseline NES currently normalizes against */
+    effectiveBaseline?: number;
 }
 
 export interface TrendData {
@@ -24,6 +49,7 @@ export interface TrendData {
     title: string;
     subreddit: string;
     category: string;
+    source?: 'reddit' | 'rss';
     score: number;
     upvoteRatio: number;
     numComments: number;
@@ -32,6 +58,7 @@ export interface TrendData {
     engagementVelocity: number;
     controversyFactor: number;
     ageHours: number;
+    acceleration?: number;
     sourceUrl: string;
     permalink: string;
     fetchedAt: string;
@@ -62,7 +89,7 @@ export interface EngineStatus {
 
 class ApiClient {
     private async fetchJson<T>(url: string): Promise<T> {
-        const response = await fetch(url);
+        const response = await apiFetch(url);
 
         if (!response.ok) {
             throw new Error(`API Error: ${response.status} ${response.statusText}`);
@@ -135,6 +162,23 @@ export type VideoFormat =
     | 'Highlights'
     | 'Deep Dive';
 
+/**
+ * Script languages
+ */
+export type ScriptLanguage = 'tr' | 'en' | 'es' | 'de' | 'pt' | 'ar';
+
+/**
+ * Language display names (in the language itself)
+ */
+export const LANGUAGE_LABELS: Record<ScriptLanguage, string> = {
+    tr: 'Türkçe',
+    en: 'English',
+    es: 'Español',
+    de: 'Deutsch',
+    pt: 'Português',
+    ar: 'العربية',
+};
+
 /**
  * Script generation options
  */
@@ -143,7 +187,7 @@ export interface ScriptOptions {
     durationSeconds: number;
     platform: 'tiktok' | 'reels' | 'shorts' | 'all';
     tone: 'casual' | 'professional' | 'humorous' | 'dramatic';
-    language: 'en' | 'tr';
+    language: ScriptLanguage;
     includeCta: boolean;
     includeHook: boolean;
 }
@@ -201,7 +245,7 @@ export const aiApi = {
      * Generate a video script from a trend
      */
     async generateScript(request: GenerateScriptRequest): Promise<GeneratedScript> {
-        const response = await fetch(`${API_BASE}/generate-script`, {
+        const response = await apiFetch(`${API_BASE}/generate-script`, {
             method: 'POST',
             headers: { 'Content-Type': 'application/json' },
             body: JSON.stringify(request),
@@ -224,7 +268,7 @@ export const aiApi = {
      * Get AI service status
      */
     async getStatus(): Promise<AIStatus> {
-        const response = await fetch(`${API_BASE}/ai/status`);
+        const response = await apiFetch(`${API_BASE}/ai/status`);
         if (!response.ok) {
             throw new Error(`API Error: ${response.status}`);
         }
@@ -241,7 +285,7 @@ export const aiApi = {
      * Get available video formats for a category
      */
     async getFormatsForCategory(category: string): Promise<VideoFormat[]> {
-        const response = await fetch(`${API_BASE}/ai/formats/${category}`);
+        const response = await apiFetch(`${API_BASE}/ai/formats/${category}`);
         if (!response.ok) {
             throw new Error(`API Error: ${response.status}`);
         }
@@ -327,6 +371,12 @@ export interface PlatformScript {
         trendId: string;
         category: string;
         agentVersion: string;
+        language?: ScriptLanguage;
+        /** Id of the script this one was translated from */
+        sourceScriptId?: string;
+        translatedFrom?: ScriptLanguage;
+        /** Id in the engine's script library, set once the script is saved */
+        libraryId?: string;
     };
 }
 
@@ -336,7 +386,7 @@ export interface PlatformScript {
  */
 export type PlatformScriptResult =
     | { success: true; script: PlatformScript }
-    | { success: false; error: string; retryable: boolean };
+    | { success: false; error: string; retryable: boolean; code?: string };
 
 /**
  * Platform comparison summary
@@ -379,9 +429,10 @@ export interface MultiPlatformOptions {
     platforms?: Platform[];
     durationSeconds?: number;
     tone?: 'casual' | 'professional' | 'humorous' | 'dramatic';
-    language?: 'en' | 'tr';
+    language?: ScriptLanguage;
     includeCta?: boolean;
     includeHook?: boolean;
+    profileId?: string;
 }
 
 /**
@@ -428,7 +479,7 @@ export const multiPlatformApi = {
      * Generate scripts for multiple platforms simultaneously
      */
     async generateScripts(request: MultiPlatformRequest): Promise<MultiPlatformResult> {
-        const response = await fetch(`${API_BASE}/generate-scripts`, {
+        const response = await apiFetch(`${API_BASE}/generate-scripts`, {
             method: 'POST',
             headers: { 'Content-Type': 'application/json' },
             body: JSON.stringify(request),
@@ -451,7 +502,7 @@ export const multiPlatformApi = {
      * Retry failed platform generations
      */
     async retryFailed(previousResult: MultiPlatformResult, options?: MultiPlatformOptions): Promise<MultiPlatformResult> {
-        const response = await fetch(`${API_BASE}/generate-scripts/retry`, {
+        const response = await apiFetch(`${API_BASE}/generate-scripts/retry`, {
             method: 'POST',
             headers: { 'Content-Type': 'application/json' },
             body: JSON.stringify({ previousResult, options }),
@@ -474,7 +525,7 @@ export const multiPlatformApi = {
      * Get all platforms with their capabilities
      */
     async getPlatforms(): Promise<PlatformInfo[]> {
-        const response = await fetch(`${API_BASE}/platforms`);
+        const response = await apiFetch(`${API_BASE}/platforms`);
         if (!response.ok) {
             throw new Error(`API Error: ${response.status}`);
         }
@@ -491,7 +542,7 @@ export const multiPlatformApi = {
      * Get optimization tips for a specific platform
      */
     async getPlatformTips(platform: Platform): Promise<PlatformTips> {
-        const response = await fetch(`${API_BASE}/platforms/${platform}/tips`);
+        const response = await apiFetch(`${API_BASE}/platforms/${platform}/tips`);
         if (!response.ok) {
             throw new Error(`API Error: ${response.status}`);
         }
@@ -632,7 +683,7 @@ export const classificationApi = {
      * Classify a trend and get format recommendations
      */
     async classifyTrend(trend: TrendData): Promise<ClassificationResult> {
-        const response = await fetch(`${API_BASE}/trends/${trend.id}/classify`, {
+        const response = await apiFetch(`${API_BASE}/trends/${trend.id}/classify`, {
             method: 'POST',
             headers: { 'Content-Type': 'application/json' },
             body: JSON.stringify({ trend }),
@@ -655,7 +706,7 @@ export const classificationApi = {
      * Score a platform script for viral potential
      */
     async scoreScript(script: PlatformScript): Promise<ScoreResult> {
-        const response = await fetch(`${API_BASE}/scripts/score`, {
+        const response = await apiFetch(`${API_BASE}/scripts/score`, {
             method: 'POST',
             headers: { 'Content-Type': 'application/json' },
             body: JSON.stringify({ script }),
@@ -716,6 +767,33 @@ export interface IterationResult {
     };
 }
 
+/**
+ * Translation request
+ */
+export interface TranslationRequest {
+    script: PlatformScript;
+    targetLanguages: ScriptLanguage[];
+    sourceScriptId?: string;
+}
+
+/**
+ * One translated script with its section timing against the original
+ */
+export interface ScriptTranslation {
+    translatedScript: PlatformScript;
+    sourceLanguage: ScriptLanguage;
+    targetLanguage: ScriptLanguage;
+    timing: {
+        section: 'hook' | 'body' | 'cta';
+        sourceSeconds: number;
+        translatedSeconds: number;
+    }[];
+    metadata: {
+        tokensUsed: number;
+        durationMs: number;
+    };
+}
+
 /**
  * Script variant styles
  */
@@ -776,7 +854,7 @@ export interface VariantGenerationResult {
 /**
  * AI operation type
  */
-export type AIOperationType = 'generate' | 'generate_variants' | 'iterate' | 'score' | 'classify' | 'validate';
+export type AIOperationType = 'generate' | 'generate_variants' | 'iterate' | 'translate' | 'fact_check' | 'score' | 'classify' | 'validate';
 
 /**
  * AI operation metrics
@@ -838,7 +916,7 @@ export const iterationApi = {
      * Iterate on a script section
      */
     async iterateScript(request: IterationRequest): Promise<IterationResult> {
-        const response = await fetch(`${API_BASE}/scripts/iterate`, {
+        const response = await apiFetch(`${API_BASE}/scripts/iterate`, {
             method: 'POST',
             headers: { 'Content-Type': 'application/json' },
             body: JSON.stringify(request),
@@ -856,6 +934,29 @@ export const iterationApi = {
 
         return data.data as IterationResult;
     },
+
+    /**
+     * Translate a script into other languages
+     */
+    async translateScript(request: TranslationRequest): Promise<ScriptTranslation[]> {
+        const response = await apiFetch(`${API_BASE}/scripts/translate`, {
+            method: 'POST',
+            headers: { 'Content-Type': 'application/json' },
+            body: JSON.stringify(request),
+        });
+
+        if (!response.ok) {
+            const error = await response.json().catch(() => ({ error: 'Translation failed' }));
+            throw new Error(error.error || `API Error: ${response.status}`);
+        }
+
+        const data: ApiResponse<{ translations: ScriptTranslation[] }> = await response.json();
+        if (!data.success || !data.data) {
+            throw new Error(data.error || 'Translation failed');
+        }
+
+        return data.data.translations;
+    },
 };
 
 /**
@@ -870,7 +971,7 @@ export const variantApi = {
         platform: Platform,
         options: VariantGenerationOptions
     ): Promise<VariantGenerationResult> {
-        const response = await fetch(`${API_BASE}/generate-script-variants`, {
+        const response = await apiFetch(`${API_BASE}/generate-script-variants`, {
             method: 'POST',
             headers: { 'Content-Type': 'application/json' },
             body: JSON.stringify({
@@ -906,7 +1007,7 @@ export const metricsApi = {
      */
     async getMetrics(since?: number): Promise<AIMetricsResponse> {
         const params = since ? `?since=${since}` : '';
-        const response = await fetch(`${API_BASE}/ai/metrics${params}`);
+        const response = await apiFetch(`${API_BASE}/ai/metrics${params}`);
 
         if (!response.ok) {
             const error = await response.json().catch(() => ({ error: 'Failed to fetch metrics' }));
@@ -922,6 +1023,349 @@ export const metricsApi = {
     },
 };
 
+// ============================================================
+// Script Library Types & API
+// ============================================================
+
+/**
+ * Which endpoint produced a stored script
+ */
+export type ScriptOrigin = 'generate' | 'variant' | 'iteration' | 'translation' | 'restore';
+
+/**
+ * Script library list entry
+ */
+export interface LibraryScriptSummary {
+    id: string;
+    trendId: string;
+    trendTitle: string;
+    platform: Platform;
+    origin: ScriptOrigin;
+    language?: ScriptLanguage;
+    title: string;
+    hook?: string;
+    score?: number;
+    script: PlatformScript;
+    createdAt: string;
+    parentId?: string;
+    /** First version of the script; equals id for roots */
+    rootId: string;
+    /** Matching text with [brackets] around the hits (search results only) */
+    snippet?: string;
+}
+
+/**
+ * Full stored script with its trend and request options
+ */
+export interface LibraryScript extends LibraryScriptSummary {
+    trend?: TrendData;
+    options?: Record<string, unknown>;
+}
+
+/**
+ * Script library filters; q is a full-text search over title, hook and body
+ */
+export interface ScriptListQuery {
+    q?: string;
+    platform?: Platform;
+    origin?: ScriptOrigin;
+    trendId?: string;
+    limit?: number;
+    offset?: number;
+}
+
+/**
+ * One page of the script library
+ */
+export interface ScriptListResult {
+    items: LibraryScriptSummary[];
+    total: number;
+}
+
+/**
+ * How a version differs from its parent
+ */
+export interface ScriptVersionChange {
+    target?: IterationTarget;
+    newTone?: string;
+    additionalInstructions?: string;
+    profileId?: string;
+    changedSections: string[];
+    /** Version whose content was brought back (restores only) */
+    restoredFrom?: string;
+}
+
+/**
+ * Node of a script's version tree
+ */
+export interface ScriptVersion {
+    id: string;
+    parentId?: string;
+    origin: ScriptOrigin;
+    title: string;
+    score?: number;
+    createdAt: string;
+    change?: ScriptVersionChange;
+    /** Distance from the root */
+    depth: number;
+}
+
+/**
+ * All versions of a script, oldest first
+ */
+export interface ScriptVersionTree {
+    rootId: string;
+    versions: ScriptVersion[];
+}
+
+export type ScriptDiffSection = 'title' | 'hook' | 'body' | 'cta' | 'hashtags';
+
+/**
+ * Section-level comparison of two versions
+ */
+export interface ScriptDiff {
+    fromId: string;
+    toId: string;
+    sections: { section: ScriptDiffSection; from?: string; to?: string; changed: boolean }[];
+    changedSections: ScriptDiffSection[];
+}
+
+/**
+ * Script Library API client
+ */
+export const scriptLibraryApi = {
+    /**
+     * List stored scripts, newest first or by relevance when searching
+     */
+    async listScripts(query: ScriptListQuery = {}): Promise<ScriptListResult> {
+        const params = new URLSearchParams();
+        for (const [key, value] of Object.entries(query)) {
+            if (value !== undefined && value !== '') params.set(key, String(value));
+        }
+
+        const search = params.toString();
+        const response = await apiFetch(`${API_BASE}/scripts${search ? `?${search}` : ''}`);
+
+        if (!response.ok) {
+            const error = await response.json().catch(() => ({ error: 'Failed to fetch scripts' }));
+            throw new Error(error.error || `API Error: ${response.status}`);
+        }
+
+        const data: ApiResponse<ScriptListResult> = await response.json();
+        if (!data.success) {
+            throw new Error(data.error || 'Failed to fetch scripts');
+        }
+
+        return data.data as ScriptListResult;
+    },
+
+    /**
+     * Get a stored script
+     */
+    async getScript(id: string): Promise<LibraryScript> {
+        const response = await apiFetch(`${API_BASE}/scripts/${encodeURIComponent(id)}`);
+
+        if (!response.ok) {
+            const error = await response.json().catch(() => ({ error: 'Failed to fetch script' }));
+            throw new Error(error.error || `API Error: ${response.status}`);
+        }
+
+        const data: ApiResponse<LibraryScript> = await response.json();
+        if (!data.success) {
+            throw new Error(data.error || 'Failed to fetch script');
+        }
+
+        return data.data as LibraryScript;
+    },
+
+    /**
+     * Delete a stored script
+     */
+    async deleteScript(id: string): Promise<void> {
+        const response = await apiFetch(`${API_BASE}/scripts/${encodeURIComponent(id)}`, {
+            method: 'DELETE',
+        });
+
+        if (!response.ok) {
+            const error = await response.json().catch(() => ({ error: 'Failed to delete script' }));
+            throw new Error(error.error || `API Error: ${response.status}`);
+        }
+    },
+
+    /**
+     * Get the version tree of a stored script
+     */
+    async getVersionTree(id: string): Promise<ScriptVersionTree> {
+        const response = await apiFetch(`${API_BASE}/scripts/${encodeURIComponent(id)}/versions`);
+
+        if (!response.ok) {
+            const error = await response.json().catch(() => ({ error: 'Failed to fetch versions' }));
+            throw new Error(error.error || `API Error: ${response.status}`);
+        }
+
+        const data: ApiResponse<ScriptVersionTree> = await response.json();
+        if (!data.success) {
+            throw new Error(data.error || 'Failed to fetch versions');
+        }
+
+        return data.data as ScriptVersionTree;
+    },
+
+    /**
+     * Section-level diff from one version to another
+     */
+    async diffVersions(fromId: string, toId: string): Promise<ScriptDiff> {
+        const response = await apiFetch(
+            `${API_BASE}/scripts/${encodeURIComponent(fromId)}/diff?to=${encodeURIComponent(toId)}`
+        );
+
+        if (!response.ok) {
+            const error = await response.json().catch(() => ({ error: 'Failed to diff versions' }));
+            throw new Error(error.error || `API Error: ${response.status}`);
+        }
+
+        const data: ApiResponse<ScriptDiff> = await response.json();
+        if (!data.success) {
+            throw new Error(data.error || 'Failed to diff versions');
+        }
+
+        return data.data as ScriptDiff;
+    },
+
+    /**
+     * Bring an older version back as the latest one
+     */
+    async restoreVersion(id: string): Promise<LibraryScript> {
+        const response = await apiFetch(`${API_BASE}/scripts/${encodeURIComponent(id)}/restore`, {
+            method: 'POST',
+        });
+
+        if (!response.ok) {
+            const error = await response.json().catch(() => ({ error: 'Failed to restore version' }));
+            throw new Error(error.error || `API Error: ${response.status}`);
+        }
+
+        const data: ApiResponse<LibraryScript> = await response.json();
+        if (!data.success) {
+            throw new Error(data.error || 'Failed to restore version');
+        }
+
+        return data.data as LibraryScript;
+    },
+};
+
+// ============================================================
+// Script Rating Types & API
+// ============================================================
+
+export type RatingType = 'like' | 'dislike';
+
+/**
+ * Team rating of a library script
+ */
+export interface ScriptRating {
+    scriptId: string;
+    rating: RatingType;
+    stars?: number; // 1-5 optional
+    feedback?: string;
+    /** 1-5: the stars, else 4 for a like and 1 for a dislike */
+    userRating: number;
+    createdAt: string;
+    updatedAt: string;
+}
+
+/**
+ * Result of rating a script
+ */
+export interface RateScriptResult {
+    rating: ScriptRating;
+    /** Whether the script is now a few-shot example for new scripts */
+    promoted: boolean;
+}
+
+/**
+ * Rating statistics
+ */
+export interface RatingStats {
+    totalRatings: number;
+    likes: number;
+    dislikes: number;
+    likePercentage: number;
+    averageStars: number;
+    byPlatform: Record<Platform, { likes: number; dislikes: number }>;
+    /** Examples in the few-shot pool */
+    exampleCount: number;
+}
+
+/**
+ * Script Rating API client
+ */
+export const ratingApi = {
+    /**
+     * Get the rating of a library script (null when unrated)
+     */
+    async getRating(scriptId: string): Promise<ScriptRating | null> {
+        const response = await apiFetch(`${API_BASE}/scripts/${encodeURIComponent(scriptId)}/rating`);
+
+        if (!response.ok) {
+            const error = await response.json().catch(() => ({ error: 'Failed to fetch rating' }));
+            throw new Error(error.error || `API Error: ${response.status}`);
+        }
+
+        const data: ApiResponse<ScriptRating | null> = await response.json();
+        if (!data.success) {
+            throw new Error(data.error || 'Failed to fetch rating');
+        }
+
+        return data.data ?? null;
+    },
+
+    /**
+     * Rate a library script
+     */
+    async rateScript(
+        scriptId: string,
+        input: { rating: RatingType; stars?: number; feedback?: string }
+    ): Promise<RateScriptResult> {
+        const response = await apiFetch(`${API_BASE}/scripts/${encodeURIComponent(scriptId)}/rating`, {
+            method: 'PUT',
+            headers: { 'Content-Type': 'application/json' },
+            body: JSON.stringify(input),
+        });
+
+        if (!response.ok) {
+            const error = await response.json().catch(() => ({ error: 'Rating failed' }));
+            throw new Error(error.error || `API Error: ${response.status}`);
+        }
+
+        const data: ApiResponse<RateScriptResult> = await response.json();
+        if (!data.success) {
+            throw new Error(data.error || 'Rating failed');
+        }
+
+        return data.data as RateScriptResult;
+    },
+
+    /**
+     * Get rating totals
+     */
+    async getStats(): Promise<RatingStats> {
+        const response = await apiFetch(`${API_BASE}/ratings/stats`);
+
+        if (!response.ok) {
+            const error = await response.json().catch(() => ({ error: 'Failed to fetch rating stats' }));
+            throw new Error(error.error || `API Error: ${response.status}`);
+        }
+
+        const data: ApiResponse<RatingStats> = await response.json();
+        if (!data.success) {
+            throw new Error(data.error || 'Failed to fetch rating stats');
+        }
+
+        return data.data as RatingStats;
+    },
+};
+
 // ============================================================
 // Video Generation Types & API (Phase 26)
 // ============================================================
@@ -957,6 +1401,8 @@ export interface VideoGenerationOptions {
     kenBurnsEnabled: boolean;
     backgroundMusicVolume: number;
     audioDucking: boolean;
+    /** Pick library music by script mood when no backgroundMusicPath is given */
+    autoSelectMusic?: boolean;
 }
 
 /**
@@ -966,6 +1412,7 @@ export interface VideoProjectInput {
     id?: string;
     platform: Platform;
     title: string;
+    language?: ScriptLanguage;
     script: {
         hook: string;
         body: string;
@@ -996,8 +1443,20 @@ export interface VideoGenerationResult {
     fileSize?: number;
     error?: string;
     processingTimeMs?: number;
+    /** How caption timings were obtained */
+    captionTiming?: 'provided' | 'provider' | 'energy' | 'estimated';
+    /** Subtitle sidecar paths; download via GET /api/video/:jobId/captions?format= */
+    subtitles?: Record<SubtitleFormat, string>;
+    /** Library track auto-selected for the script's mood */
+    backgroundMusic?: {
+        trackId: string;
+        title: string;
+        mood: string;
+    };
 }
 
+export type SubtitleFormat = 'srt' | 'vtt' | 'ass';
+
 /**
  * Video generation progress
  */
@@ -1006,7 +1465,14 @@ export interface VideoGenerationProgress {
     status: VideoJobStatus;
     progress: number;
     currentStep: string;
+    /** Seconds until encoding finishes (reported while encoding) */
     estimatedTimeRemaining?: number;
+    /** Persisted job fields (present on /video/status and /video/jobs) */
+    attempts?: number;
+    result?: VideoGenerationResult | null;
+    error?: string | null;
+    createdAt?: string;
+    completedAt?: string | null;
 }
 
 /**
@@ -1038,11 +1504,12 @@ export const DEFAULT_VIDEO_OPTIONS: VideoGenerationOptions = {
  */
 export const videoApi = {
     /**
-     * Generate a video from script, images, and audio
+     * Queue a video render from script, images, and audio.
+     * Resolves with the job id; the render result comes from getStatus.
      */
     async generate(project: VideoProjectInput): Promise<VideoGenerationResult> {
         // Use VIDEO_API_BASE to bypass Vite proxy body limit for large base64 audio
-        const response = await fetch(`${VIDEO_API_BASE}/video/generate`, {
+        const response = await apiFetch(`${VIDEO_API_BASE}/video/generate`, {
             method: 'POST',
             headers: { 'Content-Type': 'application/json' },
             body: JSON.stringify({
@@ -1071,7 +1538,7 @@ export const videoApi = {
      * Get video generation job status
      */
     async getStatus(jobId: string): Promise<VideoGenerationProgress> {
-        const response = await fetch(`${API_BASE}/video/status/${jobId}`);
+        const response = await apiFetch(`${API_BASE}/video/status/${jobId}`);
 
         if (!response.ok) {
             if (response.status === 404) {
@@ -1092,7 +1559,7 @@ export const videoApi = {
      * Get all video generation jobs
      */
     async getJobs(): Promise<VideoGenerationProgress[]> {
-        const response = await fetch(`${API_BASE}/video/jobs`);
+        const response = await apiFetch(`${API_BASE}/video/jobs`);
 
         if (!response.ok) {
             throw new Error(`API Error: ${response.status}`);
@@ -1110,7 +1577,7 @@ export const videoApi = {
      * Clean up completed video generation jobs
      */
     async cleanup(): Promise<{ cleaned: number }> {
-        const response = await fetch(`${API_BASE}/video/jobs/cleanup`, {
+        const response = await apiFetch(`${API_BASE}/video/jobs/cleanup`, {
             method: 'POST',
         });
 
@@ -0,0 +1,73 @@
+/**
+ * API Key
+ *
+ * The engine API key this browser sends, stored in localStorage
+ * (`icerik_api_key`) after the user enters it in ApiKeyDialog. Engine
+ * calls in lib/api.ts send it as an `Authorization: Bearer` header
+ * (apiFetch); URLs the browser loads by itself (EventSource, <video>,
+ * download links) carry it as `?api_key=` via withApiKey.
+ *
+ * @module lib/apiKey
+ */
+
+const STORAGE_KEY = 'icerik_api_key';
+
+type ApiKeyPromptListener = (reason: ApiKeyPromptReason) => void;
+
+/**
+ * Why the key dialog opens: the engine rejected the key, or the user asked
+ */
+export type ApiKeyPromptReason = 'unauthorized' | 'manual';
+
+const promptListeners = new Set<ApiKeyPromptListener>();
+
+/**
+ * Current API key, if any
+ */
+export function getApiKey(): string | undefined {
+    try {
+        return localStorage.getItem(STORAGE_KEY) || undefined;
+    } catch {
+        // localStorage unavailable (private mode, tests)
+        return undefined;
+    }
+}
+
+/**
+ * Store (or with null, forget) the API key for this browser
+ */
+export function setApiKey(key: string | null): void {
+    try {
+        if (key) localStorage.setItem(STORAGE_KEY, key);
+        else localStorage.removeItem(STORAGE_KEY);
+    } catch (error) {
+        console.error('Failed to save API key:', error);
+    }
+}
+
+/**
+ * Adds the API key to a URL loaded without fetch
+ */
+export function withApiKey(url: string): string {
+    const key = getApiKey();
+    if (!key) return url;
+    return `${url}${url.includes('?') ? '&' : '?'}api_key=${encodeURIComponent(key)}`;
+}
+
+/**
+ * Ask the user for an API key (opens ApiKeyDialog)
+ */
+export function requestApiKey(reason: ApiKeyPromptReason = 'manual'): void {
+    promptListeners.forEach(listener => listener(reason));
+}
+
+/**
+ * Listen for API key requests
+ * @returns Unsubscribe function
+ */
+export function subscribeToApiKeyRequests(listener: ApiKeyPromptListener): () => void {
+    promptListeners.add(listener);
+    return () => {
+        promptListeners.delete(listener);
+    };
+}
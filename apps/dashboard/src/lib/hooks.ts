@@ -242,9 +242,12 @@ export const multiPlatformQueryKeys = {
  * mutate({ trend, platforms: ['tiktok', 'reels', 'shorts'] });
  */
 export function useMultiPlatformScripts() {
+    const queryClient = useQueryClient();
+
     return useMutation<MultiPlatformResult, Error, MultiPlatformRequest>({
         mutationFn: (request) => multiPlatformApi.generateScripts(request),
         retry: false,
+        onSuccess: () => queryClient.invalidateQueries({ queryKey: scriptLibraryQueryKeys.all }),
         onError: (error) => {
             console.error('Multi-platform script generation failed:', error.message);
         },
@@ -386,6 +389,8 @@ import {
     metricsApi,
     type IterationRequest,
     type IterationResult,
+    type TranslationRequest,
+    type ScriptTranslation,
     type VariantGenerationOptions,
     type VariantGenerationResult,
     type AIMetricsResponse,
@@ -399,15 +404,38 @@ import {
  * iterate({ originalScript, target: 'hook' });
  */
 export function useIterateScript() {
+    const queryClient = useQueryClient();
+
     return useMutation<IterationResult, Error, IterationRequest>({
         mutationFn: (request) => iterationApi.iterateScript(request),
         retry: false,
+        onSuccess: () => queryClient.invalidateQueries({ queryKey: scriptLibraryQueryKeys.all }),
         onError: (error) => {
             console.error('Script iteration failed:', error.message);
         },
     });
 }
 
+/**
+ * Hook to translate a script into other languages
+ *
+ * @example
+ * const { mutate: translate, isPending } = useTranslateScript();
+ * translate({ script, targetLanguages: ['en'] });
+ */
+export function useTranslateScript() {
+    const queryClient = useQueryClient();
+
+    return useMutation<ScriptTranslation[], Error, TranslationRequest>({
+        mutationFn: (request) => iterationApi.translateScript(request),
+        retry: false,
+        onSuccess: () => queryClient.invalidateQueries({ queryKey: scriptLibraryQueryKeys.all }),
+        onError: (error) => {
+            console.error('Script translation failed:', error.message);
+        },
+    });
+}
+
 /**
  * Hook to generate A/B script variants
  *
@@ -416,6 +444,8 @@ export function useIterateScript() {
  * generateVariants({ trend, platform: 'tiktok', options: { styles: ['high_energy'] } });
  */
 export function useGenerateVariants() {
+    const queryClient = useQueryClient();
+
     return useMutation<
         VariantGenerationResult,
         Error,
@@ -424,6 +454,7 @@ export function useGenerateVariants() {
         mutationFn: ({ trend, platform, options }) =>
             variantApi.generateVariants(trend, platform, options),
         retry: false,
+        onSuccess: () => queryClient.invalidateQueries({ queryKey: scriptLibraryQueryKeys.all }),
         onError: (error) => {
             console.error('Variant generation failed:', error.message);
         },
@@ -449,3 +480,148 @@ export function useAIMetrics(
     });
 }
 
+// ============================================================
+// Script Library Hooks
+// ============================================================
+
+import {
+    scriptLibraryApi,
+    type ScriptListQuery,
+    type ScriptListResult,
+    type ScriptVersionTree,
+    type ScriptDiff,
+    type LibraryScript,
+} from './api';
+
+/**
+ * Query keys for the script library
+ */
+export const scriptLibraryQueryKeys = {
+    all: ['script-library'] as const,
+    list: (query: ScriptListQuery) => [...scriptLibraryQueryKeys.all, 'list', query] as const,
+    versions: (id: string) => [...scriptLibraryQueryKeys.all, 'versions', id] as const,
+    diff: (fromId: string, toId: string) => [...scriptLibraryQueryKeys.all, 'diff', fromId, toId] as const,
+};
+
+/**
+ * Hook to list scripts stored in the engine's script library
+ *
+ * @example
+ * const { data } = useScriptLibrary({ q: 'gözetim', limit: 20 });
+ */
+export function useScriptLibrary(query: ScriptListQuery = {}) {
+    return useQuery<ScriptListResult, Error>({
+        queryKey: scriptLibraryQueryKeys.list(query),
+        queryFn: () => scriptLibraryApi.listScripts(query),
+        staleTime: 30 * 1000, // 30 seconds
+        placeholderData: (previous) => previous,
+    });
+}
+
+/**
+ * Hook to delete a script from the library
+ */
+export function useDeleteLibraryScript() {
+    const queryClient = useQueryClient();
+
+    return useMutation<void, Error, string>({
+        mutationFn: (id) => scriptLibraryApi.deleteScript(id),
+        onSuccess: () => queryClient.invalidateQueries({ queryKey: scriptLibraryQueryKeys.all }),
+        onError: (error) => {
+            console.error('Script delete failed:', error.message);
+        },
+    });
+}
+
+/**
+ * Hook to fetch the version tree of a stored script
+ */
+export function useScriptVersions(id: string | undefined) {
+    return useQuery<ScriptVersionTree, Error>({
+        queryKey: scriptLibraryQueryKeys.versions(id || ''),
+        queryFn: () => scriptLibraryApi.getVersionTree(id!),
+        staleTime: 30 * 1000, // 30 seconds
+        enabled: !!id,
+    });
+}
+
+/**
+ * Hook to fetch a section-level diff between two versions
+ */
+export function useScriptDiff(fromId?: string | null, toId?: string | null) {
+    return useQuery<ScriptDiff, Error>({
+        queryKey: scriptLibraryQueryKeys.diff(fromId || '', toId || ''),
+        queryFn: () => scriptLibraryApi.diffVersions(fromId!, toId!),
+        staleTime: Infinity, // Stored versions never change
+        enabled: !!fromId && !!toId && fromId !== toId,
+    });
+}
+
+/**
+ * Hook to restore an older version as the latest one
+ */
+export function useRestoreScriptVersion() {
+    const queryClient = useQueryClient();
+
+    return useMutation<LibraryScript, Error, string>({
+        mutationFn: (id) => scriptLibraryApi.restoreVersion(id),
+        onSuccess: () => queryClient.invalidateQueries({ queryKey: scriptLibraryQueryKeys.all }),
+        onError: (error) => {
+            console.error('Version restore failed:', error.message);
+        },
+    });
+}
+
+// ============================================================
+// Script Rating Hooks
+// ============================================================
+
+import {
+    ratingApi,
+    type ScriptRating,
+    type RateScriptResult,
+    type RatingType,
+} from './api';
+
+/**
+ * Query keys for script ratings
+ */
+export const ratingQueryKeys = {
+    all: ['ratings'] as const,
+    script: (scriptId: string) => [...ratingQueryKeys.all, 'script', scriptId] as const,
+};
+
+/**
+ * Hook to fetch the team's rating of a library script
+ */
+export function useScriptRating(scriptId: string | undefined) {
+    return useQuery<ScriptRating | null, Error>({
+        queryKey: ratingQueryKeys.script(scriptId || ''),
+        queryFn: () => ratingApi.getRating(scriptId!),
+        staleTime: 60 * 1000, // 1 minute
+        enabled: !!scriptId,
+    });
+}
+
+/**
+ * Hook to rate a library script; highly rated scripts become few-shot examples
+ *
+ * @example
+ * const { mutate: rate } = useRateScript();
+ * rate({ scriptId, rating: 'like', stars: 5 });
+ */
+export function useRateScript() {
+    const queryClient = useQueryClient();
+
+    return useMutation<
+        RateScriptResult,
+        Error,
+        { scriptId: string; rating: RatingType; stars?: number; feedback?: string }
+    >({
+        mutationFn: ({ scriptId, ...input }) => ratingApi.rateScript(scriptId, input),
+        onSuccess: () => queryClient.invalidateQueries({ queryKey: ratingQueryKeys.all }),
+        onError: (error) => {
+            console.error('Script rating failed:', error.message);
+        },
+    });
+}
@@ -0,0 +1,165 @@
+/**
+ * Job Events Client
+ *
+ * Shared EventSource connection to GET /api/events (SSE).
+ * One connection is opened for all subscribers and closed when the last
+ * one unsubscribes. Hooks use `isConnected` to decide whether they can
+ * skip polling.
+ *
+ * @module lib/jobEvents
+ */
+
+import { useEffect, useRef, useSyncExternalStore } from 'react';
+import { withApiKey } from './apiKey';
+
+const EVENTS_URL = '/api/events';
+
+// =============================================================================
+// Types
+// =============================================================================
+
+export type JobEventKind = 'video' | 'voice' | 'scripts';
+
+export interface JobEvent<T = unknown> {
+    id: number;
+    kind: JobEventKind;
+    jobId: string;
+    status: string;
+    progress?: number;
+    currentStep?: string;
+    data?: T;
+    timestamp: string;
+}
+
+type JobEventListener = (event: JobEvent) => void;
+type ConnectionListener = (connected: boolean) => void;
+
+// =============================================================================
+// Shared Connection
+// =============================================================================
+
+const eventListeners = new Set<JobEventListener>();
+const connectionListeners = new Set<ConnectionListener>();
+let source: EventSource | null = null;
+let connected = false;
+
+function setConnected(value: boolean): void {
+    if (connected === value) return;
+    connected = value;
+    connectionListeners.forEach(listener => listener(value));
+}
+
+function handleMessage(message: MessageEvent<string>): void {
+    try {
+        const event = JSON.parse(message.data) as JobEvent;
+        eventListeners.forEach(listener => listener(event));
+    } catch (err) {
+        console.error('[jobEvents] Invalid event payload:', err);
+    }
+}
+
+function openSource(): void {
+    if (source || typeof EventSource === 'undefined') return;
+
+    source = new EventSource(withApiKey(EVENTS_URL));
+    source.addEventListener('ready', () => setConnected(true));
+    // EventSource reconnects by itself; hooks poll until it is back
+    source.onerror = () => setConnected(false);
+
+    for (const kind of ['video', 'voice', 'scripts'] as JobEventKind[]) {
+        source.addEventListener(kind, handleMessage as EventListener);
+    }
+}
+
+function closeSourceIfUnused(): void {
+    if (source && eventListeners.size === 0) {
+        source.close();
+        source = null;
+        setConnected(false);
+    }
+}
+
+/**
+ * Reopen the shared connection, e.g. after the API key changed
+ */
+export function reconnectJobEvents(): void {
+    if (!source) return;
+
+    source.close();
+    source = null;
+    setConnected(false);
+    openSource();
+}
+
+/**
+ * Subscribe to job events
+ * @returns Unsubscribe function
+ */
+export function subscribeToJobEvents(
+    listener: JobEventListener,
+    onConnectionChange?: ConnectionListener
+): () => void {
+    eventListeners.add(listener);
+    if (onConnectionChange) {
+        connectionListeners.add(onConnectionChange);
+    }
+
+    openSource();
+
+    return () => {
+        eventListeners.delete(listener);
+        if (onConnectionChange) {
+            connectionListeners.delete(onConnectionChange);
+        }
+        closeSourceIfUnused();
+    };
+}
+
+export function isJobEventsConnected(): boolean {
+    return connected;
+}
+
+/**
+ * Listen for connection state changes only
+ * @returns Unsubscribe function
+ */
+function subscribeToConnection(onChange: () => void): () => void {
+    connectionListeners.add(onChange);
+    return () => {
+        connectionListeners.delete(onChange);
+    };
+}
+
+// =============================================================================
+// Hook
+// =============================================================================
+
+/**
+ * Subscribe to job events of the given kind while mounted
+ *
+ * @returns Whether the stream is connected (false = caller should poll)
+ */
+export function useJobEvents(
+    kind: JobEventKind,
+    onEvent: (event: JobEvent) => void,
+    enabled: boolean = true
+): boolean {
+    const isConnected = useSyncExternalStore(subscribeToConnection, isJobEventsConnected, () => false);
+    const onEventRef = useRef(onEvent);
+
+    useEffect(() => {
+        onEventRef.current = onEvent;
+    }, [onEvent]);
+
+    useEffect(() => {
+        if (!enabled) return;
+
+        return subscribeToJobEvents((event) => {
+            if (event.kind === kind) {
+                onEventRef.current(event);
+            }
+        });
+    }, [kind, enabled]);
+
+    return enabled && isConnected;
+}
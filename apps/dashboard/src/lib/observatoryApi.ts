@@ -6,6 +6,8 @@
  * @module lib/observatoryApi
  */
 
+import { apiFetch } from './api';
+
 const API_BASE = import.meta.env.VITE_API_URL || '/api';
 
 /**
@@ -154,7 +156,7 @@ interface ApiResponse<T> {
  * Fetch helper with error handling
  */
 async function fetchJson<T>(url: string): Promise<T> {
-    const response = await fetch(url);
+    const response = await apiFetch(url);
 
     if (!response.ok) {
         throw new Error(`HTTP ${response.status}: ${response.statusText}`);
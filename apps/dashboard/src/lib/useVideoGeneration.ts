@@ -2,7 +2,7 @@
  * useVideoGeneration Hook
  * 
  * State management for video generation workflow.
- * Handles generation, progress polling, and result management.
+ * Handles generation, live progress (SSE with polling fallback), and result management.
  * 
  * @module lib/hooks/useVideoGeneration
  */
@@ -14,6 +14,7 @@ import {
     type VideoGenerationResult,
     type VideoGenerationProgress,
 } from './api';
+import { useJobEvents, type JobEvent } from './jobEvents';
 
 const POLL_INTERVAL_MS = 2000;
 
@@ -74,6 +75,45 @@ export function useVideoGeneration(): UseVideoGenerationReturn {
         };
     }, []);
 
+    /**
+     * Apply a job status update (from polling or the event stream)
+     */
+    const applyStatus = useCallback((status: VideoGenerationProgress): void => {
+        setProgress(status);
+
+        // Check for completion or failure
+        if (status.status === 'complete' || status.status === 'failed') {
+            // Stop polling
+            if (pollIntervalRef.current) {
+                clearInterval(pollIntervalRef.current);
+                pollIntervalRef.current = null;
+            }
+
+            setIsGenerating(false);
+
+            if (status.result) {
+                setResult(status.result);
+            }
+
+            if (status.status === 'failed') {
+                setError(status.error || 'Video generation failed');
+            }
+        }
+    }, []);
+
+    // Live updates for the current job
+    const handleJobEvent = useCallback((event: JobEvent): void => {
+        if (!isMountedRef.current || event.jobId !== jobIdRef.current || !event.data) return;
+        applyStatus(event.data as VideoGenerationProgress);
+    }, [applyStatus]);
+
+    const isLive = useJobEvents('video', handleJobEvent, isGenerating);
+    const isLiveRef = useRef(isLive);
+
+    useEffect(() => {
+        isLiveRef.current = isLive;
+    }, [isLive]);
+
     /**
      * Poll for job status
      */
@@ -83,29 +123,14 @@ export function useVideoGeneration(): UseVideoGenerationReturn {
 
             if (!isMountedRef.current) return;
 
-            setProgress(status);
-
-            // Check for completion or failure
-            if (status.status === 'complete' || status.status === 'failed') {
-                // Stop polling
-                if (pollIntervalRef.current) {
-                    clearInterval(pollIntervalRef.current);
-                    pollIntervalRef.current = null;
-                }
-
-                setIsGenerating(false);
-
-                if (status.status === 'failed') {
-                    setError('Video generation failed');
-                }
-            }
+            applyStatus(status);
         } catch (err) {
             if (!isMountedRef.current) return;
 
             console.error('Failed to poll video status:', err);
             // Don't stop polling on temporary errors, but log them
         }
-    }, []);
+    }, [applyStatus]);
 
     /**
      * Start video generation
@@ -135,9 +160,8 @@ export function useVideoGeneration(): UseVideoGenerationReturn {
                 return;
             }
 
-            // Store job ID and result
+            // Render runs in the background; the result arrives with the final status
             jobIdRef.current = genResult.jobId;
-            setResult(genResult);
 
             // Set initial progress
             setProgress({
@@ -147,9 +171,9 @@ export function useVideoGeneration(): UseVideoGenerationReturn {
                 currentStep: 'Starting...',
             });
 
-            // Start polling for status
+            // Poll for status while the event stream is unavailable
             pollIntervalRef.current = setInterval(() => {
-                if (jobIdRef.current) {
+                if (jobIdRef.current && !isLiveRef.current) {
                     pollStatus(jobIdRef.current);
                 }
             }, POLL_INTERVAL_MS);
@@ -2,19 +2,22 @@
  * useVideoJobs Hook
  * 
  * Global hook for tracking all video generation jobs.
- * Provides polling, job categorization, and lifecycle management.
+ * Receives live updates from /api/events (SSE) and falls back to polling
+ * while the stream is unavailable. Provides job categorization and
+ * lifecycle management.
  * 
  * @module lib/useVideoJobs
  */
 
 import { useState, useEffect, useCallback, useMemo, useRef } from 'react';
 import { videoApi, type VideoGenerationProgress, type VideoJobStatus } from './api';
+import { useJobEvents, type JobEvent } from './jobEvents';
 
 // =============================================================================
 // Constants
 // =============================================================================
 
-/** Polling interval for job status (ms) */
+/** Polling interval for job status (ms), used while the event stream is down */
 const POLLING_INTERVAL = 30000;
 
 /** Active job statuses */
@@ -62,6 +65,8 @@ export interface UseVideoJobsReturn {
     isLoading: boolean;
     /** Error state */
     error: string | null;
+    /** Whether live updates arrive over the event stream (false = polling) */
+    isLive: boolean;
     /** Manual refetch */
     refetch: () => Promise<void>;
     /** Cleanup completed jobs */
@@ -116,6 +121,46 @@ export function useVideoJobs(options: UseVideoJobsOptions = {}): UseVideoJobsRet
     const hasActiveJobs = activeJobs.length > 0;
     const activeCount = activeJobs.length;
 
+    // Fire completion/failure callbacks on status transitions
+    const trackTransition = useCallback((job: VideoGenerationProgress) => {
+        const previousStatus = previousJobsRef.current.get(job.jobId);
+
+        if (previousStatus && ACTIVE_STATUSES.includes(previousStatus)) {
+            if (job.status === 'complete') {
+                onJobCompleteRef.current?.(job);
+            } else if (job.status === 'failed') {
+                onJobFailedRef.current?.(job);
+            }
+        }
+
+        previousJobsRef.current.set(job.jobId, job.status);
+    }, []);
+
+    // Live updates: each event carries the full job record
+    const handleJobEvent = useCallback((event: JobEvent) => {
+        const job = event.data as VideoGenerationProgress | undefined;
+        if (!job) return;
+
+        // New jobs start as 'queued', so a later completion still counts as a transition
+        if (!previousJobsRef.current.has(job.jobId)) {
+            previousJobsRef.current.set(job.jobId, 'queued');
+        }
+        trackTransition(job);
+
+        setJobs(prev => {
+            const index = prev.findIndex(j => j.jobId === job.jobId);
+            if (index === -1) {
+                return [job, ...prev];
+            }
+            const next = [...prev];
+            next[index] = job;
+            return next;
+        });
+    }, [trackTransition]);
+
+    const isLive = useJobEvents('video', handleJobEvent, enabled);
+    const isLiveRef = useRef(isLive);
+
     // Fetch jobs from API - stable reference
     const fetchJobs = useCallback(async () => {
         if (!enabled || isFetchingRef.current) return;
@@ -126,24 +171,7 @@ export function useVideoJobs(options: UseVideoJobsOptions = {}): UseVideoJobsRet
             const fetchedJobs = await videoApi.getJobs();
 
             // Detect job state transitions
-            const previousJobs = previousJobsRef.current;
-
-            for (const job of fetchedJobs) {
-                const previousStatus = previousJobs.get(job.jobId);
-
-                // Job just completed
-                if (previousStatus && ACTIVE_STATUSES.includes(previousStatus) && job.status === 'complete') {
-                    onJobCompleteRef.current?.(job);
-                }
-
-                // Job just failed
-                if (previousStatus && ACTIVE_STATUSES.includes(previousStatus) && job.status === 'failed') {
-                    onJobFailedRef.current?.(job);
-                }
-
-                // Update previous state
-                previousJobs.set(job.jobId, job.status);
-            }
+            fetchedJobs.forEach(trackTransition);
 
             setJobs(fetchedJobs);
             setError(null);
@@ -155,7 +183,7 @@ export function useVideoJobs(options: UseVideoJobsOptions = {}): UseVideoJobsRet
             isFetchingRef.current = false;
             setIsLoading(false);
         }
-    }, [enabled]); // Only enabled as dependency - callbacks are in refs
+    }, [enabled, trackTransition]); // Callbacks are in refs
 
     // Cleanup completed jobs
     const cleanup = useCallback(async () => {
@@ -182,6 +210,14 @@ export function useVideoJobs(options: UseVideoJobsOptions = {}): UseVideoJobsRet
         return () => document.removeEventListener('visibilitychange', handleVisibilityChange);
     }, [enabled, fetchJobs]);
 
+    // Resync once whenever the event stream (re)connects - events may have been missed
+    useEffect(() => {
+        isLiveRef.current = isLive;
+        if (isLive && enabled) {
+            fetchJobs();
+        }
+    }, [isLive, enabled, fetchJobs]);
+
     // Polling effect - use refs to avoid infinite loop
     useEffect(() => {
         if (!enabled) return;
@@ -202,7 +238,7 @@ export function useVideoJobs(options: UseVideoJobsOptions = {}): UseVideoJobsRet
             // Use idle polling - active polling is only needed if we have active jobs
             // Check this dynamically in the interval callback
             pollerId = setInterval(() => {
-                if (!isVisibleRef.current) return;
+                if (!isVisibleRef.current || isLiveRef.current) return;
                 fetchJobs();
             }, POLLING_INTERVAL); // Default to 30s - we don't need aggressive polling
         };
@@ -225,6 +261,7 @@ export function useVideoJobs(options: UseVideoJobsOptions = {}): UseVideoJobsRet
         activeCount,
         isLoading,
         error,
+        isLive,
         refetch: fetchJobs,
         cleanup
     };
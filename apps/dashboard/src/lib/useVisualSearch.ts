@@ -8,6 +8,7 @@
  */
 
 import { useState, useCallback } from 'react';
+import { apiFetch, type ScriptLanguage } from './api';
 
 /**
  * Validated image from the API
@@ -54,6 +55,8 @@ interface UseVisualSearchParams {
     content: string;
     /** Optional category for better matching */
     category?: string;
+    /** Script language, for the stopwords filtered from keywords */
+    language?: ScriptLanguage;
     /** Number of results to fetch */
     count?: number;
     /** Whether to validate images with AI */
@@ -88,6 +91,7 @@ const API_BASE_URL = import.meta.env.VITE_API_URL || '';
 export function useVisualSearch({
     content,
     category = 'general',
+    language,
     count = 9,
     validateImages = false,
 }: UseVisualSearchParams): UseVisualSearchReturn {
@@ -107,7 +111,7 @@ export function useVisualSearch({
         setError(null);
 
         try {
-            const response = await fetch(`${API_BASE_URL}/api/images/search-for-content`, {
+            const response = await apiFetch(`${API_BASE_URL}/api/images/search-for-content`, {
                 method: 'POST',
                 headers: {
                     'Content-Type': 'application/json',
@@ -115,6 +119,7 @@ export function useVisualSearch({
                 body: JSON.stringify({
                     title: content,
                     category,
+                    language,
                     count,
                     validateImages,
                 }),
@@ -143,7 +148,7 @@ export function useVisualSearch({
         } finally {
             setIsLoading(false);
         }
-    }, [content, category, count, validateImages]);
+    }, [content, category, language, count, validateImages]);
 
     const clearResults = useCallback(() => {
         setImages([]);
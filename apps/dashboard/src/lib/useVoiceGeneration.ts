@@ -15,6 +15,7 @@ import type {
 } from './voiceTypes';
 import { generateTextHash, generateAudioCacheId } from './voiceTypes';
 import { sanitizeForTTS } from './textSanitizer';
+import { apiFetch } from './api';
 
 const API_BASE = '/api';
 
@@ -128,7 +129,7 @@ export function useVoiceGeneration(): UseVoiceGenerationReturn {
             // Sanitize text to remove visual directions like [ZOOM IN], [CUT TO] etc.
             const cleanText = sanitizeForTTS(text);
 
-            const response = await fetch(`${API_BASE}/voice/generate`, {
+            const response = await apiFetch(`${API_BASE}/voice/generate`, {
                 method: 'POST',
                 headers: {
                     'Content-Type': 'application/json',
@@ -8,8 +8,8 @@
  */
 
 import { useState } from 'react';
-import { Telescope, Activity, Brain, Network, Globe, Flag, Heart, ChevronLeft } from 'lucide-react';
-import { OverviewPanel, PromptInventory, ArchitectureMap, ApiCatalog, FeatureStatus, HealthMetrics } from '../components/observatory';
+import { Telescope, Activity, Brain, Network, Globe, Flag, Heart, Wallet, ChevronLeft } from 'lucide-react';
+import { OverviewPanel, PromptInventory, ArchitectureMap, ApiCatalog, FeatureStatus, HealthMetrics, UsagePanel } from '../components/observatory';
 
 /**
  * Tab configuration
@@ -21,6 +21,7 @@ const tabs = [
     { id: 'api', label: 'API Kataloğu', icon: Globe, color: 'text-amber-400' },
     { id: 'features', label: 'Feature Status', icon: Flag, color: 'text-emerald-400' },
     { id: 'health', label: 'Sistem Sağlığı', icon: Heart, color: 'text-rose-400' },
+    { id: 'usage', label: 'Kullanım & Maliyet', icon: Wallet, color: 'text-lime-400' },
 ] as const;
 
 type TabId = typeof tabs[number]['id'];
@@ -124,6 +125,7 @@ export function ProjectObservatory() {
                 {activeTab === 'api' && <ApiCatalog />}
                 {activeTab === 'features' && <FeatureStatus />}
                 {activeTab === 'health' && <HealthMetrics />}
+                {activeTab === 'usage' && <UsagePanel />}
             </main>
 
             {/* Footer */}
@@ -14,12 +14,14 @@ import { useUrlState } from '../lib/useUrlState';
 import { FilterSidebar } from '../components/organisms/FilterSidebar';
 import { CategoryTabs } from '../components/molecules/CategoryTabs';
 import { SearchBar } from '../components/molecules/SearchBar';
+import { HistoryPanel } from '../components/molecules/HistoryPanel';
 import { TrendGrid } from '../components/organisms';
-import { Activity, RefreshCw, Sparkles, TrendingUp, Zap, Telescope } from 'lucide-react';
+import { Activity, RefreshCw, Sparkles, TrendingUp, Zap, Telescope, KeyRound } from 'lucide-react';
 import { useQueryClient } from '@tanstack/react-query';
 import { Button } from '../components/atoms';
 import { VideoJobsIndicator } from '../components/molecules/VideoJobsIndicator';
 import { VideoJobNotifications } from '../components/organisms/VideoJobNotifications';
+import { requestApiKey } from '../lib/apiKey';
 
 // Navigation to Observatory
 const navigateToObservatory = () => {
@@ -174,6 +176,15 @@ export function UnifiedDashboard() {
                             <Telescope className="w-4 h-4 mr-1.5" />
                             Observatory
                         </Button>
+
+                        <Button
+                            variant="ghost"
+                            size="sm"
+                            onClick={() => requestApiKey()}
+                            title="API anahtarı"
+                        >
+                            <KeyRound className="w-4 h-4" />
+                        </Button>
                     </div>
 
                     {/* Category Tabs */}
@@ -189,9 +200,9 @@ export function UnifiedDashboard() {
             {/* Main Content */}
             <main className="max-w-7xl mx-auto px-4 py-6">
                 <div className="flex gap-6">
-                    {/* Left Sidebar - Filters (Hidden on mobile) */}
+                    {/* Left Sidebar - Filters & History (Hidden on mobile) */}
                     <div className="hidden lg:block w-64 flex-shrink-0">
-                        <div className="sticky top-32">
+                        <div className="sticky top-32 space-y-4">
                             <FilterSidebar
                                 sortType={sortType}
                                 timeRange={timeRange}
@@ -204,6 +215,7 @@ export function UnifiedDashboard() {
                                 }}
                                 onClearFilters={handleClearFilters}
                             />
+                            <HistoryPanel />
                         </div>
                     </div>
 
@@ -7,7 +7,7 @@
  * @module ai/agents/BasePlatformAgent
  */
 
-import type { TrendData, ContentCategory } from '@icerik/shared';
+import type { TrendData, ContentCategory, ScriptLanguage } from '@icerik/shared';
 import type {
     Platform,
     PlatformScript,
@@ -19,9 +19,17 @@ import type {
     MultiPlatformOptions,
 } from '@icerik/shared';
 import { PLATFORM_ALGORITHM_FOCUS, PLATFORM_LABELS } from '@icerik/shared';
-import { getGeminiClient, GeminiError } from '../gemini.js';
+import { requireLLMProvider, generateStructured } from '../llm/index.js';
 import { createChildLogger } from '../../utils/logger.js';
 import { compilePlatformKnowledge } from '../knowledge/index.js';
+import { buildScriptOutputSchema, createScriptOutputValidator } from '../validation/index.js';
+import type { ScriptOutput, ScriptOutputRequirements } from '../validation/index.js';
+import { resolveBrandVoice, buildBrandVoicePrompt, getBrandVoiceConstraints, getBrandVoiceTone } from '../brandVoice/index.js';
+import type { BrandVoiceProfile } from '../brandVoice/index.js';
+import { getLanguageProfile, getWordBudget, estimateSpeechSeconds } from '../../language/index.js';
+import { getSourceContext, buildSourceContextPrompt, getFactChecker } from '../grounding/index.js';
+import type { SourceContext } from '../grounding/index.js';
+import { getExampleSelector } from '../examples/index.js';
 
 
 /**
@@ -30,9 +38,11 @@ import { compilePlatformKnowledge } from '../knowledge/index.js';
 export interface AgentOptions {
     durationSeconds: number;
     tone: 'casual' | 'professional' | 'humorous' | 'dramatic';
-    language: 'en' | 'tr';
+    language: ScriptLanguage;
     includeHook: boolean;
     includeCta: boolean;
+    /** Resolved from MultiPlatformOptions.profileId */
+    brandVoice?: BrandVoiceProfile;
 }
 
 /**
@@ -46,20 +56,6 @@ export const DEFAULT_AGENT_OPTIONS: AgentOptions = {
     includeCta: true,
 };
 
-/**
- * Language-specific instructions
- */
-const LANGUAGE_INSTRUCTIONS: Record<AgentOptions['language'], { name: string; instructions: string }> = {
-    en: {
-        name: 'English',
-        instructions: 'Write the script in English. Use natural, conversational American English.',
-    },
-    tr: {
-        name: 'Turkish',
-        instructions: 'Scripti Türkçe yaz. Doğal ve günlük Türkçe kullan. Gen Z ve milenyallara hitap et.',
-    },
-};
-
 /**
  * Tone-specific instructions
  */
@@ -90,74 +86,47 @@ const CATEGORY_CONTEXT: Record<ContentCategory, string> = {
  * Few-shot examples for each category
  * These demonstrate ideal script structure and length (15-21s, ~40-52 words)
  */
-const FEW_SHOT_EXAMPLES: Partial<Record<ContentCategory, string>> = {
-    technology: `[HOOK]
-Ring kapı zili sizi gizlice takip ediyor! [TEXT: "GİZLİ TAKİP"]
-
-[BODY]
-Flock güvenlik sistemi, kapınızın önündeki görüntüleri ICE'a gönderiyor. Mahallenizdeki her hareket kayıt altında. Güvenlik mi, gözetim mi?
-
-[CTA]
-Bunu herkes bilsin, paylaş!
-
-[TITLE]
-Kapı Ziliniz Sizi İzliyor 👁️
-
-[HASHTAGS]
-#teknoloji #gizlilik #güvenlik #viral`,
-
-    finance: `[HOOK]
-3 haftada emekli oldu, nasıl mı? [ZOOM IN]
-
-[BODY]
-GameStop hisseleri yine patladı. 10 dolarlık yatırım şimdi 10 bin dolar. Reddit yatırımcıları sistemi sarstı.
-
-[CTA]
-Yorumlara yaz, sen girdin mi?
-
-[TITLE]
-GameStop Yine Patladı 🚀
-
-[HASHTAGS]
-#borsa #yatırım #gamestop #finansal`,
-
-    entertainment: `[HOOK]
-Bu sahne interneti kırdı! [DRAMATIC PAUSE]
-
-[BODY]
-Yeni Marvel filmindeki plot twist kimseyi bırakmadı. Sosyal medya çöktü, herkes aynı şeyi konuşuyor.
-
-[CTA]
-İzledin mi? Yorum bırak!
-
-[TITLE]
-Marvel Herkesi Şoke Etti 🎬
-
-[HASHTAGS]
-#marvel #film #spoiler #viral`,
-
-    gaming: `[HOOK]
-Bu oyuncu tarihe geçti! [REPLAY]
-
-[BODY]
-Dünya şampiyonasında son saniye hamlesi. 1 vs 5 clutch, herkes ayakta. E-spor tarihinin en iyi anı.
+const FEW_SHOT_EXAMPLES: Partial<Record<ContentCategory, ScriptOutput>> = {
+    technology: {
+        hook: 'Ring kapı zili sizi gizlice takip ediyor! [TEXT: "GİZLİ TAKİP"]',
+        body: "Flock güvenlik sistemi, kapınızın önündeki görüntüleri ICE'a gönderiyor. Mahallenizdeki her hareket kayıt altında. Güvenlik mi, gözetim mi?",
+        cta: 'Bunu herkes bilsin, paylaş!',
+        title: 'Kapı Ziliniz Sizi İzliyor 👁️',
+        hashtags: ['#teknoloji', '#gizlilik', '#güvenlik', '#viral'],
+    },
 
-[CTA]
-Sen olsan ne yapardın?
+    finance: {
+        hook: '3 haftada emekli oldu, nasıl mı? [ZOOM IN]',
+        body: 'GameStop hisseleri yine patladı. 10 dolarlık yatırım şimdi 10 bin dolar. Reddit yatırımcıları sistemi sarstı.',
+        cta: 'Yorumlara yaz, sen girdin mi?',
+        title: 'GameStop Yine Patladı 🚀',
+        hashtags: ['#borsa', '#yatırım', '#gamestop', '#finansal'],
+    },
 
-[TITLE]
-E-Spor Tarihinin En İyi Anı 🎮
+    entertainment: {
+        hook: 'Bu sahne interneti kırdı! [DRAMATIC PAUSE]',
+        body: 'Yeni Marvel filmindeki plot twist kimseyi bırakmadı. Sosyal medya çöktü, herkes aynı şeyi konuşuyor.',
+        cta: 'İzledin mi? Yorum bırak!',
+        title: 'Marvel Herkesi Şoke Etti 🎬',
+        hashtags: ['#marvel', '#film', '#spoiler', '#viral'],
+    },
 
-[HASHTAGS]
-#esports #gaming #clutch #viral`,
+    gaming: {
+        hook: 'Bu oyuncu tarihe geçti! [REPLAY]',
+        body: 'Dünya şampiyonasında son saniye hamlesi. 1 vs 5 clutch, herkes ayakta. E-spor tarihinin en iyi anı.',
+        cta: 'Sen olsan ne yapardın?',
+        title: 'E-Spor Tarihinin En İyi Anı 🎮',
+        hashtags: ['#esports', '#gaming', '#clutch', '#viral'],
+    },
 };
 
 /**
- * Get few-shot example for a category
+ * Get few-shot example for a category as the JSON the model should return
  * Falls back to technology example if category not found
  */
 function getFewShotExample(category: ContentCategory): string {
-    return FEW_SHOT_EXAMPLES[category] || FEW_SHOT_EXAMPLES.technology || '';
+    const example = FEW_SHOT_EXAMPLES[category] || FEW_SHOT_EXAMPLES.technology;
+    return example ? JSON.stringify(example, null, 2) : '';
 }
 
 /**
@@ -215,6 +184,8 @@ export abstract class BasePlatformAgent implements PlatformAlgorithmExpert {
 
     /**
      * Main script generation method (Template Method pattern)
+     * Writes from the trend's source thread, then fact-checks the result
+     * against it; unsupported claims are added to the script's warnings.
      */
     async generateScript(
         trend: TrendData,
@@ -226,34 +197,50 @@ export abstract class BasePlatformAgent implements PlatformAlgorithmExpert {
             language: options.language ?? DEFAULT_AGENT_OPTIONS.language,
             includeHook: options.includeHook ?? DEFAULT_AGENT_OPTIONS.includeHook,
             includeCta: options.includeCta ?? DEFAULT_AGENT_OPTIONS.includeCta,
+            brandVoice: resolveBrandVoice(options.profileId),
         };
 
-        const gemini = getGeminiClient();
+        const llm = requireLLMProvider('scripts');
 
-        if (!gemini.isConfigured()) {
-            throw new GeminiError('Gemini API is not configured. Please set GEMINI_API_KEY.', undefined, false);
-        }
+        // Shared by all platforms of the same trend (cached)
+        const sourceContext = await getSourceContext(trend);
 
         const systemPrompt = this.buildSystemPrompt(opts);
-        const contentPrompt = this.buildContentPrompt(trend, opts);
+        const contentPrompt = this.buildContentPrompt(trend, opts, sourceContext);
 
         this.logger.info({
             platform: this.platform,
             trendId: trend.id,
             category: trend.category,
             duration: opts.durationSeconds,
+            profileId: opts.brandVoice?.id,
         }, `[${this.platform}] Generating script`);
 
         const startTime = Date.now();
 
+        const requirements: ScriptOutputRequirements = {
+            includeHook: opts.includeHook,
+            includeCta: opts.includeCta,
+            includeMeta: true,
+            language: opts.language,
+        };
+
         try {
-            const response = await gemini.generateContent(contentPrompt, {
+            const output = await generateStructured(llm, contentPrompt, {
                 systemInstruction: systemPrompt,
                 temperature: opts.tone === 'humorous' ? 0.9 : 0.7,
                 maxTokens: 2048,
+                responseSchema: buildScriptOutputSchema(requirements),
+                validator: createScriptOutputValidator(requirements, getBrandVoiceConstraints(opts.brandVoice)),
+                context: { operation: 'scripts', trendId: trend.id, platform: this.platform },
             });
 
-            const script = this.parseResponse(response, trend, opts);
+            const script = this.parseResponse(output, trend, opts);
+
+            const factCheck = await getFactChecker().check(script, sourceContext);
+            if (factCheck.warnings.length > 0) {
+                script.warnings = [...(script.warnings ?? []), ...factCheck.warnings];
+            }
 
             const durationMs = Date.now() - startTime;
             this.logger.info({
@@ -262,6 +249,7 @@ export abstract class BasePlatformAgent implements PlatformAlgorithmExpert {
                 durationMs,
                 scriptLength: script.script.length,
                 estimatedDuration: script.estimatedDurationSeconds,
+                flaggedClaims: factCheck.flagged.length,
             }, `[${this.platform}] Script generated successfully`);
 
             return script;
@@ -278,16 +266,22 @@ export abstract class BasePlatformAgent implements PlatformAlgorithmExpert {
 
     /**
      * Build the complete content prompt
-     * Combines base prompt with platform-specific additions and knowledge base
+     * Combines base prompt with the source thread, platform-specific additions and knowledge base
      */
-    protected buildContentPrompt(trend: TrendData, options: AgentOptions): string {
-        const langInstructions = LANGUAGE_INSTRUCTIONS[options.language];
+    protected buildContentPrompt(trend: TrendData, options: AgentOptions, sourceContext?: SourceContext): string {
+        const langInstructions = getLanguageProfile(options.language);
+        // Word limits follow the language's speaking rate
+        const maxWords = getWordBudget(options.durationSeconds, options.language);
         const platformLabel = PLATFORM_LABELS[this.platform];
         const algoFocus = this.algorithmFocus;
 
         // Load platform-specific knowledge from knowledge base
         const platformKnowledge = compilePlatformKnowledge(this.platform);
 
+        // A brand voice with its own tone replaces the fixed tone instructions
+        const toneInstructions = getBrandVoiceTone(options.brandVoice) ?? TONE_INSTRUCTIONS[options.tone];
+        const brandVoiceLine = options.brandVoice ? `\n- **Brand Voice**: ${options.brandVoice.name}` : '';
+
         const basePrompt = `
 # Content Brief for ${platformLabel}
 
@@ -302,24 +296,24 @@ export abstract class BasePlatformAgent implements PlatformAlgorithmExpert {
 
 ## ⚠️ STRICT DURATION & WORD COUNT LIMITS ⚠️
 - **Target Duration**: ${options.durationSeconds} seconds
-- **MAXIMUM Word Count**: ${Math.round(options.durationSeconds * 2.5)} words
+- **MAXIMUM Word Count**: ${maxWords} words
 - **THIS IS A HARD LIMIT. DO NOT EXCEED THIS WORD COUNT UNDER ANY CIRCUMSTANCES.**
-- Platform optimal duration: ${algoFocus.optimalDuration.ideal}s (${Math.round(algoFocus.optimalDuration.ideal * 2.5)} words ideal)
+- Platform optimal duration: ${algoFocus.optimalDuration.ideal}s (${getWordBudget(algoFocus.optimalDuration.ideal, options.language)} words ideal)
 
-⛔ CRITICAL: If you generate more than ${Math.round(options.durationSeconds * 2.5)} words TOTAL across all sections, the script will be TOO LONG.
+⛔ CRITICAL: If you generate more than ${maxWords} words TOTAL across all sections, the script will be TOO LONG.
 ✅ Write CONCISELY. Prioritize HIGH-IMPACT statements over length.
 ✅ Every word must earn its place. Cut unnecessary filler.
 
 ## Script Requirements
 - **Platform**: ${platformLabel}
-- **Tone**: ${options.tone}
+- **Tone**: ${options.tone}${brandVoiceLine}
 - **Language**: ${langInstructions.name}
 
 ## Category Context
 ${CATEGORY_CONTEXT[trend.category]}
 
 ## Tone Instructions
-${TONE_INSTRUCTIONS[options.tone]}
+${toneInstructions}
 
 ## Language Instructions
 ${langInstructions.instructions}
@@ -334,21 +328,26 @@ ${langInstructions.instructions}
 - **Hashtag Strategy**: ${algoFocus.hashtagStrategy.count.min}-${algoFocus.hashtagStrategy.count.max} hashtags, ${algoFocus.hashtagStrategy.style}
 
 ## Structure Requirements (Stay within word limit!)
-${options.includeHook ? '1. [HOOK] - MAXIMUM 8-12 words. Attention grabber.' : ''}
-2. [BODY] - Main content. Use ${Math.round(options.durationSeconds * 2.5 * 0.7)} words maximum.
-${options.includeCta ? '3. [CTA] - MAXIMUM 10-15 words. Clear call to action.' : ''}
+${options.includeHook ? '1. hook - MAXIMUM 8-12 words. Attention grabber.' : ''}
+2. body - Main content. Use ${Math.round(maxWords * 0.7)} words maximum.
+${options.includeCta ? '3. cta - MAXIMUM 10-15 words. Clear call to action.' : ''}
 
 ## Output Format
-Generate a complete, ready-to-read video script. Include:
-1. [HOOK] section (if requested) - Keep it SHORT and punchy
-2. [BODY] main content - CONCISE and impactful
-3. [CTA] call to action (if requested) - Brief and clear
-4. [TITLE] Suggested video title
-5. [HASHTAGS] ${algoFocus.hashtagStrategy.count.min}-${algoFocus.hashtagStrategy.count.max} relevant hashtags
-
-⚠️ FINAL REMINDER: Total script must be under ${Math.round(options.durationSeconds * 2.5)} words. Short-form content wins!
+Respond with a single JSON object (no markdown) containing:
+${options.includeHook ? '- `hook`: the hook only - SHORT and punchy' : ''}
+- \`body\`: main content - CONCISE and impactful, ending with a complete sentence
+${options.includeCta ? '- `cta`: the call to action only - brief and clear' : ''}
+- \`title\`: suggested video title
+- \`hashtags\`: array of ${algoFocus.hashtagStrategy.count.min}-${algoFocus.hashtagStrategy.count.max} relevant hashtags
+
+Each section goes in its own field: never repeat the CTA inside the body or continue the hook into the body.
+
+⚠️ FINAL REMINDER: Total script must be under ${maxWords} words. Short-form content wins!
 `;
 
+        // What the thread actually says; without it the model only has the title
+        const sourceSection = sourceContext ? buildSourceContextPrompt(sourceContext) : '';
+
         // Inject platform knowledge from knowledge base
         const knowledgeSection = platformKnowledge ? `
 ## 🧠 DEEP PLATFORM KNOWLEDGE (Use this to craft better content)
@@ -364,58 +363,43 @@ ${platformKnowledge}
         const fewShotExample = getFewShotExample(trend.category);
         const fewShotSection = fewShotExample ? `
 ## 📝 REFERENCE EXAMPLE (Follow this structure and length!)
-Below is an ideal 21-second script (~45 words). Match this format and brevity:
+Below is an ideal 21-second script (~45 words) in the expected JSON format. Match its brevity:
 
 ${fewShotExample}
 
 ---
-⚠️ YOUR SCRIPT SHOULD BE SIMILAR IN LENGTH AND STRUCTURE.
+⚠️ YOUR SCRIPT SHOULD BE SIMILAR IN LENGTH AND STRUCTURE.${options.language !== 'tr' ? `
+The example is in Turkish; write your script in ${langInstructions.name}.` : ''}
 ` : '';
 
+        // Scripts the team rated highly for similar trends
+        const selector = getExampleSelector();
+        const learnedSection = selector.formatExamplesForPrompt(
+            selector.selectExamples(trend, 2, { platform: this.platform, language: options.language })
+        );
+
+        // Channel persona, when a brand voice profile was requested
+        const brandVoiceSection = options.brandVoice ? buildBrandVoicePrompt(options.brandVoice) : '';
+
         // Add platform-specific prompt additions
         const platformPrompt = this.buildPlatformPrompt(trend, options);
 
-        return basePrompt + '\n\n' + knowledgeSection + '\n\n' + fewShotSection + '\n\n' + platformPrompt;
+        return basePrompt + '\n\n' + sourceSection + '\n\n' + knowledgeSection + '\n\n' + fewShotSection + '\n\n' + learnedSection + '\n\n' + brandVoiceSection + '\n\n' + platformPrompt;
     }
 
     /**
-     * Parse AI response into structured PlatformScript
-     *
-     * Uses newline-aware regex to properly handle nested brackets like [TEXT: "..."] or [ZOOM IN]
-     * Enforces strict word limits via post-generation trimming.
+     * Build the PlatformScript from validated model output
      */
     protected parseResponse(
-        response: string,
+        output: ScriptOutput,
         trend: TrendData,
         options: AgentOptions
     ): PlatformScript {
-        // Extract sections using newline-aware regex
-        // Pattern: Look for section markers that appear at start of a line or after newline
-        // This prevents false matches on inline markers like [TEXT: "..."] or [ZOOM IN]
-        const hookMatch = response.match(/\[HOOK\]\s*([\s\S]*?)(?=\n\s*\[(?:BODY|CTA|TITLE|HASHTAGS)\]|$)/i);
-        const bodyMatch = response.match(/\[BODY\]\s*([\s\S]*?)(?=\n\s*\[(?:CTA|TITLE|HASHTAGS)\]|$)/i);
-        const ctaMatch = response.match(/\[CTA\]\s*([\s\S]*?)(?=\n\s*\[(?:TITLE|HASHTAGS)\]|$)/i);
-        const titleMatch = response.match(/\[TITLE\]\s*([\s\S]*?)(?=\n\s*\[HASHTAGS\]|$)/i);
-        const hashtagsMatch = response.match(/\[HASHTAGS\]\s*([\s\S]*?)$/i);
-
-        // Clean and extract section content
-        const hookText = this.cleanSectionContent(hookMatch?.[1] || '');
-        const bodyText = this.cleanSectionContent(bodyMatch?.[1] || '') || this.cleanSectionContent(response);
-        const ctaText = this.cleanSectionContent(ctaMatch?.[1] || '');
-        const suggestedTitle = this.cleanSectionContent(titleMatch?.[1] || '') || trend.title;
-
-        // Parse hashtags
-        const hashtagsRaw = hashtagsMatch?.[1]?.trim() || '';
-        const hashtags = hashtagsRaw
-            .split(/[\s,]+/)
-            .filter(tag => tag.startsWith('#') || tag.length > 0)
-            .map(tag => tag.startsWith('#') ? tag : `#${tag}`)
-            .slice(0, this.algorithmFocus.hashtagStrategy.count.max);
-
-        // Build initial sections - NO TRIMMING, AI should generate correct length
-        const hookSection = hookText ? this.createSection(hookText) : undefined;
-        const bodySection = this.createSection(bodyText);
-        const ctaSection = ctaText ? this.createSection(ctaText) : undefined;
+        const hookSection = output.hook ? this.createSection(output.hook, options.language) : undefined;
+        const bodySection = this.createSection(output.body, options.language);
+        const ctaSection = output.cta ? this.createSection(output.cta, options.language) : undefined;
+
+        const hashtags = (output.hashtags ?? []).slice(0, this.algorithmFocus.hashtagStrategy.count.max);
 
         // Build complete script from sections
         const fullScript = [
@@ -426,23 +410,11 @@ ${fewShotExample}
 
         // Calculate total duration from sections
         const totalWords = (hookSection?.wordCount || 0) + bodySection.wordCount + (ctaSection?.wordCount || 0);
-        const estimatedDuration = Math.round(totalWords / 2.5);
+        const estimatedDuration = estimateSpeechSeconds(totalWords, options.language);
 
-        // Collect warnings - only for genuinely problematic content
+        // Shape problems are rejected by the validator; only content concerns remain
         const warnings: string[] = [];
 
-        // Check for incomplete sections (after trimming)
-        if (hookSection && !this.validateSectionCompleteness(hookSection)) {
-            warnings.push('Hook bölümü tamamlanmamış görünüyor');
-        }
-        if (!this.validateSectionCompleteness(bodySection)) {
-            warnings.push('Body bölümü tamamlanmamış görünüyor');
-        }
-        if (ctaSection && !this.validateSectionCompleteness(ctaSection)) {
-            warnings.push('CTA bölümü tamamlanmamış görünüyor');
-        }
-
-        // Check for abnormally short content
         if (totalWords < 15) {
             warnings.push('Script çok kısa - AI yanıtı eksik olabilir');
         }
@@ -450,7 +422,7 @@ ${fewShotExample}
         return {
             platform: this.platform,
             script: fullScript,
-            title: suggestedTitle.replace(/^["']|["']$/g, '').trim(),
+            title: (output.title || trend.title).replace(/^["']|["']$/g, '').trim(),
             hashtags: hashtags.length > 0 ? hashtags : this.generateDefaultHashtags(trend),
             estimatedDurationSeconds: estimatedDuration,
             sections: {
@@ -464,6 +436,7 @@ ${fewShotExample}
                 trendId: trend.id,
                 category: trend.category,
                 agentVersion: this.version,
+                language: options.language,
             },
             warnings: warnings.length > 0 ? warnings : undefined,
         };
@@ -488,75 +461,16 @@ ${fewShotExample}
             .trim();
     }
 
-    /**
-     * Validate if a section appears to be complete (ends with punctuation)
-     */
-    protected validateSectionCompleteness(section: ScriptSection): boolean {
-        const content = section.content.trim();
-        // Check if content ends with proper punctuation
-        const endsWithPunctuation = /[.!?…"']$/.test(content);
-        // Check minimum word count (very short sections are suspicious)
-        const hasMinimumWords = section.wordCount >= 5;
-        // Check if last word appears truncated (ends with letters, no punctuation)
-        const lastWord = content.split(/\s+/).pop() || '';
-        const lastWordTruncated = /^[a-zA-ZçğıöşüÇĞİÖŞÜ]+$/.test(lastWord) && lastWord.length > 2;
-
-        // Section is complete if it ends with punctuation OR has minimum words and doesn't look truncated
-        return endsWithPunctuation || (hasMinimumWords && !lastWordTruncated);
-    }
-
-    /**
-     * Enforce word limit on a section by trimming content
-     * 
-     * Tries to trim at sentence boundaries for cleaner results.
-     * If no sentence boundary found, trims at word boundary and adds ellipsis.
-     */
-    protected enforceWordLimit(
-        section: ScriptSection,
-        maxWords: number
-    ): { section: ScriptSection; wasTrimmed: boolean } {
-        if (section.wordCount <= maxWords) {
-            return { section, wasTrimmed: false };
-        }
-
-        const content = section.content;
-        const words = content.split(/\s+/);
-
-        // Take only maxWords
-        const trimmedWords = words.slice(0, maxWords);
-        let trimmedContent = trimmedWords.join(' ');
-
-        // Try to find a sentence boundary within the trimmed content
-        // Look for last complete sentence (ends with . ! ? ...)
-        const sentenceEndMatch = trimmedContent.match(/^([\s\S]*[.!?…])\s*[^.!?…]*$/);
-
-        if (sentenceEndMatch && sentenceEndMatch[1].split(/\s+/).length >= Math.floor(maxWords * 0.5)) {
-            // We found a sentence boundary that keeps at least 50% of allowed words
-            trimmedContent = sentenceEndMatch[1].trim();
-        } else {
-            // No good sentence boundary, just add ellipsis
-            trimmedContent = trimmedContent.trim();
-            // Clean trailing punctuation if incomplete
-            trimmedContent = trimmedContent.replace(/[,;:]$/, '');
-            trimmedContent += '...';
-        }
-
-        return {
-            section: this.createSection(trimmedContent),
-            wasTrimmed: true,
-        };
-    }
-
     /**
      * Create a section with word count and duration metadata
      */
-    protected createSection(content: string): ScriptSection {
+    protected createSection(content: string, language?: ScriptLanguage): ScriptSection {
         const cleanedContent = this.cleanSectionContent(content);
         const wordCount = cleanedContent.split(/\s+/).filter(Boolean).length;
         return {
             content: cleanedContent,
             wordCount,
-            estimatedSeconds: Math.round(wordCount / 2.5),
+            estimatedSeconds: estimateSpeechSeconds(wordCount, language),
         };
     }
 
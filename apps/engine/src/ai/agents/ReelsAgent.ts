@@ -68,7 +68,7 @@ export class ReelsAgent extends BasePlatformAgent {
 - Include aesthetic cues like [CLEAN TRANSITION], [SOFT LIGHTING]
 - Suggest visually appealing text overlay styles
 
-Always format your response with clear [HOOK], [BODY], [CTA], [TITLE], and [HASHTAGS] sections.`;
+Always respond with the JSON object described in the brief, keeping hook, body and cta in separate fields.`;
     }
 
     protected buildPlatformPrompt(trend: TrendData, _options: AgentOptions): string {
@@ -70,7 +70,7 @@ export class ShortsAgent extends BasePlatformAgent {
 - Include [SUBSCRIBE PROMPT] cues at strategic moments
 - Add [SEARCH KEYWORD: term] for SEO optimization
 
-Always format your response with clear [HOOK], [BODY], [CTA], [TITLE], and [HASHTAGS] sections.`;
+Always respond with the JSON object described in the brief, keeping hook, body and cta in separate fields.`;
     }
 
     protected buildPlatformPrompt(trend: TrendData, _options: AgentOptions): string {
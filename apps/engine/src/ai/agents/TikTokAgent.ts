@@ -67,7 +67,7 @@ export class TikTokAgent extends BasePlatformAgent {
 - Include performance cues like [PAUSE], [EMPHASIS], [WHISPER]
 - Add visual/sound suggestions in [brackets]
 
-Always format your response with clear [HOOK], [BODY], [CTA], [TITLE], and [HASHTAGS] sections.`;
+Always respond with the JSON object described in the brief, keeping hook, body and cta in separate fields.`;
     }
 
     protected buildPlatformPrompt(trend: TrendData, options: AgentOptions): string {
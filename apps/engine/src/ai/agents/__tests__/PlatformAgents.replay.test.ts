@@ -0,0 +1,67 @@
+/**
+ * Platform Agents Replay Tests
+ *
+ * Runs script generation end to end against the LLM fixtures committed in
+ * fixtures/llm (LLM_RECORD_MODE=replay): no network calls, no API key.
+ * Re-record with LLM_RECORD_MODE=record after changing the prompts.
+ *
+ * @module ai/agents/__tests__/PlatformAgents.replay.test
+ */
+
+import { describe, it, expect, vi, afterAll } from 'vitest';
+import type { TrendData } from '@icerik/shared';
+
+vi.hoisted(() => {
+    vi.stubEnv('LLM_RECORD_MODE', 'replay');
+    vi.stubEnv('LLM_PROVIDER', 'gemini');
+});
+
+// Learned examples come from the local database; keep them out of the prompt
+vi.mock('../../examples/index.js', async (importOriginal) => ({
+    ...(await importOriginal<typeof import('../../examples/index.js')>()),
+    getExampleSelector: vi.fn(() => ({
+        selectExamples: () => [],
+        formatExamplesForPrompt: () => '',
+    })),
+}));
+
+const { TikTokAgent } = await import('../TikTokAgent.js');
+
+// An RSS trend, so grounding uses the title instead of fetching a thread
+const TREND: TrendData = {
+    id: 'replay-trend-1',
+    title: 'Apple announces M5 MacBook Pro with faster chips',
+    subreddit: 'hackernews',
+    category: 'technology',
+    source: 'rss',
+    score: 1200,
+    upvoteRatio: 1,
+    numComments: 340,
+    createdUtc: 1760000000,
+    nes: 42,
+    engagementVelocity: 120,
+    controversyFactor: 1,
+    ageHours: 3,
+    sourceUrl: 'https://www.apple.com/newsroom/m5',
+    permalink: 'https://news.ycombinator.com/item?id=1',
+    fetchedAt: new Date('2026-10-19T12:00:00.000Z'),
+};
+
+describe('Platform Agents (replay)', () => {
+    afterAll(() => {
+        vi.unstubAllEnvs();
+    });
+
+    it('generates and fact-checks a TikTok script from recorded responses', async () => {
+        const script = await new TikTokAgent().generateScript(TREND, { language: 'en', durationSeconds: 30 });
+
+        expect(script.platform).toBe('tiktok');
+        expect(script.sections.hook?.content).toBe('Apple just made the MacBook Pro faster again.');
+        expect(script.sections.cta?.content).toBe('Would you upgrade? Tell me in the comments!');
+        expect(script.hashtags).toEqual(['#apple', '#macbookpro', '#tech']);
+        expect(script.warnings).toEqual([
+            'Kaynak gönderi okunamadı; iddialar yalnızca başlığa göre kontrol edildi',
+            'Kaynakta desteklenmeyen iddia: "It ships next week"',
+        ]);
+    });
+});
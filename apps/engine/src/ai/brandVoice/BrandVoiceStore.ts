@@ -0,0 +1,205 @@
+/**
+ * Brand Voice Store
+ *
+ * SQLite-backed brand voice profiles. Generation requests reference a
+ * profile by id; the agents, variant generator and iterator resolve it
+ * through resolveBrandVoice().
+ *
+ * @module ai/brandVoice/BrandVoiceStore
+ */
+
+import { getDatabase } from '../../cache/index.js';
+import { createChildLogger } from '../../utils/logger.js';
+import { BrandVoiceError } from './brandVoiceTypes.js';
+import type { BrandVoiceProfile, BrandVoiceInput, BrandVoiceUpdate, EmojiPolicy } from './brandVoiceTypes.js';
+
+const logger = createChildLogger('brand-voice');
+
+interface BrandVoiceRow {
+    id: string;
+    name: string;
+    description: string | null;
+    tone: string | null;
+    vocabulary: string;
+    banned_phrases: string;
+    preferred_ctas: string;
+    sample_scripts: string;
+    emoji_policy: string;
+    created_at: string;
+    updated_at: string;
+}
+
+function rowToProfile(row: BrandVoiceRow): BrandVoiceProfile {
+    return {
+        id: row.id,
+        name: row.name,
+        description: row.description ?? undefined,
+        tone: row.tone ?? undefined,
+        vocabulary: JSON.parse(row.vocabulary) as BrandVoiceProfile['vocabulary'],
+        bannedPhrases: JSON.parse(row.banned_phrases) as string[],
+        preferredCtas: JSON.parse(row.preferred_ctas) as string[],
+        sampleScripts: JSON.parse(row.sample_scripts) as string[],
+        emojiPolicy: row.emoji_policy as EmojiPolicy,
+        createdAt: row.created_at,
+        updatedAt: row.updated_at,
+    };
+}
+
+/**
+ * BrandVoiceStore class
+ * Reads are served from an in-memory copy that is reloaded after each write.
+ */
+export class BrandVoiceStore {
+    private db = getDatabase();
+    private profiles: Map<string, BrandVoiceProfile> | null = null;
+
+    /**
+     * Lists all profiles by name
+     */
+    list(): BrandVoiceProfile[] {
+        return Array.from(this.load().values());
+    }
+
+    /**
+     * Gets a profile by id
+     */
+    get(id: string): BrandVoiceProfile | undefined {
+        return this.load().get(id);
+    }
+
+    /**
+     * Adds a profile
+     * @throws BrandVoiceError (409) if the id is taken
+     */
+    create(input: BrandVoiceInput): BrandVoiceProfile {
+        if (this.get(input.id)) {
+            throw new BrandVoiceError(`Brand voice already exists: ${input.id}`, 409);
+        }
+
+        const now = new Date().toISOString();
+        this.write({ ...input, createdAt: now, updatedAt: now }, 'insert');
+
+        logger.info({ profileId: input.id }, 'Brand voice created');
+        this.profiles = null;
+
+        return this.get(input.id)!;
+    }
+
+    /**
+     * Updates fields of a profile; lists are replaced, not merged
+     * @throws BrandVoiceError (404) if it does not exist
+     */
+    update(id: string, changes: BrandVoiceUpdate): BrandVoiceProfile {
+        const current = this.get(id);
+        if (!current) {
+            throw new BrandVoiceError(`Brand voice not found: ${id}`, 404);
+        }
+
+        const next: BrandVoiceProfile = {
+            ...current,
+            ...changes,
+            id: current.id,
+            createdAt: current.createdAt,
+            updatedAt: new Date().toISOString(),
+        };
+        this.write(next, 'update');
+
+        logger.info({ profileId: id, fields: Object.keys(changes) }, 'Brand voice updated');
+        this.profiles = null;
+
+        return next;
+    }
+
+    /**
+     * Removes a profile
+     * @throws BrandVoiceError (404) if it does not exist
+     */
+    remove(id: string): void {
+        const result = this.db.prepare('DELETE FROM brand_voice_profiles WHERE id = ?').run(id);
+
+        if (result.changes === 0) {
+            throw new BrandVoiceError(`Brand voice not found: ${id}`, 404);
+        }
+
+        logger.info({ profileId: id }, 'Brand voice removed');
+        this.profiles = null;
+    }
+
+    private write(profile: BrandVoiceProfile, mode: 'insert' | 'update'): void {
+        const values = [
+            profile.name,
+            profile.description ?? null,
+            profile.tone ?? null,
+            JSON.stringify(profile.vocabulary),
+            JSON.stringify(profile.bannedPhrases),
+            JSON.stringify(profile.preferredCtas),
+            JSON.stringify(profile.sampleScripts),
+            profile.emojiPolicy,
+            profile.updatedAt,
+        ];
+
+        if (mode === 'insert') {
+            this.db.prepare(`
+                INSERT INTO brand_voice_profiles (
+                    name, description, tone, vocabulary, banned_phrases, preferred_ctas,
+                    sample_scripts, emoji_policy, updated_at, id, created_at
+                ) VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?)
+            `).run(...values, profile.id, profile.createdAt);
+        } else {
+            this.db.prepare(`
+                UPDATE brand_voice_profiles
+                SET name = ?, description = ?, tone = ?, vocabulary = ?, banned_phrases = ?,
+                    preferred_ctas = ?, sample_scripts = ?, emoji_policy = ?, updated_at = ?
+                WHERE id = ?
+            `).run(...values, profile.id);
+        }
+    }
+
+    private load(): Map<string, BrandVoiceProfile> {
+        if (!this.profiles) {
+            const rows = this.db.prepare(`
+                SELECT * FROM brand_voice_profiles ORDER BY name ASC
+            `).all() as BrandVoiceRow[];
+
+            this.profiles = new Map(rows.map(row => [row.id, rowToProfile(row)]));
+        }
+        return this.profiles;
+    }
+}
+
+// Singleton instance
+let storeInstance: BrandVoiceStore | null = null;
+
+/**
+ * Gets the singleton BrandVoiceStore instance
+ */
+export function getBrandVoiceStore(): BrandVoiceStore {
+    if (!storeInstance) {
+        storeInstance = new BrandVoiceStore();
+    }
+    return storeInstance;
+}
+
+/**
+ * Resets the store instance (for testing)
+ */
+export function resetBrandVoiceStore(): void {
+    storeInstance = null;
+}
+
+/**
+ * Looks up the profile a generation request refers to
+ * @returns undefined when no profileId was given
+ * @throws BrandVoiceError (404) if the profile does not exist
+ */
+export function resolveBrandVoice(profileId: string | undefined): BrandVoiceProfile | undefined {
+    if (!profileId) {
+        return undefined;
+    }
+
+    const profile = getBrandVoiceStore().get(profileId);
+    if (!profile) {
+        throw new BrandVoiceError(`Brand voice not found: ${profileId}`, 404);
+    }
+    return profile;
+}
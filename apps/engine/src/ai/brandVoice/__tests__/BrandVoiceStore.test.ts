@@ -0,0 +1,109 @@
+/**
+ * Brand Voice Tests
+ *
+ * Unit tests for profile storage, prompt rendering and the constraints
+ * applied to structured script output.
+ *
+ * @module ai/brandVoice/__tests__/BrandVoiceStore.test
+ */
+
+import { describe, it, expect, beforeEach, afterEach, afterAll } from 'vitest';
+import {
+    getBrandVoiceStore,
+    resetBrandVoiceStore,
+    resolveBrandVoice,
+} from '../BrandVoiceStore.js';
+import { buildBrandVoicePrompt, getBrandVoiceConstraints } from '../brandVoicePrompt.js';
+import { BrandVoiceError } from '../brandVoiceTypes.js';
+import type { BrandVoiceInput } from '../brandVoiceTypes.js';
+import { createScriptOutputValidator } from '../../validation/scriptOutput.js';
+import { validateStructuredResponse } from '../../llm/structuredOutput.js';
+import { closeDatabase } from '../../../cache/database.js';
+
+const TEST_PROFILE: BrandVoiceInput = {
+    id: 'test-brand-voice',
+    name: 'Sakin Teknoloji',
+    tone: 'Calm, precise, slightly dry humour.',
+    vocabulary: { use: ['kısaca'], avoid: ['inanılmaz'] },
+    bannedPhrases: ['Şok olacaksınız'],
+    preferredCtas: ['Takipte kal, devamı geliyor.'],
+    sampleScripts: ['Yeni çip geldi. Kısaca: daha az ısı, daha çok pil.'],
+    emojiPolicy: 'none',
+};
+
+describe('BrandVoiceStore', () => {
+    beforeEach(() => {
+        resetBrandVoiceStore();
+    });
+
+    afterEach(() => {
+        const store = getBrandVoiceStore();
+        if (store.get(TEST_PROFILE.id)) {
+            store.remove(TEST_PROFILE.id);
+        }
+    });
+
+    afterAll(() => {
+        resetBrandVoiceStore();
+        closeDatabase();
+    });
+
+    it('creates, updates and resolves profiles', () => {
+        const store = getBrandVoiceStore();
+        const created = store.create(TEST_PROFILE);
+
+        expect(created.vocabulary.avoid).toEqual(['inanılmaz']);
+        expect(() => store.create(TEST_PROFILE)).toThrow(BrandVoiceError);
+
+        const updated = store.update(TEST_PROFILE.id, { emojiPolicy: 'minimal', bannedPhrases: [] });
+        expect(updated.emojiPolicy).toBe('minimal');
+        expect(updated.createdAt).toBe(created.createdAt);
+
+        resetBrandVoiceStore();
+        expect(resolveBrandVoice(TEST_PROFILE.id)?.bannedPhrases).toEqual([]);
+        expect(resolveBrandVoice(undefined)).toBeUndefined();
+    });
+
+    it('rejects unknown profile ids with 404', () => {
+        try {
+            resolveBrandVoice('missing-profile');
+            expect.unreachable();
+        } catch (error) {
+            expect(error).toBeInstanceOf(BrandVoiceError);
+            expect((error as BrandVoiceError).statusCode).toBe(404);
+        }
+        expect(() => getBrandVoiceStore().remove('missing-profile')).toThrow(BrandVoiceError);
+    });
+});
+
+describe('brand voice prompt and constraints', () => {
+    const profile = { ...TEST_PROFILE, createdAt: '', updatedAt: '' };
+
+    it('renders every configured list', () => {
+        const prompt = buildBrandVoicePrompt(profile);
+
+        expect(prompt).toContain('BRAND VOICE: Sakin Teknoloji');
+        expect(prompt).toContain('- inanılmaz');
+        expect(prompt).toContain('- Şok olacaksınız');
+        expect(prompt).toContain('- Takipte kal, devamı geliyor.');
+        expect(prompt).toContain('Do not use any emoji');
+    });
+
+    it('turns banned phrases and emoji into retryable issues', () => {
+        const validator = createScriptOutputValidator(
+            { includeHook: true, includeCta: true, includeMeta: false },
+            getBrandVoiceConstraints(profile)
+        );
+
+        const result = validateStructuredResponse(JSON.stringify({
+            hook: 'şok olacaksınız, yeni çip geldi!',
+            body: 'Daha az ısı, daha çok pil 🔋',
+            cta: 'Takipte kal, devamı geliyor.',
+        }), validator);
+
+        expect(result.issues).toEqual([
+            'hook: uses the banned phrase "Şok olacaksınız"; rephrase without it',
+            'body: contains emoji; this brand voice uses none',
+        ]);
+    });
+});
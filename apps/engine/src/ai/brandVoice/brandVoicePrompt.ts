@@ -0,0 +1,97 @@
+/**
+ * Brand Voice Prompt
+ *
+ * Renders a profile as a prompt section and as the validator constraints
+ * that hold structured responses to it.
+ *
+ * @module ai/brandVoice/brandVoicePrompt
+ */
+
+import type { ScriptOutputConstraints } from '../validation/index.js';
+import type { BrandVoiceProfile, EmojiPolicy } from './brandVoiceTypes.js';
+
+/**
+ * Emoji policy instructions
+ */
+const EMOJI_POLICY_INSTRUCTIONS: Record<EmojiPolicy, string> = {
+    none: 'Do not use any emoji anywhere, including the title.',
+    minimal: 'Use at most one emoji, preferably in the title only.',
+    moderate: 'Use a few emoji (2-3) where they add meaning.',
+    heavy: 'Use emoji freely to add energy and rhythm.',
+};
+
+/**
+ * Samples are there to show the voice, not to fill the context window
+ */
+const MAX_SAMPLE_SCRIPTS = 2;
+const MAX_SAMPLE_CHARS = 600;
+
+function bulletList(items: string[]): string {
+    return items.map(item => `- ${item}`).join('\n');
+}
+
+/**
+ * Tone instruction for a profile, if it defines its own
+ */
+export function getBrandVoiceTone(profile: BrandVoiceProfile | undefined): string | undefined {
+    return profile?.tone?.trim() || undefined;
+}
+
+/**
+ * Build the brand voice section appended to generation and iteration prompts
+ */
+export function buildBrandVoicePrompt(profile: BrandVoiceProfile): string {
+    const parts: string[] = [`## 🎙️ BRAND VOICE: ${profile.name}`];
+
+    if (profile.description) {
+        parts.push(profile.description);
+    }
+
+    if (profile.tone) {
+        parts.push(`### Tone\n${profile.tone}`);
+    }
+
+    if (profile.vocabulary.use.length > 0) {
+        parts.push(`### Words and expressions to use\n${bulletList(profile.vocabulary.use)}`);
+    }
+
+    if (profile.vocabulary.avoid.length > 0) {
+        parts.push(`### Words and expressions to avoid\n${bulletList(profile.vocabulary.avoid)}`);
+    }
+
+    if (profile.bannedPhrases.length > 0) {
+        parts.push(`### ⛔ Banned phrases (never use these, in any form)\n${bulletList(profile.bannedPhrases)}`);
+    }
+
+    if (profile.preferredCtas.length > 0) {
+        parts.push(`### Preferred calls to action (reuse or closely paraphrase one)\n${bulletList(profile.preferredCtas)}`);
+    }
+
+    parts.push(`### Emoji\n${EMOJI_POLICY_INSTRUCTIONS[profile.emojiPolicy]}`);
+
+    const samples = profile.sampleScripts.slice(0, MAX_SAMPLE_SCRIPTS);
+    if (samples.length > 0) {
+        const rendered = samples
+            .map((sample, index) => `Sample ${index + 1}:\n"""\n${sample.slice(0, MAX_SAMPLE_CHARS).trim()}\n"""`)
+            .join('\n\n');
+        parts.push(`### Past scripts in this voice (match the voice, not the topic)\n${rendered}`);
+    }
+
+    parts.push('The brand voice overrides the generic tone guidance above when they conflict.');
+
+    return parts.join('\n\n');
+}
+
+/**
+ * Constraints enforced on structured responses for a profile
+ */
+export function getBrandVoiceConstraints(profile: BrandVoiceProfile | undefined): ScriptOutputConstraints {
+    if (!profile) {
+        return {};
+    }
+
+    return {
+        bannedPhrases: profile.bannedPhrases,
+        forbidEmoji: profile.emojiPolicy === 'none',
+    };
+}
@@ -0,0 +1,67 @@
+/**
+ * Brand Voice Types
+ *
+ * Named channel personas applied on top of the platform prompts.
+ *
+ * @module ai/brandVoice/brandVoiceTypes
+ */
+
+/**
+ * How much emoji a profile allows in scripts and titles
+ */
+export type EmojiPolicy = 'none' | 'minimal' | 'moderate' | 'heavy';
+
+export const EMOJI_POLICIES: readonly EmojiPolicy[] = ['none', 'minimal', 'moderate', 'heavy'];
+
+/**
+ * Words and expressions the channel does or doesn't use
+ */
+export interface BrandVoiceVocabulary {
+    use: string[];
+    avoid: string[];
+}
+
+/**
+ * Stored brand voice profile
+ */
+export interface BrandVoiceProfile {
+    /** Slug used as profileId in generation requests */
+    id: string;
+    name: string;
+    description?: string;
+    /** Free-form tone description; replaces the built-in tone instructions */
+    tone?: string;
+    vocabulary: BrandVoiceVocabulary;
+    /** Phrases that must never appear; responses containing them are rejected */
+    bannedPhrases: string[];
+    /** CTAs to reuse or paraphrase */
+    preferredCtas: string[];
+    /** Past scripts that show the voice */
+    sampleScripts: string[];
+    emojiPolicy: EmojiPolicy;
+    createdAt: string;
+    updatedAt: string;
+}
+
+/**
+ * Fields accepted when creating a profile
+ */
+export type BrandVoiceInput = Omit<BrandVoiceProfile, 'createdAt' | 'updatedAt'>;
+
+/**
+ * Fields that can be changed on an existing profile
+ */
+export type BrandVoiceUpdate = Partial<Omit<BrandVoiceInput, 'id'>>;
+
+/**
+ * Custom error class for brand voice errors
+ */
+export class BrandVoiceError extends Error {
+    constructor(
+        message: string,
+        public readonly statusCode: 404 | 409
+    ) {
+        super(message);
+        this.name = 'BrandVoiceError';
+    }
+}
@@ -0,0 +1,30 @@
+/**
+ * Brand Voice Module
+ *
+ * Exports brand voice profile storage and prompt helpers.
+ *
+ * @module ai/brandVoice
+ */
+
+export {
+    BrandVoiceError,
+    EMOJI_POLICIES,
+    type BrandVoiceProfile,
+    type BrandVoiceInput,
+    type BrandVoiceUpdate,
+    type BrandVoiceVocabulary,
+    type EmojiPolicy,
+} from './brandVoiceTypes.js';
+
+export {
+    BrandVoiceStore,
+    getBrandVoiceStore,
+    resetBrandVoiceStore,
+    resolveBrandVoice,
+} from './BrandVoiceStore.js';
+
+export {
+    buildBrandVoicePrompt,
+    getBrandVoiceConstraints,
+    getBrandVoiceTone,
+} from './brandVoicePrompt.js';
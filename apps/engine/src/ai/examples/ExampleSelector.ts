@@ -2,14 +2,17 @@
  * Example Selector Module
  *
  * Dynamically selects the most relevant few-shot examples based on
- * trend characteristics for improved AI script generation.
+ * trend characteristics for improved AI script generation. The pool is
+ * filled from scripts the team rated highly and persisted in ExampleStore.
  *
  * @module ai/examples/ExampleSelector
  */
 
-import type { ContentCategory, TrendData, AlgorithmScore } from '@icerik/shared';
+import type { ContentCategory, TrendData, AlgorithmScore, ScriptLanguage } from '@icerik/shared';
 import type { Platform, PlatformScript } from '@icerik/shared';
+import { DEFAULT_SCRIPT_LANGUAGE } from '../../language/index.js';
 import { createChildLogger } from '../../utils/logger.js';
+import { getExampleStore } from './ExampleStore.js';
 
 const logger = createChildLogger('exampleSelector');
 
@@ -19,16 +22,20 @@ const logger = createChildLogger('exampleSelector');
 export interface ScriptExample {
     /** Unique example ID */
     id: string;
-    /** Source trend metadata */
+    /** Source trend metadata (subreddit and scores are unknown for scripts saved without their trend) */
     trend: {
         title: string;
-        subreddit: string;
+        subreddit?: string;
         category: ContentCategory;
-        nes: number;
-        engagementVelocity: number;
+        nes?: number;
+        engagementVelocity?: number;
     };
     /** Target platform */
     platform: Platform;
+    /** Script language (Turkish when missing) */
+    language?: ScriptLanguage;
+    /** Library script the example was promoted from */
+    scriptId?: string;
     /** Script sections */
     script: {
         hook: string;
@@ -38,7 +45,7 @@ export interface ScriptExample {
     /** Performance metrics */
     performance: {
         algorithmScore: number;
-        userRating?: number;  // Future: user feedback integration
+        userRating?: number;  // Team rating, 1-5
     };
     /** When the example was added */
     createdAt: string;
@@ -46,6 +53,13 @@ export interface ScriptExample {
     keywords: string[];
 }
 
+/**
+ * Trend an example is created from; a library script saved without its
+ * trend only knows the trend's id, title and category
+ */
+export type ExampleSourceTrend = Pick<TrendData, 'id' | 'title' | 'category'>
+    & Partial<Pick<TrendData, 'subreddit' | 'nes' | 'engagementVelocity'>>;
+
 /**
  * Example selection criteria
  */
@@ -60,6 +74,8 @@ export interface ExampleSelectionCriteria {
     minAlgorithmScore?: number;
     /** Target platform */
     platform?: Platform;
+    /** Script language */
+    language?: ScriptLanguage;
 }
 
 /**
@@ -72,6 +88,18 @@ const SIMILARITY_WEIGHTS = {
     keywords: 0.20,      // Keyword overlap
 } as const;
 
+/**
+ * Similarity multiplier per rating point above (or below) a neutral 3
+ */
+const USER_RATING_BOOST = 0.1;
+
+/**
+ * Pool rank: algorithm score, moved 10 points per rating point from neutral
+ */
+function rankExample(example: ScriptExample): number {
+    return example.performance.algorithmScore + ((example.performance.userRating ?? 3) - 3) * 10;
+}
+
 /**
  * Example Selector
  *
@@ -96,22 +124,31 @@ export class ExampleSelector {
             logger.debug({ id: example.id }, 'Added new example');
         }
 
-        // Keep only highest performing examples
-        if (this.examples.length > this.maxExamples) {
-            this.examples.sort((a, b) =>
-                b.performance.algorithmScore - a.performance.algorithmScore
-            );
-            this.examples = this.examples.slice(0, this.maxExamples);
+        this.trimPool();
+    }
+
+    /**
+     * Remove an example from the pool
+     * @returns whether it was in the pool
+     */
+    removeExample(id: string): boolean {
+        const before = this.examples.length;
+        this.examples = this.examples.filter(e => e.id !== id);
+
+        if (this.examples.length < before) {
+            logger.debug({ id }, 'Removed example');
+            return true;
         }
+        return false;
     }
 
     /**
      * Create an example from a generated script with its score
      */
     createExampleFromScript(
-        trend: TrendData,
+        trend: ExampleSourceTrend,
         script: PlatformScript,
-        score: AlgorithmScore
+        score: Pick<AlgorithmScore, 'overallScore'>
     ): ScriptExample {
         const id = `ex_${trend.id}_${script.platform}_${Date.now()}`;
 
@@ -125,6 +162,7 @@ export class ExampleSelector {
                 engagementVelocity: trend.engagementVelocity,
             },
             platform: script.platform,
+            language: script.metadata.language,
             script: {
                 hook: script.sections.hook?.content ?? '',
                 body: script.sections.body.content,
@@ -155,13 +193,14 @@ export class ExampleSelector {
             }
             if (criteria.nesRange) {
                 candidates = candidates.filter(e =>
+                    e.trend.nes !== undefined &&
                     e.trend.nes >= criteria.nesRange!.min &&
                     e.trend.nes <= criteria.nesRange!.max
                 );
             }
             if (criteria.subreddits?.length) {
                 candidates = candidates.filter(e =>
-                    criteria.subreddits!.includes(e.trend.subreddit)
+                    e.trend.subreddit !== undefined && criteria.subreddits!.includes(e.trend.subreddit)
                 );
             }
             if (criteria.minAlgorithmScore !== undefined) {
@@ -172,6 +211,11 @@ export class ExampleSelector {
             if (criteria.platform) {
                 candidates = candidates.filter(e => e.platform === criteria.platform);
             }
+            if (criteria.language) {
+                candidates = candidates.filter(e =>
+                    (e.language ?? DEFAULT_SCRIPT_LANGUAGE) === criteria.language
+                );
+            }
         }
 
         // Score remaining candidates
@@ -180,8 +224,8 @@ export class ExampleSelector {
             score: this.calculateSimilarity(trend, example),
         }));
 
-        // Sort by similarity score (highest first)
-        scored.sort((a, b) => b.score - a.score);
+        // Sort by similarity score (highest first); capped ties go to the better ranked example
+        scored.sort((a, b) => b.score - a.score || rankExample(b.example) - rankExample(a.example));
 
         // Return top N
         return scored.slice(0, count).map(s => s.example);
@@ -218,9 +262,9 @@ export class ExampleSelector {
         }
 
         const formatted = examples.map((ex, i) => `
-## Example ${i + 1} (Score: ${ex.performance.algorithmScore}/100)
+## Example ${i + 1} (Score: ${ex.performance.algorithmScore}/100${ex.performance.userRating !== undefined ? `, team rating: ${ex.performance.userRating}/5` : ''})
 **Trend**: ${ex.trend.title}
-**Category**: ${ex.trend.category} | NES: ${ex.trend.nes.toFixed(1)}
+**Category**: ${ex.trend.category}${ex.trend.nes !== undefined ? ` | NES: ${ex.trend.nes.toFixed(1)}` : ''}
 
 [HOOK]
 ${ex.script.hook}
@@ -234,7 +278,7 @@ ${ex.script.cta}
 
         return `
 # High-Performing Script Examples
-These examples scored well with the algorithm. Learn from their patterns:
+These examples scored well with the algorithm and our team. Learn from their patterns:
 
 ${formatted}
 `;
@@ -251,18 +295,21 @@ ${formatted}
             score += SIMILARITY_WEIGHTS.category;
         }
 
-        // NES proximity (closer = better, normalized to 0-1)
-        const nesDiff = Math.abs(trend.nes - example.trend.nes);
-        const nesScore = Math.max(0, 1 - nesDiff / 100);
-        score += SIMILARITY_WEIGHTS.nesProximity * nesScore;
+        // NES proximity (closer = better, normalized to 0-1); no credit when the example's NES is unknown
+        if (example.trend.nes !== undefined) {
+            const nesDiff = Math.abs(trend.nes - example.trend.nes);
+            const nesScore = Math.max(0, 1 - nesDiff / 100);
+            score += SIMILARITY_WEIGHTS.nesProximity * nesScore;
+        }
 
-        // Subreddit match
-        if (trend.subreddit === example.trend.subreddit) {
-            score += SIMILARITY_WEIGHTS.subreddit;
-        } else {
-            // Partial credit for similar subreddits (same first 3 chars)
-            if (trend.subreddit.slice(0, 3).toLowerCase() ===
-                example.trend.subreddit.slice(0, 3).toLowerCase()) {
+        // Subreddit match; no credit when the example's subreddit is unknown
+        const exampleSubreddit = example.trend.subreddit;
+        if (exampleSubreddit !== undefined) {
+            if (trend.subreddit === exampleSubreddit) {
+                score += SIMILARITY_WEIGHTS.subreddit;
+            } else if (trend.subreddit.slice(0, 3).toLowerCase() ===
+                exampleSubreddit.slice(0, 3).toLowerCase()) {
+                // Partial credit for similar subreddits (same first 3 chars)
                 score += SIMILARITY_WEIGHTS.subreddit * 0.3;
             }
         }
@@ -279,6 +326,11 @@ ${formatted}
             score *= 1.1;
         }
 
+        // Boost what the team liked; weakly rated examples never reach the pool
+        if (example.performance.userRating !== undefined) {
+            score *= 1 + (example.performance.userRating - 3) * USER_RATING_BOOST;
+        }
+
         return Math.min(1, score);
     }
 
@@ -377,7 +429,18 @@ ${formatted}
      */
     importExamples(examples: ScriptExample[]): void {
         this.examples = [...examples];
-        logger.info({ count: examples.length }, 'Imported examples');
+        this.trimPool();
+        logger.info({ count: this.examples.length }, 'Imported examples');
+    }
+
+    /**
+     * Keep only the highest ranked examples
+     */
+    private trimPool(): void {
+        if (this.examples.length > this.maxExamples) {
+            this.examples.sort((a, b) => rankExample(b) - rankExample(a));
+            this.examples = this.examples.slice(0, this.maxExamples);
+        }
     }
 }
 
@@ -393,6 +456,7 @@ let selectorInstance: ExampleSelector | null = null;
 export function getExampleSelector(): ExampleSelector {
     if (!selectorInstance) {
         selectorInstance = new ExampleSelector();
+        selectorInstance.importExamples(getExampleStore().list());
     }
     return selectorInstance;
 }
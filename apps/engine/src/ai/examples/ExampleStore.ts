@@ -0,0 +1,92 @@
+/**
+ * Example Store
+ *
+ * SQLite-backed few-shot examples, so promoted scripts survive restarts.
+ * The ExampleSelector singleton loads its pool from here; writes never
+ * throw, a failure only means the example is not kept across restarts.
+ *
+ * @module ai/examples/ExampleStore
+ */
+
+import { getDatabase } from '../../cache/index.js';
+import { createChildLogger } from '../../utils/logger.js';
+import type { ScriptExample } from './ExampleSelector.js';
+
+const logger = createChildLogger('example-store');
+
+/**
+ * Few-shot example id of a promoted library script
+ */
+export function exampleIdForScript(scriptId: string): string {
+    return `ex_${scriptId}`;
+}
+
+/**
+ * ExampleStore class
+ */
+export class ExampleStore {
+    private db = getDatabase();
+
+    /**
+     * All stored examples
+     */
+    list(): ScriptExample[] {
+        try {
+            const rows = this.db.prepare('SELECT example FROM few_shot_examples ORDER BY created_at')
+                .all() as Array<{ example: string }>;
+            return rows.map(row => JSON.parse(row.example) as ScriptExample);
+        } catch (error) {
+            logger.error({ error }, 'Failed to load examples');
+            return [];
+        }
+    }
+
+    /**
+     * Insert or replace an example
+     */
+    save(example: ScriptExample): void {
+        try {
+            const now = new Date().toISOString();
+            this.db.prepare(`
+                INSERT INTO few_shot_examples (id, platform, category, example, created_at, updated_at)
+                VALUES (?, ?, ?, ?, ?, ?)
+                ON CONFLICT(id) DO UPDATE SET example = excluded.example, updated_at = excluded.updated_at
+            `).run(example.id, example.platform, example.trend.category, JSON.stringify(example), example.createdAt, now);
+        } catch (error) {
+            logger.error({ error, id: example.id }, 'Failed to save example');
+        }
+    }
+
+    /**
+     * Delete an example
+     * @returns whether it existed
+     */
+    remove(id: string): boolean {
+        try {
+            return this.db.prepare('DELETE FROM few_shot_examples WHERE id = ?').run(id).changes > 0;
+        } catch (error) {
+            logger.error({ error, id }, 'Failed to remove example');
+            return false;
+        }
+    }
+}
+
+// Singleton instance
+let storeInstance: ExampleStore | null = null;
+
+/**
+ * Gets the singleton ExampleStore instance
+ */
+export function getExampleStore(): ExampleStore {
+    if (!storeInstance) {
+        storeInstance = new ExampleStore();
+    }
+    return storeInstance;
+}
+
+/**
+ * Resets the store instance (for testing)
+ */
+export function resetExampleStore(): void {
+    storeInstance = null;
+}
@@ -11,5 +11,13 @@ export {
     getExampleSelector,
     resetExampleSelector,
     type ScriptExample,
+    type ExampleSourceTrend,
     type ExampleSelectionCriteria,
 } from './ExampleSelector.js';
+
+export {
+    ExampleStore,
+    getExampleStore,
+    resetExampleStore,
+    exampleIdForScript,
+} from './ExampleStore.js';
@@ -3,12 +3,16 @@
  * 
  * Provides integration with Google's Gemini AI API for content generation.
  * Includes rate limiting, error handling, and retry logic.
+ * Implements the LLMProvider interface (see ai/llm).
  * 
  * @module ai/gemini
  */
 
 import { createChildLogger } from '../utils/logger.js';
 import { getEnv } from '../utils/env.js';
+import type { LLMProvider, LLMGenerateOptions, LLMJsonSchema } from './llm/llmTypes.js';
+import { LLMError } from './llm/llmTypes.js';
+import { recordUsage, estimateTokens, assertWithinBudget } from '../usage/index.js';
 
 const logger = createChildLogger('gemini');
 
@@ -65,20 +69,54 @@ interface GeminiResponse {
     usageMetadata?: {
         promptTokenCount: number;
         candidatesTokenCount: number;
+        thoughtsTokenCount?: number;
         totalTokenCount: number;
     };
 }
 
+/**
+ * Gemini responseSchema node (OpenAPI subset with upper-case types)
+ */
+interface GeminiSchema {
+    type: string;
+    description?: string;
+    properties?: Record<string, GeminiSchema>;
+    required?: string[];
+    propertyOrdering?: string[];
+    items?: GeminiSchema;
+    enum?: string[];
+}
+
+/**
+ * Convert a provider-neutral schema to Gemini's format.
+ * Properties are generated in declaration order (hook before body before cta).
+ */
+function toGeminiSchema(schema: LLMJsonSchema): GeminiSchema {
+    return {
+        type: schema.type.toUpperCase(),
+        ...(schema.description && { description: schema.description }),
+        ...(schema.enum && { enum: schema.enum }),
+        ...(schema.items && { items: toGeminiSchema(schema.items) }),
+        ...(schema.properties && {
+            properties: Object.fromEntries(
+                Object.entries(schema.properties).map(([key, value]) => [key, toGeminiSchema(value)])
+            ),
+            propertyOrdering: Object.keys(schema.properties),
+        }),
+        ...(schema.required && { required: schema.required }),
+    };
+}
+
 /**
  * Gemini API Error
  */
-export class GeminiError extends Error {
+export class GeminiError extends LLMError {
     constructor(
         message: string,
-        public readonly statusCode?: number,
-        public readonly retryable: boolean = false
+        statusCode?: number,
+        retryable: boolean = false
     ) {
-        super(message);
+        super(message, statusCode, retryable, 'gemini');
         this.name = 'GeminiError';
     }
 }
@@ -134,11 +172,14 @@ function sleep(ms: number): Promise<void> {
 /**
  * Gemini AI Client Class
  */
-export class GeminiClient {
+export class GeminiClient implements LLMProvider {
+    readonly name = 'gemini' as const;
+    readonly model: string;
     private apiKey: string;
 
-    constructor(apiKey?: string) {
+    constructor(apiKey?: string, model: string = GEMINI_CONFIG.MODEL) {
         this.apiKey = apiKey || getEnv().GEMINI_API_KEY || '';
+        this.model = model;
 
         if (!this.apiKey) {
             logger.warn('Gemini API key not configured - AI features will be disabled');
@@ -160,11 +201,7 @@ export class GeminiClient {
      */
     async generateContent(
         prompt: string,
-        options: {
-            temperature?: number;
-            maxTokens?: number;
-            systemInstruction?: string;
-        } = {}
+        options: LLMGenerateOptions = {}
     ): Promise<string> {
         if (!this.isConfigured()) {
             throw new GeminiError('Gemini API key not configured', undefined, false);
@@ -174,12 +211,20 @@ export class GeminiClient {
             throw new GeminiError('Rate limit exceeded - please try again later', 429, true);
         }
 
-        const url = `${GEMINI_CONFIG.BASE_URL}/models/${GEMINI_CONFIG.MODEL}:generateContent?key=${this.apiKey}`;
+        // Throws BudgetExceededError (not retryable; FallbackLLMProvider moves on to the fallback)
+        assertWithinBudget(this.name);
+
+        const url = `${GEMINI_CONFIG.BASE_URL}/models/${this.model}:generateContent?key=${this.apiKey}`;
 
         const requestBody = {
             contents: [
                 {
-                    parts: [{ text: prompt }],
+                    parts: [
+                        { text: prompt },
+                        ...(options.images ?? []).map(image => ({
+                            inline_data: { mime_type: image.mimeType, data: image.data },
+                        })),
+                    ],
                 },
             ],
             generationConfig: {
@@ -187,6 +232,10 @@ export class GeminiClient {
                 // No maxOutputTokens limit - allow full model capacity for complete viral content
                 topP: 0.8,
                 topK: 40,
+                ...(options.responseSchema && {
+                    responseMimeType: 'application/json',
+                    responseSchema: toGeminiSchema(options.responseSchema),
+                }),
             },
             ...(options.systemInstruction && {
                 systemInstruction: {
@@ -261,12 +310,27 @@ export class GeminiClient {
 
                 logger.info({
                     attempt,
+                    model: this.model,
                     promptLength: prompt.length,
                     responseLength: generatedText.length,
                     finishReason,
                     tokens: data.usageMetadata,
                 }, 'Content generated successfully');
 
+                // Thinking tokens are billed as output
+                recordUsage({
+                    provider: this.name,
+                    model: this.model,
+                    unit: 'tokens',
+                    inputUnits: data.usageMetadata?.promptTokenCount
+                        ?? estimateTokens(prompt + (options.systemInstruction ?? '')),
+                    outputUnits: data.usageMetadata
+                        ? data.usageMetadata.candidatesTokenCount + (data.usageMetadata.thoughtsTokenCount ?? 0)
+                        : estimateTokens(generatedText),
+                    estimated: !data.usageMetadata,
+                    ...options.context,
+                });
+
                 return generatedText;
 
             } catch (error) {
@@ -0,0 +1,235 @@
+/**
+ * Fact Checker
+ *
+ * Verification pass run on every generated script: the model lists the
+ * script's factual claims and judges each against the source thread.
+ * Claims the source doesn't back are returned as script warnings.
+ *
+ * The check never fails generation. If it can't run, that is itself
+ * reported as a warning so an unchecked script is never mistaken for a
+ * clean one.
+ *
+ * @module ai/grounding/FactChecker
+ */
+
+import { z } from 'zod';
+import type { PlatformScript } from '@icerik/shared';
+import { requireLLMProvider, generateStructured } from '../llm/index.js';
+import type { LLMJsonSchema } from '../llm/index.js';
+import { getAIMetrics } from '../metrics/index.js';
+import { createChildLogger } from '../../utils/logger.js';
+import type { SourceContext } from './SourceContext.js';
+
+const logger = createChildLogger('fact-checker');
+
+/**
+ * How a claim relates to the source
+ * - supported: stated in the post (or attributed to commenters in the script)
+ * - comment_only: only a commenter says it, but the script presents it as fact
+ * - unsupported: not in the source at all
+ * - contradicted: the source says otherwise
+ */
+export const CLAIM_VERDICTS = ['supported', 'comment_only', 'unsupported', 'contradicted'] as const;
+
+export type ClaimVerdict = typeof CLAIM_VERDICTS[number];
+
+/**
+ * One checked claim
+ */
+export interface ClaimCheck {
+    /** The claim as worded in the script */
+    claim: string;
+    verdict: ClaimVerdict;
+    /** Source passage the verdict rests on, if any */
+    evidence?: string;
+}
+
+/**
+ * Fact check result
+ */
+export interface FactCheckResult {
+    claims: ClaimCheck[];
+    /** Claims that are not supported by the source */
+    flagged: ClaimCheck[];
+    /** Messages to attach to PlatformScript.warnings */
+    warnings: string[];
+    /** Whether the verification pass ran */
+    checked: boolean;
+}
+
+const FACT_CHECK_SCHEMA: LLMJsonSchema = {
+    type: 'object',
+    properties: {
+        claims: {
+            type: 'array',
+            items: {
+                type: 'object',
+                properties: {
+                    claim: { type: 'string', description: 'The claim, quoted from the script' },
+                    verdict: { type: 'string', enum: [...CLAIM_VERDICTS] },
+                    evidence: { type: 'string', description: 'Source passage the verdict rests on (empty if none)' },
+                },
+                required: ['claim', 'verdict', 'evidence'],
+            },
+        },
+    },
+    required: ['claims'],
+};
+
+const factCheckValidator = z.object({
+    claims: z.array(z.object({
+        claim: z.string().trim().min(1, 'must not be empty'),
+        verdict: z.enum(CLAIM_VERDICTS),
+        evidence: z.string().trim().optional()
+            .transform(evidence => evidence || undefined),
+    })),
+});
+
+/**
+ * Warning shown for a flagged claim
+ */
+function formatClaimWarning(check: ClaimCheck): string {
+    switch (check.verdict) {
+        case 'contradicted':
+            return check.evidence
+                ? `Kaynakla çelişen iddia: "${check.claim}" (kaynak: "${check.evidence}")`
+                : `Kaynakla çelişen iddia: "${check.claim}"`;
+        case 'comment_only':
+            return `Yalnızca yorumlarda geçen iddia kesin bilgi gibi sunulmuş: "${check.claim}"`;
+        default:
+            return `Kaynakta desteklenmeyen iddia: "${check.claim}"`;
+    }
+}
+
+function renderSource(context: SourceContext): string {
+    const parts = [`[POST TITLE]\n${context.title}`];
+
+    if (context.selftext) {
+        parts.push(`[POST TEXT]\n${context.selftext}`);
+    }
+
+    if (context.comments.length > 0) {
+        parts.push(`[TOP COMMENTS]\n${context.comments
+            .map(comment => `- u/${comment.author}: ${comment.body.replace(/\s+/g, ' ')}`)
+            .join('\n')}`);
+    }
+
+    return parts.join('\n\n');
+}
+
+/**
+ * Fact Checker
+ *
+ * Judges a script's claims against its source thread.
+ */
+export class FactChecker {
+    /**
+     * Check a script against its source. Never throws.
+     */
+    async check(script: PlatformScript, context: SourceContext): Promise<FactCheckResult> {
+        const baseWarnings = context.fetched
+            ? []
+            : ['Kaynak gönderi okunamadı; iddialar yalnızca başlığa göre kontrol edildi'];
+
+        const metrics = getAIMetrics();
+        const operationId = metrics.startOperation('fact_check', {
+            platform: script.platform,
+            category: script.metadata.category,
+        });
+
+        const prompt = `
+${renderSource(context)}
+
+[SCRIPT TO CHECK]
+${script.title}
+
+${script.script}
+
+TASK: List every factual claim the script makes: who did what, names, numbers, dates, places, quotes, outcomes and cause-and-effect statements.
+Skip opinions, rhetorical questions, calls to action and common knowledge that needs no source.
+Judge each claim ONLY against the source above, not against what you know:
+- "supported": the post title or text states it, or the script clearly attributes it to commenters
+- "comment_only": only a commenter says it, but the script presents it as fact
+- "unsupported": the source doesn't say it (including made-up specifics around a true story)
+- "contradicted": the source says otherwise
+Quote each claim in the script's own language. Return an empty list if the script makes no factual claims.
+
+Respond with a single JSON object: {"claims": [{"claim": "...", "verdict": "...", "evidence": "..."}]}.`;
+
+        try {
+            const llm = requireLLMProvider('fact-check');
+
+            const output = await generateStructured(llm, prompt, {
+                systemInstruction: 'You are a strict fact checker for short-form video scripts. A claim counts as supported only if the source material states it. Output ONLY the requested JSON.',
+                temperature: 0.1,
+                maxTokens: 1024,
+                responseSchema: FACT_CHECK_SCHEMA,
+                validator: factCheckValidator,
+                context: { operation: 'fact-check', trendId: script.metadata.trendId, platform: script.platform },
+            });
+
+            const flagged = output.claims.filter(check => check.verdict !== 'supported');
+
+            metrics.endOperation(operationId, {
+                success: true,
+                promptTokens: Math.round(prompt.length / 4),
+                responseTokens: Math.round(JSON.stringify(output).length / 4),
+            });
+
+            logger.info({
+                platform: script.platform,
+                trendId: script.metadata.trendId,
+                claims: output.claims.length,
+                flagged: flagged.length,
+                grounded: context.fetched,
+            }, 'Fact check complete');
+
+            return {
+                claims: output.claims,
+                flagged,
+                warnings: [...baseWarnings, ...flagged.map(formatClaimWarning)],
+                checked: true,
+            };
+        } catch (error) {
+            const message = error instanceof Error ? error.message : String(error);
+
+            metrics.endOperation(operationId, {
+                success: false,
+                errorType: error instanceof Error ? error.name : 'unknown',
+                errorMessage: message,
+            });
+
+            logger.warn({ error, platform: script.platform, trendId: script.metadata.trendId }, 'Fact check failed');
+
+            return {
+                claims: [],
+                flagged: [],
+                warnings: [...baseWarnings, `Doğruluk kontrolü yapılamadı, iddiaları elle doğrulayın: ${message}`],
+                checked: false,
+            };
+        }
+    }
+}
+
+// ============================================================
+// Singleton Instance
+// ============================================================
+
+let checkerInstance: FactChecker | null = null;
+
+/**
+ * Get the singleton FactChecker instance
+ */
+export function getFactChecker(): FactChecker {
+    if (!checkerInstance) {
+        checkerInstance = new FactChecker();
+    }
+    return checkerInstance;
+}
+
+/**
+ * Reset the fact checker instance (for testing)
+ */
+export function resetFactChecker(): void {
+    checkerInstance = null;
+}
@@ -0,0 +1,147 @@
+/**
+ * Source Context
+ *
+ * Fetches what a trend's Reddit thread actually says (the post's selftext
+ * and its top comments) so agents write from the source instead of the
+ * title alone, and the fact check has something to verify against.
+ *
+ * Threads are cached per trend for a few minutes: all platform agents of a
+ * generation share one fetch. Fetch failures never fail generation; the
+ * context just falls back to the title.
+ *
+ * @module ai/grounding/SourceContext
+ */
+
+import type { TrendData } from '@icerik/shared';
+import { getRedditFetcher } from '../../ingestion/index.js';
+import { createChildLogger } from '../../utils/logger.js';
+
+const logger = createChildLogger('source-context');
+
+/**
+ * Keeps prompts bounded on long self-posts and comment threads
+ */
+const MAX_SELFTEXT_CHARS = 4000;
+const MAX_COMMENT_CHARS = 600;
+const MAX_COMMENTS = 8;
+
+const CACHE_TTL_MS = 10 * 60 * 1000;
+
+/**
+ * Comment included in the context
+ */
+export interface SourceComment {
+    author: string;
+    score: number;
+    body: string;
+}
+
+/**
+ * What the source thread says about a trend
+ */
+export interface SourceContext {
+    trendId: string;
+    title: string;
+    /** Post text (empty for link and image posts) */
+    selftext: string;
+    comments: SourceComment[];
+    /** Link the post points to, when it isn't a self-post */
+    linkUrl?: string;
+    /** False when only the title is known (non-Reddit trend or fetch failure) */
+    fetched: boolean;
+}
+
+function truncate(text: string, maxChars: number): string {
+    const trimmed = text.trim();
+    return trimmed.length > maxChars ? `${trimmed.slice(0, maxChars)}…` : trimmed;
+}
+
+function titleOnly(trend: TrendData): SourceContext {
+    return { trendId: trend.id, title: trend.title, selftext: '', comments: [], fetched: false };
+}
+
+async function fetchSourceContext(trend: TrendData): Promise<SourceContext> {
+    // Only Reddit trends have a thread to read
+    if (trend.source && trend.source !== 'reddit') {
+        return titleOnly(trend);
+    }
+
+    try {
+        const { post, comments } = await getRedditFetcher().fetchThread(trend.id, { commentLimit: MAX_COMMENTS });
+
+        return {
+            trendId: trend.id,
+            title: post.title || trend.title,
+            selftext: truncate(post.selftext, MAX_SELFTEXT_CHARS),
+            comments: comments.map(comment => ({
+                author: comment.author,
+                score: comment.score,
+                body: truncate(comment.body, MAX_COMMENT_CHARS),
+            })),
+            linkUrl: post.domain && !post.domain.startsWith('self.') ? post.url : undefined,
+            fetched: true,
+        };
+    } catch (error) {
+        logger.warn({ error, trendId: trend.id }, 'Could not fetch source thread; grounding on the title only');
+        return titleOnly(trend);
+    }
+}
+
+// Pending and fetched contexts by trend id
+const cache = new Map<string, { expiresAt: number; context: Promise<SourceContext> }>();
+
+/**
+ * Get the source context for a trend (cached). Never throws.
+ */
+export function getSourceContext(trend: TrendData): Promise<SourceContext> {
+    const now = Date.now();
+    for (const [trendId, entry] of cache) {
+        if (entry.expiresAt <= now) cache.delete(trendId);
+    }
+
+    const cached = cache.get(trend.id);
+    if (cached) return cached.context;
+
+    const context = fetchSourceContext(trend);
+    cache.set(trend.id, { expiresAt: now + CACHE_TTL_MS, context });
+    return context;
+}
+
+/**
+ * Render the source as the prompt section agents write from
+ */
+export function buildSourceContextPrompt(context: SourceContext): string {
+    const parts: string[] = ['## 📄 SOURCE THREAD (your only source of facts)'];
+
+    parts.push(`### Post title\n${context.title}`);
+
+    if (context.selftext) {
+        parts.push(`### Post text\n"""\n${context.selftext}\n"""`);
+    }
+
+    if (context.linkUrl) {
+        parts.push(`### Linked article\n${context.linkUrl} (its content is NOT available to you)`);
+    }
+
+    if (context.comments.length > 0) {
+        const comments = context.comments
+            .map(comment => `- u/${comment.author} (${comment.score} points): ${comment.body.replace(/\s+/g, ' ')}`)
+            .join('\n');
+        parts.push(`### Top comments (opinions of commenters, not verified facts)\n${comments}`);
+    }
+
+    parts.push(`### Grounding rules
+- Present as fact ONLY what the post title or text states.
+- Attribute anything taken from a comment to the commenters (e.g. "commenters say ..."); never present it as fact.
+- Do NOT invent names, numbers, dates, quotes, places or outcomes that are not in the source.
+- If the source is thin, write about the reaction and the open questions instead of filling gaps with made-up details.`);
+
+    return parts.join('\n\n');
+}
+
+/**
+ * Clear cached contexts (for testing)
+ */
+export function resetSourceContextCache(): void {
+    cache.clear();
+}
@@ -0,0 +1,132 @@
+/**
+ * Source Grounding Tests
+ *
+ * Tests for source thread context (caching, fallback to the title) and
+ * the fact check that turns unsupported claims into script warnings.
+ *
+ * @module ai/grounding/__tests__/Grounding.test
+ */
+
+import { describe, it, expect, vi, beforeEach } from 'vitest';
+import type { PlatformScript, TrendData } from '@icerik/shared';
+
+const fetchThread = vi.fn();
+const generateContent = vi.fn();
+
+vi.mock('../../../ingestion/index.js', () => ({
+    getRedditFetcher: vi.fn(() => ({ fetchThread })),
+}));
+
+vi.mock('../../llm/index.js', async (importOriginal) => ({
+    ...(await importOriginal<typeof import('../../llm/index.js')>()),
+    requireLLMProvider: vi.fn(() => ({
+        name: 'gemini',
+        model: 'gemini-test',
+        isConfigured: () => true,
+        generateContent,
+    })),
+}));
+
+const { getSourceContext, buildSourceContextPrompt, resetSourceContextCache, getFactChecker, resetFactChecker } =
+    await import('../index.js');
+
+const TREND = {
+    id: 'abc123',
+    title: 'Player wins the world final with a last-second play',
+    subreddit: 'esports',
+    category: 'gaming',
+    source: 'reddit',
+} as TrendData;
+
+const THREAD = {
+    post: {
+        id: 'abc123',
+        title: TREND.title,
+        selftext: 'Team Nova won the final 3-2 after a 1v4 clutch in the last round.',
+        url: 'https://reddit.com/r/esports/comments/abc123',
+        domain: 'self.esports',
+    },
+    comments: [
+        { id: 'c1', author: 'fan1', body: 'I heard he only started playing two years ago', score: 120 },
+    ],
+};
+
+const SCRIPT = {
+    platform: 'tiktok',
+    title: 'Greatest clutch ever',
+    script: 'Team Nova won the final 3-2. The player started two years ago and won $1M.',
+    metadata: { trendId: 'abc123', category: 'gaming', generatedAt: '2026-01-01T00:00:00.000Z', agentVersion: 'test' },
+} as PlatformScript;
+
+describe('getSourceContext', () => {
+    beforeEach(() => {
+        resetSourceContextCache();
+        fetchThread.mockReset();
+    });
+
+    it('fetches the thread once per trend and renders it for the agents', async () => {
+        fetchThread.mockResolvedValue(THREAD);
+
+        const [first, second] = await Promise.all([getSourceContext(TREND), getSourceContext(TREND)]);
+
+        expect(fetchThread).toHaveBeenCalledTimes(1);
+        expect(first).toBe(second);
+        expect(first).toMatchObject({ fetched: true, selftext: THREAD.post.selftext, linkUrl: undefined });
+
+        const prompt = buildSourceContextPrompt(first);
+        expect(prompt).toContain('1v4 clutch');
+        expect(prompt).toContain('u/fan1 (120 points)');
+    });
+
+    it('falls back to the title when the thread is unavailable', async () => {
+        fetchThread.mockRejectedValue(new Error('Rate limited by Reddit (429)'));
+
+        const context = await getSourceContext(TREND);
+        expect(context).toMatchObject({ fetched: false, title: TREND.title, selftext: '', comments: [] });
+
+        const rss = await getSourceContext({ ...TREND, id: 'rss-1', source: 'rss' });
+        expect(rss.fetched).toBe(false);
+        expect(fetchThread).toHaveBeenCalledTimes(1);
+    });
+});
+
+describe('FactChecker', () => {
+    beforeEach(() => {
+        resetFactChecker();
+        resetSourceContextCache();
+        generateContent.mockReset();
+        fetchThread.mockResolvedValue(THREAD);
+    });
+
+    it('turns claims the source does not back into warnings', async () => {
+        generateContent.mockResolvedValue(JSON.stringify({
+            claims: [
+                { claim: 'Team Nova won the final 3-2', verdict: 'supported', evidence: 'won the final 3-2' },
+                { claim: 'The player started two years ago', verdict: 'comment_only', evidence: '' },
+                { claim: 'won $1M', verdict: 'unsupported', evidence: '' },
+            ],
+        }));
+
+        const result = await getFactChecker().check(SCRIPT, await getSourceContext(TREND));
+
+        expect(result.checked).toBe(true);
+        expect(result.flagged.map(check => check.verdict)).toEqual(['comment_only', 'unsupported']);
+        expect(result.warnings).toEqual([
+            'Yalnızca yorumlarda geçen iddia kesin bilgi gibi sunulmuş: "The player started two years ago"',
+            'Kaynakta desteklenmeyen iddia: "won $1M"',
+        ]);
+        expect(generateContent.mock.calls[0][0]).toContain('[POST TEXT]');
+    });
+
+    it('reports a check that could not run instead of throwing', async () => {
+        generateContent.mockRejectedValue(new Error('provider down'));
+        fetchThread.mockRejectedValue(new Error('timeout'));
+
+        const result = await getFactChecker().check(SCRIPT, await getSourceContext(TREND));
+
+        expect(result.checked).toBe(false);
+        expect(result.warnings).toHaveLength(2);
+        expect(result.warnings[0]).toContain('yalnızca başlığa göre');
+        expect(result.warnings[1]).toContain('provider down');
+    });
+});
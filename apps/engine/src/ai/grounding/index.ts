@@ -0,0 +1,26 @@
+/**
+ * Source Grounding Module
+ *
+ * Exports source thread context for agents and the fact check that
+ * verifies generated scripts against it.
+ *
+ * @module ai/grounding
+ */
+
+export {
+    getSourceContext,
+    buildSourceContextPrompt,
+    resetSourceContextCache,
+    type SourceContext,
+    type SourceComment,
+} from './SourceContext.js';
+
+export {
+    FactChecker,
+    CLAIM_VERDICTS,
+    getFactChecker,
+    resetFactChecker,
+    type ClaimVerdict,
+    type ClaimCheck,
+    type FactCheckResult,
+} from './FactChecker.js';
@@ -14,6 +14,25 @@ export {
     resetGeminiClient,
 } from './gemini.js';
 
+// LLM Providers
+export {
+    LLMError,
+    OpenAICompatibleProvider,
+    getLLMProvider,
+    requireLLMProvider,
+    resetLLMProviders,
+    getLLMRoutingStatus,
+    LLM_OPERATIONS,
+    generateStructured,
+    StructuredOutputError,
+    type LLMProvider,
+    type LLMProviderName,
+    type LLMOperation,
+    type LLMGenerateOptions,
+    type LLMJsonSchema,
+    type LLMRouteStatus,
+} from './llm/index.js';
+
 // Script Generator (single platform - legacy)
 export {
     ScriptGenerator,
@@ -64,3 +83,15 @@ export {
     type SupervisedScriptResult,
     type SupervisedResult,
 } from './supervisor/index.js';
+
+// Brand Voice Profiles
+export {
+    BrandVoiceStore,
+    BrandVoiceError,
+    getBrandVoiceStore,
+    resetBrandVoiceStore,
+    resolveBrandVoice,
+    type BrandVoiceProfile,
+    type BrandVoiceInput,
+    type BrandVoiceUpdate,
+} from './brandVoice/index.js';
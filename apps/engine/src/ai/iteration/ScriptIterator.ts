@@ -9,9 +9,13 @@
 
 import type { Platform, PlatformScript } from '@icerik/shared';
 import { PLATFORM_ALGORITHM_FOCUS, PLATFORM_LABELS } from '@icerik/shared';
-import { getGeminiClient, GeminiError } from '../gemini.js';
+import { requireLLMProvider, generateStructured } from '../llm/index.js';
 import { createChildLogger } from '../../utils/logger.js';
 import { getAIMetrics } from '../metrics/index.js';
+import { buildScriptOutputSchema, createScriptOutputValidator } from '../validation/index.js';
+import type { ScriptOutput, ScriptOutputRequirements } from '../validation/index.js';
+import { resolveBrandVoice, buildBrandVoicePrompt, getBrandVoiceConstraints } from '../brandVoice/index.js';
+import { getLanguageProfile, estimateSpeechSeconds } from '../../language/index.js';
 
 const logger = createChildLogger('scriptIterator');
 
@@ -37,6 +41,8 @@ export interface IterationRequestWithScript {
     target: IterationTarget;
     newTone?: 'casual' | 'professional' | 'humorous' | 'dramatic';
     additionalInstructions?: string;
+    /** Brand voice profile the rewrite must follow */
+    profileId?: string;
 }
 
 /**
@@ -159,8 +165,6 @@ TASK: Shorten this script by approximately 20% while:
 - Maintaining the hook's impact
 - Preserving the CTA
 - Removing filler words and redundancy
-
-Output the shortened script with [HOOK], [BODY], [CTA] sections.
 `,
 
     lengthen: (script) => `
@@ -177,8 +181,6 @@ TASK: Extend this script by approximately 20% while:
 - Including additional engagement points
 - Keeping the same structure
 - Not padding with filler
-
-Output the extended script with [HOOK], [BODY], [CTA] sections.
 `,
 
     change_tone: (script) => `
@@ -202,12 +204,23 @@ ${script.script}
 TASK: Add RE-HOOK moments to maintain attention throughout the video:
 - Add pattern interrupts every 3-5 seconds
 - Types: questions, reveals, twists, callbacks, visual cues
-- Mark them with [RE-HOOK @Xs] where X is the second mark
-
-Output the script with re-hooks marked, keeping original structure.
+- Mark them inline with [RE-HOOK @Xs] where X is the second mark
+- Keep the original sections
 `,
 };
 
+/**
+ * Targets that rewrite every section and get a structured (JSON) response
+ */
+const FULL_SCRIPT_TARGETS: ReadonlySet<IterationTarget> = new Set(['shorten', 'lengthen', 'change_tone', 'add_hooks']);
+
+/**
+ * Output instruction appended to full-script iterations
+ */
+const FULL_SCRIPT_OUTPUT = `
+Respond with a single JSON object containing the rewritten sections: "hook" (if the script has one), "body" and "cta" (if the script has one).
+Keep each section in its own field and finish every sentence.`;
+
 /**
  * Tone descriptions for change_tone iterations
  */
@@ -226,9 +239,10 @@ const TONE_DESCRIPTIONS: Record<string, string> = {
 export class ScriptIterator {
     /**
      * Iterate on a script section
+     * @throws BrandVoiceError (404) if request.profileId is unknown
      */
     async iterate(request: IterationRequestWithScript): Promise<IterationResultWithScript> {
-        const { originalScript, target, newTone, additionalInstructions } = request;
+        const { originalScript, target, newTone, additionalInstructions, profileId } = request;
         const metrics = getAIMetrics();
         const operationId = metrics.startOperation('iterate', {
             platform: originalScript.platform,
@@ -241,14 +255,12 @@ export class ScriptIterator {
             platform: originalScript.platform,
             target,
             trendId: originalScript.metadata.trendId,
+            profileId,
         }, 'Starting script iteration');
 
         try {
-            const gemini = getGeminiClient();
-
-            if (!gemini.isConfigured()) {
-                throw new GeminiError('Gemini API is not configured', undefined, false);
-            }
+            const llm = requireLLMProvider('iteration');
+            const brandVoice = resolveBrandVoice(profileId);
 
             // Build the iteration prompt
             let prompt = ITERATION_PROMPTS[target](originalScript);
@@ -261,21 +273,59 @@ export class ScriptIterator {
                 );
             }
 
+            // Keep the rewrite in the script's language
+            if (originalScript.metadata.language) {
+                prompt += `\n\nLANGUAGE: Keep the output in ${getLanguageProfile(originalScript.metadata.language).name}.`;
+            }
+
+            // Keep the rewrite in the channel's voice
+            if (brandVoice) {
+                prompt += `\n\n${buildBrandVoicePrompt(brandVoice)}`;
+            }
+
             // Add any additional user instructions
             if (additionalInstructions) {
                 prompt += `\n\nADDITIONAL INSTRUCTIONS: ${additionalInstructions}`;
             }
 
-            // Generate the iteration
-            const response = await gemini.generateContent(prompt, {
+            const generateOptions = {
                 systemInstruction: `You are a ${PLATFORM_LABELS[originalScript.platform]} content expert. 
 Follow instructions precisely. Output ONLY what is requested.`,
                 temperature: 0.8,
                 maxTokens: 1024,
-            });
+                context: {
+                    operation: 'iteration' as const,
+                    trendId: originalScript.metadata.trendId,
+                    platform: originalScript.platform,
+                },
+            };
+
+            // Generate the iteration and build the updated script based on target
+            let response: string;
+            let updatedScript: PlatformScript;
+
+            if (FULL_SCRIPT_TARGETS.has(target)) {
+                prompt += `\n${FULL_SCRIPT_OUTPUT}`;
+
+                const requirements: ScriptOutputRequirements = {
+                    includeHook: Boolean(originalScript.sections.hook),
+                    includeCta: Boolean(originalScript.sections.cta),
+                    includeMeta: false,
+                    language: originalScript.metadata.language,
+                };
+                const sections = await generateStructured(llm, prompt, {
+                    ...generateOptions,
+                    responseSchema: buildScriptOutputSchema(requirements),
+                    validator: createScriptOutputValidator(requirements, getBrandVoiceConstraints(brandVoice)),
+                });
+
+                response = JSON.stringify(sections);
+                updatedScript = this.applySections(originalScript, sections);
+            } else {
+                response = await llm.generateContent(prompt, generateOptions);
+                updatedScript = this.applyIteration(originalScript, target, response);
+            }
 
-            // Build updated script based on target
-            const updatedScript = this.applyIteration(originalScript, target, response);
             const changedSections = this.getChangedSections(target);
 
             const durationMs = Date.now() - startTime;
@@ -323,7 +373,7 @@ Follow instructions precisely. Output ONLY what is requested.`,
     }
 
     /**
-     * Apply iteration result to script
+     * Apply a single-section iteration result to script
      */
     private applyIteration(
         original: PlatformScript,
@@ -364,13 +414,6 @@ Follow instructions precisely. Output ONLY what is requested.`,
                     .filter(h => h.length > 1);
                 break;
 
-            case 'shorten':
-            case 'lengthen':
-            case 'change_tone':
-            case 'add_hooks':
-                // Parse full script response
-                this.parseFullScriptResponse(updated, trimmedResponse);
-                break;
         }
 
         // Rebuild full script text
@@ -380,30 +423,27 @@ Follow instructions precisely. Output ONLY what is requested.`,
     }
 
     /**
-     * Parse full script response into sections
+     * Apply validated sections from a full-script iteration
      */
-    private parseFullScriptResponse(script: PlatformScript, response: string): void {
-        const hookMatch = response.match(/\[HOOK\]\s*([\s\S]*?)(?=\[BODY\]|\[CTA\]|$)/i);
-        const bodyMatch = response.match(/\[BODY\]\s*([\s\S]*?)(?=\[CTA\]|$)/i);
-        const ctaMatch = response.match(/\[CTA\]\s*([\s\S]*?)$/i);
-
-        if (hookMatch?.[1] && script.sections.hook) {
-            const content = hookMatch[1].trim();
-            script.sections.hook.content = content;
-            script.sections.hook.wordCount = content.split(/\s+/).length;
-        }
+    private applySections(original: PlatformScript, output: ScriptOutput): PlatformScript {
+        const updated: PlatformScript = JSON.parse(JSON.stringify(original));
 
-        if (bodyMatch?.[1]) {
-            const content = bodyMatch[1].trim();
-            script.sections.body.content = content;
-            script.sections.body.wordCount = content.split(/\s+/).length;
+        if (output.hook && updated.sections.hook) {
+            updated.sections.hook.content = output.hook;
+            updated.sections.hook.wordCount = output.hook.split(/\s+/).length;
         }
 
-        if (ctaMatch?.[1] && script.sections.cta) {
-            const content = ctaMatch[1].trim();
-            script.sections.cta.content = content;
-            script.sections.cta.wordCount = content.split(/\s+/).length;
+        updated.sections.body.content = output.body;
+        updated.sections.body.wordCount = output.body.split(/\s+/).length;
+
+        if (output.cta && updated.sections.cta) {
+            updated.sections.cta.content = output.cta;
+            updated.sections.cta.wordCount = output.cta.split(/\s+/).length;
         }
+
+        this.rebuildScriptText(updated);
+
+        return updated;
     }
 
     /**
@@ -430,7 +470,7 @@ Follow instructions precisely. Output ONLY what is requested.`,
             script.sections.body.wordCount +
             (script.sections.cta?.wordCount ?? 0);
 
-        script.estimatedDurationSeconds = Math.round(totalWords / 2.5);
+        script.estimatedDurationSeconds = estimateSpeechSeconds(totalWords, script.metadata.language);
     }
 
     /**
@@ -0,0 +1,278 @@
+/**
+ * LLM Router
+ *
+ * Resolves which provider/model serves each AI operation and wraps it with
+ * the configured fallback provider.
+ *
+ * Routing comes from the environment:
+ * - LLM_PROVIDER: default provider for every operation
+ * - LLM_OPERATION_PROVIDERS: per-operation overrides, e.g.
+ *   "variants=openai:llama3.1,image-validation=gemini:gemini-2.0-flash"
+ * - LLM_FALLBACK_PROVIDER: used when the primary is rate limited, unreachable
+ *   or not configured
+ * - LLM_RECORD_MODE: record/replay responses as fixtures (see RecordingLLMProvider)
+ *
+ * @module ai/llm/LLMRouter
+ */
+
+import { createChildLogger } from '../../utils/logger.js';
+import { getEnv } from '../../utils/env.js';
+import { GeminiClient, getGeminiClient } from '../gemini.js';
+import { OpenAICompatibleProvider } from './providers/OpenAICompatibleProvider.js';
+import { RecordingLLMProvider } from './RecordingLLMProvider.js';
+import type {
+    LLMProvider,
+    LLMProviderName,
+    LLMOperation,
+    LLMRoute,
+    LLMGenerateOptions,
+} from './llmTypes.js';
+import { LLMError } from './llmTypes.js';
+
+const logger = createChildLogger('llm-router');
+
+/**
+ * All routable operations
+ */
+export const LLM_OPERATIONS: readonly LLMOperation[] = [
+    'scripts',
+    'iteration',
+    'variants',
+    'translation',
+    'fact-check',
+    'visual-search',
+    'semantic-match',
+    'image-validation',
+];
+
+const PROVIDER_NAMES: readonly LLMProviderName[] = ['gemini', 'openai'];
+
+/**
+ * Models used when a route names no model. Query generation and image
+ * checks run on the cheaper Gemini model they were written against.
+ */
+const OPERATION_DEFAULT_MODELS: Partial<Record<LLMOperation, Partial<Record<LLMProviderName, string>>>> = {
+    'semantic-match': { gemini: 'gemini-2.0-flash' },
+    'image-validation': { gemini: 'gemini-2.0-flash' },
+};
+
+/**
+ * HTTP statuses that mean "this provider can't serve us right now"
+ * (auth/quota) rather than "this request is bad"
+ */
+const FALLBACK_STATUS_CODES = new Set([401, 403, 429]);
+
+/**
+ * Routing status for one operation (reported by /api/ai/status)
+ */
+export interface LLMRouteStatus {
+    operation: LLMOperation;
+    provider: LLMProviderName;
+    model: string;
+    configured: boolean;
+    fallback?: {
+        provider: LLMProviderName;
+        model: string;
+        configured: boolean;
+    };
+}
+
+/**
+ * Parses LLM_OPERATION_PROVIDERS ("op=provider[:model],...").
+ * Invalid entries are logged and skipped.
+ */
+export function parseOperationRoutes(value: string | undefined): Partial<Record<LLMOperation, LLMRoute>> {
+    const routes: Partial<Record<LLMOperation, LLMRoute>> = {};
+    if (!value) return routes;
+
+    for (const entry of value.split(',').map(part => part.trim()).filter(Boolean)) {
+        const [operation, target = ''] = entry.split('=').map(part => part.trim());
+        const separator = target.indexOf(':');
+        const provider = separator === -1 ? target : target.slice(0, separator);
+        const model = separator === -1 ? undefined : target.slice(separator + 1).trim() || undefined;
+
+        if (!LLM_OPERATIONS.includes(operation as LLMOperation)
+            || !PROVIDER_NAMES.includes(provider as LLMProviderName)) {
+            logger.warn({ entry }, 'Ignoring invalid LLM_OPERATION_PROVIDERS entry');
+            continue;
+        }
+
+        routes[operation as LLMOperation] = { provider: provider as LLMProviderName, model };
+    }
+
+    return routes;
+}
+
+/**
+ * Should a failed primary call be retried on the fallback provider?
+ */
+export function shouldFallback(error: unknown): boolean {
+    if (!(error instanceof LLMError)) {
+        // Network failures and other unexpected errors
+        return true;
+    }
+    return error.retryable || FALLBACK_STATUS_CODES.has(error.statusCode ?? 0);
+}
+
+/**
+ * Provider that retries on a fallback when the primary can't serve the request
+ */
+export class FallbackLLMProvider implements LLMProvider {
+    constructor(
+        private readonly primary: LLMProvider,
+        private readonly fallback: LLMProvider
+    ) { }
+
+    get name(): LLMProviderName {
+        return this.primary.name;
+    }
+
+    get model(): string {
+        return this.primary.model;
+    }
+
+    isConfigured(): boolean {
+        return this.primary.isConfigured() || this.fallback.isConfigured();
+    }
+
+    async generateContent(prompt: string, options?: LLMGenerateOptions): Promise<string> {
+        if (!this.primary.isConfigured()) {
+            return this.fallback.generateContent(prompt, options);
+        }
+
+        try {
+            return await this.primary.generateContent(prompt, options);
+        } catch (error) {
+            if (!this.fallback.isConfigured() || !shouldFallback(error)) {
+                throw error;
+            }
+
+            logger.warn({
+                primary: `${this.primary.name}:${this.primary.model}`,
+                fallback: `${this.fallback.name}:${this.fallback.model}`,
+                error: error instanceof Error ? error.message : String(error),
+            }, 'Primary LLM provider failed, using fallback');
+
+            return this.fallback.generateContent(prompt, options);
+        }
+    }
+}
+
+/**
+ * Provider instances keyed by provider:model (shared across operations)
+ */
+const providerInstances = new Map<string, LLMProvider>();
+
+/**
+ * Resolved (and fallback-wrapped) provider per operation
+ */
+const operationProviders = new Map<LLMOperation, LLMProvider>();
+
+/**
+ * Returns the provider instance for a route
+ */
+function createProvider(operation: LLMOperation, route: LLMRoute): LLMProvider {
+    const model = route.model ?? OPERATION_DEFAULT_MODELS[operation]?.[route.provider];
+    const key = `${route.provider}:${model ?? ''}`;
+
+    let provider = providerInstances.get(key);
+    if (!provider) {
+        if (route.provider === 'openai') {
+            provider = new OpenAICompatibleProvider({ model });
+        } else {
+            // The default model shares the app-wide client (and its rate limit status)
+            provider = model ? new GeminiClient(undefined, model) : getGeminiClient();
+        }
+
+        const { LLM_RECORD_MODE, LLM_FIXTURES_DIR } = getEnv();
+        if (LLM_RECORD_MODE !== 'off') {
+            provider = new RecordingLLMProvider(provider, LLM_RECORD_MODE, LLM_FIXTURES_DIR);
+        }
+
+        providerInstances.set(key, provider);
+    }
+
+    return provider;
+}
+
+/**
+ * Resolves the primary route for an operation
+ */
+export function resolveRoute(operation: LLMOperation): LLMRoute {
+    const env = getEnv();
+    return parseOperationRoutes(env.LLM_OPERATION_PROVIDERS)[operation] ?? { provider: env.LLM_PROVIDER };
+}
+
+/**
+ * Gets the provider for an AI operation
+ */
+export function getLLMProvider(operation: LLMOperation): LLMProvider {
+    let provider = operationProviders.get(operation);
+    if (provider) return provider;
+
+    const route = resolveRoute(operation);
+    const fallbackName = getEnv().LLM_FALLBACK_PROVIDER;
+    provider = createProvider(operation, route);
+
+    if (fallbackName && fallbackName !== route.provider) {
+        provider = new FallbackLLMProvider(provider, createProvider(operation, { provider: fallbackName }));
+    }
+
+    operationProviders.set(operation, provider);
+    return provider;
+}
+
+/**
+ * Gets the provider for an operation, throwing if none is configured
+ */
+export function requireLLMProvider(operation: LLMOperation): LLMProvider {
+    const provider = getLLMProvider(operation);
+
+    if (!provider.isConfigured()) {
+        throw new LLMError(
+            `AI provider "${provider.name}" is not configured. Please set GEMINI_API_KEY or configure LLM_PROVIDER.`,
+            undefined,
+            false,
+            provider.name
+        );
+    }
+
+    return provider;
+}
+
+/**
+ * Routing table for every operation
+ */
+export function getLLMRoutingStatus(): LLMRouteStatus[] {
+    const fallbackName = getEnv().LLM_FALLBACK_PROVIDER;
+
+    return LLM_OPERATIONS.map(operation => {
+        const route = resolveRoute(operation);
+        const primary = createProvider(operation, route);
+        const status: LLMRouteStatus = {
+            operation,
+            provider: primary.name,
+            model: primary.model,
+            configured: primary.isConfigured(),
+        };
+
+        if (fallbackName && fallbackName !== route.provider) {
+            const fallback = createProvider(operation, { provider: fallbackName });
+            status.fallback = {
+                provider: fallback.name,
+                model: fallback.model,
+                configured: fallback.isConfigured(),
+            };
+        }
+
+        return status;
+    });
+}
+
+/**
+ * Resets cached providers (for testing)
+ */
+export function resetLLMProviders(): void {
+    providerInstances.clear();
+    operationProviders.clear();
+}
@@ -0,0 +1,153 @@
+/**
+ * Recording LLM Provider
+ *
+ * Record/replay decorator for deterministic, offline AI runs.
+ * - record: calls the wrapped provider and writes each response to a fixture
+ * - replay: serves responses from fixtures without touching the network
+ *
+ * Fixtures are keyed by a hash of provider, model, prompt and options, one
+ * JSON file per request so recordings diff cleanly.
+ *
+ * @module ai/llm/RecordingLLMProvider
+ */
+
+import { createHash } from 'crypto';
+import { existsSync, mkdirSync, readFileSync, writeFileSync } from 'fs';
+import path from 'path';
+import { createChildLogger } from '../../utils/logger.js';
+import type { LLMProvider, LLMProviderName, LLMGenerateOptions } from './llmTypes.js';
+import { LLMError } from './llmTypes.js';
+
+const logger = createChildLogger('llm-recorder');
+
+/**
+ * Record/replay mode (LLM_RECORD_MODE)
+ */
+export type LLMRecordMode = 'off' | 'record' | 'replay';
+
+/**
+ * Fixture file contents
+ */
+export interface LLMFixture {
+    hash: string;
+    provider: LLMProviderName;
+    model: string;
+    prompt: string;
+    systemInstruction?: string;
+    temperature?: number;
+    response: string;
+    recordedAt: string;
+}
+
+/**
+ * Hashes a request into its fixture key. Images are reduced to a digest so
+ * fixtures stay small.
+ */
+export function hashLLMRequest(
+    provider: LLMProviderName,
+    model: string,
+    prompt: string,
+    options: LLMGenerateOptions = {}
+): string {
+    const key = JSON.stringify({
+        provider,
+        model,
+        prompt,
+        systemInstruction: options.systemInstruction ?? null,
+        temperature: options.temperature ?? null,
+        maxTokens: options.maxTokens ?? null,
+        images: (options.images ?? []).map(image => ({
+            mimeType: image.mimeType,
+            digest: createHash('sha256').update(image.data).digest('hex'),
+        })),
+        // Only keyed when set, so fixtures recorded before JSON mode still match
+        ...(options.responseSchema && { responseSchema: options.responseSchema }),
+    });
+
+    return createHash('sha256').update(key).digest('hex').slice(0, 32);
+}
+
+/**
+ * Provider decorator that records or replays responses
+ */
+export class RecordingLLMProvider implements LLMProvider {
+    constructor(
+        private readonly inner: LLMProvider,
+        private readonly mode: Exclude<LLMRecordMode, 'off'>,
+        private readonly fixturesDir: string
+    ) { }
+
+    get name(): LLMProviderName {
+        return this.inner.name;
+    }
+
+    get model(): string {
+        return this.inner.model;
+    }
+
+    /**
+     * Replay needs no credentials
+     */
+    isConfigured(): boolean {
+        return this.mode === 'replay' || this.inner.isConfigured();
+    }
+
+    async generateContent(prompt: string, options?: LLMGenerateOptions): Promise<string> {
+        const hash = hashLLMRequest(this.name, this.model, prompt, options);
+        const fixturePath = path.join(this.fixturesDir, `${hash}.json`);
+
+        if (this.mode === 'replay') {
+            const fixture = this.readFixture(fixturePath);
+            if (!fixture) {
+                throw new LLMError(
+                    `No recorded response for request ${hash} (${this.name}:${this.model}) in ${this.fixturesDir}`,
+                    undefined,
+                    false,
+                    this.name
+                );
+            }
+
+            logger.debug({ hash, provider: this.name, model: this.model }, 'Replaying recorded response');
+            return fixture.response;
+        }
+
+        const response = await this.inner.generateContent(prompt, options);
+
+        this.writeFixture(fixturePath, {
+            hash,
+            provider: this.name,
+            model: this.model,
+            prompt,
+            systemInstruction: options?.systemInstruction,
+            temperature: options?.temperature,
+            response,
+            recordedAt: new Date().toISOString(),
+        });
+
+        return response;
+    }
+
+    private readFixture(fixturePath: string): LLMFixture | null {
+        if (!existsSync(fixturePath)) return null;
+
+        try {
+            return JSON.parse(readFileSync(fixturePath, 'utf-8')) as LLMFixture;
+        } catch (error) {
+            logger.error({ error, fixturePath }, 'Failed to read LLM fixture');
+            return null;
+        }
+    }
+
+    /**
+     * Never throws: a failed write must not fail the live call
+     */
+    private writeFixture(fixturePath: string, fixture: LLMFixture): void {
+        try {
+            mkdirSync(path.dirname(fixturePath), { recursive: true });
+            writeFileSync(fixturePath, JSON.stringify(fixture, null, 2) + '\n');
+            logger.debug({ hash: fixture.hash, fixturePath }, 'Recorded LLM response');
+        } catch (error) {
+            logger.error({ error, fixturePath }, 'Failed to write LLM fixture');
+        }
+    }
+}
@@ -0,0 +1,130 @@
+/**
+ * LLM Provider Layer Tests
+ *
+ * Tests for operation routing, the OpenAI-compatible provider and fallback.
+ *
+ * @module ai/llm/__tests__/LLMRouter.test
+ */
+
+import { describe, it, expect, vi, afterEach } from 'vitest';
+import { parseOperationRoutes, FallbackLLMProvider } from '../LLMRouter.js';
+import { OpenAICompatibleProvider } from '../providers/OpenAICompatibleProvider.js';
+import { LLMError, type LLMProvider, type LLMProviderName } from '../llmTypes.js';
+
+function createStubProvider(
+    name: LLMProviderName,
+    generate: () => Promise<string>,
+    configured = true
+): LLMProvider & { generateContent: ReturnType<typeof vi.fn> } {
+    return {
+        name,
+        model: `${name}-model`,
+        isConfigured: () => configured,
+        generateContent: vi.fn(generate),
+    };
+}
+
+afterEach(() => {
+    vi.unstubAllGlobals();
+});
+
+describe('parseOperationRoutes', () => {
+    it('parses provider and optional model per operation', () => {
+        expect(parseOperationRoutes('variants=openai:llama3.1, image-validation=gemini')).toEqual({
+            variants: { provider: 'openai', model: 'llama3.1' },
+            'image-validation': { provider: 'gemini', model: undefined },
+        });
+    });
+
+    it('skips unknown operations and providers', () => {
+        expect(parseOperationRoutes('thumbnails=openai,scripts=claude,iteration=openai:qwen2.5:7b'))
+            .toEqual({ iteration: { provider: 'openai', model: 'qwen2.5:7b' } });
+        expect(parseOperationRoutes(undefined)).toEqual({});
+    });
+});
+
+describe('OpenAICompatibleProvider', () => {
+    it('sends a chat completion request with system prompt and images', async () => {
+        const fetchMock = vi.fn().mockResolvedValue(new Response(JSON.stringify({
+            choices: [{ message: { content: 'Merhaba' }, finish_reason: 'stop' }],
+        }), { status: 200 }));
+        vi.stubGlobal('fetch', fetchMock);
+
+        const provider = new OpenAICompatibleProvider({
+            baseUrl: 'https://llm.example.com/v1/',
+            apiKey: 'sk-test',
+            model: 'test-model',
+        });
+        const text = await provider.generateContent('Describe', {
+            systemInstruction: 'Be brief',
+            temperature: 0.2,
+            images: [{ mimeType: 'image/png', data: 'aGk=' }],
+        });
+
+        expect(text).toBe('Merhaba');
+        const [url, init] = fetchMock.mock.calls[0] as [string, RequestInit];
+        expect(url).toBe('https://llm.example.com/v1/chat/completions');
+        expect((init.headers as Record<string, string>)['Authorization']).toBe('Bearer sk-test');
+        expect(JSON.parse(init.body as string)).toEqual({
+            model: 'test-model',
+            temperature: 0.2,
+            messages: [
+                { role: 'system', content: 'Be brief' },
+                {
+                    role: 'user',
+                    content: [
+                        { type: 'text', text: 'Describe' },
+                        { type: 'image_url', image_url: { url: 'data:image/png;base64,aGk=' } },
+                    ],
+                },
+            ],
+        });
+    });
+
+    it('treats a self-hosted server as configured without an API key', () => {
+        expect(new OpenAICompatibleProvider({ baseUrl: 'http://localhost:11434/v1' }).isConfigured()).toBe(true);
+    });
+
+    it('does not retry client errors', async () => {
+        const fetchMock = vi.fn().mockResolvedValue(new Response('bad request', { status: 400 }));
+        vi.stubGlobal('fetch', fetchMock);
+
+        const provider = new OpenAICompatibleProvider({ baseUrl: 'http://localhost:8080/v1', model: 'local' });
+
+        await expect(provider.generateContent('Hi')).rejects.toMatchObject({ statusCode: 400, retryable: false });
+        expect(fetchMock).toHaveBeenCalledTimes(1);
+    });
+});
+
+describe('FallbackLLMProvider', () => {
+    it('falls back when the primary is rate limited', async () => {
+        const primary = createStubProvider('gemini', () => Promise.reject(new LLMError('Rate limit exceeded', 429, true)));
+        const fallback = createStubProvider('openai', () => Promise.resolve('from fallback'));
+
+        const provider = new FallbackLLMProvider(primary, fallback);
+
+        expect(await provider.generateContent('Hi', { temperature: 0.5 })).toBe('from fallback');
+        expect(fallback.generateContent).toHaveBeenCalledWith('Hi', { temperature: 0.5 });
+    });
+
+    it('uses the fallback directly when the primary is not configured', async () => {
+        const primary = createStubProvider('gemini', () => Promise.resolve('primary'), false);
+        const fallback = createStubProvider('openai', () => Promise.resolve('from fallback'));
+
+        const provider = new FallbackLLMProvider(primary, fallback);
+
+        expect(provider.isConfigured()).toBe(true);
+        expect(await provider.generateContent('Hi')).toBe('from fallback');
+        expect(primary.generateContent).not.toHaveBeenCalled();
+    });
+
+    it('rethrows request errors without falling back', async () => {
+        const primary = createStubProvider('gemini', () => Promise.reject(new LLMError('API error: 400', 400, false)));
+        const fallback = createStubProvider('openai', () => Promise.resolve('from fallback'));
+
+        const provider = new FallbackLLMProvider(primary, fallback);
+
+        await expect(provider.generateContent('Hi')).rejects.toThrow('API error: 400');
+        expect(fallback.generateContent).not.toHaveBeenCalled();
+    });
+});
@@ -0,0 +1,73 @@
+/**
+ * Recording LLM Provider Tests
+ *
+ * Tests for recording responses to fixtures and replaying them offline.
+ *
+ * @module ai/llm/__tests__/RecordingLLMProvider.test
+ */
+
+import { describe, it, expect, vi, afterAll } from 'vitest';
+import { readdirSync, readFileSync, rmSync } from 'fs';
+import { tmpdir } from 'os';
+import path from 'path';
+import { RecordingLLMProvider, hashLLMRequest } from '../RecordingLLMProvider.js';
+import type { LLMProvider } from '../llmTypes.js';
+
+const FIXTURES_DIR = path.join(tmpdir(), `llm_fixtures_${Date.now()}`);
+
+function createLiveProvider(configured = true): LLMProvider & { generateContent: ReturnType<typeof vi.fn> } {
+    return {
+        name: 'gemini',
+        model: 'gemini-test',
+        isConfigured: () => configured,
+        generateContent: vi.fn(async (prompt: string) => `[HOOK]\n${prompt.toUpperCase()}`),
+    };
+}
+
+afterAll(() => {
+    rmSync(FIXTURES_DIR, { recursive: true, force: true });
+});
+
+describe('hashLLMRequest', () => {
+    it('changes with prompt, options and model but not with option order', () => {
+        const base = hashLLMRequest('gemini', 'm1', 'prompt', { temperature: 0.7, systemInstruction: 'sys' });
+
+        expect(hashLLMRequest('gemini', 'm1', 'prompt', { systemInstruction: 'sys', temperature: 0.7 })).toBe(base);
+        expect(hashLLMRequest('gemini', 'm1', 'prompt', { temperature: 0.9, systemInstruction: 'sys' })).not.toBe(base);
+        expect(hashLLMRequest('gemini', 'm2', 'prompt', { temperature: 0.7, systemInstruction: 'sys' })).not.toBe(base);
+    });
+});
+
+describe('RecordingLLMProvider', () => {
+    it('records live responses and replays them without calling the provider', async () => {
+        const live = createLiveProvider();
+        const recorder = new RecordingLLMProvider(live, 'record', FIXTURES_DIR);
+
+        const recorded = await recorder.generateContent('yapay zeka', { temperature: 0.8 });
+
+        const files = readdirSync(FIXTURES_DIR);
+        expect(files).toEqual([`${hashLLMRequest('gemini', 'gemini-test', 'yapay zeka', { temperature: 0.8 })}.json`]);
+        expect(JSON.parse(readFileSync(path.join(FIXTURES_DIR, files[0]), 'utf-8'))).toMatchObject({
+            provider: 'gemini',
+            model: 'gemini-test',
+            prompt: 'yapay zeka',
+            response: recorded,
+        });
+
+        const offline = createLiveProvider(false);
+        const replayer = new RecordingLLMProvider(offline, 'replay', FIXTURES_DIR);
+
+        expect(replayer.isConfigured()).toBe(true);
+        expect(await replayer.generateContent('yapay zeka', { temperature: 0.8 })).toBe(recorded);
+        expect(offline.generateContent).not.toHaveBeenCalled();
+    });
+
+    it('fails replay for unrecorded requests', async () => {
+        const replayer = new RecordingLLMProvider(createLiveProvider(), 'replay', FIXTURES_DIR);
+
+        await expect(replayer.generateContent('never recorded')).rejects.toMatchObject({
+            name: 'LLMError',
+            retryable: false,
+        });
+    });
+});
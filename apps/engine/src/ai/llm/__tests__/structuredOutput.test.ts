@@ -0,0 +1,119 @@
+/**
+ * Structured Output Tests
+ *
+ * Tests for JSON-mode generation, the targeted retry and script shape validation.
+ *
+ * @module ai/llm/__tests__/structuredOutput.test
+ */
+
+import { describe, it, expect, vi } from 'vitest';
+import { generateStructured, validateStructuredResponse, StructuredOutputError } from '../structuredOutput.js';
+import { buildScriptOutputSchema, createScriptOutputValidator } from '../../validation/scriptOutput.js';
+import type { ScriptOutputRequirements } from '../../validation/scriptOutput.js';
+import type { LLMProvider } from '../llmTypes.js';
+
+const REQUIREMENTS: ScriptOutputRequirements = { includeHook: true, includeCta: true, includeMeta: true };
+
+const VALID_SCRIPT = {
+    hook: 'Bu oyuncu tarihe geçti! [REPLAY]',
+    body: 'Dünya şampiyonasında son saniye hamlesi. 1 vs 5 clutch, herkes ayakta.',
+    cta: 'Sen olsan ne yapardın?',
+    title: 'E-Spor Tarihinin En İyi Anı 🎮',
+    hashtags: ['#esports', 'gaming'],
+};
+
+function createProvider(...responses: string[]): LLMProvider & { generateContent: ReturnType<typeof vi.fn> } {
+    const generateContent = vi.fn();
+    for (const response of responses) {
+        generateContent.mockResolvedValueOnce(response);
+    }
+    return { name: 'gemini', model: 'gemini-test', isConfigured: () => true, generateContent };
+}
+
+describe('script output validation', () => {
+    const validator = createScriptOutputValidator(REQUIREMENTS);
+
+    it('accepts fenced JSON and normalizes hashtags', () => {
+        const result = validateStructuredResponse(`\`\`\`json\n${JSON.stringify(VALID_SCRIPT)}\n\`\`\``, validator);
+
+        expect(result.issues).toBeUndefined();
+        expect(result.data?.hashtags).toEqual(['#esports', '#gaming']);
+    });
+
+    it('reports truncated and merged sections by field', () => {
+        const result = validateStructuredResponse(JSON.stringify({
+            ...VALID_SCRIPT,
+            body: 'Dünya şampiyonasında son saniye hamlesi. Sen olsan ne yapardın?',
+            cta: 'Sen olsan ne yapardın?',
+            hook: 'Bu oyuncu tarihe geçti!\n[BODY] Dünya şampiyonası',
+        }), validator);
+
+        expect(result.issues).toEqual([
+            "hook: contains another section's marker; put each section in its own field",
+            'body: repeats the CTA; the body must end before the call to action',
+        ]);
+
+        const truncated = validateStructuredResponse(JSON.stringify({
+            ...VALID_SCRIPT,
+            body: 'Dünya şampiyonasında son saniye hamlesi ve',
+        }), validator);
+        expect(truncated.issues).toEqual(['body: ends mid-sentence (looks truncated); finish the last sentence']);
+
+        expect(validateStructuredResponse('{"hook": "Bu oyuncu', validator).issues).toHaveLength(1);
+    });
+
+    it('accepts Arabic question marks as sentence ends', () => {
+        const arabic = {
+            ...VALID_SCRIPT,
+            body: 'هل تعرف ماذا حدث في النهائي؟',
+            cta: 'ما رأيك؟',
+        };
+
+        const result = validateStructuredResponse(JSON.stringify(arabic), createScriptOutputValidator({ ...REQUIREMENTS, language: 'ar' }));
+        expect(result.issues).toBeUndefined();
+        expect(validateStructuredResponse(JSON.stringify(arabic), validator).issues).toBeUndefined();
+
+        const turkish = validateStructuredResponse(
+            JSON.stringify({ ...VALID_SCRIPT, cta: 'Sen olsan ne yapardın؟' }),
+            createScriptOutputValidator({ ...REQUIREMENTS, language: 'tr' })
+        );
+        expect(turkish.issues).toEqual(['cta: ends mid-sentence (looks truncated); finish the last sentence']);
+    });
+
+    it('only requires the requested fields', () => {
+        const schema = buildScriptOutputSchema({ includeHook: false, includeCta: true, includeMeta: false });
+
+        expect(schema.required).toEqual(['body', 'cta']);
+    });
+});
+
+describe('generateStructured', () => {
+    const options = {
+        responseSchema: buildScriptOutputSchema(REQUIREMENTS),
+        validator: createScriptOutputValidator(REQUIREMENTS),
+    };
+
+    it('retries once with the specific issues and returns the corrected output', async () => {
+        const llm = createProvider(
+            JSON.stringify({ ...VALID_SCRIPT, cta: '' }),
+            JSON.stringify(VALID_SCRIPT)
+        );
+
+        const output = await generateStructured(llm, 'PROMPT', options);
+
+        expect(output.body).toBe(VALID_SCRIPT.body);
+        expect(llm.generateContent).toHaveBeenCalledTimes(2);
+        expect(llm.generateContent.mock.calls[0][1].responseSchema).toEqual(options.responseSchema);
+
+        const retryPrompt = llm.generateContent.mock.calls[1][0] as string;
+        expect(retryPrompt.startsWith('PROMPT')).toBe(true);
+        expect(retryPrompt).toContain('- cta: must not be empty');
+    });
+
+    it('throws StructuredOutputError when the retry is still invalid', async () => {
+        const llm = createProvider('not json', '{"body": 42}');
+
+        await expect(generateStructured(llm, 'PROMPT', options)).rejects.toBeInstanceOf(StructuredOutputError);
+        expect(llm.generateContent).toHaveBeenCalledTimes(2);
+    });
+});
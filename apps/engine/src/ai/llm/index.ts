@@ -0,0 +1,58 @@
+/**
+ * LLM Provider Module
+ *
+ * Provider-agnostic text generation with per-operation routing and fallback.
+ * Gemini and any OpenAI-compatible server (OpenAI, Ollama, llama.cpp) are supported.
+ *
+ * @module ai/llm
+ */
+
+// Types
+export {
+    type LLMProvider,
+    type LLMProviderName,
+    type LLMOperation,
+    type LLMRoute,
+    type LLMImageInput,
+    type LLMGenerateOptions,
+    type LLMRequestContext,
+    type LLMJsonSchema,
+    LLMError,
+} from './llmTypes.js';
+
+// Providers
+export {
+    OpenAICompatibleProvider,
+    type OpenAICompatibleOptions,
+} from './providers/OpenAICompatibleProvider.js';
+
+// Record/Replay
+export {
+    RecordingLLMProvider,
+    hashLLMRequest,
+    type LLMRecordMode,
+    type LLMFixture,
+} from './RecordingLLMProvider.js';
+
+// Structured output
+export {
+    generateStructured,
+    parseJsonResponse,
+    validateStructuredResponse,
+    StructuredOutputError,
+    type StructuredGenerateOptions,
+} from './structuredOutput.js';
+
+// Routing
+export {
+    getLLMProvider,
+    requireLLMProvider,
+    resetLLMProviders,
+    getLLMRoutingStatus,
+    resolveRoute,
+    parseOperationRoutes,
+    shouldFallback,
+    FallbackLLMProvider,
+    LLM_OPERATIONS,
+    type LLMRouteStatus,
+} from './LLMRouter.js';
@@ -0,0 +1,114 @@
+/**
+ * LLM Provider Types
+ *
+ * Provider-agnostic interface shared by every AI module that generates text.
+ *
+ * @module ai/llm/types
+ */
+
+import type { Platform } from '@icerik/shared';
+
+/**
+ * Supported LLM backends
+ */
+export type LLMProviderName = 'gemini' | 'openai';
+
+/**
+ * Operations that can be routed to a different provider/model
+ */
+export type LLMOperation =
+    | 'scripts'
+    | 'iteration'
+    | 'variants'
+    | 'translation'
+    | 'fact-check'
+    | 'visual-search'
+    | 'semantic-match'
+    | 'image-validation';
+
+/**
+ * Inline image sent alongside the prompt (vision operations)
+ */
+export interface LLMImageInput {
+    /** e.g. image/jpeg */
+    mimeType: string;
+    /** Base64-encoded image bytes */
+    data: string;
+}
+
+/**
+ * JSON Schema subset understood by every provider's structured output mode
+ * (Gemini responseSchema, OpenAI json_schema response_format)
+ */
+export interface LLMJsonSchema {
+    type: 'object' | 'array' | 'string' | 'number' | 'integer' | 'boolean';
+    description?: string;
+    properties?: Record<string, LLMJsonSchema>;
+    required?: string[];
+    items?: LLMJsonSchema;
+    enum?: string[];
+}
+
+/**
+ * What a request is for, used to attribute token usage and cost
+ */
+export interface LLMRequestContext {
+    operation?: LLMOperation;
+    trendId?: string;
+    platform?: Platform;
+}
+
+/**
+ * Generation options understood by every provider
+ */
+export interface LLMGenerateOptions {
+    temperature?: number;
+    /** Upper bound on output tokens (providers may ignore it) */
+    maxTokens?: number;
+    systemInstruction?: string;
+    images?: LLMImageInput[];
+    /** Ask for a JSON response matching this schema (JSON mode) */
+    responseSchema?: LLMJsonSchema;
+    context?: LLMRequestContext;
+}
+
+/**
+ * LLM provider interface
+ */
+export interface LLMProvider {
+    /** Provider name */
+    readonly name: LLMProviderName;
+
+    /** Model requests are sent to */
+    readonly model: string;
+
+    /** Check if provider is configured */
+    isConfigured(): boolean;
+
+    /** Generate text from a prompt */
+    generateContent(prompt: string, options?: LLMGenerateOptions): Promise<string>;
+}
+
+/**
+ * Provider/model an operation is routed to
+ */
+export interface LLMRoute {
+    provider: LLMProviderName;
+    /** Model override (provider default when omitted) */
+    model?: string;
+}
+
+/**
+ * Error class for LLM provider errors
+ */
+export class LLMError extends Error {
+    constructor(
+        message: string,
+        public readonly statusCode?: number,
+        public readonly retryable: boolean = false,
+        public readonly provider?: LLMProviderName
+    ) {
+        super(message);
+        this.name = 'LLMError';
+    }
+}
@@ -0,0 +1,243 @@
+/**
+ * OpenAI-Compatible LLM Provider
+ *
+ * Talks to any server implementing the OpenAI chat completions API:
+ * OpenAI itself, or local servers such as Ollama, llama.cpp and vLLM.
+ *
+ * @module ai/llm/providers/OpenAICompatibleProvider
+ */
+
+import { createChildLogger } from '../../../utils/logger.js';
+import { getEnv } from '../../../utils/env.js';
+import type { LLMProvider, LLMGenerateOptions } from '../llmTypes.js';
+import { LLMError } from '../llmTypes.js';
+import { recordUsage, estimateTokens, assertWithinBudget } from '../../../usage/index.js';
+
+const logger = createChildLogger('openai-provider');
+
+/**
+ * Request configuration
+ */
+const OPENAI_CONFIG = {
+    DEFAULT_BASE_URL: 'https://api.openai.com/v1',
+    MAX_RETRIES: 3,
+    RETRY_DELAY_MS: 1000,
+    // Local models on CPU can be slow to produce a full script
+    TIMEOUT_MS: 120000,
+    TEMPERATURE: 0.7,
+} as const;
+
+/**
+ * Chat message content part
+ */
+type ChatContentPart =
+    | { type: 'text'; text: string }
+    | { type: 'image_url'; image_url: { url: string } };
+
+/**
+ * Chat completions response (fields we use)
+ */
+interface ChatCompletionResponse {
+    choices?: Array<{
+        message?: { content?: string | null };
+        finish_reason?: string;
+    }>;
+    usage?: {
+        prompt_tokens: number;
+        completion_tokens: number;
+        total_tokens: number;
+    };
+}
+
+/**
+ * Connection options (default to the OPENAI_* env vars)
+ */
+export interface OpenAICompatibleOptions {
+    baseUrl?: string;
+    apiKey?: string;
+    model?: string;
+}
+
+/**
+ * Sleep utility
+ */
+function sleep(ms: number): Promise<void> {
+    return new Promise(resolve => setTimeout(resolve, ms));
+}
+
+/**
+ * OpenAI-Compatible Provider Implementation
+ */
+export class OpenAICompatibleProvider implements LLMProvider {
+    readonly name = 'openai' as const;
+    readonly model: string;
+    private readonly baseUrl: string;
+    private readonly apiKey: string | undefined;
+
+    constructor(options: OpenAICompatibleOptions = {}) {
+        const env = getEnv();
+        this.baseUrl = (options.baseUrl || env.OPENAI_BASE_URL).replace(/\/+$/, '');
+        this.apiKey = options.apiKey || env.OPENAI_API_KEY || undefined;
+        this.model = options.model || env.OPENAI_MODEL;
+    }
+
+    /**
+     * Configured when an API key is set or the base URL points at a
+     * self-hosted server (which usually needs no key)
+     */
+    isConfigured(): boolean {
+        return Boolean(this.apiKey) || this.baseUrl !== OPENAI_CONFIG.DEFAULT_BASE_URL;
+    }
+
+    /**
+     * Generates content via /chat/completions
+     */
+    async generateContent(prompt: string, options: LLMGenerateOptions = {}): Promise<string> {
+        if (!this.isConfigured()) {
+            throw new LLMError('OpenAI API key not configured', undefined, false, this.name);
+        }
+
+        assertWithinBudget(this.name);
+
+        const messages: Array<{ role: 'system' | 'user'; content: string | ChatContentPart[] }> = [];
+
+        if (options.systemInstruction) {
+            messages.push({ role: 'system', content: options.systemInstruction });
+        }
+
+        if (options.images?.length) {
+            messages.push({
+                role: 'user',
+                content: [
+                    { type: 'text', text: prompt },
+                    ...options.images.map((image): ChatContentPart => ({
+                        type: 'image_url',
+                        image_url: { url: `data:${image.mimeType};base64,${image.data}` },
+                    })),
+                ],
+            });
+        } else {
+            messages.push({ role: 'user', content: prompt });
+        }
+
+        const requestBody = {
+            model: this.model,
+            messages,
+            temperature: options.temperature ?? OPENAI_CONFIG.TEMPERATURE,
+            ...(options.maxTokens && { max_tokens: options.maxTokens }),
+            ...(options.responseSchema && {
+                response_format: {
+                    type: 'json_schema',
+                    json_schema: { name: 'response', schema: options.responseSchema },
+                },
+            }),
+        };
+
+        const headers: Record<string, string> = { 'Content-Type': 'application/json' };
+        if (this.apiKey) {
+            headers['Authorization'] = `Bearer ${this.apiKey}`;
+        }
+
+        let lastError: Error | null = null;
+
+        for (let attempt = 1; attempt <= OPENAI_CONFIG.MAX_RETRIES; attempt++) {
+            const controller = new AbortController();
+            const timeoutId = setTimeout(() => controller.abort(), OPENAI_CONFIG.TIMEOUT_MS);
+
+            try {
+                const response = await fetch(`${this.baseUrl}/chat/completions`, {
+                    method: 'POST',
+                    headers,
+                    body: JSON.stringify(requestBody),
+                    signal: controller.signal,
+                });
+
+                if (!response.ok) {
+                    const errorBody = await response.text();
+
+                    if (response.status === 429) {
+                        throw new LLMError('Rate limit exceeded', 429, true, this.name);
+                    }
+
+                    if (response.status >= 500) {
+                        throw new LLMError(`Server error: ${response.status}`, response.status, true, this.name);
+                    }
+
+                    throw new LLMError(
+                        `API error: ${response.status} - ${errorBody}`,
+                        response.status,
+                        false,
+                        this.name
+                    );
+                }
+
+                const data: ChatCompletionResponse = await response.json();
+                const generatedText = data.choices?.[0]?.message?.content;
+
+                if (!generatedText) {
+                    throw new LLMError('Empty response from model', undefined, true, this.name);
+                }
+
+                const finishReason = data.choices?.[0]?.finish_reason;
+                if (finishReason === 'length') {
+                    logger.warn({
+                        model: this.model,
+                        responseLength: generatedText.length,
+                    }, 'Response was truncated due to token limit!');
+                }
+
+                logger.info({
+                    attempt,
+                    model: this.model,
+                    promptLength: prompt.length,
+                    responseLength: generatedText.length,
+                    finishReason,
+                    tokens: data.usage,
+                }, 'Content generated successfully');
+
+                recordUsage({
+                    provider: this.name,
+                    model: this.model,
+                    unit: 'tokens',
+                    inputUnits: data.usage?.prompt_tokens
+                        ?? estimateTokens(prompt + (options.systemInstruction ?? '')),
+                    outputUnits: data.usage?.completion_tokens ?? estimateTokens(generatedText),
+                    estimated: !data.usage,
+                    ...options.context,
+                });
+
+                return generatedText;
+
+            } catch (error) {
+                lastError = error as Error;
+
+                if (error instanceof Error && error.name === 'AbortError') {
+                    lastError = new LLMError('Request timed out', undefined, true, this.name);
+                } else if (error instanceof LLMError) {
+                    if (!error.retryable) {
+                        throw error;
+                    }
+                } else {
+                    // fetch() rejects when the server is unreachable (e.g. local server not running)
+                    lastError = new LLMError(
+                        `Request failed: ${error instanceof Error ? error.message : String(error)}`,
+                        undefined,
+                        true,
+                        this.name
+                    );
+                }
+
+                if (attempt < OPENAI_CONFIG.MAX_RETRIES) {
+                    const delay = OPENAI_CONFIG.RETRY_DELAY_MS * Math.pow(2, attempt - 1);
+                    logger.warn({ attempt, delay, error: lastError.message }, 'Retrying after error');
+                    await sleep(delay);
+                }
+            } finally {
+                clearTimeout(timeoutId);
+            }
+        }
+
+        logger.error({ error: lastError, model: this.model }, 'OpenAI-compatible API call failed');
+        throw lastError || new LLMError('Unknown error after retries', undefined, false, this.name);
+    }
+}
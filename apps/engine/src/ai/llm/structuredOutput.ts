@@ -0,0 +1,143 @@
+/**
+ * Structured Output
+ *
+ * Requests JSON matching a schema, validates the decoded value and, when the
+ * shape is wrong, retries once with the exact problems listed in the prompt.
+ * Still-invalid output throws StructuredOutputError instead of being patched.
+ *
+ * @module ai/llm/structuredOutput
+ */
+
+import type { ZodType, ZodTypeDef } from 'zod';
+import { createChildLogger } from '../../utils/logger.js';
+import type { LLMProvider, LLMGenerateOptions, LLMJsonSchema } from './llmTypes.js';
+import { LLMError } from './llmTypes.js';
+
+const logger = createChildLogger('structured-output');
+
+/**
+ * Corrective retries after an invalid response
+ */
+const DEFAULT_MAX_RETRIES = 1;
+
+/**
+ * Thrown when the model keeps returning output that doesn't match the schema.
+ * Retryable: a fresh generation usually comes back well-formed.
+ */
+export class StructuredOutputError extends LLMError {
+    constructor(
+        message: string,
+        public readonly issues: string[],
+        provider?: LLMProvider['name']
+    ) {
+        super(message, undefined, true, provider);
+        this.name = 'StructuredOutputError';
+    }
+}
+
+/**
+ * Options for generateStructured
+ */
+export interface StructuredGenerateOptions<T> extends Omit<LLMGenerateOptions, 'responseSchema'> {
+    /** Schema sent to the provider */
+    responseSchema: LLMJsonSchema;
+    /** Validates the decoded JSON; its issues drive the corrective retry */
+    validator: ZodType<T, ZodTypeDef, unknown>;
+    maxRetries?: number;
+}
+
+/**
+ * Decode a JSON response, tolerating markdown code fences and surrounding prose
+ */
+export function parseJsonResponse(response: string): unknown {
+    const unfenced = response.trim().replace(/^```(?:json)?\s*/i, '').replace(/\s*```$/, '');
+
+    try {
+        return JSON.parse(unfenced);
+    } catch {
+        const start = unfenced.indexOf('{');
+        const end = unfenced.lastIndexOf('}');
+        if (start === -1 || end <= start) {
+            throw new SyntaxError('Response is not JSON (possibly truncated)');
+        }
+        return JSON.parse(unfenced.slice(start, end + 1));
+    }
+}
+
+/**
+ * Validate a raw response, returning the value or human-readable issues
+ */
+export function validateStructuredResponse<T>(
+    response: string,
+    validator: ZodType<T, ZodTypeDef, unknown>
+): { data: T; issues?: never } | { data?: never; issues: string[] } {
+    let value: unknown;
+    try {
+        value = parseJsonResponse(response);
+    } catch (error) {
+        return { issues: [error instanceof Error ? error.message : 'Response is not valid JSON'] };
+    }
+
+    const result = validator.safeParse(value);
+    if (result.success) {
+        return { data: result.data };
+    }
+
+    return {
+        issues: result.error.issues.map(issue =>
+            issue.path.length > 0 ? `${issue.path.join('.')}: ${issue.message}` : issue.message
+        ),
+    };
+}
+
+/**
+ * Prompt for a corrective retry: the original request plus what was wrong
+ */
+function buildRetryPrompt(prompt: string, issues: string[]): string {
+    return `${prompt}
+
+## ⚠️ YOUR PREVIOUS RESPONSE WAS REJECTED
+It did not match the required JSON structure:
+${issues.map(issue => `- ${issue}`).join('\n')}
+
+Return the complete JSON object again, fixing exactly these problems. Keep every field separate and finish every sentence.`;
+}
+
+/**
+ * Generate a JSON response and validate it against a schema
+ */
+export async function generateStructured<T>(
+    llm: LLMProvider,
+    prompt: string,
+    options: StructuredGenerateOptions<T>
+): Promise<T> {
+    const { validator, maxRetries = DEFAULT_MAX_RETRIES, ...generateOptions } = options;
+    let currentPrompt = prompt;
+    let issues: string[] = [];
+
+    for (let attempt = 0; attempt <= maxRetries; attempt++) {
+        const response = await llm.generateContent(currentPrompt, generateOptions);
+        const result = validateStructuredResponse(response, validator);
+
+        if (result.issues === undefined) {
+            return result.data;
+        }
+
+        issues = result.issues;
+        logger.warn({
+            provider: llm.name,
+            model: llm.model,
+            operation: options.context?.operation,
+            attempt: attempt + 1,
+            issues,
+        }, 'Structured response rejected');
+
+        currentPrompt = buildRetryPrompt(prompt, issues);
+    }
+
+    throw new StructuredOutputError(
+        `Model returned invalid structured output: ${issues.join('; ')}`,
+        issues,
+        llm.name
+    );
+}
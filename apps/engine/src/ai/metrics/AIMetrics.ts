@@ -19,6 +19,8 @@ export type AIOperationType =
     | 'generate'
     | 'generate_variants'
     | 'iterate'
+    | 'translate'
+    | 'fact_check'
     | 'score'
     | 'classify'
     | 'validate';
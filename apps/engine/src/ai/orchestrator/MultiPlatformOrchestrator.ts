@@ -17,11 +17,18 @@ import type {
 } from '@icerik/shared';
 import { ALL_PLATFORMS, DEFAULT_MULTI_PLATFORM_OPTIONS } from '@icerik/shared';
 import { getAgentForPlatform } from '../agents/index.js';
-import { GeminiError } from '../gemini.js';
+import { LLMError } from '../llm/index.js';
+import { BudgetExceededError } from '../../usage/index.js';
+import { resolveBrandVoice } from '../brandVoice/index.js';
 import { createChildLogger } from '../../utils/logger.js';
 
 const logger = createChildLogger('orchestrator');
 
+/**
+ * Called as soon as each platform finishes (before the others)
+ */
+export type PlatformResultCallback = (platform: Platform, result: PlatformScriptResult) => void;
+
 /**
  * Multi-Platform Orchestrator
  *
@@ -41,11 +48,14 @@ export class MultiPlatformOrchestrator {
 
     /**
      * Generate scripts for specified platforms
+     * @param onPlatformResult - Optional per-platform progress callback
+     * @throws BrandVoiceError (404) if options.profileId is unknown
      */
     async generateForPlatforms(
         trend: TrendData,
         platforms: Platform[],
-        options: Partial<MultiPlatformOptions> = {}
+        options: Partial<MultiPlatformOptions> = {},
+        onPlatformResult?: PlatformResultCallback
     ): Promise<MultiPlatformResult> {
         const opts: MultiPlatformOptions = {
             ...DEFAULT_MULTI_PLATFORM_OPTIONS,
@@ -53,6 +63,9 @@ export class MultiPlatformOrchestrator {
             platforms,
         };
 
+        // Fail the whole request up front rather than once per platform
+        resolveBrandVoice(opts.profileId);
+
         const requestedAt = new Date().toISOString();
         const startTime = Date.now();
 
@@ -63,7 +76,7 @@ export class MultiPlatformOrchestrator {
         }, 'Starting multi-platform generation');
 
         // Execute all platform generations in parallel
-        const results = await this.executeParallel(trend, platforms, opts);
+        const results = await this.executeParallel(trend, platforms, opts, onPlatformResult);
 
         const completedAt = new Date().toISOString();
         const totalDurationMs = Date.now() - startTime;
@@ -100,11 +113,15 @@ export class MultiPlatformOrchestrator {
     private async executeParallel(
         trend: TrendData,
         platforms: Platform[],
-        options: MultiPlatformOptions
+        options: MultiPlatformOptions,
+        onPlatformResult?: PlatformResultCallback
     ): Promise<MultiPlatformResult['results']> {
         // Create generation tasks for each platform
         const tasks = platforms.map(platform =>
-            this.generateForPlatform(trend, platform, options)
+            this.generateForPlatform(trend, platform, options).then(result => {
+                onPlatformResult?.(platform, result);
+                return result;
+            })
         );
 
         // Execute all in parallel, allowing individual failures
@@ -159,7 +176,16 @@ export class MultiPlatformOrchestrator {
             };
         } catch (error) {
             // Handle known error types
-            if (error instanceof GeminiError) {
+            if (error instanceof BudgetExceededError) {
+                return {
+                    success: false,
+                    error: error.message,
+                    retryable: false,
+                    code: error.code,
+                };
+            }
+
+            if (error instanceof LLMError) {
                 return {
                     success: false,
                     error: error.message,
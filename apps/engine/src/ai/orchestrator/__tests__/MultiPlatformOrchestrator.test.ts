@@ -23,14 +23,17 @@ vi.mock('../../agents/index.js', () => ({
     })),
 }));
 
-// Mock the gemini client
-vi.mock('../../gemini.js', () => ({
-    GeminiError: class GeminiError extends Error {
-        constructor(message: string, public statusCode?: number, public retryable = false) {
-            super(message);
-        }
-    },
-}));
+// Mock the gemini client (GeminiError keeps its real LLMError base)
+vi.mock('../../gemini.js', async () => {
+    const { LLMError } = await import('../../llm/llmTypes.js');
+    return {
+        GeminiError: class GeminiError extends LLMError {
+            constructor(message: string, statusCode?: number, retryable = false) {
+                super(message, statusCode, retryable, 'gemini');
+            }
+        },
+    };
+});
 
 // Mock logger
 vi.mock('../../../utils/logger.js', () => ({
@@ -11,3 +11,5 @@ export {
     getOrchestrator,
     resetOrchestrator,
 } from './MultiPlatformOrchestrator.js';
+
+export type { PlatformResultCallback } from './MultiPlatformOrchestrator.js';
@@ -15,6 +15,7 @@ import type {
 } from '@icerik/shared';
 import { PLATFORM_ALGORITHM_FOCUS } from '@icerik/shared';
 import { createChildLogger } from '../../utils/logger.js';
+import { estimateSpeechSeconds } from '../../language/index.js';
 
 const logger = createChildLogger('algorithmScorer');
 
@@ -221,7 +222,7 @@ export class AlgorithmScorer {
             script.sections.body.wordCount +
             (script.sections.cta?.wordCount || 0);
 
-        const estimatedDuration = Math.round(totalWords / 2.5);
+        const estimatedDuration = estimateSpeechSeconds(totalWords, script.metadata.language);
         const optimal = algorithmFocus.optimalDuration;
 
         // Duration scoring
@@ -7,11 +7,12 @@
  * @module ai/scriptGenerator
  */
 
-import type { TrendData, ContentCategory } from '@icerik/shared';
-import { CATEGORY_VIDEO_FORMATS } from '@icerik/shared';
-import { getGeminiClient, GeminiError } from './gemini.js';
+import type { TrendData, ContentCategory, ScriptLanguage } from '@icerik/shared';
+import { CATEGORY_VIDEO_FORMATS, SCRIPT_LANGUAGES } from '@icerik/shared';
+import { requireLLMProvider } from './llm/index.js';
 import { sanitizeScriptText } from './scriptSanitizer.js';
 import { createChildLogger } from '../utils/logger.js';
+import { getLanguageProfile, getWordBudget, estimateSpeechSeconds } from '../language/index.js';
 
 const logger = createChildLogger('scriptGenerator');
 
@@ -46,7 +47,7 @@ export interface ScriptOptions {
     /** Tone of the script */
     tone: 'casual' | 'professional' | 'humorous' | 'dramatic';
     /** Language for the script */
-    language: 'en' | 'tr';
+    language: ScriptLanguage;
     /** Include call to action */
     includeCta: boolean;
     /** Include hook at the start */
@@ -130,20 +131,6 @@ const TONE_INSTRUCTIONS: Record<ScriptOptions['tone'], string> = {
     dramatic: 'Use dramatic pauses, emphasis, and emotional language to create impact.',
 };
 
-/**
- * Language-specific instructions
- */
-const LANGUAGE_INSTRUCTIONS: Record<ScriptOptions['language'], { name: string; instructions: string }> = {
-    en: {
-        name: 'English',
-        instructions: 'Write the script in English. Use natural, conversational American English.',
-    },
-    tr: {
-        name: 'Turkish',
-        instructions: 'Scripti Türkçe yaz. Doğal ve günlük Türkçe kullan. Gen Z ve milenyallara hitap et.',
-    },
-};
-
 /**
  * Script Generator Class
  */
@@ -159,11 +146,7 @@ export class ScriptGenerator {
         options: Partial<ScriptOptions> = {}
     ): Promise<GeneratedScript> {
         const opts = { ...DEFAULT_OPTIONS, ...options };
-        const gemini = getGeminiClient();
-
-        if (!gemini.isConfigured()) {
-            throw new GeminiError('Gemini API is not configured. Please set GEMINI_API_KEY.', undefined, false);
-        }
+        const llm = requireLLMProvider('scripts');
 
         const prompt = this.buildPrompt(trend, opts);
         const systemInstruction = this.buildSystemInstruction(opts);
@@ -176,10 +159,15 @@ export class ScriptGenerator {
         }, 'Generating script');
 
         try {
-            const response = await gemini.generateContent(prompt, {
+            const response = await llm.generateContent(prompt, {
                 systemInstruction,
                 temperature: opts.tone === 'humorous' ? 0.9 : 0.7,
                 maxTokens: 2048,
+                context: {
+                    operation: 'scripts',
+                    trendId: trend.id,
+                    platform: opts.platform === 'all' ? undefined : opts.platform,
+                },
             });
 
             const script = this.parseResponse(response, trend, opts);
@@ -202,7 +190,7 @@ export class ScriptGenerator {
      * Builds the main prompt for script generation
      */
     private buildPrompt(trend: TrendData, options: ScriptOptions): string {
-        const langInstructions = LANGUAGE_INSTRUCTIONS[options.language];
+        const langInstructions = getLanguageProfile(options.language);
 
         return `
 # Content Brief
@@ -218,7 +206,7 @@ export class ScriptGenerator {
 
 ## Script Requirements
 - **Format**: ${options.format}
-- **Target Duration**: ${options.durationSeconds} seconds (approximately ${Math.round(options.durationSeconds * 2.5)} words)
+- **Target Duration**: ${options.durationSeconds} seconds (approximately ${getWordBudget(options.durationSeconds, options.language)} words)
 - **Platform**: ${options.platform}
 - **Tone**: ${options.tone}
 - **Language**: ${langInstructions.name}
@@ -307,9 +295,9 @@ You always format your response with clear [HOOK], [BODY], [CTA], [TITLE], and [
         // Build complete script (already sanitized)
         const fullScript = [hook, body, cta].filter(Boolean).join('\n\n');
 
-        // Estimate duration (average speaking rate: ~2.5 words per second)
+        // Estimate duration at the language's speaking rate
         const wordCount = fullScript.split(/\s+/).length;
-        const estimatedDuration = Math.round(wordCount / 2.5);
+        const estimatedDuration = estimateSpeechSeconds(wordCount, options.language);
 
         return {
             script: fullScript,
@@ -386,6 +374,10 @@ You always format your response with clear [HOOK], [BODY], [CTA], [TITLE], and [
             }
         }
 
+        if (options.language !== undefined && !SCRIPT_LANGUAGES.includes(options.language)) {
+            errors.push(`Invalid language: ${options.language}`);
+        }
+
         return {
             valid: errors.length === 0,
             errors,
@@ -147,6 +147,7 @@ export class SupervisorAgent {
         const validationRules = getValidationRules(platform, durationSeconds, {
             requireHook: options.includeHook ?? true,
             requireCta: options.includeCta ?? true,
+            language: options.language,
         });
 
         let lastScript: PlatformScript | undefined;
@@ -0,0 +1,406 @@
+/**
+ * Script Translator
+ *
+ * Localizes an existing script into another language section by section.
+ * Each section is sized to the target language's speaking rate so it keeps
+ * the original's timing, and hashtags are regenerated for the target locale
+ * instead of being translated word for word.
+ *
+ * @module ai/translation/ScriptTranslator
+ */
+
+import { z } from 'zod';
+import type { PlatformScript, ScriptLanguage, ScriptSection } from '@icerik/shared';
+import { PLATFORM_ALGORITHM_FOCUS, PLATFORM_LABELS } from '@icerik/shared';
+import { requireLLMProvider, generateStructured } from '../llm/index.js';
+import type { LLMJsonSchema } from '../llm/index.js';
+import { createChildLogger } from '../../utils/logger.js';
+import { getAIMetrics } from '../metrics/index.js';
+import { getLanguageProfile, estimateSpeechSeconds, DEFAULT_SCRIPT_LANGUAGE } from '../../language/index.js';
+
+const logger = createChildLogger('scriptTranslator');
+
+/**
+ * How far a translated section may drift from the original's duration
+ * (fraction of the expected word count, at least MIN_WORD_SLACK words)
+ */
+const TIMING_TOLERANCE = 0.2;
+const MIN_WORD_SLACK = 2;
+
+type SectionKey = 'hook' | 'body' | 'cta';
+
+const SECTION_KEYS: readonly SectionKey[] = ['hook', 'body', 'cta'];
+
+const SECTION_ROLES: Record<SectionKey, string> = {
+    hook: 'the opening hook (first 1-3 seconds, must stop the scroll)',
+    body: 'the main body',
+    cta: 'the closing call to action',
+};
+
+/**
+ * Thrown for requests that can't be translated (e.g. same source and target)
+ */
+export class TranslationError extends Error {
+    constructor(message: string, public readonly statusCode: 400 = 400) {
+        super(message);
+        this.name = 'TranslationError';
+    }
+}
+
+/**
+ * Translation request
+ */
+export interface TranslationRequest {
+    script: PlatformScript;
+    targetLanguage: ScriptLanguage;
+    /**
+     * Id of the source script. Defaults to its library id, else one derived
+     * from platform, trend and generation time.
+     */
+    sourceScriptId?: string;
+}
+
+/**
+ * Timing of one translated section against the original
+ */
+export interface SectionTiming {
+    section: SectionKey;
+    sourceSeconds: number;
+    translatedSeconds: number;
+}
+
+/**
+ * Translation result
+ */
+export interface TranslationResult {
+    translatedScript: PlatformScript;
+    sourceLanguage: ScriptLanguage;
+    targetLanguage: ScriptLanguage;
+    timing: SectionTiming[];
+    metadata: {
+        tokensUsed: number;
+        durationMs: number;
+    };
+}
+
+/**
+ * Id used for a script that has no stored id (matches the dashboard's
+ * generateScriptId)
+ */
+export function deriveScriptId(script: PlatformScript): string {
+    return `${script.platform}_${script.metadata.trendId}_${new Date(script.metadata.generatedAt).getTime()}`;
+}
+
+function countWords(text: string): number {
+    return text.split(/\s+/).filter(Boolean).length;
+}
+
+/**
+ * Word range that keeps a section's spoken length within tolerance
+ */
+export function getTranslationWordRange(
+    sourceWords: number,
+    sourceLanguage: ScriptLanguage,
+    targetLanguage: ScriptLanguage
+): { expected: number; min: number; max: number } {
+    const seconds = sourceWords / getLanguageProfile(sourceLanguage).wordsPerSecond;
+    const expected = Math.max(1, Math.round(seconds * getLanguageProfile(targetLanguage).wordsPerSecond));
+    const slack = Math.max(MIN_WORD_SLACK, Math.round(expected * TIMING_TOLERANCE));
+
+    return { expected, min: Math.max(1, expected - slack), max: expected + slack };
+}
+
+const SECTION_SCHEMA: LLMJsonSchema = {
+    type: 'object',
+    properties: {
+        text: { type: 'string', description: 'The translated section' },
+    },
+    required: ['text'],
+};
+
+const META_SCHEMA: LLMJsonSchema = {
+    type: 'object',
+    properties: {
+        title: { type: 'string', description: 'Translated video title' },
+        hashtags: {
+            type: 'array',
+            description: 'Hashtags for the target locale, each starting with #',
+            items: { type: 'string' },
+        },
+    },
+    required: ['title', 'hashtags'],
+};
+
+/**
+ * Validator for a translated section: rejects drift outside the word range
+ */
+function createSectionValidator(range: { min: number; max: number }, targetName: string) {
+    return z.object({
+        text: z.string().trim().min(1, 'must not be empty'),
+    }).superRefine((output, ctx) => {
+        const words = countWords(output.text);
+        if (words < range.min || words > range.max) {
+            ctx.addIssue({
+                code: z.ZodIssueCode.custom,
+                path: ['text'],
+                message: `is ${words} words; use ${range.min}-${range.max} words of ${targetName} so it takes as long to say as the original`,
+            });
+        }
+    });
+}
+
+/**
+ * Validator for the translated title and hashtags
+ */
+function createMetaValidator(count: { min: number; max: number }) {
+    return z.object({
+        title: z.string().trim().min(1, 'must not be empty'),
+        hashtags: z.array(z.string().trim().min(1))
+            .transform(tags => tags
+                .flatMap(tag => tag.split(/[\s,]+/))
+                .filter(Boolean)
+                .map(tag => (tag.startsWith('#') ? tag : `#${tag}`)))
+            .refine(tags => tags.length >= count.min, `must contain at least ${count.min} hashtags`),
+    });
+}
+
+/**
+ * Script Translator
+ *
+ * Handles localization of existing scripts.
+ */
+export class ScriptTranslator {
+    /**
+     * Translate a script into another language
+     * @throws TranslationError (400) if the script is already in the target language
+     */
+    async translate(request: TranslationRequest): Promise<TranslationResult> {
+        const { script, targetLanguage } = request;
+        const sourceLanguage = script.metadata.language ?? DEFAULT_SCRIPT_LANGUAGE;
+
+        if (sourceLanguage === targetLanguage) {
+            throw new TranslationError(`Script is already in ${getLanguageProfile(targetLanguage).name}`);
+        }
+
+        const metrics = getAIMetrics();
+        const operationId = metrics.startOperation('translate', {
+            platform: script.platform,
+            category: script.metadata.category,
+        });
+        const startTime = Date.now();
+
+        logger.info({
+            platform: script.platform,
+            trendId: script.metadata.trendId,
+            sourceLanguage,
+            targetLanguage,
+        }, 'Starting script translation');
+
+        try {
+            const llm = requireLLMProvider('translation');
+            const source = getLanguageProfile(sourceLanguage);
+            const target = getLanguageProfile(targetLanguage);
+            let promptChars = 0;
+            let responseChars = 0;
+
+            const generateOptions = {
+                systemInstruction: `You are a native ${target.name} short-form video writer localizing ${PLATFORM_LABELS[script.platform]} scripts from ${source.name}.
+Translate meaning, tone and rhythm rather than word for word. Output ONLY the requested JSON.`,
+                temperature: 0.4,
+                maxTokens: 1024,
+                context: {
+                    operation: 'translation' as const,
+                    trendId: script.metadata.trendId,
+                    platform: script.platform,
+                },
+            };
+
+            const translateSection = async (key: SectionKey, section: ScriptSection): Promise<[SectionKey, string]> => {
+                const range = getTranslationWordRange(section.wordCount, sourceLanguage, targetLanguage);
+                const prompt = `
+[FULL ${source.name.toUpperCase()} SCRIPT, FOR CONTEXT]
+${script.script}
+
+TASK: Translate ONLY ${SECTION_ROLES[key]} into ${target.name}:
+"""
+${section.content}
+"""
+
+${target.instructions}
+- Keep it as long to say as the original: about ${range.expected} words (${range.min}-${range.max}).
+- Adapt idioms, slang and cultural references so they land with a ${target.name}-speaking audience.
+- Keep names, numbers and facts unchanged.
+
+Respond with a single JSON object: {"text": "<translated section>"}.`;
+
+                const output = await generateStructured(llm, prompt, {
+                    ...generateOptions,
+                    responseSchema: SECTION_SCHEMA,
+                    validator: createSectionValidator(range, target.name),
+                });
+
+                promptChars += prompt.length;
+                responseChars += output.text.length;
+                return [key, output.text];
+            };
+
+            const translateMeta = async (): Promise<{ title: string; hashtags: string[] }> => {
+                const count = PLATFORM_ALGORITHM_FOCUS[script.platform].hashtagStrategy.count;
+                const prompt = `
+[${source.name.toUpperCase()} TITLE]
+${script.title}
+
+[ORIGINAL HASHTAGS]
+${script.hashtags.join(' ')}
+
+[SCRIPT]
+${script.script}
+
+TASK:
+1. Translate the title into ${target.name}, keeping its hook.
+2. Write ${count.min}-${count.max} NEW hashtags that ${target.name}-speaking ${PLATFORM_LABELS[script.platform]} users actually search for. Do not translate the original hashtags literally; mix broad and niche tags for the topic.
+
+Respond with a single JSON object: {"title": "...", "hashtags": ["#..."]}.`;
+
+                const output = await generateStructured(llm, prompt, {
+                    ...generateOptions,
+                    responseSchema: META_SCHEMA,
+                    validator: createMetaValidator(count),
+                });
+
+                promptChars += prompt.length;
+                responseChars += output.title.length + output.hashtags.join(' ').length;
+                return { title: output.title, hashtags: output.hashtags.slice(0, count.max) };
+            };
+
+            const sectionEntries = SECTION_KEYS
+                .filter(key => script.sections[key])
+                .map(key => translateSection(key, script.sections[key]!));
+
+            const [translatedSections, meta] = await Promise.all([
+                Promise.all(sectionEntries),
+                translateMeta(),
+            ]);
+
+            const translatedScript = this.buildTranslatedScript(
+                request,
+                sourceLanguage,
+                Object.fromEntries(translatedSections) as Partial<Record<SectionKey, string>>,
+                meta
+            );
+
+            const timing = translatedSections.map(([key]) => ({
+                section: key,
+                sourceSeconds: script.sections[key]!.estimatedSeconds,
+                translatedSeconds: translatedScript.sections[key]!.estimatedSeconds,
+            }));
+
+            const durationMs = Date.now() - startTime;
+
+            metrics.endOperation(operationId, {
+                success: true,
+                promptTokens: Math.round(promptChars / 4),
+                responseTokens: Math.round(responseChars / 4),
+            });
+
+            logger.info({
+                platform: script.platform,
+                sourceLanguage,
+                targetLanguage,
+                durationMs,
+            }, 'Script translation completed');
+
+            return {
+                translatedScript,
+                sourceLanguage,
+                targetLanguage,
+                timing,
+                metadata: {
+                    tokensUsed: Math.round((promptChars + responseChars) / 4),
+                    durationMs,
+                },
+            };
+        } catch (error) {
+            const durationMs = Date.now() - startTime;
+
+            metrics.endOperation(operationId, {
+                success: false,
+                errorType: error instanceof Error ? error.name : 'unknown',
+                errorMessage: error instanceof Error ? error.message : String(error),
+            });
+
+            logger.error({
+                platform: script.platform,
+                targetLanguage,
+                error,
+                durationMs,
+            }, 'Script translation failed');
+
+            throw error;
+        }
+    }
+
+    /**
+     * Assemble the translated script, re-timed at the target language's rate
+     */
+    private buildTranslatedScript(
+        request: TranslationRequest,
+        sourceLanguage: ScriptLanguage,
+        sections: Partial<Record<SectionKey, string>>,
+        meta: { title: string; hashtags: string[] }
+    ): PlatformScript {
+        const { script, targetLanguage } = request;
+
+        const toSection = (content: string | undefined): ScriptSection | undefined => {
+            if (!content) return undefined;
+            const wordCount = countWords(content);
+            return { content, wordCount, estimatedSeconds: estimateSpeechSeconds(wordCount, targetLanguage) };
+        };
+
+        const hook = toSection(sections.hook);
+        const body = toSection(sections.body)!;
+        const cta = toSection(sections.cta);
+        const totalWords = (hook?.wordCount ?? 0) + body.wordCount + (cta?.wordCount ?? 0);
+
+        return {
+            ...script,
+            script: [hook?.content, body.content, cta?.content].filter(Boolean).join('\n\n'),
+            title: meta.title.replace(/^["']|["']$/g, '').trim(),
+            hashtags: meta.hashtags,
+            estimatedDurationSeconds: estimateSpeechSeconds(totalWords, targetLanguage),
+            sections: { hook, body, cta },
+            metadata: {
+                ...script.metadata,
+                generatedAt: new Date().toISOString(),
+                agentVersion: 'ScriptTranslator-1.0.0',
+                language: targetLanguage,
+                sourceScriptId: request.sourceScriptId ?? script.metadata.libraryId ?? deriveScriptId(script),
+                translatedFrom: sourceLanguage,
+            },
+            warnings: undefined,
+        };
+    }
+}
+
+// ============================================================
+// Singleton Instance
+// ============================================================
+
+let translatorInstance: ScriptTranslator | null = null;
+
+/**
+ * Get the singleton ScriptTranslator instance
+ */
+export function getScriptTranslator(): ScriptTranslator {
+    if (!translatorInstance) {
+        translatorInstance = new ScriptTranslator();
+    }
+    return translatorInstance;
+}
+
+/**
+ * Reset the translator instance (for testing)
+ */
+export function resetScriptTranslator(): void {
+    translatorInstance = null;
+}
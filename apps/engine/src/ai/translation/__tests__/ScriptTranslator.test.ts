@@ -0,0 +1,125 @@
+/**
+ * Script Translator Tests
+ *
+ * Tests for timing-preserving section translation, hashtag regeneration
+ * and source tracking.
+ *
+ * @module ai/translation/__tests__/ScriptTranslator.test
+ */
+
+import { describe, it, expect, vi, beforeEach } from 'vitest';
+import type { PlatformScript } from '@icerik/shared';
+
+const generateContent = vi.fn();
+
+vi.mock('../../llm/index.js', async (importOriginal) => ({
+    ...(await importOriginal<typeof import('../../llm/index.js')>()),
+    requireLLMProvider: vi.fn(() => ({
+        name: 'gemini',
+        model: 'gemini-test',
+        isConfigured: () => true,
+        generateContent,
+    })),
+}));
+
+const { getScriptTranslator, resetScriptTranslator, getTranslationWordRange, TranslationError } =
+    await import('../ScriptTranslator.js');
+
+const SOURCE_SCRIPT: PlatformScript = {
+    platform: 'tiktok',
+    script: 'Bu oyuncu tarihe geçti!\n\nDünya şampiyonasında son saniye hamlesi, herkes ayakta kaldı.',
+    title: 'E-Spor Tarihinin En İyi Anı',
+    hashtags: ['#espor', '#oyun'],
+    estimatedDurationSeconds: 5,
+    sections: {
+        hook: { content: 'Bu oyuncu tarihe geçti!', wordCount: 4, estimatedSeconds: 2 },
+        body: {
+            content: 'Dünya şampiyonasında son saniye hamlesi, herkes ayakta kaldı.',
+            wordCount: 8,
+            estimatedSeconds: 3,
+        },
+    },
+    optimizations: [],
+    metadata: {
+        generatedAt: '2026-01-01T00:00:00.000Z',
+        trendId: 'abc123',
+        category: 'gaming',
+        agentVersion: 'TikTokAgent-1.0.0',
+    },
+};
+
+/**
+ * Answers each prompt by what it asks for
+ */
+function respond(hook: string, body: string, meta: object): void {
+    generateContent.mockImplementation(async (prompt: string) => {
+        if (prompt.includes('TITLE]')) return JSON.stringify(meta);
+        if (prompt.includes('opening hook')) return JSON.stringify({ text: hook });
+        return JSON.stringify({ text: body });
+    });
+}
+
+describe('getTranslationWordRange', () => {
+    it('scales the word count by the speaking rates', () => {
+        // 30 Turkish words at 2.5 w/s = 12s; German at 2.2 w/s
+        expect(getTranslationWordRange(30, 'tr', 'de')).toEqual({ expected: 26, min: 21, max: 31 });
+        expect(getTranslationWordRange(2, 'tr', 'en').min).toBeGreaterThanOrEqual(1);
+    });
+});
+
+describe('ScriptTranslator', () => {
+    beforeEach(() => {
+        resetScriptTranslator();
+        generateContent.mockReset();
+    });
+
+    it('translates each section and regenerates hashtags', async () => {
+        respond(
+            'This player made history!',
+            'A last-second play at the world championship left everyone standing.',
+            { title: 'The Best Moment in Esports History', hashtags: ['#esports', 'gaming', '#clutch'] }
+        );
+
+        const result = await getScriptTranslator().translate({ script: SOURCE_SCRIPT, targetLanguage: 'en' });
+        const translated = result.translatedScript;
+
+        expect(translated.sections.hook?.content).toBe('This player made history!');
+        expect(translated.sections.cta).toBeUndefined();
+        expect(translated.hashtags).toEqual(['#esports', '#gaming', '#clutch']);
+        expect(translated.metadata).toMatchObject({
+            language: 'en',
+            translatedFrom: 'tr',
+            sourceScriptId: `tiktok_abc123_${Date.parse('2026-01-01T00:00:00.000Z')}`,
+        });
+        expect(result.timing.map(entry => entry.section)).toEqual(['hook', 'body']);
+        expect(generateContent).toHaveBeenCalledTimes(3);
+    });
+
+    it('retries a section whose length drifts outside the tolerance', async () => {
+        const padded = 'A last-second play at the world championship left absolutely everyone in the arena standing and screaming for minutes.';
+        let bodyCalls = 0;
+        generateContent.mockImplementation(async (prompt: string) => {
+            if (prompt.includes('TITLE]')) return JSON.stringify({ title: 'Best Moment', hashtags: ['#esports', '#gaming', '#fyp'] });
+            if (prompt.includes('opening hook')) return JSON.stringify({ text: 'This player made history!' });
+            bodyCalls++;
+            return JSON.stringify({ text: bodyCalls === 1 ? padded : 'A last-second play left everyone standing.' });
+        });
+
+        const result = await getScriptTranslator().translate({
+            script: SOURCE_SCRIPT,
+            targetLanguage: 'en',
+            sourceScriptId: 'library-42',
+        });
+
+        expect(bodyCalls).toBe(2);
+        const retryPrompt = generateContent.mock.calls.map(call => call[0] as string).find(prompt => prompt.includes('REJECTED'));
+        expect(retryPrompt).toContain('words of English');
+        expect(result.translatedScript.metadata.sourceScriptId).toBe('library-42');
+    });
+
+    it('rejects translating into the source language', async () => {
+        await expect(getScriptTranslator().translate({ script: SOURCE_SCRIPT, targetLanguage: 'tr' }))
+            .rejects.toBeInstanceOf(TranslationError);
+        expect(generateContent).not.toHaveBeenCalled();
+    });
+});
@@ -0,0 +1,19 @@
+/**
+ * Script Translation Module
+ *
+ * Exports localization of existing scripts into other languages.
+ *
+ * @module ai/translation
+ */
+
+export {
+    ScriptTranslator,
+    TranslationError,
+    getScriptTranslator,
+    resetScriptTranslator,
+    deriveScriptId,
+    getTranslationWordRange,
+    type TranslationRequest,
+    type TranslationResult,
+    type SectionTiming,
+} from './ScriptTranslator.js';
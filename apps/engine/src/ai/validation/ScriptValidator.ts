@@ -11,9 +11,11 @@ import type {
     Platform,
     PlatformScript,
     PlatformAlgorithmFocus,
+    ScriptLanguage,
 } from '@icerik/shared';
 import { PLATFORM_ALGORITHM_FOCUS } from '@icerik/shared';
 import { createChildLogger } from '../../utils/logger.js';
+import { getWordBudget, estimateSpeechSeconds, endsWithSentenceTerminator } from '../../language/index.js';
 
 const logger = createChildLogger('validator');
 
@@ -23,7 +25,7 @@ const logger = createChildLogger('validator');
 export interface ValidationRules {
     /** Target duration in seconds */
     targetDurationSeconds: number;
-    /** Maximum allowed words (calculated from duration * 2.5) */
+    /** Maximum allowed words (duration * the language's speaking rate) */
     maxWords: number;
     /** Minimum words for a valid script */
     minWords: number;
@@ -37,6 +39,8 @@ export interface ValidationRules {
     minBodyWords: number;
     /** Platform-specific algorithm focus */
     algorithmFocus: PlatformAlgorithmFocus;
+    /** Script language, for duration estimates */
+    language?: ScriptLanguage;
 }
 
 /**
@@ -73,10 +77,10 @@ export interface ValidationResult {
 export function getValidationRules(
     platform: Platform,
     targetDurationSeconds: number,
-    options: { requireHook?: boolean; requireCta?: boolean } = {}
+    options: { requireHook?: boolean; requireCta?: boolean; language?: ScriptLanguage } = {}
 ): ValidationRules {
     const algorithmFocus = PLATFORM_ALGORITHM_FOCUS[platform];
-    const maxWords = Math.round(targetDurationSeconds * 2.5);
+    const maxWords = getWordBudget(targetDurationSeconds, options.language);
 
     return {
         targetDurationSeconds,
@@ -87,6 +91,7 @@ export function getValidationRules(
         minHookWords: 3,
         minBodyWords: 10,
         algorithmFocus,
+        language: options.language,
     };
 }
 
@@ -175,7 +180,7 @@ export class ScriptValidator {
 
         // 4. Check for incomplete sentences (ends without punctuation)
         const bodyContent = script.sections.body.content;
-        const endsWithPunctuation = /[.!?…]$/.test(bodyContent.trim());
+        const endsWithPunctuation = endsWithSentenceTerminator(bodyContent, script.metadata.language);
         if (!endsWithPunctuation) {
             violations.push({
                 code: 'INCOMPLETE_CONTENT',
@@ -188,7 +193,7 @@ export class ScriptValidator {
 
         // 5. Duration compliance (within optimal range)
         const optimal = rules.algorithmFocus.optimalDuration;
-        const estimatedDuration = Math.round(totalWords / 2.5);
+        const estimatedDuration = estimateSpeechSeconds(totalWords, rules.language);
 
         if (estimatedDuration > optimal.max) {
             violations.push({
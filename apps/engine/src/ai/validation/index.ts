@@ -12,3 +12,11 @@ export {
     type ValidationResult,
     type Violation,
 } from './ScriptValidator.js';
+
+export {
+    buildScriptOutputSchema,
+    createScriptOutputValidator,
+    type ScriptOutput,
+    type ScriptOutputRequirements,
+    type ScriptOutputConstraints,
+} from './scriptOutput.js';
@@ -0,0 +1,205 @@
+/**
+ * Script Output Schema
+ *
+ * JSON shape requested from the model for script generation and full-script
+ * iterations, plus the validator that rejects truncated or merged sections
+ * so they can be regenerated instead of patched.
+ *
+ * @module ai/validation/scriptOutput
+ */
+
+import { z } from 'zod';
+import type { ZodType, ZodTypeDef } from 'zod';
+import type { ScriptLanguage } from '@icerik/shared';
+import type { LLMJsonSchema } from '../llm/index.js';
+import { endsWithSentenceTerminator } from '../../language/index.js';
+
+/**
+ * Script as returned by the model. Title and hashtags are only requested
+ * for new scripts; iterations keep the original ones.
+ */
+export interface ScriptOutput {
+    hook?: string;
+    body: string;
+    cta?: string;
+    title?: string;
+    hashtags?: string[];
+}
+
+/**
+ * What a response must contain
+ */
+export interface ScriptOutputRequirements {
+    includeHook: boolean;
+    includeCta: boolean;
+    /** Ask for title and hashtags too */
+    includeMeta: boolean;
+    /** Script language; its sentence terminators mark a finished section (any language's when omitted) */
+    language?: ScriptLanguage;
+}
+
+/**
+ * Content rules from a brand voice profile
+ */
+export interface ScriptOutputConstraints {
+    /** Phrases that must not appear in any section (case-insensitive) */
+    bannedPhrases?: string[];
+    /** Reject emoji in the sections and title */
+    forbidEmoji?: boolean;
+}
+
+/**
+ * Longest hook/CTA accepted; anything longer has swallowed body text
+ */
+const MAX_HOOK_WORDS = 20;
+const MAX_CTA_WORDS = 25;
+
+const SECTION_MARKER = /\[(?:HOOK|BODY|CTA|TITLE|HASHTAGS)\]|^\s*(?:HOOK|BODY|CTA)\s*:/im;
+
+/**
+ * Trailing visual directions like [ZOOM IN] don't count as the section's end
+ */
+const TRAILING_DIRECTION = /(?:\s*\[[^\]]*\])+\s*$/;
+
+/**
+ * Quotes, brackets and emoji may close a sentence in any language
+ */
+const CLOSING_MARK = /(?:["'”»)]|\p{Extended_Pictographic})$/u;
+
+const EMOJI = /\p{Extended_Pictographic}/u;
+
+function countWords(text: string): number {
+    return text.split(/\s+/).filter(Boolean).length;
+}
+
+function endsMidSentence(text: string, language?: ScriptLanguage): boolean {
+    const content = text.replace(TRAILING_DIRECTION, '').trim();
+    return !CLOSING_MARK.test(content) && !endsWithSentenceTerminator(content, language);
+}
+
+/**
+ * Schema sent to the provider
+ */
+export function buildScriptOutputSchema(requirements: ScriptOutputRequirements): LLMJsonSchema {
+    const properties: Record<string, LLMJsonSchema> = {};
+
+    if (requirements.includeHook) {
+        properties.hook = { type: 'string', description: 'Opening line that grabs attention (8-12 words)' };
+    }
+    properties.body = { type: 'string', description: 'Main content, complete sentences' };
+    if (requirements.includeCta) {
+        properties.cta = { type: 'string', description: 'Call to action (10-15 words)' };
+    }
+    if (requirements.includeMeta) {
+        properties.title = { type: 'string', description: 'Video title' };
+        properties.hashtags = {
+            type: 'array',
+            description: 'Hashtags, each starting with #',
+            items: { type: 'string' },
+        };
+    }
+
+    return {
+        type: 'object',
+        properties,
+        required: Object.keys(properties),
+    };
+}
+
+/**
+ * Validator for a response. Hashtags are split and normalized to start with '#'.
+ * Brand voice constraints turn banned phrases and emoji into retryable issues.
+ */
+export function createScriptOutputValidator(
+    requirements: ScriptOutputRequirements,
+    constraints: ScriptOutputConstraints = {}
+): ZodType<ScriptOutput, ZodTypeDef, unknown> {
+    const section = z.string().trim().min(1, 'must not be empty');
+
+    return z.object({
+        hook: requirements.includeHook ? section : section.optional(),
+        body: section,
+        cta: requirements.includeCta ? section : section.optional(),
+        title: requirements.includeMeta ? section : z.string().optional(),
+        hashtags: requirements.includeMeta
+            ? z.array(z.string().trim().min(1))
+                .min(1, 'must contain at least one hashtag')
+                .transform(tags => tags
+                    .flatMap(tag => tag.split(/[\s,]+/))
+                    .filter(Boolean)
+                    .map(tag => (tag.startsWith('#') ? tag : `#${tag}`)))
+            : z.array(z.string()).optional(),
+    }).superRefine((output, ctx) => {
+        for (const key of ['hook', 'body', 'cta'] as const) {
+            const text = output[key];
+            if (text && SECTION_MARKER.test(text)) {
+                ctx.addIssue({
+                    code: z.ZodIssueCode.custom,
+                    path: [key],
+                    message: 'contains another section\'s marker; put each section in its own field',
+                });
+            }
+        }
+
+        if (output.hook && countWords(output.hook) > MAX_HOOK_WORDS) {
+            ctx.addIssue({
+                code: z.ZodIssueCode.custom,
+                path: ['hook'],
+                message: `is ${countWords(output.hook)} words; keep it under ${MAX_HOOK_WORDS} and move the rest to body`,
+            });
+        }
+
+        if (output.cta && countWords(output.cta) > MAX_CTA_WORDS) {
+            ctx.addIssue({
+                code: z.ZodIssueCode.custom,
+                path: ['cta'],
+                message: `is ${countWords(output.cta)} words; keep only the call to action (under ${MAX_CTA_WORDS})`,
+            });
+        }
+
+        if (output.cta && output.body.includes(output.cta)) {
+            ctx.addIssue({
+                code: z.ZodIssueCode.custom,
+                path: ['body'],
+                message: 'repeats the CTA; the body must end before the call to action',
+            });
+        }
+
+        for (const key of ['body', 'cta'] as const) {
+            const text = output[key];
+            if (text && endsMidSentence(text, requirements.language)) {
+                ctx.addIssue({
+                    code: z.ZodIssueCode.custom,
+                    path: [key],
+                    message: 'ends mid-sentence (looks truncated); finish the last sentence',
+                });
+            }
+        }
+
+        const bannedPhrases = (constraints.bannedPhrases ?? []).filter(phrase => phrase.trim());
+
+        for (const key of ['hook', 'body', 'cta', 'title'] as const) {
+            const text = output[key];
+            if (!text) continue;
+
+            const lower = text.toLocaleLowerCase();
+            for (const phrase of bannedPhrases) {
+                if (lower.includes(phrase.trim().toLocaleLowerCase())) {
+                    ctx.addIssue({
+                        code: z.ZodIssueCode.custom,
+                        path: [key],
+                        message: `uses the banned phrase "${phrase.trim()}"; rephrase without it`,
+                    });
+                }
+            }
+
+            if (constraints.forbidEmoji && EMOJI.test(text)) {
+                ctx.addIssue({
+                    code: z.ZodIssueCode.custom,
+                    path: [key],
+                    message: 'contains emoji; this brand voice uses none',
+                });
+            }
+        }
+    });
+}
@@ -7,14 +7,18 @@
  * @module ai/variants/VariantGenerator
  */
 
-import type { TrendData, AlgorithmScore } from '@icerik/shared';
+import type { TrendData, AlgorithmScore, ScriptLanguage } from '@icerik/shared';
 import type { Platform, PlatformScript } from '@icerik/shared';
 import { PLATFORM_ALGORITHM_FOCUS, PLATFORM_LABELS } from '@icerik/shared';
 import { createChildLogger } from '../../utils/logger.js';
 import { getAIMetrics } from '../metrics/index.js';
 import { getAlgorithmScorer } from '../scoring/index.js';
-import { getGeminiClient, GeminiError } from '../gemini.js';
+import { getLLMProvider, requireLLMProvider } from '../llm/index.js';
 import { compilePlatformKnowledge } from '../knowledge/index.js';
+import { resolveBrandVoice, buildBrandVoicePrompt } from '../brandVoice/index.js';
+import type { BrandVoiceProfile } from '../brandVoice/index.js';
+import { getLanguageProfile, getWordBudget, estimateSpeechSeconds, DEFAULT_SCRIPT_LANGUAGE } from '../../language/index.js';
+import { BudgetExceededError } from '../../usage/index.js';
 
 const logger = createChildLogger('variantGenerator');
 
@@ -35,8 +39,10 @@ export interface VariantGenerationOptions {
     styles: VariantStyle[];
     durationSeconds?: number;
     tone?: 'casual' | 'professional' | 'humorous' | 'dramatic';
-    language?: 'en' | 'tr';
+    language?: ScriptLanguage;
     calculateScores?: boolean;
+    /** Brand voice profile applied to every variant */
+    profileId?: string;
 }
 
 /**
@@ -162,6 +168,7 @@ export interface VariantGenerationResult {
 export class VariantGenerator {
     /**
      * Generate multiple script variants
+     * @throws BrandVoiceError (404) if options.profileId is unknown
      */
     async generateVariants(
         trend: TrendData,
@@ -186,15 +193,12 @@ export class VariantGenerator {
         }, 'Starting variant generation');
 
         try {
-            const gemini = getGeminiClient();
-
-            if (!gemini.isConfigured()) {
-                throw new GeminiError('Gemini API is not configured', undefined, false);
-            }
+            requireLLMProvider('variants');
+            const brandVoice = resolveBrandVoice(options.profileId);
 
             // Generate variants in parallel
             const variantPromises = styles.map(style =>
-                this.generateSingleVariant(trend, platform, style, options)
+                this.generateSingleVariant(trend, platform, style, options, brandVoice)
             );
 
             const results = await Promise.allSettled(variantPromises);
@@ -215,6 +219,11 @@ export class VariantGenerator {
             }
 
             if (variants.length === 0) {
+                // Over budget: surface that instead of a generic failure
+                const rejections = results.map(result => (result as PromiseRejectedResult).reason);
+                if (rejections.every(reason => reason instanceof BudgetExceededError)) {
+                    throw rejections[0];
+                }
                 throw new Error('All variant generations failed');
             }
 
@@ -277,15 +286,18 @@ export class VariantGenerator {
         trend: TrendData,
         platform: Platform,
         style: VariantStyle,
-        options: VariantGenerationOptions
+        options: VariantGenerationOptions,
+        brandVoice?: BrandVoiceProfile
     ): Promise<ScriptVariantWithScript> {
-        const gemini = getGeminiClient();
+        const llm = getLLMProvider('variants');
         const styleConfig = STYLE_INSTRUCTIONS[style];
         const algoFocus = PLATFORM_ALGORITHM_FOCUS[platform];
         const platformKnowledge = compilePlatformKnowledge(platform);
 
+        const language = options.language ?? DEFAULT_SCRIPT_LANGUAGE;
+        const languageProfile = getLanguageProfile(language);
         const durationSeconds = options.durationSeconds ?? algoFocus.optimalDuration.ideal;
-        const maxWords = Math.round(durationSeconds * 2.5);
+        const maxWords = getWordBudget(durationSeconds, language);
 
         const prompt = `
 # ${styleConfig.name} Script for ${PLATFORM_LABELS[platform]}
@@ -314,18 +326,20 @@ Generate a complete script with:
 4. [TITLE] - Video title
 5. [HASHTAGS] - ${algoFocus.hashtagStrategy.count.min}-${algoFocus.hashtagStrategy.count.max} hashtags
 
-Language: Turkish (Türkçe)
+Language: ${languageProfile.name}
+${languageProfile.instructions}
 Tone: ${options.tone ?? 'casual'}
-`;
+${brandVoice ? `\n${buildBrandVoicePrompt(brandVoice)}\nThe style above shapes the structure; the brand voice decides the wording.\n` : ''}`;
 
         const systemPrompt = `You are a ${PLATFORM_LABELS[platform]} content expert specializing in ${styleConfig.name} content.
 Your scripts are optimized for ${algoFocus.primaryMetrics.join(', ')}.
-Always output in Turkish. Be concise and impactful.`;
+Always output in ${languageProfile.name}. Be concise and impactful.`;
 
-        const response = await gemini.generateContent(prompt, {
+        const response = await llm.generateContent(prompt, {
             systemInstruction: systemPrompt,
             temperature: 0.85,
             maxTokens: 2048,
+            context: { operation: 'variants', trendId: trend.id, platform },
         });
 
         const script = this.parseVariantResponse(
@@ -333,7 +347,8 @@ Always output in Turkish. Be concise and impactful.`;
             trend,
             platform,
             style,
-            durationSeconds
+            durationSeconds,
+            language
         );
 
         return {
@@ -352,7 +367,8 @@ Always output in Turkish. Be concise and impactful.`;
         trend: TrendData,
         platform: Platform,
         style: VariantStyle,
-        durationSeconds: number
+        durationSeconds: number,
+        language: ScriptLanguage
     ): PlatformScript {
         const hookMatch = response.match(/\[HOOK\]\s*([\s\S]*?)(?=\[BODY\])/i);
         const bodyMatch = response.match(/\[BODY\]\s*([\s\S]*?)(?=\[CTA\])/i);
@@ -366,7 +382,7 @@ Always output in Turkish. Be concise and impactful.`;
         const title = titleMatch?.[1]?.trim() ?? `${trend.title} - ${style}`;
 
         const hashtags = hashtagsMatch?.[1]
-            ?.match(/#[\wğüşöçıİ]+/gi)
+            ?.match(/#[\p{L}\p{N}_]+/gu)
             ?.slice(0, 10) ?? this.generateDefaultHashtags(trend, platform);
 
         const hookWords = hook.split(/\s+/).length;
@@ -379,22 +395,22 @@ Always output in Turkish. Be concise and impactful.`;
             script: `[HOOK]\n${hook}\n\n[BODY]\n${body}\n\n[CTA]\n${cta}`,
             title,
             hashtags,
-            estimatedDurationSeconds: Math.round(totalWords / 2.5) || durationSeconds,
+            estimatedDurationSeconds: estimateSpeechSeconds(totalWords, language) || durationSeconds,
             sections: {
                 hook: {
                     content: hook,
                     wordCount: hookWords,
-                    estimatedSeconds: Math.round(hookWords / 2.5),
+                    estimatedSeconds: estimateSpeechSeconds(hookWords, language),
                 },
                 body: {
                     content: body,
                     wordCount: bodyWords,
-                    estimatedSeconds: Math.round(bodyWords / 2.5),
+                    estimatedSeconds: estimateSpeechSeconds(bodyWords, language),
                 },
                 cta: {
                     content: cta,
                     wordCount: ctaWords,
-                    estimatedSeconds: Math.round(ctaWords / 2.5),
+                    estimatedSeconds: estimateSpeechSeconds(ctaWords, language),
                 },
             },
             optimizations: [
@@ -406,6 +422,7 @@ Always output in Turkish. Be concise and impactful.`;
                 trendId: trend.id,
                 category: trend.category,
                 agentVersion: 'VariantGenerator-1.0.0',
+                language,
             },
         };
     }
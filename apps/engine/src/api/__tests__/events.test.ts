@@ -0,0 +1,76 @@
+/**
+ * Events API Tests
+ *
+ * Tests for the GET /api/events job progress stream.
+ *
+ * @module api/__tests__/events.test
+ */
+
+import { describe, it, expect } from 'vitest';
+import { createEventsRouter } from '../events.js';
+import { publishJobEvent, getJobEventBus } from '../../utils/jobEvents.js';
+
+/**
+ * Reads SSE chunks until the predicate matches the accumulated text
+ */
+async function readUntil(
+    reader: ReadableStreamDefaultReader<Uint8Array>,
+    predicate: (text: string) => boolean
+): Promise<string> {
+    const decoder = new TextDecoder();
+    let text = '';
+    while (!predicate(text)) {
+        const { value, done } = await reader.read();
+        if (done) break;
+        text += decoder.decode(value);
+    }
+    return text;
+}
+
+describe('GET /api/events', () => {
+    it('streams matching job events as SSE', async () => {
+        const router = createEventsRouter();
+        const subscribersBefore = getJobEventBus().getSubscriberCount();
+
+        const res = await router.request('/?kinds=video');
+        expect(res.status).toBe(200);
+        expect(res.headers.get('Content-Type')).toContain('text/event-stream');
+
+        const reader = res.body!.getReader();
+        await readUntil(reader, text => text.includes('event: ready'));
+
+        publishJobEvent({ kind: 'voice', jobId: 'voice-1', status: 'started' });
+        publishJobEvent({ kind: 'video', jobId: 'video-1', status: 'encoding', progress: 70 });
+
+        const text = await readUntil(reader, text => text.includes('video-1'));
+
+        expect(text).toContain('event: video');
+        expect(text).not.toContain('voice-1');
+
+        const data = JSON.parse(text.split('\n').find(line => line.startsWith('data: '))!.slice(6));
+        expect(data).toMatchObject({ kind: 'video', jobId: 'video-1', status: 'encoding', progress: 70 });
+
+        await reader.cancel();
+        await new Promise(resolve => setTimeout(resolve, 0));
+        expect(getJobEventBus().getSubscriberCount()).toBe(subscribersBefore);
+    });
+
+    it('replays buffered events after Last-Event-ID', async () => {
+        const first = publishJobEvent({ kind: 'scripts', jobId: 'scripts-replay', status: 'started' });
+        publishJobEvent({ kind: 'scripts', jobId: 'scripts-replay', status: 'complete', progress: 100 });
+
+        const res = await createEventsRouter().request('/?jobId=scripts-replay', {
+            headers: { 'Last-Event-ID': String(first.id) },
+        });
+        const reader = res.body!.getReader();
+        const text = await readUntil(reader, text => text.includes('"complete"'));
+
+        expect(text).not.toContain('"started"');
+        await reader.cancel();
+    });
+
+    it('rejects unknown event kinds', async () => {
+        const res = await createEventsRouter().request('/?kinds=video,bogus');
+        expect(res.status).toBe(400);
+    });
+});
@@ -0,0 +1,126 @@
+/**
+ * Auth Middleware for İçerik Trend Engine
+ *
+ * Checks the API key of each request against the role its route needs
+ * (see auth/routeRoles). Keys come from an `Authorization: Bearer <key>`
+ * header; GET requests may pass `?api_key=` instead, since EventSource,
+ * <video> and download links can't set headers.
+ *
+ * Auth is required once API_SECRET_KEY is set, in production, or as soon
+ * as any API key is active. API_SECRET_KEY itself acts as an admin key so
+ * the first keys can be issued.
+ *
+ * @module api/authMiddleware
+ */
+
+import { timingSafeEqual } from 'crypto';
+import type { Context, Next, MiddlewareHandler } from 'hono';
+import { getApiKeyStore, hashApiKey, hasRole, requiredRole, type ApiPrincipal } from '../auth/index.js';
+import { logSecurityEvent, type SecurityEventType } from '../utils/securityLogger.js';
+import { getEnv } from '../utils/env.js';
+
+declare module 'hono' {
+    interface ContextVariableMap {
+        /** Caller of the request; unset while auth is not required */
+        apiPrincipal?: ApiPrincipal;
+    }
+}
+
+const ROOT_PRINCIPAL: ApiPrincipal = { keyId: 'root', name: 'API_SECRET_KEY', role: 'admin' };
+
+/**
+ * Whether requests currently need an API key
+ */
+export function isAuthRequired(): boolean {
+    const env = getEnv();
+    return Boolean(env.API_SECRET_KEY) || env.NODE_ENV === 'production' || getApiKeyStore().hasActiveKeys();
+}
+
+function extractApiKey(c: Context): string | undefined {
+    const match = c.req.header('authorization')?.match(/^Bearer\s+(\S+)$/i);
+    if (match) return match[1];
+
+    return c.req.method === 'GET' ? c.req.query('api_key') : undefined;
+}
+
+function resolvePrincipal(key: string): ApiPrincipal | undefined {
+    const secret = getEnv().API_SECRET_KEY;
+    if (secret && timingSafeEqual(Buffer.from(hashApiKey(key), 'hex'), Buffer.from(hashApiKey(secret), 'hex'))) {
+        return ROOT_PRINCIPAL;
+    }
+
+    const apiKey = getApiKeyStore().authenticate(key);
+    return apiKey ? { keyId: apiKey.id, name: apiKey.name, role: apiKey.role } : undefined;
+}
+
+function clientIp(c: Context): string {
+    return c.req.header('x-forwarded-for')?.split(',')[0].trim() || c.req.header('x-real-ip') || 'unknown';
+}
+
+/**
+ * Creates API key auth middleware
+ *
+ * @example
+ * ```ts
+ * app.use('/api/*', createAuthMiddleware());
+ * ```
+ */
+export function createAuthMiddleware(): MiddlewareHandler {
+    return async (c: Context, next: Next): Promise<Response | void> => {
+        const required = requiredRole(c.req.method, c.req.path);
+
+        if (!required || !isAuthRequired()) {
+            await next();
+            return;
+        }
+
+        const reject = (
+            type: SecurityEventType,
+            status: 401 | 403,
+            error: string,
+            details?: Record<string, unknown>
+        ): Response => {
+            logSecurityEvent({
+                type,
+                ip: clientIp(c),
+                path: c.req.path,
+                method: c.req.method,
+                userAgent: c.req.header('user-agent'),
+                details,
+            });
+
+            if (status === 401) {
+                c.header('WWW-Authenticate', 'Bearer');
+            }
+
+            return c.json({
+                success: false,
+                error,
+                timestamp: new Date().toISOString(),
+            }, status);
+        };
+
+        const key = extractApiKey(c);
+        if (!key) {
+            return reject('auth_required', 401, 'API key required', { required });
+        }
+
+        const principal = resolvePrincipal(key);
+        if (!principal) {
+            return reject('auth_failed', 401, 'Invalid API key', { reason: 'invalid_key', prefix: key.slice(0, 12) });
+        }
+
+        if (!hasRole(principal.role, required)) {
+            return reject('auth_failed', 403, `This route needs the ${required} role`, {
+                reason: 'insufficient_role',
+                keyId: principal.keyId,
+                role: principal.role,
+                required,
+            });
+        }
+
+        c.set('apiPrincipal', principal);
+        await next();
+        return;
+    };
+}
@@ -0,0 +1,95 @@
+/**
+ * Events API Module
+ *
+ * Server-sent events stream of job progress (video renders, voice
+ * generation, multi-platform script generation).
+ *
+ * @module api/events
+ */
+
+import { Hono } from 'hono';
+import { streamSSE } from 'hono/streaming';
+import { createChildLogger } from '../utils/logger.js';
+import { getJobEventBus, type JobEvent } from '../utils/jobEvents.js';
+import { validateRequest, getValidatedData, eventsQuerySchema, type EventsQueryInput } from './inputValidator.js';
+
+const logger = createChildLogger('events');
+
+/** Comment line sent periodically so proxies keep the connection open */
+const HEARTBEAT_INTERVAL_MS = 25000;
+
+/** Client reconnect delay sent with the stream */
+const RETRY_MS = 3000;
+
+/**
+ * Create events router
+ */
+export function createEventsRouter(): Hono {
+    const router = new Hono();
+    const bus = getJobEventBus();
+
+    /**
+     * GET /api/events
+     * SSE stream of job events.
+     * Query: kinds=video,voice,scripts (default: all), jobId (single job)
+     * Honors Last-Event-ID to replay recently buffered events after a reconnect.
+     */
+    router.get('/', validateRequest({ schema: eventsQuerySchema, type: 'query' }), (c) => {
+        const query = getValidatedData<EventsQueryInput>(c);
+        const lastEventId = parseInt(c.req.header('Last-Event-ID') || '', 10);
+
+        const matches = (event: JobEvent): boolean =>
+            (query.kinds.length === 0 || query.kinds.includes(event.kind)) &&
+            (!query.jobId || event.jobId === query.jobId);
+
+        return streamSSE(c, async (stream) => {
+            // Events are written in order through a single promise chain
+            let writing: Promise<void> = Promise.resolve();
+            const send = (event: JobEvent) => {
+                writing = writing
+                    .then(() => stream.writeSSE({
+                        event: event.kind,
+                        id: String(event.id),
+                        data: JSON.stringify(event),
+                    }))
+                    .catch(() => undefined);
+            };
+
+            const unsubscribe = bus.subscribe((event) => {
+                if (matches(event)) {
+                    send(event);
+                }
+            });
+
+            stream.onAbort(() => {
+                unsubscribe();
+                logger.debug({ subscribers: bus.getSubscriberCount() }, 'Event stream closed');
+            });
+
+            logger.debug({ kinds: query.kinds, jobId: query.jobId, subscribers: bus.getSubscriberCount() }, 'Event stream opened');
+
+            await stream.writeSSE({
+                event: 'ready',
+                data: JSON.stringify({ timestamp: new Date().toISOString() }),
+                retry: RETRY_MS,
+            });
+
+            if (!isNaN(lastEventId)) {
+                bus.getSince(lastEventId).filter(matches).forEach(send);
+            }
+
+            while (!stream.aborted && !stream.closed) {
+                await stream.sleep(HEARTBEAT_INTERVAL_MS);
+                if (stream.aborted) break;
+                writing = writing
+                    .then(() => stream.write(': heartbeat\n\n'))
+                    .then(() => undefined)
+                    .catch(() => undefined);
+            }
+
+            unsubscribe();
+        });
+    });
+
+    return router;
+}
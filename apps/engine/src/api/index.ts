@@ -1 +1,2 @@
 export { createApiRouter } from './routes.js';
+export { createAuthMiddleware, isAuthRequired } from './authMiddleware.js';
@@ -29,7 +29,7 @@ const TIME_RANGES = ['hour', 'day', 'week', 'month'] as const;
 const SORT_TYPES = ['hot', 'rising', 'top', 'new'] as const;
 
 /** Sort by options for NES */
-const SORT_BY_OPTIONS = ['nes', 'score', 'comments', 'time'] as const;
+const SORT_BY_OPTIONS = ['nes', 'score', 'comments', 'time', 'rising'] as const;
 
 /** Platform options */
 const PLATFORMS = ['tiktok', 'reels', 'shorts'] as const;
@@ -37,8 +37,11 @@ const PLATFORMS = ['tiktok', 'reels', 'shorts'] as const;
 /** Tone options */
 const TONES = ['casual', 'professional', 'humorous', 'dramatic'] as const;
 
-/** Language options */
-const LANGUAGES = ['en', 'tr'] as const;
+/** Language options (SCRIPT_LANGUAGES in @icerik/shared) */
+const LANGUAGES = ['tr', 'en', 'es', 'de', 'pt', 'ar'] as const;
+
+/** Brand voice profile id (slug) */
+const profileIdSchema = z.string().min(2).max(50).regex(/^[a-z0-9][a-z0-9-]*$/, 'Invalid profile id');
 
 // ============================================
 // API QUERY SCHEMAS
@@ -55,11 +58,33 @@ export const trendQuerySchema = z.object({
     sortBy: z.enum(SORT_BY_OPTIONS).default('nes'),
     sortType: z.enum(SORT_TYPES).default('hot'),
     subreddit: z.string().regex(/^[a-zA-Z0-9_]+$/, 'Invalid subreddit name').optional(),
+    source: z.enum(['reddit', 'rss']).optional(),
     bypass: z.enum(['true', 'false']).optional().transform(v => v === 'true'),
 });
 
 export type TrendQueryInput = z.infer<typeof trendQuerySchema>;
 
+/**
+ * Query parameters for /api/trends/:id/history endpoint
+ */
+export const trendHistoryQuerySchema = z.object({
+    limit: z.coerce.number().int().min(1).max(500).default(100),
+});
+
+export type TrendHistoryQueryInput = z.infer<typeof trendHistoryQuerySchema>;
+
+/**
+ * Query parameters for /api/trends/clusters endpoint
+ */
+export const trendClustersQuerySchema = z.object({
+    category: z.enum(CATEGORY_IDS).optional(),
+    limit: z.coerce.number().int().min(1).max(100).default(20),
+    minMembers: z.coerce.number().int().min(1).max(20).default(1),
+    bypass: z.enum(['true', 'false']).optional().transform(v => v === 'true'),
+});
+
+export type TrendClustersQueryInput = z.infer<typeof trendClustersQuerySchema>;
+
 /**
  * Query parameters for /api/subreddits endpoint
  */
@@ -67,6 +92,8 @@ export const subredditsQuerySchema = z.object({
     category: z.enum(CATEGORY_IDS).optional(),
 });
 
+export type SubredditsQueryInput = z.infer<typeof subredditsQuerySchema>;
+
 /**
  * Query parameters for /api/ai/metrics endpoint
  */
@@ -151,6 +178,7 @@ export const generateScriptsBodySchema = z.object({
         language: z.enum(LANGUAGES).optional(),
         includeCta: z.boolean().optional(),
         includeHook: z.boolean().optional(),
+        profileId: profileIdSchema.optional(),
     }).optional(),
 });
 
@@ -166,6 +194,32 @@ export const cacheInvalidateBodySchema = z.object({
     { message: 'At least one of prefix, category, or all must be specified' }
 );
 
+/**
+ * POST /api/subreddits body
+ */
+export const createSubredditBodySchema = z.object({
+    name: z.string().min(2).max(21).regex(/^[a-zA-Z0-9_]+$/, 'Invalid subreddit name'),
+    category: z.enum(CATEGORY_IDS),
+    tier: z.union([z.literal(1), z.literal(2), z.literal(3)]),
+    baselineScore: z.number().positive().max(1000000),
+    subscribers: z.number().int().min(0).default(0),
+});
+
+export type CreateSubredditInput = z.infer<typeof createSubredditBodySchema>;
+
+/**
+ * PATCH /api/subreddits/:name body
+ */
+export const updateSubredditBodySchema = createSubredditBodySchema
+    .omit({ name: true })
+    .partial()
+    .refine(
+        data => Object.values(data).some(value => value !== undefined),
+        { message: 'At least one field must be specified' }
+    );
+
+export type UpdateSubredditInput = z.infer<typeof updateSubredditBodySchema>;
+
 /**
  * POST /api/trends/:id/classify body
  */
@@ -212,8 +266,56 @@ export const iterateScriptBodySchema = z.object({
     target: z.enum(ITERATION_TARGETS),
     newTone: z.enum(TONES).optional(),
     additionalInstructions: z.string().max(500).optional(),
+    profileId: profileIdSchema.optional(),
+});
+
+/**
+ * Script section as returned by generation
+ */
+const scriptSectionSchema = z.object({
+    content: z.string().min(1),
+    wordCount: z.number().int().min(0),
+    estimatedSeconds: z.number().min(0),
+});
+
+/**
+ * Generated PlatformScript; fields not checked here are kept
+ */
+const platformScriptSchema = z.object({
+    platform: z.enum(PLATFORMS),
+    script: z.string().min(1),
+    title: z.string(),
+    hashtags: z.array(z.string()),
+    estimatedDurationSeconds: z.number().min(0),
+    sections: z.object({
+        hook: scriptSectionSchema.optional(),
+        body: scriptSectionSchema,
+        cta: scriptSectionSchema.optional(),
+    }),
+    optimizations: z.array(z.string()),
+    metadata: z.object({
+        generatedAt: z.string().min(1),
+        trendId: z.string().min(1),
+        category: z.enum(CATEGORY_IDS),
+        agentVersion: z.string(),
+        language: z.enum(LANGUAGES).optional(),
+    }).passthrough(),
+}).passthrough();
+
+/**
+ * POST /api/scripts/translate body
+ */
+export const translateScriptBodySchema = z.object({
+    script: platformScriptSchema,
+    targetLanguages: z.array(z.enum(LANGUAGES))
+        .min(1)
+        .max(LANGUAGES.length - 1)
+        .refine(languages => new Set(languages).size === languages.length, 'Duplicate languages'),
+    sourceScriptId: z.string().min(1).max(200).optional(),
 });
 
+export type TranslateScriptInput = z.infer<typeof translateScriptBodySchema>;
+
 /**
  * Variant styles for A/B testing
  */
@@ -231,7 +333,9 @@ export const generateVariantsBodySchema = z.object({
     styles: z.array(z.enum(VARIANT_STYLES)).min(1).max(4).optional(),
     durationSeconds: z.number().int().min(15).max(180).optional(),
     tone: z.enum(TONES).optional(),
+    language: z.enum(LANGUAGES).optional(),
     calculateScores: z.boolean().optional(),
+    profileId: profileIdSchema.optional(),
 });
 
 // ============================================
@@ -260,6 +364,7 @@ export const generateVoiceBodySchema = z.object({
     provider: z.enum(VOICE_PROVIDERS).optional(),
     settings: voiceSettingsSchema.optional(),
     format: z.enum(['mp3', 'wav', 'ogg']).optional(),
+    jobId: z.string().max(100).optional(), // Client-chosen id for /api/events progress
 });
 
 export type GenerateVoiceInput = z.infer<typeof generateVoiceBodySchema>;
@@ -269,8 +374,154 @@ export type GenerateVoiceInput = z.infer<typeof generateVoiceBodySchema>;
  */
 export const voiceListQuerySchema = z.object({
     provider: z.enum(VOICE_PROVIDERS).optional(),
+    language: z.enum(LANGUAGES).optional(),
+});
+
+export type VoiceListQueryInput = z.infer<typeof voiceListQuerySchema>;
+
+/**
+ * Query parameters for /api/events (SSE) endpoint
+ */
+export const eventsQuerySchema = z.object({
+    kinds: z.string()
+        .optional()
+        .transform(v => v ? v.split(',').map(kind => kind.trim()).filter(Boolean) : [])
+        .pipe(z.array(z.enum(['video', 'voice', 'scripts']))),
+    jobId: z.string().max(100).optional(),
+});
+
+export type EventsQueryInput = z.infer<typeof eventsQuerySchema>;
+
+/**
+ * Query parameters for /api/video/:jobId/captions endpoint
+ */
+export const videoCaptionsQuerySchema = z.object({
+    format: z.enum(['srt', 'vtt', 'ass']).default('srt'),
 });
 
+export type VideoCaptionsQueryInput = z.infer<typeof videoCaptionsQuerySchema>;
+
+/**
+ * Query parameters for /api/music endpoint
+ */
+export const musicQuerySchema = z.object({
+    mood: z.enum(['energetic', 'calm', 'dramatic', 'informative', 'humorous', 'urgent', 'inspiring']).optional(),
+    minDuration: z.coerce.number().min(0).max(3600).optional(),
+    refresh: z.enum(['true', 'false']).optional().transform(v => v === 'true'),
+});
+
+export type MusicQueryInput = z.infer<typeof musicQuerySchema>;
+
+/**
+ * Query parameters for /api/usage endpoint
+ */
+export const usageQuerySchema = z.object({
+    from: z.string().refine(v => !Number.isNaN(Date.parse(v)), 'Invalid date').optional(),
+    to: z.string().refine(v => !Number.isNaN(Date.parse(v)), 'Invalid date').optional(),
+    groupBy: z.enum(['day', 'trend', 'platform', 'provider', 'operation']).default('day'),
+    trendId: z.string().min(1).max(100).optional(),
+    platform: z.enum(['tiktok', 'reels', 'shorts']).optional(),
+    provider: z.enum(['gemini', 'openai', 'elevenlabs', 'fishaudio', 'pexels']).optional(),
+});
+
+export type UsageQueryInput = z.infer<typeof usageQuerySchema>;
+
+/**
+ * Query parameters for /api/scripts (script library)
+ */
+export const scriptListQuerySchema = z.object({
+    q: z.string().trim().max(200).optional(),
+    platform: z.enum(PLATFORMS).optional(),
+    origin: z.enum(['generate', 'variant', 'iteration', 'translation', 'restore']).optional(),
+    trendId: z.string().min(1).max(100).optional(),
+    limit: z.coerce.number().int().min(1).max(100).default(20),
+    offset: z.coerce.number().int().min(0).default(0),
+});
+
+export type ScriptListQueryInput = z.infer<typeof scriptListQuerySchema>;
+
+/**
+ * Query parameters for /api/scripts/:id/diff
+ */
+export const scriptDiffQuerySchema = z.object({
+    to: z.string().min(1).max(100),
+});
+
+export type ScriptDiffQueryInput = z.infer<typeof scriptDiffQuerySchema>;
+
+/**
+ * PUT /api/scripts/:id/rating body
+ */
+export const rateScriptBodySchema = z.object({
+    rating: z.enum(['like', 'dislike']),
+    stars: z.number().int().min(1).max(5).optional(),
+    feedback: z.string().trim().max(1000).optional(),
+});
+
+export type RateScriptInput = z.infer<typeof rateScriptBodySchema>;
+
+// ============================================
+// BRAND VOICE SCHEMAS
+// ============================================
+
+const phraseListSchema = z.array(z.string().trim().min(1).max(200)).max(50);
+
+/**
+ * POST /api/brand-voices body
+ */
+export const createBrandVoiceBodySchema = z.object({
+    id: profileIdSchema,
+    name: z.string().trim().min(1).max(100),
+    description: z.string().max(500).optional(),
+    tone: z.string().max(500).optional(),
+    vocabulary: z.object({
+        use: phraseListSchema.default([]),
+        avoid: phraseListSchema.default([]),
+    }).default({}),
+    bannedPhrases: phraseListSchema.default([]),
+    preferredCtas: phraseListSchema.default([]),
+    sampleScripts: z.array(z.string().trim().min(1).max(3000)).max(5).default([]),
+    emojiPolicy: z.enum(['none', 'minimal', 'moderate', 'heavy']).default('moderate'),
+});
+
+export type CreateBrandVoiceInput = z.infer<typeof createBrandVoiceBodySchema>;
+
+/**
+ * PATCH /api/brand-voices/:id body
+ */
+export const updateBrandVoiceBodySchema = z.object({
+    name: z.string().trim().min(1).max(100).optional(),
+    description: z.string().max(500).optional(),
+    tone: z.string().max(500).optional(),
+    vocabulary: z.object({
+        use: phraseListSchema,
+        avoid: phraseListSchema,
+    }).optional(),
+    bannedPhrases: phraseListSchema.optional(),
+    preferredCtas: phraseListSchema.optional(),
+    sampleScripts: z.array(z.string().trim().min(1).max(3000)).max(5).optional(),
+    emojiPolicy: z.enum(['none', 'minimal', 'moderate', 'heavy']).optional(),
+}).refine(
+    data => Object.values(data).some(value => value !== undefined),
+    { message: 'At least one field must be specified' }
+);
+
+export type UpdateBrandVoiceInput = z.infer<typeof updateBrandVoiceBodySchema>;
+
+// ============================================
+// API KEY SCHEMAS
+// ============================================
+
+/**
+ * POST /api/auth/keys body
+ */
+export const issueApiKeyBodySchema = z.object({
+    name: z.string().trim().min(1).max(100),
+    role: z.enum(['viewer', 'editor', 'admin']),
+});
+
+export type IssueApiKeyBodyInput = z.infer<typeof issueApiKeyBodySchema>;
+
 // ============================================
 // VALIDATION MIDDLEWARE FACTORY
 // ============================================
@@ -15,7 +15,9 @@ import { readFile, readdir } from 'fs/promises';
 import { join, dirname } from 'path';
 import { fileURLToPath } from 'url';
 import { createChildLogger } from '../utils/logger.js';
-import { SUBREDDIT_CONFIG, CATEGORY_LABELS, ALL_PLATFORMS } from '@icerik/shared';
+import { CATEGORY_LABELS, ALL_PLATFORMS } from '@icerik/shared';
+import { getSubredditRegistry } from '../cache/index.js';
+import { listLanguageProfiles } from '../language/index.js';
 import {
     getRoadmapData,
     getADRData,
@@ -137,7 +139,7 @@ export function createObservatoryRouter(): Hono {
                 totalEndpoints: endpoints.length,
                 totalPlatforms: ALL_PLATFORMS.length,
                 totalCategories: Object.keys(CATEGORY_LABELS).length,
-                totalSubreddits: SUBREDDIT_CONFIG.length,
+                totalSubreddits: getSubredditRegistry().list().length,
                 knowledgeFiles: knowledgeFileCount,
                 lastUpdate: metadata.lastUpdate,
                 autoUpdated: true, // Flag to indicate this is auto-updated
@@ -256,10 +258,10 @@ export function createObservatoryRouter(): Hono {
                     id: 'language_prompts',
                     name: 'Dil Talimatları',
                     type: 'language',
-                    entries: [
-                        { key: 'en', value: 'Write in natural, conversational American English.' },
-                        { key: 'tr', value: 'Scripti Türkçe yaz. Doğal ve günlük Türkçe kullan. Gen Z ve milenyallara hitap et.' },
-                    ],
+                    entries: listLanguageProfiles().map(profile => ({
+                        key: profile.code,
+                        value: profile.instructions,
+                    })),
                 },
                 {
                     id: 'fewshot_examples',
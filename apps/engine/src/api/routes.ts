@@ -1,20 +1,30 @@
-import { Hono } from 'hono';
+import { Hono, type Context } from 'hono';
 import { cors } from 'hono/cors';
 import { logger as honoLogger } from 'hono/logger';
-import { getRedditFetcher, RedditFetchError } from '../ingestion/index.js';
-import { getNesCalculator, getTrendAggregator } from '../processing/index.js';
-import { getCacheService, getDatabaseStats, CACHE_TTL } from '../cache/index.js';
+import { getRedditFetcher, RedditFetchError, fetchFromSources, getTrendSources, redditPostToSourcePost } from '../ingestion/index.js';
+import type { SourceFetchPlan, TrendSourceFetchOptions } from '../ingestion/index.js';
+import { getNesCalculator, getTrendAggregator, getBaselineCalibrator, getTrendClusterer } from '../processing/index.js';
+import { getCacheService, getDatabaseStats, CACHE_TTL, getSubredditRegistry, SubredditRegistryError, type SubredditUpdate } from '../cache/index.js';
 import { getTrendClassifier } from '../ai/classification/index.js';
 import { getAlgorithmScorer } from '../ai/scoring/index.js';
 import { getAIMetrics } from '../ai/metrics/index.js';
 import { getScriptIterator, type IterationTarget } from '../ai/iteration/index.js';
 import { getVariantGenerator } from '../ai/variants/index.js';
-import { SUBREDDIT_CONFIG, CATEGORY_LABELS, CATEGORY_VIDEO_FORMATS } from '@icerik/shared';
-import type { TrendQuery, ContentCategory, ApiResponse, TrendSummary, TrendData, SubredditConfig } from '@icerik/shared';
+import { getScriptTranslator, TranslationError, type TranslationResult } from '../ai/translation/index.js';
+import { DEFAULT_SCRIPT_LANGUAGE, getLanguageProfile } from '../language/index.js';
+import { getBrandVoiceStore, BrandVoiceError, type BrandVoiceProfile } from '../ai/brandVoice/index.js';
+import { getScriptLibrary, ScriptLibraryError, type LibraryScript, type ScriptListResult, type ScriptVersionTree, type ScriptDiff } from '../library/index.js';
+import { getScriptRatings, RatingError, type ScriptRating, type RateScriptResult, type RatingStats } from '../ratings/index.js';
+import { BudgetExceededError } from '../usage/index.js';
+import { getApiKeyStore, ApiKeyError, type ApiKey, type ApiPrincipal, type IssuedApiKey } from '../auth/index.js';
+import { CATEGORY_LABELS, CATEGORY_VIDEO_FORMATS, SCRIPT_LANGUAGES } from '@icerik/shared';
+import type { TrendQuery, ContentCategory, ApiResponse, TrendSummary, TrendData, TrendHistory, TrendCluster, SubredditConfig, Platform, PlatformScript, ScriptLanguage } from '@icerik/shared';
 import type { VideoFormat } from '../ai/scriptGenerator.js';
 import { createChildLogger } from '../utils/logger.js';
 import { createObservatoryRouter } from './observatory.js';
+import { createEventsRouter } from './events.js';
 import { getEnv } from '../utils/env.js';
+import { publishJobEvent } from '../utils/jobEvents.js';
 import { getImageSearchService, PexelsError, VisualSequenceBuilder } from '../images/index.js';
 
 // Security imports
@@ -22,19 +32,52 @@ import {
     createSecurityMiddleware,
     createRateLimiter
 } from './securityMiddleware.js';
+import { createAuthMiddleware } from './authMiddleware.js';
 import {
     validateRequest,
     trendQuerySchema,
+    trendHistoryQuerySchema,
+    trendClustersQuerySchema,
+    subredditsQuerySchema,
+    createSubredditBodySchema,
+    updateSubredditBodySchema,
     generateScriptBodySchema,
     generateScriptsBodySchema,
     cacheInvalidateBodySchema,
+    voiceListQuerySchema,
     classifyTrendBodySchema,
     scoreScriptBodySchema,
     iterateScriptBodySchema,
     generateVariantsBodySchema,
+    translateScriptBodySchema,
+    videoCaptionsQuerySchema,
+    musicQuerySchema,
+    usageQuerySchema,
+    scriptListQuerySchema,
+    scriptDiffQuerySchema,
+    rateScriptBodySchema,
+    issueApiKeyBodySchema,
+    createBrandVoiceBodySchema,
+    updateBrandVoiceBodySchema,
     getValidatedData,
     type TrendQueryInput,
+    type TrendHistoryQueryInput,
+    type TrendClustersQueryInput,
+    type SubredditsQueryInput,
+    type CreateSubredditInput,
+    type UpdateSubredditInput,
     type GenerateScriptInput,
+    type VideoCaptionsQueryInput,
+    type MusicQueryInput,
+    type UsageQueryInput,
+    type CreateBrandVoiceInput,
+    type UpdateBrandVoiceInput,
+    type VoiceListQueryInput,
+    type TranslateScriptInput,
+    type ScriptListQueryInput,
+    type ScriptDiffQueryInput,
+    type RateScriptInput,
+    type IssueApiKeyBodyInput,
 } from './inputValidator.js';
 import { getSecurityStats } from '../utils/securityLogger.js';
 
@@ -49,6 +92,82 @@ interface ResponseMeta {
     responseTimeMs?: number;
 }
 
+/**
+ * Maps subreddit registry errors to a JSON error response
+ */
+function subredditErrorResponse(c: Context, error: unknown): Response {
+    if (error instanceof SubredditRegistryError) {
+        return c.json({
+            success: false,
+            error: error.message,
+            timestamp: new Date().toISOString(),
+        }, error.statusCode);
+    }
+
+    logger.error({ error }, 'Subreddit registry operation failed');
+
+    return c.json({
+        success: false,
+        error: error instanceof Error ? error.message : 'Unknown error',
+        timestamp: new Date().toISOString(),
+    }, 500);
+}
+
+/**
+ * Maps brand voice store errors to their status code
+ */
+function brandVoiceErrorResponse(c: Context, error: unknown): Response {
+    if (error instanceof BrandVoiceError) {
+        return c.json({
+            success: false,
+            error: error.message,
+            timestamp: new Date().toISOString(),
+        }, error.statusCode);
+    }
+
+    logger.error({ error }, 'Brand voice operation failed');
+
+    return c.json({
+        success: false,
+        error: error instanceof Error ? error.message : 'Unknown error',
+        timestamp: new Date().toISOString(),
+    }, 500);
+}
+
+/**
+ * Answers a call over its provider budget with 402 and BUDGET_EXCEEDED
+ */
+function budgetExceededResponse(c: Context, error: BudgetExceededError): Response {
+    return c.json({
+        success: false,
+        error: error.message,
+        code: error.code,
+        retryable: false,
+        timestamp: new Date().toISOString(),
+    }, 402);
+}
+
+/**
+ * Maps API key store errors to their status code
+ */
+function apiKeyErrorResponse(c: Context, error: unknown): Response {
+    if (error instanceof ApiKeyError) {
+        return c.json({
+            success: false,
+            error: error.message,
+            timestamp: new Date().toISOString(),
+        }, error.statusCode);
+    }
+
+    logger.error({ error }, 'API key operation failed');
+
+    return c.json({
+        success: false,
+        error: error instanceof Error ? error.message : 'Unknown error',
+        timestamp: new Date().toISOString(),
+    }, 500);
+}
+
 /**
  * Creates the main API router with all endpoints
  * Security-hardened with rate limiting, input validation, and security headers
@@ -88,7 +207,7 @@ export function createApiRouter(): Hono {
 
     api.use('*', cors({
         origin: allowedOrigins,
-        allowMethods: ['GET', 'POST', 'OPTIONS'],
+        allowMethods: ['GET', 'POST', 'PUT', 'PATCH', 'DELETE', 'OPTIONS'],
         allowHeaders: ['Content-Type', 'Authorization'],
         maxAge: 86400,
         credentials: false,
@@ -101,18 +220,30 @@ export function createApiRouter(): Hono {
     api.use('/trends*', security.generalLimiter());
     api.use('/categories*', security.generalLimiter());
     api.use('/subreddits*', security.generalLimiter());
+    api.use('/brand-voices*', security.generalLimiter());
+    api.use('/ratings*', security.generalLimiter());
+    api.use('/auth/*', security.generalLimiter());
     api.use('/status*', security.generalLimiter());
 
     // 7. Rate limiting - AI endpoints (stricter)
     api.use('/generate-script*', security.aiLimiter());
-    api.use('/scripts/*', security.aiLimiter());
+    api.on('POST', ['/scripts/score', '/scripts/iterate', '/scripts/translate'], security.aiLimiter());
+    // Script library reads, deletes, ratings and restores are not AI calls
+    api.on(['GET', 'PUT', 'DELETE'], ['/scripts', '/scripts/*'], security.generalLimiter());
+    api.on('POST', '/scripts/:id/restore', security.generalLimiter());
     api.use('/ai/*', security.aiLimiter());
     api.use('/images/*', security.generalLimiter());
 
+    // 8. API key auth - role per route group (see auth/routeRoles)
+    api.use('*', createAuthMiddleware());
+
     // Mount Observatory router
     const observatoryRouter = createObservatoryRouter();
     api.route('/observatory', observatoryRouter);
 
+    // Mount job progress stream (SSE)
+    api.route('/events', createEventsRouter());
+
     /**
      * GET /api/health
      * Health check endpoint with cache and rate limit status
@@ -135,6 +266,68 @@ export function createApiRouter(): Hono {
         });
     });
 
+    /**
+     * Builds per-source fetch plans for a trends query
+     * Reddit polls tier 1-2 registry subreddits (or the requested one),
+     * other sources all of their channels in the category.
+     */
+    const planSourceFetch = (query: TrendQuery, subredditParam?: string): SourceFetchPlan[] =>
+        getTrendSources()
+            .filter(source => !query.source || source.type === query.source)
+            .map(source => {
+                if (source.type === 'reddit') {
+                    if (subredditParam) {
+                        return { source, channelIds: [subredditParam] };
+                    }
+                    let subreddits: SubredditConfig[] = getSubredditRegistry().list();
+                    if (query.category) {
+                        subreddits = subreddits.filter((s: SubredditConfig) => s.category === query.category);
+                    }
+                    subreddits = subreddits.filter((s: SubredditConfig) => s.tier <= 2).slice(0, 8);
+                    return { source, channelIds: subreddits.map((s: SubredditConfig) => s.name) };
+                }
+
+                // A subreddit filter only applies to Reddit
+                if (subredditParam || !source.isConfigured()) {
+                    return { source, channelIds: [] };
+                }
+                const channels = source.listChannels()
+                    .filter(channel => !query.category || channel.category === query.category);
+                return { source, channelIds: channels.map(channel => channel.id) };
+            });
+
+    const countChannels = (plans: SourceFetchPlan[]): number =>
+        plans.reduce((sum, plan) => sum + plan.channelIds.length, 0);
+
+    /**
+     * Fetches and scores posts for the plans
+     * Records subreddit stats for baseline calculations on the way.
+     * @returns Aggregated trends sorted by NES (not deduplicated)
+     */
+    const fetchSourceTrends = async (
+        plans: SourceFetchPlan[],
+        options: TrendSourceFetchOptions
+    ): Promise<TrendData[]> => {
+        const nesCalculator = getNesCalculator();
+        const results = await fetchFromSources(plans, options);
+
+        // Process posts through NES calculator
+        const trendsBySubreddit = new Map<string, TrendData[]>();
+        for (const { source, channel, posts } of results) {
+            const trends = nesCalculator.processPostBatch(posts);
+            trendsBySubreddit.set(`${source}:${channel}`, trends);
+
+            // Update subreddit stats for future baseline calculations
+            if (source === 'reddit' && posts.length > 0) {
+                const avgScore = posts.reduce((sum, p) => sum + p.score, 0) / posts.length;
+                const avgComments = posts.reduce((sum, p) => sum + p.numComments, 0) / posts.length;
+                cache.updateSubredditStats(channel, avgScore, avgComments, posts.length);
+            }
+        }
+
+        return getTrendAggregator().aggregateTrends(trendsBySubreddit);
+    };
+
     /**
      * GET /api/trends
      * Fetch current trends with optional filtering
@@ -155,6 +348,7 @@ export function createApiRouter(): Hono {
                 limit: parseInt(c.req.query('limit') || '20'),
                 minScore: c.req.query('minScore') ? parseInt(c.req.query('minScore')!) : undefined,
                 sortBy: (c.req.query('sortBy') || 'nes') as TrendQuery['sortBy'],
+                source: c.req.query('source') as TrendQuery['source'],
             };
 
             // Handle both category ID and label (e.g., both 'technology' and 'Teknoloji')
@@ -202,27 +396,14 @@ export function createApiRouter(): Hono {
                 cacheStatus = 'BYPASS';
             }
 
-            logger.info({ query, subreddit: subredditParam, sortType, cacheStatus }, 'Fetching trends from Reddit');
+            logger.info({ query, subreddit: subredditParam, sortType, cacheStatus }, 'Fetching trends from sources');
 
-            const fetcher = getRedditFetcher();
             const nesCalculator = getNesCalculator();
             const aggregator = getTrendAggregator();
 
-            // Determine which subreddits to fetch
-            let subredditsToFetch: string[];
-
-            if (subredditParam) {
-                subredditsToFetch = [subredditParam];
-            } else {
-                let subreddits: SubredditConfig[] = [...SUBREDDIT_CONFIG];
-                if (query.category) {
-                    subreddits = subreddits.filter((s: SubredditConfig) => s.category === query.category);
-                }
-                subreddits = subreddits.filter((s: SubredditConfig) => s.tier <= 2).slice(0, 8);
-                subredditsToFetch = subreddits.map((s: SubredditConfig) => s.name);
-            }
+            const plans = planSourceFetch(query, subredditParam);
 
-            if (subredditsToFetch.length === 0) {
+            if (countChannels(plans) === 0) {
                 c.header('X-Cache', 'BYPASS');
                 return c.json({
                     success: true,
@@ -232,30 +413,19 @@ export function createApiRouter(): Hono {
                 });
             }
 
-            // Fetch from Reddit
-            const postsMap = await fetcher.fetchMultipleSubreddits(
-                subredditsToFetch,
+            // Fetch from all selected sources, then deduplicate
+            let allTrends = await fetchSourceTrends(
+                plans,
                 { sort: sortType, timeRange: query.timeRange, limit: 50 }
             );
-
-            // Process posts through NES calculator
-            const trendsBySubreddit = new Map<string, TrendData[]>();
-            for (const [subreddit, posts] of postsMap) {
-                const trends = nesCalculator.processPostBatch(posts);
-                trendsBySubreddit.set(subreddit, trends);
-
-                // Update subreddit stats for future baseline calculations
-                if (posts.length > 0) {
-                    const avgScore = posts.reduce((sum, p) => sum + p.score, 0) / posts.length;
-                    const avgComments = posts.reduce((sum, p) => sum + p.num_comments, 0) / posts.length;
-                    cache.updateSubredditStats(subreddit, avgScore, avgComments, posts.length);
-                }
-            }
-
-            // Aggregate and deduplicate
-            let allTrends = aggregator.aggregateTrends(trendsBySubreddit);
             allTrends = aggregator.deduplicateTrends(allTrends);
 
+            // Attach acceleration from snapshots recorded by the worker
+            allTrends = nesCalculator.applyAcceleration(
+                allTrends,
+                cache.getRecentSnapshots(allTrends.map(t => t.id))
+            );
+
             // Apply filters
             const filtered = aggregator.filterTrends(allTrends, query);
 
@@ -312,21 +482,33 @@ export function createApiRouter(): Hono {
 
     /**
      * GET /api/subreddits
-     * List subreddits, optionally filtered by category
+     * List subreddits from the registry, optionally filtered by category.
+     * Shows the static baseline next to the one learned from observed stats.
      */
-    api.get('/subreddits', (c) => {
-        const categoryParam = c.req.query('category') as ContentCategory | undefined;
-
-        let subreddits = SUBREDDIT_CONFIG.map((s: SubredditConfig) => ({
-            name: s.name,
-            category: s.category,
-            tier: s.tier,
-            subscribers: s.subscribers || 0,
-            baselineScore: s.baselineScore,
-        }));
+    api.get('/subreddits', validateRequest({
+        schema: subredditsQuerySchema,
+        type: 'query',
+    }), (c) => {
+        const { category } = getValidatedData<SubredditsQueryInput>(c);
+        const calibrator = getBaselineCalibrator();
+        const nesCalculator = getNesCalculator();
+
+        let subreddits = getSubredditRegistry().list().map((s: SubredditConfig) => {
+            const learned = calibrator.getLearnedBaseline(s.name);
+            return {
+                name: s.name,
+                category: s.category,
+                tier: s.tier,
+                subscribers: s.subscribers || 0,
+                baselineScore: s.baselineScore,
+                learnedBaseline: learned?.baseline ?? null,
+                learnedSampleCount: learned?.sampleCount ?? 0,
+                effectiveBaseline: nesCalculator.getBaseline('reddit', s.name),
+            };
+        });
 
-        if (categoryParam) {
-            subreddits = subreddits.filter((s) => s.category === categoryParam);
+        if (category) {
+            subreddits = subreddits.filter((s) => s.category === category);
         }
 
         subreddits.sort((a, b) => {
@@ -337,10 +519,102 @@ export function createApiRouter(): Hono {
         return c.json({
             success: true,
             data: subreddits,
+            baselineMode: calibrator.getMode(),
             timestamp: new Date().toISOString(),
         });
     });
 
+    /**
+     * GET /api/subreddits/:name
+     * Get a single registered subreddit
+     */
+    api.get('/subreddits/:name', (c) => {
+        const subreddit = getSubredditRegistry().get(c.req.param('name'));
+
+        if (!subreddit) {
+            return c.json({
+                success: false,
+                error: 'Subreddit not found',
+                timestamp: new Date().toISOString(),
+            }, 404);
+        }
+
+        const response: ApiResponse<SubredditConfig> = {
+            success: true,
+            data: subreddit,
+            timestamp: new Date().toISOString(),
+        };
+
+        return c.json(response);
+    });
+
+    /**
+     * POST /api/subreddits
+     * Register a new subreddit; polling and NES pick it up without a restart
+     */
+    api.post('/subreddits', validateRequest({
+        schema: createSubredditBodySchema,
+        type: 'body',
+    }), (c) => {
+        const input = getValidatedData<CreateSubredditInput>(c);
+
+        try {
+            const subreddit = getSubredditRegistry().create(input as SubredditConfig);
+
+            const response: ApiResponse<SubredditConfig> = {
+                success: true,
+                data: subreddit,
+                timestamp: new Date().toISOString(),
+            };
+
+            return c.json(response, 201);
+        } catch (error) {
+            return subredditErrorResponse(c, error);
+        }
+    });
+
+    /**
+     * PATCH /api/subreddits/:name
+     * Change category, tier, baseline or subscriber count of a subreddit
+     */
+    api.patch('/subreddits/:name', validateRequest({
+        schema: updateSubredditBodySchema,
+        type: 'body',
+    }), (c) => {
+        const changes = getValidatedData<UpdateSubredditInput>(c);
+
+        try {
+            const subreddit = getSubredditRegistry().update(c.req.param('name'), changes as SubredditUpdate);
+
+            const response: ApiResponse<SubredditConfig> = {
+                success: true,
+                data: subreddit,
+                timestamp: new Date().toISOString(),
+            };
+
+            return c.json(response);
+        } catch (error) {
+            return subredditErrorResponse(c, error);
+        }
+    });
+
+    /**
+     * DELETE /api/subreddits/:name
+     * Remove a subreddit from polling
+     */
+    api.delete('/subreddits/:name', (c) => {
+        try {
+            getSubredditRegistry().remove(c.req.param('name'));
+
+            return c.json({
+                success: true,
+                timestamp: new Date().toISOString(),
+            });
+        } catch (error) {
+            return subredditErrorResponse(c, error);
+        }
+    });
+
     /**
      * GET /api/trends/summary
      * Get a summary of current trends with caching
@@ -378,7 +652,7 @@ export function createApiRouter(): Hono {
             const nesCalculator = getNesCalculator();
             const aggregator = getTrendAggregator();
 
-            const topSubreddits = SUBREDDIT_CONFIG
+            const topSubreddits = getSubredditRegistry().list()
                 .filter((s: SubredditConfig) => s.tier === 1)
                 .slice(0, 5);
 
@@ -389,7 +663,7 @@ export function createApiRouter(): Hono {
 
             const trendsBySubreddit = new Map<string, TrendData[]>();
             for (const [subreddit, posts] of postsMap) {
-                const trends = nesCalculator.processPostBatch(posts);
+                const trends = nesCalculator.processPostBatch(posts.map(redditPostToSourcePost));
                 trendsBySubreddit.set(subreddit, trends);
             }
 
@@ -431,15 +705,113 @@ export function createApiRouter(): Hono {
         }
     });
 
+    /**
+     * GET /api/trends/:id/history
+     * Get the recorded score/comments/NES time series for a trend
+     */
+    api.get('/trends/:id/history', validateRequest({
+        schema: trendHistoryQuerySchema,
+        type: 'query',
+    }), (c) => {
+        const trendId = c.req.param('id');
+        const { limit } = getValidatedData<TrendHistoryQueryInput>(c);
+
+        const history = cache.getTrendHistory(trendId, limit);
+
+        if (history.snapshots.length === 0) {
+            return c.json({
+                success: false,
+                error: 'No history recorded for this trend',
+                timestamp: new Date().toISOString(),
+            }, 404);
+        }
+
+        const response: ApiResponse<TrendHistory> = {
+            success: true,
+            data: history,
+            timestamp: new Date().toISOString(),
+        };
+
+        return c.json(response);
+    });
+
+    /**
+     * GET /api/trends/clusters
+     * Posts about the same story across subreddits, grouped by title
+     * similarity and shared links, with a combined NES per cluster
+     */
+    api.get('/trends/clusters', validateRequest({
+        schema: trendClustersQuerySchema,
+        type: 'query',
+    }), async (c) => {
+        const startTime = Date.now();
+        const { category, limit, minMembers, bypass } = getValidatedData<TrendClustersQueryInput>(c);
+        const contentCategory = category as ContentCategory | undefined;
+
+        try {
+            let clusters: TrendCluster[] | undefined;
+            let cacheStatus: ResponseMeta['cacheStatus'] = bypass ? 'BYPASS' : 'MISS';
+
+            if (!bypass) {
+                const cached = cache.getClusters(contentCategory);
+                if (cached) {
+                    clusters = cached.data;
+                    cacheStatus = 'HIT';
+                }
+            }
+
+            if (!clusters) {
+                const query: TrendQuery = { category: contentCategory, timeRange: 'day' };
+                const allTrends = await fetchSourceTrends(
+                    planSourceFetch(query),
+                    { sort: 'hot', limit: 50 }
+                );
+
+                // Cluster before deduplication so cross-posts stay together
+                const filtered = getTrendAggregator().filterTrends(allTrends, query);
+                clusters = getTrendClusterer().clusterTrends(filtered);
+                cache.setClusters(clusters, contentCategory);
+            }
+
+            const data = clusters
+                .filter(cluster => cluster.members.length >= minMembers)
+                .slice(0, limit);
+
+            const responseTimeMs = Date.now() - startTime;
+            cache.logRequest('/api/trends/clusters', cacheStatus === 'HIT', responseTimeMs);
+
+            c.header('X-Cache', cacheStatus);
+            c.header('X-Response-Time', `${responseTimeMs}ms`);
+
+            const response: ApiResponse<TrendCluster[]> & { meta?: ResponseMeta } = {
+                success: true,
+                data,
+                timestamp: new Date().toISOString(),
+                meta: { cacheStatus, responseTimeMs },
+            };
+
+            return c.json(response);
+        } catch (error) {
+            logger.error({ error }, 'Failed to build trend clusters');
+
+            return c.json({
+                success: false,
+                error: error instanceof Error ? error.message : 'Unknown error',
+                timestamp: new Date().toISOString(),
+            }, 500);
+        }
+    });
+
     /**
      * GET /api/categories
      * List available categories with metadata
      */
     api.get('/categories', (c) => {
+        const subreddits = getSubredditRegistry().list();
         const categories = Object.entries(CATEGORY_LABELS).map(([key, label]) => ({
             id: key,
             label,
-            subredditCount: SUBREDDIT_CONFIG.filter((s: SubredditConfig) => s.category === key).length,
+            subredditCount: subreddits.filter((s: SubredditConfig) => s.category === key).length,
             videoFormats: CATEGORY_VIDEO_FORMATS[key as ContentCategory],
         }));
 
@@ -455,6 +827,7 @@ export function createApiRouter(): Hono {
      * Get engine status including rate limits and cache stats
      */
     api.get('/status', (c) => {
+        const registeredSubreddits = getSubredditRegistry().list();
         const fetcher = getRedditFetcher();
         const rateLimitStatus = fetcher.getRateLimitStatus();
         const cacheStats = cache.getStats();
@@ -472,11 +845,16 @@ export function createApiRouter(): Hono {
                     dbSizeKB: Math.round(dbStats.dbSizeBytes / 1024),
                 },
                 subreddits: {
-                    total: SUBREDDIT_CONFIG.length,
-                    tier1: SUBREDDIT_CONFIG.filter((s: SubredditConfig) => s.tier === 1).length,
-                    tier2: SUBREDDIT_CONFIG.filter((s: SubredditConfig) => s.tier === 2).length,
-                    tier3: SUBREDDIT_CONFIG.filter((s: SubredditConfig) => s.tier === 3).length,
+                    total: registeredSubreddits.length,
+                    tier1: registeredSubreddits.filter((s: SubredditConfig) => s.tier === 1).length,
+                    tier2: registeredSubreddits.filter((s: SubredditConfig) => s.tier === 2).length,
+                    tier3: registeredSubreddits.filter((s: SubredditConfig) => s.tier === 3).length,
                 },
+                sources: getTrendSources().map(source => ({
+                    type: source.type,
+                    configured: source.isConfigured(),
+                    channels: source.listChannels().length,
+                })),
                 method: '.json URL append (no API key)',
             },
             timestamp: new Date().toISOString(),
@@ -494,6 +872,7 @@ export function createApiRouter(): Hono {
             if (body.all === true) {
                 cache.invalidateByPrefix('trends');
                 cache.invalidateByPrefix('summary');
+                cache.invalidateByPrefix('clusters');
                 logger.info('All cache entries invalidated');
                 return c.json({ success: true, message: 'All cache invalidated' });
             }
@@ -537,20 +916,18 @@ export function createApiRouter(): Hono {
 
     /**
      * POST /api/generate-script
-     * Generate a video script from trend data using Gemini AI
+     * Generate a video script from trend data using the configured LLM provider
      */
     api.post('/generate-script', async (c) => {
         try {
             // Dynamic import to avoid loading AI module if not needed
-            const { getScriptGenerator, getGeminiClient } = await import('../ai/index.js');
-
-            const gemini = getGeminiClient();
+            const { getScriptGenerator, getLLMProvider } = await import('../ai/index.js');
 
             // Check if AI is configured
-            if (!gemini.isConfigured()) {
+            if (!getLLMProvider('scripts').isConfigured()) {
                 return c.json({
                     success: false,
-                    error: 'AI features are not configured. Please set GEMINI_API_KEY in environment.',
+                    error: 'AI features are not configured. Please set GEMINI_API_KEY or configure LLM_PROVIDER in environment.',
                     timestamp: new Date().toISOString(),
                 }, 503);
             }
@@ -562,7 +939,7 @@ export function createApiRouter(): Hono {
                     durationSeconds?: number;
                     platform?: 'tiktok' | 'reels' | 'shorts' | 'all';
                     tone?: 'casual' | 'professional' | 'humorous' | 'dramatic';
-                    language?: 'en' | 'tr';
+                    language?: ScriptLanguage;
                     includeCta?: boolean;
                     includeHook?: boolean;
                 };
@@ -606,11 +983,15 @@ export function createApiRouter(): Hono {
 
         } catch (error) {
             // Dynamic import for error type check
-            const { GeminiError } = await import('../ai/index.js');
+            const { LLMError } = await import('../ai/index.js');
 
             logger.error({ error }, 'Script generation failed');
 
-            if (error instanceof GeminiError) {
+            if (error instanceof BudgetExceededError) {
+                return budgetExceededResponse(c, error);
+            }
+
+            if (error instanceof LLMError) {
                 const statusCode = error.statusCode === 429 ? 429 : 500;
                 return c.json({
                     success: false,
@@ -630,18 +1011,22 @@ export function createApiRouter(): Hono {
 
     /**
      * GET /api/ai/status
-     * Get AI service status and rate limits
+     * Get AI service status, rate limits and provider routing
      */
     api.get('/ai/status', async (c) => {
         try {
-            const { getGeminiClient } = await import('../ai/index.js');
-            const gemini = getGeminiClient();
+            const { getGeminiClient, getLLMProvider, getLLMRoutingStatus } = await import('../ai/index.js');
+            const llm = getLLMProvider('scripts');
 
             return c.json({
                 success: true,
                 data: {
-                    configured: gemini.isConfigured(),
-                    rateLimit: gemini.getRateLimitStatus(),
+                    configured: llm.isConfigured(),
+                    provider: llm.name,
+                    model: llm.model,
+                    rateLimit: getGeminiClient().getRateLimitStatus(),
+                    routes: getLLMRoutingStatus(),
+                    recordMode: getEnv().LLM_RECORD_MODE,
                 },
                 timestamp: new Date().toISOString(),
             });
@@ -693,17 +1078,16 @@ export function createApiRouter(): Hono {
      * Generate video scripts for multiple platforms simultaneously
      */
     api.post('/generate-scripts', async (c) => {
+        let scriptsJobId: string | undefined;
         try {
-            const { getGeminiClient } = await import('../ai/index.js');
+            const { getLLMProvider } = await import('../ai/index.js');
             const { getOrchestrator } = await import('../ai/orchestrator/index.js');
             const { ALL_PLATFORMS } = await import('@icerik/shared');
 
-            const gemini = getGeminiClient();
-
-            if (!gemini.isConfigured()) {
+            if (!getLLMProvider('scripts').isConfigured()) {
                 return c.json({
                     success: false,
-                    error: 'AI features are not configured. Please set GEMINI_API_KEY in environment.',
+                    error: 'AI features are not configured. Please set GEMINI_API_KEY or configure LLM_PROVIDER in environment.',
                     timestamp: new Date().toISOString(),
                 }, 503);
             }
@@ -714,10 +1098,12 @@ export function createApiRouter(): Hono {
                 options?: {
                     durationSeconds?: number;
                     tone?: 'casual' | 'professional' | 'humorous' | 'dramatic';
-                    language?: 'en' | 'tr';
+                    language?: ScriptLanguage;
                     includeCta?: boolean;
                     includeHook?: boolean;
+                    profileId?: string;
                 };
+                jobId?: string; // Client-chosen id for /api/events progress
             };
 
             if (!body.trend || !body.trend.id) {
@@ -728,23 +1114,77 @@ export function createApiRouter(): Hono {
                 }, 400);
             }
 
+            const language = body.options?.language;
+            if (language && !SCRIPT_LANGUAGES.includes(language)) {
+                return c.json({
+                    success: false,
+                    error: `Invalid language. Must be one of: ${SCRIPT_LANGUAGES.join(', ')}`,
+                    timestamp: new Date().toISOString(),
+                }, 400);
+            }
+
             const platforms = body.platforms || [...ALL_PLATFORMS];
+            scriptsJobId = body.jobId || crypto.randomUUID();
 
             logger.info({
                 trendId: body.trend.id,
                 category: body.trend.category,
                 platforms,
+                jobId: scriptsJobId,
             }, 'Generating multi-platform scripts...');
 
+            publishJobEvent({
+                kind: 'scripts',
+                jobId: scriptsJobId,
+                status: 'started',
+                progress: 0,
+                currentStep: `Generating scripts for ${platforms.join(', ')}`,
+                data: { trendId: body.trend.id, platforms },
+            });
+
             const orchestrator = getOrchestrator();
+            const finished: string[] = [];
             const result = await orchestrator.generateForPlatforms(
                 body.trend,
                 platforms,
-                body.options || {}
+                body.options || {},
+                (platform, platformResult) => {
+                    finished.push(platform);
+                    publishJobEvent({
+                        kind: 'scripts',
+                        jobId: scriptsJobId!,
+                        status: 'progress',
+                        progress: Math.round((finished.length / platforms.length) * 100),
+                        currentStep: `${platform} ${platformResult.success ? 'ready' : 'failed'}`,
+                        data: { platform, success: platformResult.success },
+                    });
+                }
             );
 
+            const library = getScriptLibrary();
+            for (const platformResult of Object.values(result.results)) {
+                if (platformResult?.success) {
+                    platformResult.script.metadata.libraryId = library.save({
+                        script: platformResult.script,
+                        origin: 'generate',
+                        trend: body.trend,
+                        options: { ...body.options, platforms },
+                    });
+                }
+            }
+
             const summary = orchestrator.getComparisonSummary(result);
 
+            publishJobEvent({
+                kind: 'scripts',
+                jobId: scriptsJobId,
+                status: 'complete',
+                progress: 100,
+                currentStep: 'Complete!',
+                data: { trendId: body.trend.id, ...result.metadata },
+            });
+
+            c.header('X-Job-Id', scriptsJobId);
             return c.json({
                 success: true,
                 data: {
@@ -755,11 +1195,28 @@ export function createApiRouter(): Hono {
             });
 
         } catch (error) {
-            const { GeminiError } = await import('../ai/index.js');
+            const { LLMError } = await import('../ai/index.js');
 
             logger.error({ error }, 'Multi-platform script generation failed');
 
-            if (error instanceof GeminiError) {
+            if (scriptsJobId) {
+                publishJobEvent({
+                    kind: 'scripts',
+                    jobId: scriptsJobId,
+                    status: 'failed',
+                    currentStep: error instanceof Error ? error.message : 'Unknown error',
+                });
+            }
+
+            if (error instanceof BrandVoiceError) {
+                return brandVoiceErrorResponse(c, error);
+            }
+
+            if (error instanceof BudgetExceededError) {
+                return budgetExceededResponse(c, error);
+            }
+
+            if (error instanceof LLMError) {
                 const statusCode = error.statusCode === 429 ? 429 : 500;
                 return c.json({
                     success: false,
@@ -783,12 +1240,10 @@ export function createApiRouter(): Hono {
      */
     api.post('/generate-scripts/retry', async (c) => {
         try {
-            const { getGeminiClient } = await import('../ai/index.js');
+            const { getLLMProvider } = await import('../ai/index.js');
             const { getOrchestrator } = await import('../ai/orchestrator/index.js');
 
-            const gemini = getGeminiClient();
-
-            if (!gemini.isConfigured()) {
+            if (!getLLMProvider('scripts').isConfigured()) {
                 return c.json({
                     success: false,
                     error: 'AI features are not configured.',
@@ -801,7 +1256,8 @@ export function createApiRouter(): Hono {
                 options?: {
                     durationSeconds?: number;
                     tone?: 'casual' | 'professional' | 'humorous' | 'dramatic';
-                    language?: 'en' | 'tr';
+                    language?: ScriptLanguage;
+                    profileId?: string;
                 };
             };
 
@@ -837,6 +1293,10 @@ export function createApiRouter(): Hono {
         } catch (error) {
             logger.error({ error }, 'Retry generation failed');
 
+            if (error instanceof BrandVoiceError) {
+                return brandVoiceErrorResponse(c, error);
+            }
+
             return c.json({
                 success: false,
                 error: error instanceof Error ? error.message : 'Unknown error',
@@ -1065,6 +1525,7 @@ export function createApiRouter(): Hono {
                 target: IterationTarget;
                 newTone?: 'casual' | 'professional' | 'humorous' | 'dramatic';
                 additionalInstructions?: string;
+                profileId?: string;
             };
 
             if (!body.originalScript || !body.target) {
@@ -1094,6 +1555,20 @@ export function createApiRouter(): Hono {
                 target: body.target,
                 newTone: body.newTone,
                 additionalInstructions: body.additionalInstructions,
+                profileId: body.profileId,
+            });
+
+            result.updatedScript.metadata.libraryId = getScriptLibrary().save({
+                script: result.updatedScript,
+                origin: 'iteration',
+                parentId: body.originalScript.metadata.libraryId,
+                change: {
+                    target: body.target,
+                    newTone: body.newTone,
+                    additionalInstructions: body.additionalInstructions,
+                    profileId: body.profileId,
+                    changedSections: result.changedSections,
+                },
             });
 
             logger.info({
@@ -1110,6 +1585,88 @@ export function createApiRouter(): Hono {
 
         } catch (error) {
             logger.error({ error }, 'Script iteration failed');
+
+            if (error instanceof BrandVoiceError) {
+                return brandVoiceErrorResponse(c, error);
+            }
+            if (error instanceof BudgetExceededError) {
+                return budgetExceededResponse(c, error);
+            }
+            return c.json({
+                success: false,
+                error: error instanceof Error ? error.message : 'Unknown error',
+                timestamp: new Date().toISOString(),
+            }, 500);
+        }
+    });
+
+    /**
+     * POST /api/scripts/translate
+     * Localize an existing script into other languages, keeping section timing
+     */
+    api.post('/scripts/translate', validateRequest({
+        schema: translateScriptBodySchema,
+        type: 'body',
+    }), async (c) => {
+        try {
+            const body = getValidatedData<TranslateScriptInput>(c);
+            const script = body.script as PlatformScript;
+            const sourceLanguage = script.metadata.language ?? DEFAULT_SCRIPT_LANGUAGE;
+
+            if (body.targetLanguages.includes(sourceLanguage)) {
+                return c.json({
+                    success: false,
+                    error: `Script is already in ${getLanguageProfile(sourceLanguage).name}; remove '${sourceLanguage}' from targetLanguages`,
+                    timestamp: new Date().toISOString(),
+                }, 400);
+            }
+
+            const translator = getScriptTranslator();
+            const translations: TranslationResult[] = [];
+
+            // One language at a time; sections within a language run in parallel
+            for (const targetLanguage of body.targetLanguages) {
+                translations.push(await translator.translate({
+                    script,
+                    targetLanguage,
+                    sourceScriptId: body.sourceScriptId,
+                }));
+            }
+
+            const library = getScriptLibrary();
+            for (const translation of translations) {
+                translation.translatedScript.metadata.libraryId = library.save({
+                    script: translation.translatedScript,
+                    origin: 'translation',
+                    options: { targetLanguage: translation.targetLanguage },
+                });
+            }
+
+            logger.info({
+                platform: script.platform,
+                sourceLanguage,
+                targetLanguages: body.targetLanguages,
+            }, 'Script translation completed');
+
+            return c.json({
+                success: true,
+                data: { translations },
+                timestamp: new Date().toISOString(),
+            });
+
+        } catch (error) {
+            logger.error({ error }, 'Script translation failed');
+
+            if (error instanceof TranslationError) {
+                return c.json({
+                    success: false,
+                    error: error.message,
+                    timestamp: new Date().toISOString(),
+                }, error.statusCode);
+            }
+            if (error instanceof BudgetExceededError) {
+                return budgetExceededResponse(c, error);
+            }
             return c.json({
                 success: false,
                 error: error instanceof Error ? error.message : 'Unknown error',
@@ -1130,7 +1687,9 @@ export function createApiRouter(): Hono {
                 styles?: import('../ai/variants/index.js').VariantStyle[];
                 durationSeconds?: number;
                 tone?: 'casual' | 'professional' | 'humorous' | 'dramatic';
+                language?: ScriptLanguage;
                 calculateScores?: boolean;
+                profileId?: string;
             };
 
             if (!body.trend || !body.platform) {
@@ -1150,6 +1709,14 @@ export function createApiRouter(): Hono {
                 }, 400);
             }
 
+            if (body.language && !SCRIPT_LANGUAGES.includes(body.language)) {
+                return c.json({
+                    success: false,
+                    error: `Invalid language. Must be one of: ${SCRIPT_LANGUAGES.join(', ')}`,
+                    timestamp: new Date().toISOString(),
+                }, 400);
+            }
+
             const generator = getVariantGenerator();
             const result = await generator.generateVariants(
                 body.trend,
@@ -1158,10 +1725,29 @@ export function createApiRouter(): Hono {
                     styles: body.styles ?? ['high_energy', 'story_driven'],
                     durationSeconds: body.durationSeconds,
                     tone: body.tone,
+                    language: body.language,
                     calculateScores: body.calculateScores ?? true,
+                    profileId: body.profileId,
                 }
             );
 
+            const library = getScriptLibrary();
+            for (const variant of result.variants) {
+                variant.script.metadata.libraryId = library.save({
+                    script: variant.script,
+                    origin: 'variant',
+                    trend: body.trend,
+                    options: {
+                        style: variant.style,
+                        durationSeconds: body.durationSeconds,
+                        tone: body.tone,
+                        language: body.language,
+                        profileId: body.profileId,
+                    },
+                    score: variant.algorithmScore?.overallScore,
+                });
+            }
+
             logger.info({
                 trendId: body.trend.id,
                 platform: body.platform,
@@ -1177,6 +1763,13 @@ export function createApiRouter(): Hono {
 
         } catch (error) {
             logger.error({ error }, 'Variant generation failed');
+
+            if (error instanceof BrandVoiceError) {
+                return brandVoiceErrorResponse(c, error);
+            }
+            if (error instanceof BudgetExceededError) {
+                return budgetExceededResponse(c, error);
+            }
             return c.json({
                 success: false,
                 error: error instanceof Error ? error.message : 'Unknown error',
@@ -1185,6 +1778,427 @@ export function createApiRouter(): Hono {
         }
     });
 
+    // ============================================
+    // SCRIPT LIBRARY ENDPOINTS
+    // ============================================
+
+    /**
+     * GET /api/scripts
+     * List saved scripts, newest first; q searches title, hook and body
+     */
+    api.get('/scripts', validateRequest({
+        schema: scriptListQuerySchema,
+        type: 'query',
+    }), (c) => {
+        const query = getValidatedData<ScriptListQueryInput>(c);
+
+        const response: ApiResponse<ScriptListResult> = {
+            success: true,
+            data: getScriptLibrary().list(query),
+            timestamp: new Date().toISOString(),
+        };
+
+        return c.json(response);
+    });
+
+    /**
+     * GET /api/scripts/:id
+     * Get a saved script with the trend and options it was generated from
+     */
+    api.get('/scripts/:id', (c) => {
+        const script = getScriptLibrary().get(c.req.param('id'));
+
+        if (!script) {
+            return c.json({
+                success: false,
+                error: 'Script not found',
+                timestamp: new Date().toISOString(),
+            }, 404);
+        }
+
+        const response: ApiResponse<LibraryScript> = {
+            success: true,
+            data: script,
+            timestamp: new Date().toISOString(),
+        };
+
+        return c.json(response);
+    });
+
+    /**
+     * DELETE /api/scripts/:id
+     * Remove a saved script
+     */
+    api.delete('/scripts/:id', (c) => {
+        try {
+            getScriptLibrary().remove(c.req.param('id'));
+
+            return c.json({
+                success: true,
+                timestamp: new Date().toISOString(),
+            });
+        } catch (error) {
+            if (error instanceof ScriptLibraryError) {
+                return c.json({
+                    success: false,
+                    error: error.message,
+                    timestamp: new Date().toISOString(),
+                }, error.statusCode);
+            }
+
+            logger.error({ error }, 'Failed to remove script');
+            return c.json({
+                success: false,
+                error: error instanceof Error ? error.message : 'Unknown error',
+                timestamp: new Date().toISOString(),
+            }, 500);
+        }
+    });
+
+    /**
+     * GET /api/scripts/:id/versions
+     * Version tree of the script the given version belongs to
+     */
+    api.get('/scripts/:id/versions', (c) => {
+        try {
+            const response: ApiResponse<ScriptVersionTree> = {
+                success: true,
+                data: getScriptLibrary().getVersionTree(c.req.param('id')),
+                timestamp: new Date().toISOString(),
+            };
+
+            return c.json(response);
+        } catch (error) {
+            if (error instanceof ScriptLibraryError) {
+                return c.json({
+                    success: false,
+                    error: error.message,
+                    timestamp: new Date().toISOString(),
+                }, error.statusCode);
+            }
+
+            logger.error({ error }, 'Failed to get script versions');
+            return c.json({
+                success: false,
+                error: error instanceof Error ? error.message : 'Unknown error',
+                timestamp: new Date().toISOString(),
+            }, 500);
+        }
+    });
+
+    /**
+     * GET /api/scripts/:id/diff?to=<id>
+     * Section-level diff from one version of a script to another
+     */
+    api.get('/scripts/:id/diff', validateRequest({
+        schema: scriptDiffQuerySchema,
+        type: 'query',
+    }), (c) => {
+        try {
+            const { to } = getValidatedData<ScriptDiffQueryInput>(c);
+
+            const response: ApiResponse<ScriptDiff> = {
+                success: true,
+                data: getScriptLibrary().diff(c.req.param('id'), to),
+                timestamp: new Date().toISOString(),
+            };
+
+            return c.json(response);
+        } catch (error) {
+            if (error instanceof ScriptLibraryError) {
+                return c.json({
+                    success: false,
+                    error: error.message,
+                    timestamp: new Date().toISOString(),
+                }, error.statusCode);
+            }
+
+            logger.error({ error }, 'Failed to diff script versions');
+            return c.json({
+                success: false,
+                error: error instanceof Error ? error.message : 'Unknown error',
+                timestamp: new Date().toISOString(),
+            }, 500);
+        }
+    });
+
+    /**
+     * POST /api/scripts/:id/restore
+     * Bring an older version back as the latest version of its script
+     */
+    api.post('/scripts/:id/restore', (c) => {
+        try {
+            const response: ApiResponse<LibraryScript> = {
+                success: true,
+                data: getScriptLibrary().restore(c.req.param('id')),
+                timestamp: new Date().toISOString(),
+            };
+
+            return c.json(response, 201);
+        } catch (error) {
+            if (error instanceof ScriptLibraryError) {
+                return c.json({
+                    success: false,
+                    error: error.message,
+                    timestamp: new Date().toISOString(),
+                }, error.statusCode);
+            }
+
+            logger.error({ error }, 'Failed to restore script version');
+            return c.json({
+                success: false,
+                error: error instanceof Error ? error.message : 'Unknown error',
+                timestamp: new Date().toISOString(),
+            }, 500);
+        }
+    });
+
+    // ============================================
+    // SCRIPT RATING ENDPOINTS
+    // ============================================
+
+    /**
+     * GET /api/scripts/:id/rating
+     * The team's rating of a library script (null when unrated)
+     */
+    api.get('/scripts/:id/rating', (c) => {
+        const response: ApiResponse<ScriptRating | null> = {
+            success: true,
+            data: getScriptRatings().get(c.req.param('id')) ?? null,
+            timestamp: new Date().toISOString(),
+        };
+
+        return c.json(response);
+    });
+
+    /**
+     * PUT /api/scripts/:id/rating
+     * Rate a library script; liked scripts with 4+ stars become few-shot examples
+     */
+    api.put('/scripts/:id/rating', validateRequest({
+        schema: rateScriptBodySchema,
+        type: 'body',
+    }), (c) => {
+        try {
+            const body = getValidatedData<RateScriptInput>(c);
+
+            const response: ApiResponse<RateScriptResult> = {
+                success: true,
+                data: getScriptRatings().rate(c.req.param('id'), body),
+                timestamp: new Date().toISOString(),
+            };
+
+            return c.json(response);
+        } catch (error) {
+            if (error instanceof RatingError) {
+                return c.json({
+                    success: false,
+                    error: error.message,
+                    timestamp: new Date().toISOString(),
+                }, error.statusCode);
+            }
+
+            logger.error({ error }, 'Failed to rate script');
+            return c.json({
+                success: false,
+                error: error instanceof Error ? error.message : 'Unknown error',
+                timestamp: new Date().toISOString(),
+            }, 500);
+        }
+    });
+
+    /**
+     * GET /api/ratings/stats
+     * Rating totals and the size of the few-shot example pool
+     */
+    api.get('/ratings/stats', (c) => {
+        const response: ApiResponse<RatingStats> = {
+            success: true,
+            data: getScriptRatings().getStats(),
+            timestamp: new Date().toISOString(),
+        };
+
+        return c.json(response);
+    });
+
+    // ============================================
+    // API KEY ENDPOINTS
+    // ============================================
+
+    /**
+     * GET /api/auth/me
+     * Caller of the request; null while auth is not required
+     */
+    api.get('/auth/me', (c) => {
+        const response: ApiResponse<ApiPrincipal | null> = {
+            success: true,
+            data: c.get('apiPrincipal') ?? null,
+            timestamp: new Date().toISOString(),
+        };
+
+        return c.json(response);
+    });
+
+    /**
+     * GET /api/auth/keys
+     * List API keys, revoked ones included (admin)
+     */
+    api.get('/auth/keys', (c) => {
+        try {
+            const response: ApiResponse<ApiKey[]> = {
+                success: true,
+                data: getApiKeyStore().list(),
+                timestamp: new Date().toISOString(),
+            };
+
+            return c.json(response);
+        } catch (error) {
+            return apiKeyErrorResponse(c, error);
+        }
+    });
+
+    /**
+     * POST /api/auth/keys
+     * Issue an API key (admin). The key is only returned in this response.
+     */
+    api.post('/auth/keys', validateRequest({ schema: issueApiKeyBodySchema, type: 'body' }), (c) => {
+        try {
+            const body = getValidatedData<IssueApiKeyBodyInput>(c);
+            const response: ApiResponse<IssuedApiKey> = {
+                success: true,
+                data: getApiKeyStore().issue(body),
+                timestamp: new Date().toISOString(),
+            };
+
+            return c.json(response, 201);
+        } catch (error) {
+            return apiKeyErrorResponse(c, error);
+        }
+    });
+
+    /**
+     * DELETE /api/auth/keys/:id
+     * Revoke an API key (admin)
+     */
+    api.delete('/auth/keys/:id', (c) => {
+        try {
+            const response: ApiResponse<ApiKey> = {
+                success: true,
+                data: getApiKeyStore().revoke(c.req.param('id')),
+                timestamp: new Date().toISOString(),
+            };
+
+            return c.json(response);
+        } catch (error) {
+            return apiKeyErrorResponse(c, error);
+        }
+    });
+
+    // ============================================
+    // BRAND VOICE ENDPOINTS
+    // ============================================
+
+    /**
+     * GET /api/brand-voices
+     * List brand voice profiles
+     */
+    api.get('/brand-voices', (c) => {
+        const response: ApiResponse<BrandVoiceProfile[]> = {
+            success: true,
+            data: getBrandVoiceStore().list(),
+            timestamp: new Date().toISOString(),
+        };
+
+        return c.json(response);
+    });
+
+    /**
+     * GET /api/brand-voices/:id
+     * Get a single brand voice profile
+     */
+    api.get('/brand-voices/:id', (c) => {
+        const profile = getBrandVoiceStore().get(c.req.param('id'));
+
+        if (!profile) {
+            return c.json({
+                success: false,
+                error: 'Brand voice not found',
+                timestamp: new Date().toISOString(),
+            }, 404);
+        }
+
+        const response: ApiResponse<BrandVoiceProfile> = {
+            success: true,
+            data: profile,
+            timestamp: new Date().toISOString(),
+        };
+
+        return c.json(response);
+    });
+
+    /**
+     * POST /api/brand-voices
+     * Create a brand voice profile; pass its id as profileId when generating
+     */
+    api.post('/brand-voices', validateRequest({
+        schema: createBrandVoiceBodySchema,
+        type: 'body',
+    }), (c) => {
+        const input = getValidatedData<CreateBrandVoiceInput>(c);
+
+        try {
+            const response: ApiResponse<BrandVoiceProfile> = {
+                success: true,
+                data: getBrandVoiceStore().create(input),
+                timestamp: new Date().toISOString(),
+            };
+
+            return c.json(response, 201);
+        } catch (error) {
+            return brandVoiceErrorResponse(c, error);
+        }
+    });
+
+    /**
+     * PATCH /api/brand-voices/:id
+     * Change fields of a profile; list fields are replaced as a whole
+     */
+    api.patch('/brand-voices/:id', validateRequest({
+        schema: updateBrandVoiceBodySchema,
+        type: 'body',
+    }), (c) => {
+        const changes = getValidatedData<UpdateBrandVoiceInput>(c);
+
+        try {
+            const response: ApiResponse<BrandVoiceProfile> = {
+                success: true,
+                data: getBrandVoiceStore().update(c.req.param('id'), changes),
+                timestamp: new Date().toISOString(),
+            };
+
+            return c.json(response);
+        } catch (error) {
+            return brandVoiceErrorResponse(c, error);
+        }
+    });
+
+    /**
+     * DELETE /api/brand-voices/:id
+     * Remove a brand voice profile
+     */
+    api.delete('/brand-voices/:id', (c) => {
+        try {
+            getBrandVoiceStore().remove(c.req.param('id'));
+
+            return c.json({
+                success: true,
+                timestamp: new Date().toISOString(),
+            });
+        } catch (error) {
+            return brandVoiceErrorResponse(c, error);
+        }
+    });
+
     // ============================================
     // IMAGE DISCOVERY ENDPOINTS
     // ============================================
@@ -1268,6 +2282,7 @@ export function createApiRouter(): Hono {
                 title: string;
                 category?: string;
                 hookContent?: string;
+                language?: ScriptLanguage;
                 count?: number;
                 validate?: boolean;
                 orientation?: 'portrait' | 'landscape' | 'square';
@@ -1286,6 +2301,7 @@ export function createApiRouter(): Hono {
                     title: body.title,
                     category: body.category,
                     hookContent: body.hookContent,
+                    language: body.language && SCRIPT_LANGUAGES.includes(body.language) ? body.language : undefined,
                 },
                 {
                     count: Math.min(body.count || 6, 12),
@@ -1449,13 +2465,16 @@ export function createApiRouter(): Hono {
      * GET /api/voice/list
      * Get available voices from configured providers
      */
-    api.get('/voice/list', async (c) => {
+    api.get('/voice/list', validateRequest({
+        schema: voiceListQuerySchema,
+        type: 'query',
+    }), async (c) => {
         try {
             const { getVoiceService } = await import('../voice/index.js');
             const voiceService = getVoiceService();
 
-            const providerParam = c.req.query('provider') as 'elevenlabs' | 'fishaudio' | undefined;
-            const result = await voiceService.getVoices(providerParam);
+            const query = getValidatedData<VoiceListQueryInput>(c);
+            const result = await voiceService.getVoices(query.provider, query.language);
 
             return c.json({
                 success: true,
@@ -1477,6 +2496,7 @@ export function createApiRouter(): Hono {
      * Generate TTS audio from text
      */
     api.post('/voice/generate', async (c) => {
+        let voiceJobId: string | undefined;
         try {
             const { getVoiceService } = await import('../voice/index.js');
             const voiceService = getVoiceService();
@@ -1492,6 +2512,9 @@ export function createApiRouter(): Hono {
                     style?: number;
                 };
                 format?: 'mp3' | 'wav' | 'ogg';
+                jobId?: string; // Client-chosen id for /api/events progress
+                trendId?: string; // Usage attribution
+                platform?: Platform;
             };
 
             // Validate required fields
@@ -1519,27 +2542,54 @@ export function createApiRouter(): Hono {
                 }, 400);
             }
 
+            voiceJobId = body.jobId || crypto.randomUUID();
+
             logger.info({
                 voiceId: body.voiceId,
                 textLength: body.text.length,
                 provider: body.provider,
+                jobId: voiceJobId,
             }, 'Generating voice...');
 
+            publishJobEvent({
+                kind: 'voice',
+                jobId: voiceJobId,
+                status: 'started',
+                progress: 0,
+                currentStep: 'Generating voice...',
+                data: { voiceId: body.voiceId, provider: body.provider, textLength: body.text.length },
+            });
+
             const result = await voiceService.generateSpeech({
                 text: body.text,
                 voiceId: body.voiceId,
                 provider: body.provider,
                 settings: body.settings,
                 format: body.format,
+                context: { trendId: body.trendId, platform: body.platform },
+            });
+
+            publishJobEvent({
+                kind: 'voice',
+                jobId: voiceJobId,
+                status: result.success ? 'complete' : 'failed',
+                progress: result.success ? 100 : 0,
+                currentStep: result.success ? 'Complete!' : (result.error || 'Voice generation failed'),
+                data: {
+                    provider: result.provider,
+                    durationSeconds: result.durationSeconds,
+                    charactersUsed: result.charactersUsed,
+                },
             });
 
             if (!result.success) {
                 return c.json({
                     success: false,
                     error: result.error,
+                    code: result.errorCode,
                     provider: result.provider,
                     timestamp: new Date().toISOString(),
-                }, 500);
+                }, result.errorCode === 'BUDGET_EXCEEDED' ? 402 : 500);
             }
 
             // Return audio as binary response
@@ -1559,11 +2609,21 @@ export function createApiRouter(): Hono {
                     'X-Voice-Provider': result.provider,
                     'X-Audio-Duration': (result.durationSeconds || 0).toFixed(2),
                     'X-Characters-Used': (result.charactersUsed || 0).toString(),
+                    'X-Job-Id': voiceJobId,
                 },
             });
 
         } catch (error) {
             logger.error({ error }, 'Voice generation failed');
+
+            if (voiceJobId) {
+                publishJobEvent({
+                    kind: 'voice',
+                    jobId: voiceJobId,
+                    status: 'failed',
+                    currentStep: error instanceof Error ? error.message : 'Unknown error',
+                });
+            }
             return c.json({
                 success: false,
                 error: error instanceof Error ? error.message : 'Unknown error',
@@ -1687,24 +2747,27 @@ export function createApiRouter(): Hono {
 
     /**
      * POST /api/video/generate
-     * Generate a video from script, images, and audio
+     * Queue a video render from script, images, and audio.
+     * Returns 202 with the job id; poll /video/status/:jobId for the result.
      */
     api.post('/video/generate', async (c) => {
         try {
-            const { getVideoEditingAgent } = await import('../video/index.js');
-            const agent = getVideoEditingAgent();
+            const { getVideoRenderQueue } = await import('../video/index.js');
+            const queue = getVideoRenderQueue();
 
             const body = await c.req.json() as {
                 id?: string;
                 platform: 'tiktok' | 'reels' | 'shorts';
                 title: string;
+                language?: ScriptLanguage;
                 script: { hook: string; body: string; cta: string };
                 images: { hook: string[]; body: string[]; cta: string[] };
                 audio: {
                     voiceoverPath?: string;
                     voiceoverData?: string; // Base64 encoded audio
                     voiceoverDuration: number;
-                    backgroundMusicPath?: string
+                    backgroundMusicPath?: string;
+                    wordTimings?: { word: string; startTime: number; endTime: number }[];
                 };
                 options?: {
                     captionStyle?: 'hormozi' | 'classic' | 'minimal';
@@ -1712,6 +2775,7 @@ export function createApiRouter(): Hono {
                     kenBurnsEnabled?: boolean;
                     backgroundMusicVolume?: number;
                     audioDucking?: boolean;
+                    autoSelectMusic?: boolean;
                 };
             };
 
@@ -1731,6 +2795,10 @@ export function createApiRouter(): Hono {
                 }, 400);
             }
 
+            // Every render gets its own job id; body.id only names the project's files,
+            // so re-rendering the same project queues a new job instead of clashing
+            const jobId = crypto.randomUUID();
+
             // Handle base64 audio data - save to disk
             let voiceoverPath = body.audio.voiceoverPath;
             if (body.audio.voiceoverData && !voiceoverPath) {
@@ -1742,7 +2810,7 @@ export function createApiRouter(): Hono {
                 await fs.mkdir(audioDir, { recursive: true });
 
                 // Decode base64 and save
-                const audioId = body.id || crypto.randomUUID();
+                const audioId = body.id || jobId;
                 voiceoverPath = path.join(audioDir, `${audioId}_voiceover.mp3`);
 
                 // Remove data URL prefix if present
@@ -1754,15 +2822,17 @@ export function createApiRouter(): Hono {
             }
 
             const project = {
-                id: body.id || crypto.randomUUID(),
+                id: jobId,
                 platform: body.platform,
                 title: body.title || 'Untitled Video',
+                language: body.language && SCRIPT_LANGUAGES.includes(body.language) ? body.language : undefined,
                 script: body.script,
                 images: body.images,
                 audio: {
                     voiceoverPath: voiceoverPath!,
                     voiceoverDuration: body.audio.voiceoverDuration,
                     backgroundMusicPath: body.audio.backgroundMusicPath,
+                    wordTimings: Array.isArray(body.audio.wordTimings) ? body.audio.wordTimings : undefined,
                 },
                 options: {
                     captionStyle: body.options?.captionStyle || 'hormozi',
@@ -1770,26 +2840,32 @@ export function createApiRouter(): Hono {
                     kenBurnsEnabled: body.options?.kenBurnsEnabled ?? true,
                     backgroundMusicVolume: body.options?.backgroundMusicVolume ?? 0.15,
                     audioDucking: body.options?.audioDucking ?? true,
+                    autoSelectMusic: body.options?.autoSelectMusic ?? true,
                 },
                 createdAt: new Date().toISOString(),
                 status: 'queued' as const,
             };
 
+            const job = queue.enqueue(project);
+
             logger.info({
                 projectId: project.id,
                 platform: project.platform,
-            }, 'Starting video generation...');
-
-            const result = await agent.generateVideo(project);
+                queue: queue.getStats(),
+            }, 'Video generation queued');
 
             return c.json({
-                success: result.success,
-                data: result,
+                success: true,
+                data: {
+                    success: true,
+                    jobId: job.jobId,
+                    status: job.status,
+                },
                 timestamp: new Date().toISOString(),
-            }, result.success ? 200 : 500);
+            }, 202);
 
         } catch (error) {
-            logger.error({ error }, 'Video generation failed');
+            logger.error({ error }, 'Failed to queue video generation');
             return c.json({
                 success: false,
                 error: error instanceof Error ? error.message : 'Unknown error',
@@ -1804,8 +2880,7 @@ export function createApiRouter(): Hono {
      */
     api.get('/video/status/:jobId', async (c) => {
         try {
-            const { getVideoEditingAgent } = await import('../video/index.js');
-            const agent = getVideoEditingAgent();
+            const { getVideoJobStore } = await import('../video/index.js');
             const jobId = c.req.param('jobId');
 
             if (!jobId) {
@@ -1816,9 +2891,9 @@ export function createApiRouter(): Hono {
                 }, 400);
             }
 
-            const progress = agent.getJobProgress(jobId);
+            const job = getVideoJobStore().get(jobId);
 
-            if (!progress) {
+            if (!job) {
                 return c.json({
                     success: false,
                     error: 'Job not found',
@@ -1828,7 +2903,7 @@ export function createApiRouter(): Hono {
 
             return c.json({
                 success: true,
-                data: progress,
+                data: job,
                 timestamp: new Date().toISOString(),
             });
 
@@ -1842,20 +2917,82 @@ export function createApiRouter(): Hono {
         }
     });
 
+    /**
+     * GET /api/video/:jobId/captions?format=srt|vtt|ass
+     * Download a subtitle sidecar of a completed render
+     */
+    api.get('/video/:jobId/captions', validateRequest({
+        schema: videoCaptionsQuerySchema,
+        type: 'query',
+    }), async (c) => {
+        try {
+            const { getVideoJobStore, SUBTITLE_CONTENT_TYPES } = await import('../video/index.js');
+            const { promises: fs } = await import('fs');
+            const path = await import('path');
+            const jobId = c.req.param('jobId');
+            const { format } = getValidatedData<VideoCaptionsQueryInput>(c);
+
+            const job = getVideoJobStore().get(jobId);
+
+            if (!job) {
+                return c.json({
+                    success: false,
+                    error: 'Job not found',
+                    timestamp: new Date().toISOString(),
+                }, 404);
+            }
+
+            const filePath = job.result?.subtitles?.[format];
+
+            if (job.status !== 'complete' || !filePath) {
+                return c.json({
+                    success: false,
+                    error: job.status === 'complete'
+                        ? 'No subtitles were written for this job'
+                        : `Job is not complete (status: ${job.status})`,
+                    timestamp: new Date().toISOString(),
+                }, job.status === 'complete' ? 404 : 409);
+            }
+
+            const content = await fs.readFile(filePath, 'utf-8').catch(() => null);
+
+            if (content === null) {
+                return c.json({
+                    success: false,
+                    error: 'Subtitle file no longer exists',
+                    timestamp: new Date().toISOString(),
+                }, 404);
+            }
+
+            return c.body(content, 200, {
+                'Content-Type': SUBTITLE_CONTENT_TYPES[format],
+                'Content-Disposition': `attachment; filename="${path.basename(filePath)}"`,
+            });
+
+        } catch (error) {
+            logger.error({ error }, 'Failed to get video captions');
+            return c.json({
+                success: false,
+                error: error instanceof Error ? error.message : 'Unknown error',
+                timestamp: new Date().toISOString(),
+            }, 500);
+        }
+    });
+
     /**
      * GET /api/video/jobs
-     * List all video generation jobs
+     * List video generation jobs (newest first) with queue stats
      */
     api.get('/video/jobs', async (c) => {
         try {
-            const { getVideoEditingAgent } = await import('../video/index.js');
-            const agent = getVideoEditingAgent();
+            const { getVideoJobStore, getVideoRenderQueue } = await import('../video/index.js');
 
-            const jobs = agent.getAllJobs();
+            const jobs = getVideoJobStore().list();
 
             return c.json({
                 success: true,
                 data: jobs,
+                queue: getVideoRenderQueue().getStats(),
                 timestamp: new Date().toISOString(),
             });
 
@@ -1871,14 +3008,13 @@ export function createApiRouter(): Hono {
 
     /**
      * POST /api/video/jobs/cleanup
-     * Clean up completed video generation jobs
+     * Delete finished (complete/failed) video generation jobs
      */
     api.post('/video/jobs/cleanup', async (c) => {
         try {
-            const { getVideoEditingAgent } = await import('../video/index.js');
-            const agent = getVideoEditingAgent();
+            const { getVideoJobStore } = await import('../video/index.js');
 
-            const cleaned = agent.cleanupCompletedJobs();
+            const cleaned = getVideoJobStore().deleteFinished();
 
             logger.info({ cleaned }, 'Video jobs cleanup completed');
 
@@ -1898,5 +3034,128 @@ export function createApiRouter(): Hono {
         }
     });
 
+    // ============================================
+    // MUSIC LIBRARY ENDPOINTS
+    // ============================================
+
+    /**
+     * GET /api/music
+     * List indexed background tracks (scans the library on first use)
+     */
+    api.get('/music', validateRequest({
+        schema: musicQuerySchema,
+        type: 'query',
+    }), async (c) => {
+        try {
+            const { getMusicLibrary } = await import('../music/index.js');
+            const library = getMusicLibrary();
+            const { mood, minDuration, refresh } = getValidatedData<MusicQueryInput>(c);
+
+            if (refresh || library.list().length === 0) {
+                await library.scan();
+            }
+
+            return c.json({
+                success: true,
+                data: library.list({ mood, minDuration }),
+                libraryDir: library.getLibraryDir(),
+                timestamp: new Date().toISOString(),
+            });
+
+        } catch (error) {
+            logger.error({ error }, 'Failed to list music');
+            return c.json({
+                success: false,
+                error: error instanceof Error ? error.message : 'Unknown error',
+                timestamp: new Date().toISOString(),
+            }, 500);
+        }
+    });
+
+    /**
+     * POST /api/music/scan
+     * Re-index the music library directory
+     */
+    api.post('/music/scan', async (c) => {
+        try {
+            const { getMusicLibrary } = await import('../music/index.js');
+
+            const result = await getMusicLibrary().scan();
+
+            return c.json({
+                success: true,
+                data: result,
+                timestamp: new Date().toISOString(),
+            });
+
+        } catch (error) {
+            logger.error({ error }, 'Failed to scan music library');
+            return c.json({
+                success: false,
+                error: error instanceof Error ? error.message : 'Unknown error',
+                timestamp: new Date().toISOString(),
+            }, 500);
+        }
+    });
+
+    // ============================================
+    // Usage & Cost Endpoints
+    // ============================================
+
+    /**
+     * GET /api/usage
+     * Token/character usage and cost, rolled up by day, trend, platform, provider or operation
+     */
+    api.get('/usage', validateRequest({
+        schema: usageQuerySchema,
+        type: 'query',
+    }), async (c) => {
+        try {
+            const { getUsageTracker } = await import('../usage/index.js');
+            const query = getValidatedData<UsageQueryInput>(c);
+
+            return c.json({
+                success: true,
+                data: getUsageTracker().getSummary(query),
+                timestamp: new Date().toISOString(),
+            });
+
+        } catch (error) {
+            logger.error({ error }, 'Failed to summarize usage');
+            return c.json({
+                success: false,
+                error: error instanceof Error ? error.message : 'Unknown error',
+                timestamp: new Date().toISOString(),
+            }, 500);
+        }
+    });
+
+    /**
+     * GET /api/usage/budgets
+     * Spend against the configured daily/monthly budgets
+     */
+    api.get('/usage/budgets', async (c) => {
+        try {
+            const { getBudgetGuard, BUDGET_WARNING_RATIO } = await import('../usage/index.js');
+
+            return c.json({
+                success: true,
+                data: {
+                    warningRatio: BUDGET_WARNING_RATIO,
+                    budgets: getBudgetGuard().getAllStatuses(),
+                },
+                timestamp: new Date().toISOString(),
+            });
+
+        } catch (error) {
+            logger.error({ error }, 'Failed to read budgets');
+            return c.json({
+                success: false,
+                error: error instanceof Error ? error.message : 'Unknown error',
+                timestamp: new Date().toISOString(),
+            }, 500);
+        }
+    });
+
     return api;
 }
@@ -0,0 +1,168 @@
+/**
+ * API Key Store
+ *
+ * Per-user API keys in SQLite. Keys are random, so a plain SHA-256 is
+ * enough to store them: a leaked database doesn't leak usable keys. Reads
+ * fail closed, a database error authenticates nobody.
+ *
+ * @module auth/ApiKeyStore
+ */
+
+import { createHash, randomBytes, randomUUID } from 'crypto';
+import { getDatabase } from '../cache/index.js';
+import { createChildLogger } from '../utils/logger.js';
+import { ApiKeyError } from './authTypes.js';
+import type { ApiKey, ApiRole, IssueApiKeyInput, IssuedApiKey } from './authTypes.js';
+
+const logger = createChildLogger('api-keys');
+
+const KEY_PREFIX = 'ick_';
+
+/**
+ * Characters of a key kept in the clear to tell keys apart
+ */
+const VISIBLE_PREFIX_LENGTH = 12;
+
+/**
+ * last_used_at is refreshed at most this often per key
+ */
+const LAST_USED_RESOLUTION_MS = 60_000;
+
+interface ApiKeyRow {
+    id: string;
+    name: string;
+    role: string;
+    key_hash: string;
+    prefix: string;
+    created_at: string;
+    last_used_at: string | null;
+    revoked_at: string | null;
+}
+
+/**
+ * SHA-256 of a key, as stored
+ */
+export function hashApiKey(key: string): string {
+    return createHash('sha256').update(key).digest('hex');
+}
+
+function rowToApiKey(row: ApiKeyRow): ApiKey {
+    return {
+        id: row.id,
+        name: row.name,
+        role: row.role as ApiRole,
+        prefix: row.prefix,
+        createdAt: row.created_at,
+        lastUsedAt: row.last_used_at ?? undefined,
+        revokedAt: row.revoked_at ?? undefined,
+    };
+}
+
+/**
+ * ApiKeyStore class
+ */
+export class ApiKeyStore {
+    private db = getDatabase();
+
+    /**
+     * Create a key. The plain key is returned once and not stored.
+     */
+    issue(input: IssueApiKeyInput): IssuedApiKey {
+        const key = `${KEY_PREFIX}${randomBytes(24).toString('base64url')}`;
+        const id = randomUUID();
+
+        this.db.prepare(`
+            INSERT INTO api_keys (id, name, role, key_hash, prefix, created_at)
+            VALUES (?, ?, ?, ?, ?, ?)
+        `).run(id, input.name, input.role, hashApiKey(key), key.slice(0, VISIBLE_PREFIX_LENGTH), new Date().toISOString());
+
+        logger.info({ id, name: input.name, role: input.role }, 'API key issued');
+        return { key, apiKey: this.get(id)! };
+    }
+
+    /**
+     * Get a key by id
+     */
+    get(id: string): ApiKey | undefined {
+        const row = this.db.prepare('SELECT * FROM api_keys WHERE id = ?').get(id) as ApiKeyRow | undefined;
+        return row ? rowToApiKey(row) : undefined;
+    }
+
+    /**
+     * All keys, newest first, revoked ones included
+     */
+    list(): ApiKey[] {
+        const rows = this.db.prepare('SELECT * FROM api_keys ORDER BY created_at DESC').all() as ApiKeyRow[];
+        return rows.map(rowToApiKey);
+    }
+
+    /**
+     * Revoke a key; it stops working immediately
+     * @throws ApiKeyError (404) if the key doesn't exist or is already revoked
+     */
+    revoke(id: string): ApiKey {
+        const result = this.db.prepare('UPDATE api_keys SET revoked_at = ? WHERE id = ? AND revoked_at IS NULL')
+            .run(new Date().toISOString(), id);
+
+        if (result.changes === 0) {
+            throw new ApiKeyError(`Active API key not found: ${id}`);
+        }
+
+        logger.info({ id }, 'API key revoked');
+        return this.get(id)!;
+    }
+
+    /**
+     * The active key matching a plain key, if any
+     */
+    authenticate(key: string): ApiKey | undefined {
+        try {
+            const row = this.db.prepare('SELECT * FROM api_keys WHERE key_hash = ? AND revoked_at IS NULL')
+                .get(hashApiKey(key)) as ApiKeyRow | undefined;
+            if (!row) return undefined;
+
+            const now = new Date();
+            if (!row.last_used_at || now.getTime() - Date.parse(row.last_used_at) >= LAST_USED_RESOLUTION_MS) {
+                row.last_used_at = now.toISOString();
+                this.db.prepare('UPDATE api_keys SET last_used_at = ? WHERE id = ?').run(row.last_used_at, row.id);
+            }
+
+            return rowToApiKey(row);
+        } catch (error) {
+            logger.error({ error }, 'Failed to check API key');
+            return undefined;
+        }
+    }
+
+    /**
+     * Whether any key is active. Issuing the first key turns auth on.
+     */
+    hasActiveKeys(): boolean {
+        try {
+            return this.db.prepare('SELECT 1 FROM api_keys WHERE revoked_at IS NULL LIMIT 1').get() !== undefined;
+        } catch (error) {
+            logger.error({ error }, 'Failed to count API keys');
+            return true;
+        }
+    }
+}
+
+// Singleton instance
+let storeInstance: ApiKeyStore | null = null;
+
+/**
+ * Gets the singleton ApiKeyStore instance
+ */
+export function getApiKeyStore(): ApiKeyStore {
+    if (!storeInstance) {
+        storeInstance = new ApiKeyStore();
+    }
+    return storeInstance;
+}
+
+/**
+ * Resets the store instance (for testing)
+ */
+export function resetApiKeyStore(): void {
+    storeInstance = null;
+}
@@ -0,0 +1,110 @@
+/**
+ * API Key Auth Tests
+ *
+ * Tests for issuing and revoking API keys, the role each route group
+ * needs and the auth middleware that enforces it.
+ *
+ * @module auth/__tests__/ApiKeyStore.test
+ */
+
+import { describe, it, expect, beforeEach, afterEach, afterAll } from 'vitest';
+import { Hono } from 'hono';
+import { getApiKeyStore, resetApiKeyStore, hashApiKey } from '../ApiKeyStore.js';
+import { requiredRole } from '../routeRoles.js';
+import { ApiKeyError } from '../authTypes.js';
+import { createAuthMiddleware } from '../../api/authMiddleware.js';
+import { getSecurityStats } from '../../utils/securityLogger.js';
+import { getDatabase, closeDatabase } from '../../cache/database.js';
+
+const NAME_PREFIX = 'test-auth-';
+
+function createApp(): Hono {
+    const app = new Hono();
+    app.use('*', createAuthMiddleware());
+    app.get('/health', (c) => c.json({ ok: true }));
+    app.get('/trends', (c) => c.json({ ok: true, caller: c.get('apiPrincipal')?.name }));
+    app.post('/video/generate', (c) => c.json({ ok: true }));
+    app.post('/cache/cleanup', (c) => c.json({ ok: true }));
+    return app;
+}
+
+function bearer(key: string): RequestInit {
+    return { method: 'POST', headers: { Authorization: `Bearer ${key}` } };
+}
+
+describe('API key auth', () => {
+    beforeEach(() => {
+        resetApiKeyStore();
+    });
+
+    afterEach(() => {
+        getDatabase().prepare('DELETE FROM api_keys WHERE name LIKE ?').run(`${NAME_PREFIX}%`);
+    });
+
+    afterAll(() => {
+        resetApiKeyStore();
+        closeDatabase();
+    });
+
+    it('stores only the hash of issued keys and stops accepting revoked ones', () => {
+        const store = getApiKeyStore();
+        const { key, apiKey } = store.issue({ name: `${NAME_PREFIX}editor`, role: 'editor' });
+
+        expect(key.startsWith(apiKey.prefix)).toBe(true);
+        const row = getDatabase().prepare('SELECT key_hash FROM api_keys WHERE id = ?').get(apiKey.id) as { key_hash: string };
+        expect(row.key_hash).toBe(hashApiKey(key));
+        expect(row.key_hash).not.toContain(key);
+
+        expect(store.authenticate(key)).toMatchObject({ id: apiKey.id, role: 'editor' });
+        expect(store.authenticate(`${key}x`)).toBeUndefined();
+        expect(store.get(apiKey.id)?.lastUsedAt).toBeDefined();
+
+        expect(store.revoke(apiKey.id).revokedAt).toBeDefined();
+        expect(store.authenticate(key)).toBeUndefined();
+        expect(() => store.revoke(apiKey.id)).toThrow(ApiKeyError);
+    });
+
+    it('maps route groups to roles', () => {
+        expect(requiredRole('GET', '/api/health')).toBeNull();
+        expect(requiredRole('GET', '/api/video/jobs')).toBe('viewer');
+        expect(requiredRole('POST', '/api/video/generate')).toBe('editor');
+        expect(requiredRole('POST', '/api/voice/generate')).toBe('editor');
+        expect(requiredRole('POST', '/api/voice/cache/clear')).toBe('admin');
+        expect(requiredRole('POST', '/api/cache/invalidate')).toBe('admin');
+        expect(requiredRole('POST', '/api/worker/force-run/1')).toBe('admin');
+        expect(requiredRole('GET', '/api/subreddits')).toBe('viewer');
+        expect(requiredRole('POST', '/api/subreddits')).toBe('admin');
+        expect(requiredRole('GET', '/api/auth/keys')).toBe('admin');
+        expect(requiredRole('GET', '/api/auth/me')).toBe('viewer');
+    });
+
+    it('rejects missing, invalid and under-privileged keys and logs the attempts', async () => {
+        const store = getApiKeyStore();
+        const viewer = store.issue({ name: `${NAME_PREFIX}viewer`, role: 'viewer' }).key;
+        const editor = store.issue({ name: `${NAME_PREFIX}editor`, role: 'editor' }).key;
+        const admin = store.issue({ name: `${NAME_PREFIX}admin`, role: 'admin' }).key;
+        const app = createApp();
+        const before = getSecurityStats().eventsByType;
+
+        expect((await app.request('/health')).status).toBe(200);
+
+        const missing = await app.request('/trends');
+        expect(missing.status).toBe(401);
+        expect(missing.headers.get('WWW-Authenticate')).toBe('Bearer');
+        expect((await app.request('/trends', { headers: { Authorization: 'Bearer ick_wrong' } })).status).toBe(401);
+
+        const viewed = await app.request(`/trends?api_key=${viewer}`);
+        expect(viewed.status).toBe(200);
+        expect(await viewed.json()).toMatchObject({ caller: `${NAME_PREFIX}viewer` });
+        expect((await app.request(`/video/generate?api_key=${editor}`, { method: 'POST' })).status).toBe(401);
+
+        expect((await app.request('/video/generate', bearer(viewer))).status).toBe(403);
+        expect((await app.request('/video/generate', bearer(editor))).status).toBe(200);
+        expect((await app.request('/cache/cleanup', bearer(editor))).status).toBe(403);
+        expect((await app.request('/cache/cleanup', bearer(admin))).status).toBe(200);
+
+        const after = getSecurityStats().eventsByType;
+        expect((after.auth_required ?? 0) - (before.auth_required ?? 0)).toBe(2);
+        expect((after.auth_failed ?? 0) - (before.auth_failed ?? 0)).toBe(3);
+    });
+});
@@ -0,0 +1,69 @@
+/**
+ * API Auth Types
+ *
+ * @module auth/authTypes
+ */
+
+/**
+ * Roles from least to most privileged; each role can do everything the
+ * roles before it can
+ */
+export const API_ROLES = ['viewer', 'editor', 'admin'] as const;
+
+export type ApiRole = typeof API_ROLES[number];
+
+/**
+ * A key to issue
+ */
+export interface IssueApiKeyInput {
+    /** Who or what the key belongs to */
+    name: string;
+    role: ApiRole;
+}
+
+/**
+ * Stored API key (never the key itself)
+ */
+export interface ApiKey extends IssueApiKeyInput {
+    id: string;
+    /** First characters of the key, to tell keys apart */
+    prefix: string;
+    createdAt: string;
+    lastUsedAt?: string;
+    revokedAt?: string;
+}
+
+/**
+ * Result of issuing a key. The plain key is only ever returned here.
+ */
+export interface IssuedApiKey {
+    key: string;
+    apiKey: ApiKey;
+}
+
+/**
+ * Caller of an authenticated request
+ */
+export interface ApiPrincipal {
+    /** API key id, or 'root' for API_SECRET_KEY */
+    keyId: string;
+    name: string;
+    role: ApiRole;
+}
+
+/**
+ * Error for API key operations that carries the HTTP status to answer with
+ */
+export class ApiKeyError extends Error {
+    constructor(message: string, public readonly statusCode: 404 = 404) {
+        super(message);
+        this.name = 'ApiKeyError';
+    }
+}
+
+/**
+ * Whether a role includes the permissions of another
+ */
+export function hasRole(role: ApiRole, required: ApiRole): boolean {
+    return API_ROLES.indexOf(role) >= API_ROLES.indexOf(required);
+}
@@ -0,0 +1,27 @@
+/**
+ * API Auth Module
+ *
+ * Exports per-user API keys, their roles and the role each route needs.
+ *
+ * @module auth
+ */
+
+export {
+    ApiKeyStore,
+    getApiKeyStore,
+    resetApiKeyStore,
+    hashApiKey,
+} from './ApiKeyStore.js';
+
+export { requiredRole } from './routeRoles.js';
+
+export {
+    ApiKeyError,
+    API_ROLES,
+    hasRole,
+    type ApiRole,
+    type ApiKey,
+    type ApiPrincipal,
+    type IssueApiKeyInput,
+    type IssuedApiKey,
+} from './authTypes.js';
@@ -0,0 +1,57 @@
+/**
+ * Route Roles
+ *
+ * Which role a request needs. Reads need a viewer and writes an editor
+ * (generation, /video/*, /voice/*, the script library...), except for the
+ * route groups below. Paths are relative to /api.
+ *
+ * @module auth/routeRoles
+ */
+
+import type { ApiRole } from './authTypes.js';
+
+const READ_METHODS = ['GET', 'HEAD'];
+const WRITE_METHODS = ['POST', 'PUT', 'PATCH', 'DELETE'];
+
+interface RouteRoleRule {
+    /** Exact path, or a prefix ending in /* that also matches the prefix itself */
+    pattern: string;
+    /** Methods the rule applies to; all when omitted */
+    methods?: string[];
+    /** null: no key needed */
+    role: ApiRole | null;
+}
+
+/**
+ * Checked in order, the first match wins
+ */
+const ROUTE_ROLES: RouteRoleRule[] = [
+    { pattern: '/health', role: null },
+    { pattern: '/auth/me', role: 'viewer' },
+    { pattern: '/auth/*', role: 'admin' },
+    { pattern: '/cache/*', role: 'admin' },
+    { pattern: '/worker/*', role: 'admin' },
+    { pattern: '/voice/cache/*', role: 'admin' },
+    { pattern: '/music/scan', role: 'admin' },
+    { pattern: '/subreddits/*', methods: WRITE_METHODS, role: 'admin' },
+];
+
+function matches(pattern: string, path: string): boolean {
+    if (!pattern.endsWith('/*')) return path === pattern;
+
+    const base = pattern.slice(0, -2);
+    return path === base || path.startsWith(`${base}/`);
+}
+
+/**
+ * Role a request needs, or null for public routes
+ * @param path - Request path, with or without the /api prefix
+ */
+export function requiredRole(method: string, path: string): ApiRole | null {
+    const relative = path.replace(/^\/api(?=\/|$)/, '').replace(/\/+$/, '') || '/';
+
+    const rule = ROUTE_ROLES.find(r => matches(r.pattern, relative) && (!r.methods || r.methods.includes(method)));
+    if (rule) return rule.role;
+
+    return READ_METHODS.includes(method) ? 'viewer' : 'editor';
+}
@@ -7,7 +7,7 @@
  * @module cache/CacheService
  */
 
-import type { TrendData, ContentCategory, TrendQuery } from '@icerik/shared';
+import type { TrendData, ContentCategory, TrendQuery, TrendHistory, TrendSnapshot, TrendCluster } from '@icerik/shared';
 import { getDatabase } from './database.js';
 import { createChildLogger } from '../utils/logger.js';
 
@@ -23,6 +23,10 @@ export const CACHE_TTL = {
     SUBREDDIT_STATS: 60 * 60,
     /** Summary data TTL - 10 minutes */
     SUMMARY: 10 * 60,
+    /** Trend snapshot retention - 7 days */
+    TREND_SNAPSHOTS: 7 * 24 * 60 * 60,
+    /** Subreddit stats history retention - 30 days */
+    SUBREDDIT_STATS_HISTORY: 30 * 24 * 60 * 60,
 } as const;
 
 /**
@@ -71,6 +75,7 @@ export class CacheService {
             limit: query.limit,
             minScore: query.minScore,
             sortBy: query.sortBy,
+            source: query.source,
             subreddit,
         });
 
@@ -96,6 +101,7 @@ export class CacheService {
             limit: query.limit,
             minScore: query.minScore,
             sortBy: query.sortBy,
+            source: query.source,
             subreddit,
         });
 
@@ -119,6 +125,24 @@ export class CacheService {
         this.set('summary:default', data, ttlSeconds);
     }
 
+    /**
+     * Gets cached story clusters if available
+     * @param category - Optional category the clusters were built for
+     */
+    getClusters(category?: ContentCategory): CacheResult<TrendCluster[]> | null {
+        return this.get<TrendCluster[]>(generateCacheKey('clusters', { category }));
+    }
+
+    /**
+     * Stores story clusters in cache
+     * @param clusters - Clusters to cache
+     * @param category - Optional category the clusters were built for
+     * @param ttlSeconds - TTL in seconds (default: CACHE_TTL.TRENDS)
+     */
+    setClusters(clusters: TrendCluster[], category?: ContentCategory, ttlSeconds: number = CACHE_TTL.TRENDS): void {
+        this.set(generateCacheKey('clusters', { category }), clusters, ttlSeconds);
+    }
+
     /**
      * Generic get operation for any cached data
      * @param cacheKey - Cache key to retrieve
@@ -358,6 +382,12 @@ export class CacheService {
                     last_updated = datetime('now')
             `).run(subreddit, avgScore, avgComments, postCount);
 
+            // Keep every observation for learned baselines
+            this.db.prepare(`
+                INSERT INTO subreddit_stats_history (subreddit, avg_score, avg_comments, post_count, recorded_at)
+                VALUES (?, ?, ?, ?, ?)
+            `).run(subreddit.toLowerCase(), avgScore, avgComments, postCount, new Date().toISOString());
+
             logger.debug({ subreddit, avgScore, avgComments, postCount }, 'Subreddit stats updated');
         } catch (error) {
             logger.error({ error, subreddit }, 'Subreddit stats update error');
@@ -402,6 +432,231 @@ export class CacheService {
             return null;
         }
     }
+
+    /**
+     * Records one snapshot per trend for time-series tracking
+     * @param trends - Trends observed in the current poll
+     * @returns Number of snapshots written
+     */
+    recordTrendSnapshots(trends: TrendData[]): number {
+        if (trends.length === 0) {
+            return 0;
+        }
+
+        try {
+            const capturedAt = new Date().toISOString();
+            const stmt = this.db.prepare(`
+                INSERT INTO trend_snapshots (post_id, subreddit, score, num_comments, upvote_ratio, nes, captured_at)
+                VALUES (?, ?, ?, ?, ?, ?, ?)
+            `);
+
+            const insertAll = this.db.transaction((items: TrendData[]) => {
+                for (const trend of items) {
+                    stmt.run(
+                        trend.id,
+                        trend.subreddit,
+                        trend.score,
+                        trend.numComments,
+                        trend.upvoteRatio,
+                        trend.nes,
+                        capturedAt
+                    );
+                }
+            });
+
+            insertAll(trends);
+
+            logger.debug({ count: trends.length }, 'Trend snapshots recorded');
+            return trends.length;
+        } catch (error) {
+            logger.error({ error }, 'Trend snapshot record error');
+            return 0;
+        }
+    }
+
+    /**
+     * Gets the snapshot time series for a trend, oldest first
+     * @param trendId - Reddit post ID
+     * @param limit - Maximum number of most recent snapshots to return
+     * @returns Trend history (empty snapshots if the trend was never recorded)
+     */
+    getTrendHistory(trendId: string, limit: number = 100): TrendHistory {
+        const empty: TrendHistory = { trendId, subreddit: null, snapshots: [], nesDelta: 0, scoreDelta: 0 };
+
+        try {
+            const rows = this.db.prepare(`
+                SELECT subreddit, score, num_comments, upvote_ratio, nes, captured_at
+                FROM trend_snapshots
+                WHERE post_id = ?
+                ORDER BY captured_at DESC, id DESC
+                LIMIT ?
+            `).all(trendId, limit) as Array<{
+                subreddit: string;
+                score: number;
+                num_comments: number;
+                upvote_ratio: number;
+                nes: number;
+                captured_at: string;
+            }>;
+
+            if (rows.length === 0) {
+                return empty;
+            }
+
+            const snapshots: TrendSnapshot[] = rows.reverse().map(row => ({
+                score: row.score,
+                numComments: row.num_comments,
+                upvoteRatio: row.upvote_ratio,
+                nes: row.nes,
+                capturedAt: row.captured_at,
+            }));
+
+            const first = snapshots[0];
+            const latest = snapshots[snapshots.length - 1];
+
+            return {
+                trendId,
+                subreddit: rows[0].subreddit,
+                snapshots,
+                nesDelta: Math.round((latest.nes - first.nes) * 1000) / 1000,
+                scoreDelta: latest.score - first.score,
+            };
+        } catch (error) {
+            logger.error({ error, trendId }, 'Get trend history error');
+            return empty;
+        }
+    }
+
+    /**
+     * Gets the most recent snapshots for several trends in one query
+     * @param trendIds - Reddit post IDs
+     * @param perTrend - Number of most recent snapshots to keep per trend
+     * @returns Map of trend ID to snapshots, oldest first
+     */
+    getRecentSnapshots(trendIds: string[], perTrend: number = 3): Map<string, TrendSnapshot[]> {
+        const result = new Map<string, TrendSnapshot[]>();
+
+        if (trendIds.length === 0) {
+            return result;
+        }
+
+        try {
+            const placeholders = trendIds.map(() => '?').join(', ');
+            const rows = this.db.prepare(`
+                SELECT post_id, score, num_comments, upvote_ratio, nes, captured_at
+                FROM (
+                    SELECT *, ROW_NUMBER() OVER (
+                        PARTITION BY post_id ORDER BY captured_at DESC, id DESC
+                    ) AS rn
+                    FROM trend_snapshots
+                    WHERE post_id IN (${placeholders})
+                )
+                WHERE rn <= ?
+                ORDER BY post_id, captured_at ASC, id ASC
+            `).all(...trendIds, perTrend) as Array<{
+                post_id: string;
+                score: number;
+                num_comments: number;
+                upvote_ratio: number;
+                nes: number;
+                captured_at: string;
+            }>;
+
+            for (const row of rows) {
+                if (!result.has(row.post_id)) {
+                    result.set(row.post_id, []);
+                }
+                result.get(row.post_id)!.push({
+                    score: row.score,
+                    numComments: row.num_comments,
+                    upvoteRatio: row.upvote_ratio,
+                    nes: row.nes,
+                    capturedAt: row.captured_at,
+                });
+            }
+        } catch (error) {
+            logger.error({ error, count: trendIds.length }, 'Get recent snapshots error');
+        }
+
+        return result;
+    }
+
+    /**
+     * Removes snapshots older than the retention window
+     * @param retentionSeconds - Retention window (default: CACHE_TTL.TREND_SNAPSHOTS)
+     * @returns Number of snapshots deleted
+     */
+    cleanupTrendSnapshots(retentionSeconds: number = CACHE_TTL.TREND_SNAPSHOTS): number {
+        try {
+            const cutoff = new Date(Date.now() - retentionSeconds * 1000).toISOString();
+            const result = this.db.prepare(`
+                DELETE FROM trend_snapshots
+                WHERE captured_at < ?
+            `).run(cutoff);
+
+            if (result.changes > 0) {
+                logger.info({ deleted: result.changes }, 'Old trend snapshots cleaned up');
+            }
+
+            return result.changes;
+        } catch (error) {
+            logger.error({ error }, 'Trend snapshot cleanup error');
+            return 0;
+        }
+    }
+
+    /**
+     * Gets the average scores observed per subreddit since a point in time
+     * @param sinceSeconds - Window length in seconds
+     * @returns Map of lowercase subreddit name to observed average scores
+     */
+    getSubredditScoreSamples(sinceSeconds: number): Map<string, number[]> {
+        const samples = new Map<string, number[]>();
+
+        try {
+            const since = new Date(Date.now() - sinceSeconds * 1000).toISOString();
+            const rows = this.db.prepare(`
+                SELECT subreddit, avg_score
+                FROM subreddit_stats_history
+                WHERE recorded_at >= ? AND post_count > 0
+            `).all(since) as Array<{ subreddit: string; avg_score: number }>;
+
+            for (const row of rows) {
+                if (!samples.has(row.subreddit)) {
+                    samples.set(row.subreddit, []);
+                }
+                samples.get(row.subreddit)!.push(row.avg_score);
+            }
+        } catch (error) {
+            logger.error({ error }, 'Get subreddit score samples error');
+        }
+
+        return samples;
+    }
+
+    /**
+     * Deletes subreddit stats history older than the retention window
+     * @param retentionSeconds - How long to keep history
+     * @returns Number of deleted rows
+     */
+    cleanupSubredditStatsHistory(retentionSeconds: number = CACHE_TTL.SUBREDDIT_STATS_HISTORY): number {
+        try {
+            const cutoff = new Date(Date.now() - retentionSeconds * 1000).toISOString();
+            const result = this.db.prepare(`
+                DELETE FROM subreddit_stats_history
+                WHERE recorded_at < ?
+            `).run(cutoff);
+
+            if (result.changes > 0) {
+                logger.info({ deleted: result.changes }, 'Old subreddit stats history cleaned up');
+            }
+
+            return result.changes;
+        } catch (error) {
+            logger.error({ error }, 'Subreddit stats history cleanup error');
+            return 0;
+        }
+    }
 }
 
 /**
@@ -0,0 +1,195 @@
+/**
+ * Subreddit Registry
+ *
+ * SQLite-backed list of polled subreddits with their category, tier and
+ * NES baseline. Seeded from SUBREDDIT_CONFIG and editable at runtime;
+ * listeners are notified on every change so consumers can reload.
+ *
+ * @module cache/SubredditRegistry
+ */
+
+import type { ContentCategory, SubredditConfig } from '@icerik/shared';
+import { getDatabase } from './database.js';
+import { createChildLogger } from '../utils/logger.js';
+
+const logger = createChildLogger('subreddit-registry');
+
+/**
+ * Fields that can be changed on an existing subreddit
+ */
+export type SubredditUpdate = Partial<Omit<SubredditConfig, 'name'>>;
+
+/**
+ * Called after the registry changes
+ */
+export type SubredditRegistryListener = () => void;
+
+/**
+ * Custom error class for registry errors
+ */
+export class SubredditRegistryError extends Error {
+    constructor(
+        message: string,
+        public readonly statusCode: 404 | 409
+    ) {
+        super(message);
+        this.name = 'SubredditRegistryError';
+    }
+}
+
+interface SubredditRow {
+    name: string;
+    category: string;
+    tier: number;
+    baseline_score: number;
+    subscribers: number;
+}
+
+function rowToConfig(row: SubredditRow): SubredditConfig {
+    return {
+        name: row.name,
+        category: row.category as ContentCategory,
+        tier: row.tier as 1 | 2 | 3,
+        baselineScore: row.baseline_score,
+        subscribers: row.subscribers,
+    };
+}
+
+/**
+ * SubredditRegistry class
+ * Reads are served from an in-memory copy that is reloaded after each write.
+ */
+export class SubredditRegistry {
+    private db = getDatabase();
+    private configs: Map<string, SubredditConfig> | null = null;
+    private listeners = new Set<SubredditRegistryListener>();
+
+    /**
+     * Lists all subreddits (tier ascending, then largest first)
+     */
+    list(): SubredditConfig[] {
+        return Array.from(this.load().values());
+    }
+
+    /**
+     * Gets a subreddit by name (case-insensitive)
+     */
+    get(name: string): SubredditConfig | undefined {
+        return this.load().get(name.toLowerCase());
+    }
+
+    /**
+     * Adds a subreddit
+     * @throws SubredditRegistryError (409) if it already exists
+     */
+    create(config: SubredditConfig): SubredditConfig {
+        if (this.get(config.name)) {
+            throw new SubredditRegistryError(`Subreddit already exists: ${config.name}`, 409);
+        }
+
+        this.db.prepare(`
+            INSERT INTO subreddit_registry (name, category, tier, baseline_score, subscribers)
+            VALUES (?, ?, ?, ?, ?)
+        `).run(config.name, config.category, config.tier, config.baselineScore, config.subscribers);
+
+        logger.info({ subreddit: config.name, tier: config.tier }, 'Subreddit added');
+        this.changed();
+
+        return this.get(config.name)!;
+    }
+
+    /**
+     * Updates category, tier, baseline or subscribers of a subreddit
+     * @throws SubredditRegistryError (404) if it does not exist
+     */
+    update(name: string, changes: SubredditUpdate): SubredditConfig {
+        const current = this.get(name);
+        if (!current) {
+            throw new SubredditRegistryError(`Subreddit not found: ${name}`, 404);
+        }
+
+        const next: SubredditConfig = { ...current, ...changes, name: current.name };
+
+        this.db.prepare(`
+            UPDATE subreddit_registry
+            SET category = ?, tier = ?, baseline_score = ?, subscribers = ?, updated_at = datetime('now')
+            WHERE name = ?
+        `).run(next.category, next.tier, next.baselineScore, next.subscribers, current.name);
+
+        logger.info({ subreddit: current.name, changes }, 'Subreddit updated');
+        this.changed();
+
+        return next;
+    }
+
+    /**
+     * Removes a subreddit
+     * @throws SubredditRegistryError (404) if it does not exist
+     */
+    remove(name: string): void {
+        const result = this.db.prepare('DELETE FROM subreddit_registry WHERE name = ?').run(name);
+
+        if (result.changes === 0) {
+            throw new SubredditRegistryError(`Subreddit not found: ${name}`, 404);
+        }
+
+        logger.info({ subreddit: name }, 'Subreddit removed');
+        this.changed();
+    }
+
+    /**
+     * Registers a change listener
+     * @returns Function that unregisters the listener
+     */
+    onChange(listener: SubredditRegistryListener): () => void {
+        this.listeners.add(listener);
+        return () => {
+            this.listeners.delete(listener);
+        };
+    }
+
+    private load(): Map<string, SubredditConfig> {
+        if (!this.configs) {
+            const rows = this.db.prepare(`
+                SELECT name, category, tier, baseline_score, subscribers
+                FROM subreddit_registry
+                ORDER BY tier ASC, subscribers DESC, name ASC
+            `).all() as SubredditRow[];
+
+            this.configs = new Map(rows.map(row => [row.name.toLowerCase(), rowToConfig(row)]));
+        }
+        return this.configs;
+    }
+
+    private changed(): void {
+        this.configs = null;
+
+        for (const listener of this.listeners) {
+            try {
+                listener();
+            } catch (error) {
+                logger.error({ error }, 'Subreddit registry listener failed');
+            }
+        }
+    }
+}
+
+// Singleton instance
+let registryInstance: SubredditRegistry | null = null;
+
+/**
+ * Gets the singleton SubredditRegistry instance
+ */
+export function getSubredditRegistry(): SubredditRegistry {
+    if (!registryInstance) {
+        registryInstance = new SubredditRegistry();
+    }
+    return registryInstance;
+}
+
+/**
+ * Resets the registry instance (for testing)
+ */
+export function resetSubredditRegistry(): void {
+    registryInstance = null;
+}
@@ -257,6 +257,60 @@ describe('CacheService', () => {
         });
     });
 
+    describe('Trend Snapshots', () => {
+        it('should record snapshots and return history oldest first', () => {
+            cache.recordTrendSnapshots(mockTrendData);
+            cache.recordTrendSnapshots([{ ...mockTrendData[0], score: 1500, nes: 90 }]);
+
+            const history = cache.getTrendHistory('test-1');
+
+            expect(history.subreddit).toBe('technology');
+            expect(history.snapshots).toHaveLength(2);
+            expect(history.snapshots[0].score).toBe(1000);
+            expect(history.snapshots[1].score).toBe(1500);
+            expect(history.scoreDelta).toBe(500);
+            expect(history.nesDelta).toBeCloseTo(4.5);
+        });
+
+        it('should limit history to the most recent snapshots', () => {
+            for (let i = 0; i < 5; i++) {
+                cache.recordTrendSnapshots([{ ...mockTrendData[0], score: 1000 + i }]);
+            }
+
+            const history = cache.getTrendHistory('test-1', 2);
+
+            expect(history.snapshots).toHaveLength(2);
+            expect(history.snapshots[1].score).toBe(1004);
+        });
+
+        it('should return the most recent snapshots per trend in one batch', () => {
+            for (let i = 0; i < 4; i++) {
+                cache.recordTrendSnapshots(mockTrendData.map(t => ({ ...t, score: t.score + i })));
+            }
+
+            const recent = cache.getRecentSnapshots(['test-1', 'test-2', 'missing'], 3);
+
+            expect(recent.get('test-1')!.map(s => s.score)).toEqual([1001, 1002, 1003]);
+            expect(recent.get('test-2')).toHaveLength(3);
+            expect(recent.has('missing')).toBe(false);
+        });
+
+        it('should return empty history for unknown trend', () => {
+            const history = cache.getTrendHistory('nonexistent');
+
+            expect(history.snapshots).toHaveLength(0);
+            expect(history.subreddit).toBeNull();
+        });
+
+        it('should clean up snapshots outside the retention window', () => {
+            cache.recordTrendSnapshots(mockTrendData);
+
+            expect(cache.cleanupTrendSnapshots(3600)).toBe(0);
+            expect(cache.cleanupTrendSnapshots(-1)).toBe(2);
+            expect(cache.getTrendHistory('test-1').snapshots).toHaveLength(0);
+        });
+    });
+
     describe('Request Logging', () => {
         it('should log requests without throwing', () => {
             expect(() => {
@@ -283,5 +337,6 @@ describe('CACHE_TTL Constants', () => {
         expect(CACHE_TTL.TRENDS).toBe(5 * 60); // 5 minutes
         expect(CACHE_TTL.SUMMARY).toBe(10 * 60); // 10 minutes
         expect(CACHE_TTL.SUBREDDIT_STATS).toBe(60 * 60); // 1 hour
+        expect(CACHE_TTL.TREND_SNAPSHOTS).toBe(7 * 24 * 60 * 60); // 7 days
     });
 });
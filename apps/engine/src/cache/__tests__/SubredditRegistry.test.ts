@@ -0,0 +1,142 @@
+/**
+ * Subreddit Registry Tests
+ *
+ * Unit tests for the SQLite-backed subreddit registry and its consumers.
+ *
+ * @module cache/__tests__/SubredditRegistry.test
+ */
+
+import { describe, it, expect, beforeEach, afterEach, afterAll } from 'vitest';
+import { SUBREDDIT_CONFIG } from '@icerik/shared';
+import type { SourcePost } from '@icerik/shared';
+import {
+    SubredditRegistryError,
+    getSubredditRegistry,
+    resetSubredditRegistry,
+} from '../SubredditRegistry.js';
+import { closeDatabase } from '../database.js';
+import { NesCalculator } from '../../processing/nesCalculator.js';
+import { PollingScheduler } from '../../worker/scheduler.js';
+
+const TEST_SUBREDDIT = 'registry_test_sub';
+
+function makePost(score: number): SourcePost {
+    return {
+        id: 'registry-post',
+        source: 'reddit',
+        channel: TEST_SUBREDDIT,
+        title: 'Registry test post',
+        body: '',
+        author: 'tester',
+        score,
+        numComments: 10,
+        approvalRatio: 0.9,
+        createdUtc: Date.now() / 1000 - 3600,
+        url: '',
+        permalink: '',
+        domain: '',
+        isPinned: false,
+        isNsfw: false,
+    };
+}
+
+describe('SubredditRegistry', () => {
+    beforeEach(() => {
+        resetSubredditRegistry();
+    });
+
+    afterEach(() => {
+        const registry = getSubredditRegistry();
+        if (registry.get(TEST_SUBREDDIT)) {
+            registry.remove(TEST_SUBREDDIT);
+        }
+    });
+
+    afterAll(() => {
+        resetSubredditRegistry();
+        closeDatabase();
+    });
+
+    it('should be seeded from the static config', () => {
+        const registry = getSubredditRegistry();
+
+        for (const config of SUBREDDIT_CONFIG) {
+            expect(registry.get(config.name)).toBeDefined();
+        }
+    });
+
+    it('should create, update and remove subreddits', () => {
+        const registry = getSubredditRegistry();
+
+        const created = registry.create({
+            name: TEST_SUBREDDIT,
+            category: 'gaming',
+            tier: 3,
+            baselineScore: 200,
+            subscribers: 1000,
+        });
+        expect(created.tier).toBe(3);
+        expect(registry.get(TEST_SUBREDDIT.toUpperCase())?.name).toBe(TEST_SUBREDDIT);
+
+        const updated = registry.update(TEST_SUBREDDIT, { tier: 1, baselineScore: 400 });
+        expect(updated).toMatchObject({ tier: 1, baselineScore: 400, category: 'gaming' });
+
+        registry.remove(TEST_SUBREDDIT);
+        expect(registry.get(TEST_SUBREDDIT)).toBeUndefined();
+    });
+
+    it('should reject duplicates and unknown names', () => {
+        const registry = getSubredditRegistry();
+        registry.create({ name: TEST_SUBREDDIT, category: 'gaming', tier: 3, baselineScore: 200, subscribers: 0 });
+
+        expect(() => registry.create({
+            name: TEST_SUBREDDIT, category: 'news', tier: 1, baselineScore: 1, subscribers: 0,
+        })).toThrow(SubredditRegistryError);
+        expect(() => registry.update('no_such_subreddit_xyz', { tier: 2 })).toThrow(SubredditRegistryError);
+        expect(() => registry.remove('no_such_subreddit_xyz')).toThrow(SubredditRegistryError);
+    });
+
+    it('should notify listeners on change', () => {
+        const registry = getSubredditRegistry();
+        let calls = 0;
+        const unsubscribe = registry.onChange(() => calls++);
+
+        registry.create({ name: TEST_SUBREDDIT, category: 'gaming', tier: 3, baselineScore: 200, subscribers: 0 });
+        registry.update(TEST_SUBREDDIT, { tier: 2 });
+        unsubscribe();
+        registry.remove(TEST_SUBREDDIT);
+
+        expect(calls).toBe(2);
+    });
+
+    it('should apply baseline changes to NES without recreating the calculator', () => {
+        const registry = getSubredditRegistry();
+        registry.create({ name: TEST_SUBREDDIT, category: 'gaming', tier: 3, baselineScore: 1000, subscribers: 0 });
+
+        const calculator = new NesCalculator();
+        const before = calculator.calculateNes(makePost(1000));
+
+        registry.update(TEST_SUBREDDIT, { baselineScore: 500, category: 'news' });
+        const after = calculator.calculateNes(makePost(1000));
+
+        expect(after.category).toBe('news');
+        expect(after.nes).toBeCloseTo(before.nes * 2, 1);
+    });
+
+    it('should resync scheduler jobs when the registry changes', () => {
+        const registry = getSubredditRegistry();
+        const scheduler = new PollingScheduler();
+        scheduler.initialize();
+
+        const tier3Count = () => scheduler.getStatus().find(job => job.tier === 3)?.subredditCount ?? 0;
+        const initial = tier3Count();
+
+        registry.create({ name: TEST_SUBREDDIT, category: 'gaming', tier: 3, baselineScore: 200, subscribers: 0 });
+        expect(tier3Count()).toBe(initial + 1);
+
+        registry.remove(TEST_SUBREDDIT);
+        expect(tier3Count()).toBe(initial);
+
+        scheduler.dispose();
+    });
+});
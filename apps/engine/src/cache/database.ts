@@ -10,6 +10,7 @@
 import Database from 'better-sqlite3';
 import path from 'path';
 import fs from 'fs';
+import { SUBREDDIT_CONFIG } from '@icerik/shared';
 import { createChildLogger } from '../utils/logger.js';
 
 const logger = createChildLogger('database');
@@ -28,7 +29,7 @@ let dbInstance: Database.Database | null = null;
 /**
  * Schema version for migrations
  */
-const SCHEMA_VERSION = 1;
+const SCHEMA_VERSION = 13;
 
 /**
  * SQL statements for schema initialization
@@ -82,8 +83,259 @@ CREATE TABLE IF NOT EXISTS request_log (
 
 -- Index for time-based queries on request log
 CREATE INDEX IF NOT EXISTS idx_request_log_created ON request_log(created_at);
+
+-- Trend snapshots (v2)
+-- One row per post per poll, so a trend's engagement can be followed over time
+CREATE TABLE IF NOT EXISTS trend_snapshots (
+    id INTEGER PRIMARY KEY AUTOINCREMENT,
+    post_id TEXT NOT NULL,
+    subreddit TEXT NOT NULL,
+    score INTEGER NOT NULL,
+    num_comments INTEGER NOT NULL,
+    upvote_ratio REAL NOT NULL,
+    nes REAL NOT NULL,
+    captured_at TEXT NOT NULL DEFAULT (datetime('now'))
+);
+
+-- Index for per-post time series lookups
+CREATE INDEX IF NOT EXISTS idx_trend_snapshots_post ON trend_snapshots(post_id, captured_at);
+
+-- Index for retention cleanup
+CREATE INDEX IF NOT EXISTS idx_trend_snapshots_captured ON trend_snapshots(captured_at);
+
+-- Subreddit registry (v3)
+-- Runtime-editable list of polled subreddits, seeded from SUBREDDIT_CONFIG
+CREATE TABLE IF NOT EXISTS subreddit_registry (
+    name TEXT PRIMARY KEY COLLATE NOCASE,
+    category TEXT NOT NULL,
+    tier INTEGER NOT NULL CHECK (tier IN (1, 2, 3)),
+    baseline_score REAL NOT NULL,
+    subscribers INTEGER NOT NULL DEFAULT 0,
+    created_at TEXT NOT NULL DEFAULT (datetime('now')),
+    updated_at TEXT NOT NULL DEFAULT (datetime('now'))
+);
+
+-- Subreddit stats history (v4)
+-- One row per poll per subreddit, used to learn rolling NES baselines
+CREATE TABLE IF NOT EXISTS subreddit_stats_history (
+    id INTEGER PRIMARY KEY AUTOINCREMENT,
+    subreddit TEXT NOT NULL,
+    avg_score REAL NOT NULL,
+    avg_comments REAL NOT NULL,
+    post_count INTEGER NOT NULL,
+    recorded_at TEXT NOT NULL DEFAULT (datetime('now'))
+);
+
+-- Index for per-subreddit window queries and retention cleanup
+CREATE INDEX IF NOT EXISTS idx_subreddit_stats_history ON subreddit_stats_history(subreddit, recorded_at);
+CREATE INDEX IF NOT EXISTS idx_subreddit_stats_history_recorded ON subreddit_stats_history(recorded_at);
+
+-- Video render jobs (v5)
+-- Persistent render queue; survives restarts
+CREATE TABLE IF NOT EXISTS video_jobs (
+    id TEXT PRIMARY KEY,
+    platform TEXT NOT NULL,
+    title TEXT NOT NULL,
+    project TEXT NOT NULL,
+    status TEXT NOT NULL DEFAULT 'queued',
+    progress INTEGER NOT NULL DEFAULT 0,
+    current_step TEXT NOT NULL DEFAULT 'Queued',
+    estimated_time_remaining INTEGER,
+    result TEXT,
+    error TEXT,
+    attempts INTEGER NOT NULL DEFAULT 0,
+    created_at TEXT NOT NULL,
+    updated_at TEXT NOT NULL,
+    started_at TEXT,
+    completed_at TEXT
+);
+
+-- Index for picking the next queued job
+CREATE INDEX IF NOT EXISTS idx_video_jobs_status ON video_jobs(status, created_at);
+
+-- Background music library (v7)
+-- Index of audio files under MUSIC_LIBRARY_DIR; rebuilt by scanning
+CREATE TABLE IF NOT EXISTS music_tracks (
+    library_dir TEXT NOT NULL,
+    id TEXT NOT NULL,
+    path TEXT NOT NULL,
+    title TEXT NOT NULL,
+    moods TEXT NOT NULL,
+    bpm INTEGER,
+    duration_seconds REAL,
+    file_size INTEGER NOT NULL,
+    modified_at TEXT NOT NULL,
+    indexed_at TEXT NOT NULL,
+    PRIMARY KEY (library_dir, id)
+);
+
+-- Usage accounting (v8)
+-- One row per metered provider call, cost computed at record time
+CREATE TABLE IF NOT EXISTS usage_events (
+    id INTEGER PRIMARY KEY AUTOINCREMENT,
+    provider TEXT NOT NULL,
+    model TEXT,
+    operation TEXT,
+    trend_id TEXT,
+    platform TEXT,
+    unit TEXT NOT NULL,
+    input_units INTEGER NOT NULL,
+    output_units INTEGER NOT NULL DEFAULT 0,
+    estimated INTEGER NOT NULL DEFAULT 0,
+    cost_usd REAL NOT NULL,
+    created_at TEXT NOT NULL
+);
+
+-- Indexes for date-range and per-trend rollups
+CREATE INDEX IF NOT EXISTS idx_usage_events_created ON usage_events(created_at);
+CREATE INDEX IF NOT EXISTS idx_usage_events_trend ON usage_events(trend_id, created_at);
+
+-- Brand voice profiles (v9)
+-- Named personas applied to script generation; list fields stored as JSON
+CREATE TABLE IF NOT EXISTS brand_voice_profiles (
+    id TEXT PRIMARY KEY,
+    name TEXT NOT NULL,
+    description TEXT,
+    tone TEXT,
+    vocabulary TEXT NOT NULL,
+    banned_phrases TEXT NOT NULL,
+    preferred_ctas TEXT NOT NULL,
+    sample_scripts TEXT NOT NULL,
+    emoji_policy TEXT NOT NULL,
+    created_at TEXT NOT NULL,
+    updated_at TEXT NOT NULL
+);
+
+-- Script library (v10)
+-- Every generated, varied, iterated or translated script; the full
+-- PlatformScript, trend and request options are stored as JSON
+CREATE TABLE IF NOT EXISTS scripts (
+    seq INTEGER PRIMARY KEY AUTOINCREMENT,
+    id TEXT NOT NULL UNIQUE,
+    trend_id TEXT NOT NULL,
+    trend_title TEXT NOT NULL,
+    platform TEXT NOT NULL,
+    origin TEXT NOT NULL,
+    language TEXT,
+    title TEXT NOT NULL,
+    hook TEXT,
+    body TEXT NOT NULL,
+    score REAL,
+    script TEXT NOT NULL,
+    trend TEXT,
+    options TEXT,
+    created_at TEXT NOT NULL,
+    parent_id TEXT,
+    root_id TEXT,
+    change TEXT
+);
+
+-- Indexes for the newest-first list and per-trend lookups
+CREATE INDEX IF NOT EXISTS idx_scripts_created ON scripts(created_at);
+CREATE INDEX IF NOT EXISTS idx_scripts_trend ON scripts(trend_id, created_at);
+
+-- Script versions (v11)
+-- Iterations and restores point at the version they came from; every
+-- version of a script shares the root_id of the first one
+CREATE INDEX IF NOT EXISTS idx_scripts_root ON scripts(root_id, seq);
+
+-- Script ratings (v12)
+-- One team rating per library script
+CREATE TABLE IF NOT EXISTS script_ratings (
+    script_id TEXT PRIMARY KEY,
+    rating TEXT NOT NULL,
+    stars INTEGER,
+    feedback TEXT,
+    created_at TEXT NOT NULL,
+    updated_at TEXT NOT NULL
+);
+
+-- Few-shot examples promoted from highly rated scripts
+CREATE TABLE IF NOT EXISTS few_shot_examples (
+    id TEXT PRIMARY KEY,
+    platform TEXT NOT NULL,
+    category TEXT NOT NULL,
+    example TEXT NOT NULL,
+    created_at TEXT NOT NULL,
+    updated_at TEXT NOT NULL
+);
+
+-- API keys (v13)
+-- Only the SHA-256 of a key is stored; the prefix identifies it in lists
+CREATE TABLE IF NOT EXISTS api_keys (
+    id TEXT PRIMARY KEY,
+    name TEXT NOT NULL,
+    role TEXT NOT NULL,
+    key_hash TEXT NOT NULL UNIQUE,
+    prefix TEXT NOT NULL,
+    created_at TEXT NOT NULL,
+    last_used_at TEXT,
+    revoked_at TEXT
+);
+
+-- Full-text index over title, hook and body, kept in sync by triggers
+CREATE VIRTUAL TABLE IF NOT EXISTS scripts_fts USING fts5(
+    title, hook, body,
+    content='scripts',
+    content_rowid='seq',
+    tokenize='unicode61 remove_diacritics 2'
+);
+
+CREATE TRIGGER IF NOT EXISTS scripts_fts_insert AFTER INSERT ON scripts BEGIN
+    INSERT INTO scripts_fts(rowid, title, hook, body) VALUES (new.seq, new.title, new.hook, new.body);
+END;
+
+CREATE TRIGGER IF NOT EXISTS scripts_fts_delete AFTER DELETE ON scripts BEGIN
+    INSERT INTO scripts_fts(scripts_fts, rowid, title, hook, body) VALUES ('delete', old.seq, old.title, old.hook, old.body);
+END;
 `;
 
+/**
+ * Seeds the subreddit registry from the static config
+ * Runs once, when upgrading from a schema without the registry
+ * @param db - Database instance
+ */
+function seedSubredditRegistry(db: Database.Database): void {
+    const insert = db.prepare(`
+        INSERT OR IGNORE INTO subreddit_registry (name, category, tier, baseline_score, subscribers)
+        VALUES (?, ?, ?, ?, ?)
+    `);
+
+    for (const config of SUBREDDIT_CONFIG) {
+        insert.run(config.name, config.category, config.tier, config.baselineScore, config.subscribers);
+    }
+
+    logger.info({ count: SUBREDDIT_CONFIG.length }, 'Subreddit registry seeded');
+}
+
+/**
+ * Adds the encode ETA column to video_jobs tables created by schema v5
+ * @param db - Database instance
+ */
+function addVideoJobsEtaColumn(db: Database.Database): void {
+    const columns = db.prepare('PRAGMA table_info(video_jobs)').all() as Array<{ name: string }>;
+    if (!columns.some(column => column.name === 'estimated_time_remaining')) {
+        db.exec('ALTER TABLE video_jobs ADD COLUMN estimated_time_remaining INTEGER');
+    }
+}
+
+/**
+ * Adds the version tree columns to scripts tables created by schema v10.
+ * Existing scripts become the roots of their own trees.
+ * @param db - Database instance
+ */
+function addScriptVersionColumns(db: Database.Database): void {
+    const columns = db.prepare('PRAGMA table_info(scripts)').all() as Array<{ name: string }>;
+    if (!columns.some(column => column.name === 'root_id')) {
+        db.exec(`
+            ALTER TABLE scripts ADD COLUMN parent_id TEXT;
+            ALTER TABLE scripts ADD COLUMN root_id TEXT;
+            ALTER TABLE scripts ADD COLUMN change TEXT;
+            UPDATE scripts SET root_id = id;
+        `);
+    }
+}
+
 /**
  * Ensures the data directory exists
  */
@@ -117,8 +369,21 @@ function initializeSchema(db: Database.Database): void {
         // Execute schema creation in a transaction
         db.exec('BEGIN TRANSACTION');
         try {
+            // Before the schema, which indexes the new columns
+            if (currentVersion === 10) {
+                addScriptVersionColumns(db);
+            }
+
             db.exec(SCHEMA_SQL);
 
+            if (currentVersion < 3) {
+                seedSubredditRegistry(db);
+            }
+
+            if (currentVersion === 5) {
+                addVideoJobsEtaColumn(db);
+            }
+
             // Record schema version
             db.prepare('INSERT OR REPLACE INTO schema_version (version) VALUES (?)').run(SCHEMA_VERSION);
 
@@ -198,6 +463,8 @@ export function clearAllCache(): void {
         db.exec('DELETE FROM trend_cache');
         db.exec('DELETE FROM subreddit_stats');
         db.exec('DELETE FROM request_log');
+        db.exec('DELETE FROM trend_snapshots');
+        db.exec('DELETE FROM subreddit_stats_history');
         db.exec('COMMIT');
         logger.info('All cache data cleared');
     } catch (error) {
@@ -214,6 +481,7 @@ export function getDatabaseStats(): {
     trendCacheCount: number;
     subredditStatsCount: number;
     requestLogCount: number;
+    trendSnapshotCount: number;
     dbSizeBytes: number;
 } {
     const db = getDatabase();
@@ -221,6 +489,7 @@ export function getDatabaseStats(): {
     const trendCacheCount = (db.prepare('SELECT COUNT(*) as count FROM trend_cache').get() as { count: number }).count;
     const subredditStatsCount = (db.prepare('SELECT COUNT(*) as count FROM subreddit_stats').get() as { count: number }).count;
     const requestLogCount = (db.prepare('SELECT COUNT(*) as count FROM request_log').get() as { count: number }).count;
+    const trendSnapshotCount = (db.prepare('SELECT COUNT(*) as count FROM trend_snapshots').get() as { count: number }).count;
 
     let dbSizeBytes = 0;
     try {
@@ -234,6 +503,7 @@ export function getDatabaseStats(): {
         trendCacheCount,
         subredditStatsCount,
         requestLogCount,
+        trendSnapshotCount,
         dbSizeBytes,
     };
 }
@@ -23,3 +23,13 @@ export {
     CACHE_TTL,
     type CacheResult
 } from './CacheService.js';
+
+// Subreddit registry
+export {
+    SubredditRegistry,
+    SubredditRegistryError,
+    getSubredditRegistry,
+    resetSubredditRegistry,
+    type SubredditUpdate,
+    type SubredditRegistryListener
+} from './SubredditRegistry.js';
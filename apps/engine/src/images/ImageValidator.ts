@@ -1,27 +1,53 @@
 /**
- * Image Validator using Gemini Vision
+ * Image Validator using LLM Vision
  * 
- * Validates images for text/overlay content using Gemini's vision capabilities.
+ * Validates images for text/overlay content using the vision capabilities of the
+ * configured LLM provider (Gemini by default).
  * Used to filter out images with embedded text that would interfere with video overlays.
  * 
  * @module images/ImageValidator
  */
 
 import { createChildLogger } from '../utils/logger.js';
-import { getEnv } from '../utils/env.js';
+import { getLLMProvider, type LLMProvider } from '../ai/llm/index.js';
 
 const logger = createChildLogger('image-validator');
 
 /**
- * Gemini Vision Configuration
+ * Vision Configuration
  */
 const VISION_CONFIG = {
-    BASE_URL: 'https://generativelanguage.googleapis.com/v1beta',
-    MODEL: 'gemini-2.0-flash',
-    TIMEOUT_MS: 15000,
-    MAX_RETRIES: 2,
+    DOWNLOAD_TIMEOUT_MS: 15000,
 } as const;
 
+/**
+ * Validation prompt
+ */
+const VALIDATION_PROMPT = `Analyze this image and determine if it contains any text, watermarks, or overlays.
+
+Your task is to detect:
+1. **Visible Text**: Any readable text, titles, captions, or labels embedded in the image
+2. **Watermarks**: Logo watermarks, photographer credits, stock photo marks
+3. **Overlays**: Graphical overlays, banners, badges, or borders with text
+
+Respond in this exact JSON format:
+{
+  "hasText": true/false,
+  "hasOverlay": true/false,
+  "detectedElements": ["list", "of", "detected", "items"],
+  "confidence": 0.0-1.0
+}
+
+If the image is clean (no text, watermarks, or overlays), respond with:
+{
+  "hasText": false,
+  "hasOverlay": false,
+  "detectedElements": [],
+  "confidence": 0.95
+}
+
+ONLY respond with valid JSON, no other text.`;
+
 /**
  * Validation result for an image
  */
@@ -35,43 +61,6 @@ export interface ImageValidationResult {
     rawAnalysis?: string;       // Raw AI analysis for debugging
 }
 
-/**
- * Vision API request with image URL
- */
-interface VisionRequest {
-    contents: Array<{
-        parts: Array<{
-            text?: string;
-            inline_data?: {
-                mime_type: string;
-                data: string;
-            };
-            file_data?: {
-                file_uri: string;
-                mime_type: string;
-            };
-        }>;
-    }>;
-    generationConfig: {
-        temperature: number;
-        maxOutputTokens: number;
-    };
-}
-
-/**
- * Gemini API Response
- */
-interface GeminiVisionResponse {
-    candidates: Array<{
-        content: {
-            parts: Array<{
-                text: string;
-            }>;
-        };
-        finishReason: string;
-    }>;
-}
-
 /**
  * Image Validator Error
  */
@@ -85,24 +74,17 @@ export class ImageValidatorError extends Error {
     }
 }
 
-/**
- * Sleep utility
- */
-function sleep(ms: number): Promise<void> {
-    return new Promise(resolve => setTimeout(resolve, ms));
-}
-
 /**
  * Image Validator Class
  */
 export class ImageValidator {
-    private apiKey: string;
+    private llm: LLMProvider;
 
-    constructor(apiKey?: string) {
-        this.apiKey = apiKey || getEnv().GEMINI_API_KEY || '';
+    constructor(provider?: LLMProvider) {
+        this.llm = provider ?? getLLMProvider('image-validation');
 
-        if (!this.apiKey) {
-            logger.warn('Gemini API key not configured - image validation will be disabled');
+        if (!this.llm.isConfigured()) {
+            logger.warn('LLM provider not configured - image validation will be disabled');
         }
     }
 
@@ -110,7 +92,7 @@ export class ImageValidator {
      * Checks if the validator is properly configured
      */
     isConfigured(): boolean {
-        return !!this.apiKey;
+        return this.llm.isConfigured();
     }
 
     /**
@@ -130,138 +112,46 @@ export class ImageValidator {
             };
         }
 
-        const url = `${VISION_CONFIG.BASE_URL}/models/${VISION_CONFIG.MODEL}:generateContent?key=${this.apiKey}`;
-
-        const prompt = `Analyze this image and determine if it contains any text, watermarks, or overlays.
-
-Your task is to detect:
-1. **Visible Text**: Any readable text, titles, captions, or labels embedded in the image
-2. **Watermarks**: Logo watermarks, photographer credits, stock photo marks
-3. **Overlays**: Graphical overlays, banners, badges, or borders with text
-
-Respond in this exact JSON format:
-{
-  "hasText": true/false,
-  "hasOverlay": true/false,
-  "detectedElements": ["list", "of", "detected", "items"],
-  "confidence": 0.0-1.0
-}
+        try {
+            const image = await this.downloadImage(imageUrl);
 
-If the image is clean (no text, watermarks, or overlays), respond with:
-{
-  "hasText": false,
-  "hasOverlay": false,
-  "detectedElements": [],
-  "confidence": 0.95
-}
+            // Provider retries transient errors itself
+            const analysisText = await this.llm.generateContent(VALIDATION_PROMPT, {
+                images: [image],
+                temperature: 0.1, // Low temperature for consistent analysis
+                maxTokens: 256,
+                context: { operation: 'image-validation' },
+            });
 
-ONLY respond with valid JSON, no other text.`;
+            return this.parseAnalysis(imageUrl, analysisText);
 
-        const requestBody: VisionRequest = {
-            contents: [
-                {
-                    parts: [
-                        { text: prompt },
-                        {
-                            file_data: {
-                                file_uri: imageUrl,
-                                mime_type: this.getMimeType(imageUrl),
-                            },
-                        },
-                    ],
-                },
-            ],
-            generationConfig: {
-                temperature: 0.1, // Low temperature for consistent analysis
-                maxOutputTokens: 256,
-            },
-        };
+        } catch (error) {
+            logger.error({ error, imageUrl }, 'Image validation failed');
 
-        for (let attempt = 1; attempt <= VISION_CONFIG.MAX_RETRIES; attempt++) {
-            try {
-                const controller = new AbortController();
-                const timeoutId = setTimeout(() => controller.abort(), VISION_CONFIG.TIMEOUT_MS);
-
-                const response = await fetch(url, {
-                    method: 'POST',
-                    headers: {
-                        'Content-Type': 'application/json',
-                    },
-                    body: JSON.stringify(requestBody),
-                    signal: controller.signal,
-                });
-
-                clearTimeout(timeoutId);
-
-                if (!response.ok) {
-                    const errorBody = await response.text();
-
-                    // If file_data approach fails, try with image download
-                    if (response.status === 400 && attempt === 1) {
-                        logger.warn('file_data approach failed, trying inline_data');
-                        return await this.validateImageWithDownload(imageUrl);
-                    }
-
-                    throw new ImageValidatorError(
-                        `Vision API error: ${response.status} - ${errorBody}`,
-                        response.status >= 500
-                    );
-                }
-
-                const data: GeminiVisionResponse = await response.json();
-
-                if (!data.candidates || data.candidates.length === 0) {
-                    throw new ImageValidatorError('No analysis generated', true);
-                }
-
-                const analysisText = data.candidates[0]?.content?.parts?.[0]?.text || '';
-
-                return this.parseAnalysis(imageUrl, analysisText);
-
-            } catch (error) {
-                if (error instanceof ImageValidatorError && !error.retryable) {
-                    throw error;
-                }
-
-                if (attempt < VISION_CONFIG.MAX_RETRIES) {
-                    await sleep(500 * attempt);
-                    continue;
-                }
-
-                logger.error({ error, imageUrl }, 'Image validation failed');
-
-                // Return as "clean" on error to not block the flow
-                return {
-                    imageUrl,
-                    isClean: true,
-                    hasText: false,
-                    hasOverlay: false,
-                    confidenceScore: 0,
-                    detectedElements: [],
-                    rawAnalysis: error instanceof Error ? error.message : 'Unknown error',
-                };
-            }
+            // Return as "clean" on error to not block the flow
+            return {
+                imageUrl,
+                isClean: true,
+                hasText: false,
+                hasOverlay: false,
+                confidenceScore: 0,
+                detectedElements: [],
+                rawAnalysis: error instanceof Error ? error.message : 'Unknown error',
+            };
         }
-
-        // Should not reach here, but return clean as fallback
-        return {
-            imageUrl,
-            isClean: true,
-            hasText: false,
-            hasOverlay: false,
-            confidenceScore: 0,
-            detectedElements: [],
-        };
     }
 
     /**
-     * Validate image by downloading and sending as base64
+     * Download an image and encode it for the vision request
      */
-    private async validateImageWithDownload(imageUrl: string): Promise<ImageValidationResult> {
+    private async downloadImage(imageUrl: string): Promise<{ mimeType: string; data: string }> {
+        const controller = new AbortController();
+        const timeoutId = setTimeout(() => controller.abort(), VISION_CONFIG.DOWNLOAD_TIMEOUT_MS);
+
         try {
-            // Download image
             const imageResponse = await fetch(imageUrl, {
                 headers: { 'Accept': 'image/*' },
+                signal: controller.signal,
             });
 
             if (!imageResponse.ok) {
@@ -269,73 +159,13 @@ ONLY respond with valid JSON, no other text.`;
             }
 
             const imageBuffer = await imageResponse.arrayBuffer();
-            const base64Image = Buffer.from(imageBuffer).toString('base64');
-            const mimeType = imageResponse.headers.get('content-type') || 'image/jpeg';
-
-            const url = `${VISION_CONFIG.BASE_URL}/models/${VISION_CONFIG.MODEL}:generateContent?key=${this.apiKey}`;
 
-            const prompt = `Analyze this image for text, watermarks, or overlays.
-
-Respond ONLY in this exact JSON format:
-{
-  "hasText": true/false,
-  "hasOverlay": true/false,
-  "detectedElements": [],
-  "confidence": 0.95
-}`;
-
-            const requestBody = {
-                contents: [
-                    {
-                        parts: [
-                            { text: prompt },
-                            {
-                                inline_data: {
-                                    mime_type: mimeType,
-                                    data: base64Image,
-                                },
-                            },
-                        ],
-                    },
-                ],
-                generationConfig: {
-                    temperature: 0.1,
-                    maxOutputTokens: 256,
-                },
-            };
-
-            const controller = new AbortController();
-            const timeoutId = setTimeout(() => controller.abort(), VISION_CONFIG.TIMEOUT_MS);
-
-            const response = await fetch(url, {
-                method: 'POST',
-                headers: { 'Content-Type': 'application/json' },
-                body: JSON.stringify(requestBody),
-                signal: controller.signal,
-            });
-
-            clearTimeout(timeoutId);
-
-            if (!response.ok) {
-                throw new ImageValidatorError(`Vision API error: ${response.status}`, false);
-            }
-
-            const data: GeminiVisionResponse = await response.json();
-            const analysisText = data.candidates?.[0]?.content?.parts?.[0]?.text || '';
-
-            return this.parseAnalysis(imageUrl, analysisText);
-
-        } catch (error) {
-            logger.error({ error, imageUrl }, 'Image validation with download failed');
             return {
-                imageUrl,
-                isClean: true,
-                hasText: false,
-                hasOverlay: false,
-                confidenceScore: 0,
-                detectedElements: [],
-                rawAnalysis: error instanceof Error ? error.message : 'Unknown error',
+                mimeType: imageResponse.headers.get('content-type') || this.getMimeType(imageUrl),
+                data: Buffer.from(imageBuffer).toString('base64'),
             };
+        } finally {
+            clearTimeout(timeoutId);
         }
     }
 
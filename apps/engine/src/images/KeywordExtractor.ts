@@ -7,28 +7,16 @@
  * @module images/KeywordExtractor
  */
 
+import type { ScriptLanguage } from '@icerik/shared';
 import { createChildLogger } from '../utils/logger.js';
+import { isStopword, DEFAULT_SCRIPT_LANGUAGE } from '../language/index.js';
 
 const logger = createChildLogger('keyword-extractor');
 
 /**
- * Common stop words to filter out
+ * Reddit/social stop words to filter out on top of the language stopwords
  */
-const STOP_WORDS = new Set([
-    // English
-    'the', 'a', 'an', 'and', 'or', 'but', 'in', 'on', 'at', 'to', 'for', 'of',
-    'with', 'by', 'from', 'as', 'is', 'was', 'are', 'were', 'been', 'be', 'have',
-    'has', 'had', 'do', 'does', 'did', 'will', 'would', 'could', 'should', 'may',
-    'might', 'must', 'shall', 'can', 'need', 'dare', 'ought', 'used', 'this',
-    'that', 'these', 'those', 'i', 'you', 'he', 'she', 'it', 'we', 'they', 'what',
-    'which', 'who', 'whom', 'when', 'where', 'why', 'how', 'all', 'each', 'every',
-    'both', 'few', 'more', 'most', 'other', 'some', 'such', 'no', 'nor', 'not',
-    'only', 'own', 'same', 'so', 'than', 'too', 'very', 'just', 'about', 'into',
-    // Turkish
-    've', 'bir', 'bu', 'şu', 'o', 'ile', 'için', 'de', 'da', 'den', 'dan', 'mi',
-    'mu', 'mı', 'mü', 'ne', 'nasıl', 'neden', 'nerede', 'kim', 'ya', 'ama', 'ancak',
-    'gibi', 'kadar', 'çok', 'daha', 'en', 'her', 'hiç', 'bazı', 'şey', 'olan',
-    // Common Reddit/Social
+const SOCIAL_STOP_WORDS = new Set([
     'reddit', 'post', 'comment', 'upvote', 'downvote', 'karma', 'sub', 'subreddit',
     'oc', 'til', 'eli5', 'ama', 'iama', 'nsfw', 'sfw', 'tl;dr', 'tldr', 'edit',
     'update', 'deleted', 'removed', 'locked', 'megathread',
@@ -54,6 +42,15 @@ const CATEGORY_KEYWORDS: Record<string, string[]> = {
     education: ['education', 'learning', 'student', 'school', 'knowledge'],
 };
 
+/**
+ * Stopwords of the script's language, plus English ones since trend titles
+ * are mostly English. Not every language's: "war" or "die" are keywords
+ * in an English title.
+ */
+function isKeywordStopword(word: string, language: ScriptLanguage = DEFAULT_SCRIPT_LANGUAGE): boolean {
+    return isStopword(word, language) || isStopword(word, 'en');
+}
+
 /**
  * Input for keyword extraction
  */
@@ -63,6 +60,8 @@ export interface KeywordExtractionInput {
     subreddit?: string;
     hookContent?: string;
     bodyContent?: string;
+    /** Script language; the default language when omitted */
+    language?: ScriptLanguage;
 }
 
 /**
@@ -86,20 +85,20 @@ export class KeywordExtractor {
         const allKeywords: Map<string, number> = new Map();
 
         // Process title (highest weight)
-        this.extractFromText(input.title, 3).forEach(kw => {
+        this.extractFromText(input.title, 3, input.language).forEach(kw => {
             allKeywords.set(kw, (allKeywords.get(kw) || 0) + 3);
         });
 
         // Process hook content (high weight)
         if (input.hookContent) {
-            this.extractFromText(input.hookContent, 2).forEach(kw => {
+            this.extractFromText(input.hookContent, 2, input.language).forEach(kw => {
                 allKeywords.set(kw, (allKeywords.get(kw) || 0) + 2);
             });
         }
 
         // Process body content (medium weight)
         if (input.bodyContent) {
-            this.extractFromText(input.bodyContent, 1).forEach(kw => {
+            this.extractFromText(input.bodyContent, 1, input.language).forEach(kw => {
                 allKeywords.set(kw, (allKeywords.get(kw) || 0) + 1);
             });
         }
@@ -144,11 +143,11 @@ export class KeywordExtractor {
     /**
      * Extract keywords from text
      */
-    private extractFromText(text: string, limit: number): string[] {
+    private extractFromText(text: string, limit: number, language?: ScriptLanguage): string[] {
         // Clean and normalize text
         const cleaned = text
-            .toLowerCase()
-            .replace(/[^\w\s'-]/g, ' ')  // Remove special chars except hyphens and apostrophes
+            .toLocaleLowerCase(language)
+            .replace(/[^\p{L}\p{N}\s'-]/gu, ' ')  // Remove special chars except hyphens and apostrophes
             .replace(/\s+/g, ' ')
             .trim();
 
@@ -158,7 +157,7 @@ export class KeywordExtractor {
                 // Filter criteria
                 if (word.length < 3) return false;
                 if (word.length > 20) return false;
-                if (STOP_WORDS.has(word)) return false;
+                if (SOCIAL_STOP_WORDS.has(word) || isKeywordStopword(word, language)) return false;
                 if (/^\d+$/.test(word)) return false; // Only numbers
                 return true;
             });
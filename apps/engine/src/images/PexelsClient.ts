@@ -9,6 +9,7 @@
 
 import { createChildLogger } from '../utils/logger.js';
 import { getEnv } from '../utils/env.js';
+import { recordUsage } from '../usage/index.js';
 
 const logger = createChildLogger('pexels');
 
@@ -205,6 +206,8 @@ export class PexelsClient {
                     page: data.page,
                 }, 'Pexels search completed');
 
+                recordUsage({ provider: 'pexels', unit: 'requests', inputUnits: 1, operation: 'image-search' });
+
                 return {
                     photos,
                     totalResults: data.total_results,
@@ -287,6 +290,8 @@ export class PexelsClient {
 
             const photos: ImageResult[] = data.photos.map(photo => this.normalizePhoto(photo));
 
+            recordUsage({ provider: 'pexels', unit: 'requests', inputUnits: 1, operation: 'image-search' });
+
             return {
                 photos,
                 page: data.page,
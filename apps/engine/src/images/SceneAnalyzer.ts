@@ -7,7 +7,8 @@
  * @module images/SceneAnalyzer
  */
 
-import type { PlatformScript, ScriptSection, Platform } from '@icerik/shared';
+import type { PlatformScript, Platform, ScriptLanguage } from '@icerik/shared';
+import { isStopword, DEFAULT_SCRIPT_LANGUAGE } from '../language/index.js';
 
 /**
  * Scene types based on script structure
@@ -104,7 +105,8 @@ const MOOD_KEYWORDS: Record<SceneMood, string[]> = {
 };
 
 /**
- * Turkish/English stop words to filter from keywords
+ * Turkish/English stop words to filter from keywords, on top of the
+ * stopwords of the script's language
  */
 const STOP_WORDS = new Set([
     // Turkish
@@ -132,43 +134,15 @@ export class SceneAnalyzer {
      * Analyze a platform script and extract scenes
      */
     analyzeScript(script: PlatformScript, category: string = 'general'): SceneAnalysis {
-        const scenes: Scene[] = [];
-        let sceneIndex = 0;
-
-        // Process hook section
-        if (script.sections.hook) {
-            const hookScenes = this.extractScenesFromSection(
-                script.sections.hook,
-                'hook',
-                sceneIndex
-            );
-            scenes.push(...hookScenes);
-            sceneIndex += hookScenes.length;
-        }
-
-        // Process body section
-        if (script.sections.body) {
-            const bodyScenes = this.extractScenesFromSection(
-                script.sections.body,
-                'body',
-                sceneIndex
-            );
-            scenes.push(...bodyScenes);
-            sceneIndex += bodyScenes.length;
-        }
-
-        // Process CTA section
-        if (script.sections.cta) {
-            const ctaScenes = this.extractScenesFromSection(
-                script.sections.cta,
-                'cta',
-                sceneIndex
-            );
-            scenes.push(...ctaScenes);
-        }
+        const language = script.metadata.language;
+        const scenes = this.extractScenes({
+            hook: script.sections.hook?.content,
+            body: script.sections.body?.content,
+            cta: script.sections.cta?.content,
+        }, language);
 
         // Calculate overall theme
-        const overallTheme = this.extractOverallTheme(script, category);
+        const overallTheme = this.extractOverallTheme(script, category, language);
 
         // Calculate total duration
         const totalDuration = scenes.reduce((sum, s) => sum + s.durationHint, 0);
@@ -190,20 +164,37 @@ export class SceneAnalyzer {
         };
     }
 
+    /**
+     * Extract scenes from plain hook/body/cta text
+     */
+    extractScenes(sections: { hook?: string; body?: string; cta?: string }, language?: ScriptLanguage): Scene[] {
+        const scenes: Scene[] = [];
+
+        for (const type of ['hook', 'body', 'cta'] as const) {
+            const content = sections[type];
+            if (content?.trim()) {
+                scenes.push(...this.extractScenesFromSection(content, type, scenes.length, language));
+            }
+        }
+
+        return scenes;
+    }
+
     /**
      * Extract scenes from a script section
      */
     private extractScenesFromSection(
-        section: ScriptSection,
+        sectionContent: string,
         type: SceneType,
-        startIndex: number
+        startIndex: number,
+        language?: ScriptLanguage
     ): Scene[] {
-        const content = section.content.trim();
+        const content = sectionContent.trim();
         const words = content.split(/\s+/).filter((w: string) => w.length > 0);
 
         // If content is short enough, treat as single scene
         if (words.length <= this.options.maxWordsPerScene) {
-            return [this.createScene(content, type, startIndex)];
+            return [this.createScene(content, type, startIndex, language)];
         }
 
         // Split into multiple scenes by sentences
@@ -221,7 +212,8 @@ export class SceneAnalyzer {
                 scenes.push(this.createScene(
                     currentContent.trim(),
                     this.getSubSceneType(type, localIndex, scenes.length),
-                    startIndex + scenes.length
+                    startIndex + scenes.length,
+                    language
                 ));
                 currentContent = '';
                 currentWordCount = 0;
@@ -237,7 +229,8 @@ export class SceneAnalyzer {
             scenes.push(this.createScene(
                 currentContent.trim(),
                 this.getSubSceneType(type, localIndex, scenes.length),
-                startIndex + scenes.length
+                startIndex + scenes.length,
+                language
             ));
         }
 
@@ -247,7 +240,7 @@ export class SceneAnalyzer {
     /**
      * Create a scene object from content
      */
-    private createScene(content: string, type: SceneType, index: number): Scene {
+    private createScene(content: string, type: SceneType, index: number, language?: ScriptLanguage): Scene {
         const words = content.split(/\s+/).filter(w => w.length > 0);
         const wordCount = words.length;
 
@@ -258,7 +251,7 @@ export class SceneAnalyzer {
             id: `scene-${index}-${type}`,
             type,
             content,
-            keywords: this.extractKeywords(content),
+            keywords: this.extractKeywords(content, language),
             mood: this.detectMood(content, type),
             durationHint,
             wordCount,
@@ -269,11 +262,11 @@ export class SceneAnalyzer {
     /**
      * Extract keywords from scene content
      */
-    private extractKeywords(content: string): string[] {
+    private extractKeywords(content: string, language: ScriptLanguage = DEFAULT_SCRIPT_LANGUAGE): string[] {
         // Normalize and tokenize
         const normalized = content
             .toLowerCase()
-            .replace(/[^\w\sğüşıöçĞÜŞİÖÇ]/g, ' ')
+            .replace(/[^\p{L}\p{N}\s]/gu, ' ')
             .replace(/\s+/g, ' ')
             .trim();
 
@@ -284,6 +277,7 @@ export class SceneAnalyzer {
             .filter(word =>
                 word.length > 2 &&
                 !STOP_WORDS.has(word) &&
+                !isStopword(word, language) &&
                 !/^\d+$/.test(word)
             )
             .slice(0, 8); // Max 8 keywords per scene
@@ -369,12 +363,12 @@ export class SceneAnalyzer {
     /**
      * Extract overall theme from script
      */
-    private extractOverallTheme(script: PlatformScript, category: string): string {
+    private extractOverallTheme(script: PlatformScript, category: string, language?: ScriptLanguage): string {
         // Combine title and category for theme
         const title = script.title || '';
 
         // Extract main nouns/concepts from title
-        const titleKeywords = this.extractKeywords(title);
+        const titleKeywords = this.extractKeywords(title, language);
 
         if (titleKeywords.length > 0) {
             return `${category}: ${titleKeywords.slice(0, 3).join(', ')}`;
@@ -390,3 +384,27 @@ export class SceneAnalyzer {
 export function createSceneAnalyzer(options?: SceneAnalyzerOptions): SceneAnalyzer {
     return new SceneAnalyzer(options);
 }
+
+/**
+ * Dominant mood across scenes, weighted by word count
+ * (earlier scenes win ties, so the hook decides close calls)
+ */
+export function getDominantMood(scenes: Scene[]): SceneMood {
+    const weights = new Map<SceneMood, number>();
+
+    for (const scene of scenes) {
+        weights.set(scene.mood, (weights.get(scene.mood) ?? 0) + scene.wordCount);
+    }
+
+    let dominant: SceneMood = 'informative';
+    let maxWeight = 0;
+
+    for (const [mood, weight] of weights) {
+        if (weight > maxWeight) {
+            maxWeight = weight;
+            dominant = mood;
+        }
+    }
+
+    return dominant;
+}
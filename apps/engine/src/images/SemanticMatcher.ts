@@ -1,25 +1,16 @@
 /**
  * SemanticMatcher Module
  * 
- * Uses Gemini AI to generate optimal visual search queries for each scene.
+ * Uses the configured LLM provider to generate optimal visual search queries for each scene.
  * Understands scene semantics and recommends video vs image.
  * 
  * @module images/SemanticMatcher
  */
 
-import { getEnv } from '../utils/env.js';
+import { getLLMProvider, type LLMProvider } from '../ai/llm/index.js';
 import type { Scene, SceneAnalysis, SceneMood } from './SceneAnalyzer.js';
 import type { ValidatedImage } from './ImageSearchService.js';
 
-/**
- * Gemini API Configuration
- */
-const GEMINI_CONFIG = {
-    BASE_URL: 'https://generativelanguage.googleapis.com/v1beta',
-    MODEL: 'gemini-2.0-flash',
-    TIMEOUT_MS: 30000,
-} as const;
-
 /**
  * Visual query for a scene
  */
@@ -126,34 +117,23 @@ const MOOD_VISUAL_STYLES: Record<SceneMood, { styles: string[]; colors: string[]
     },
 };
 
-/**
- * Gemini API response type
- */
-interface GeminiResponse {
-    candidates: Array<{
-        content: {
-            parts: Array<{ text: string }>;
-        };
-    }>;
-}
-
 /**
  * SemanticMatcher class for generating visual queries from scenes
  */
 export class SemanticMatcher {
-    private apiKey: string;
+    private llm: LLMProvider;
     private options: Required<SemanticMatcherOptions>;
 
     constructor(options: SemanticMatcherOptions = {}) {
         this.options = { ...DEFAULT_OPTIONS, ...options };
-        this.apiKey = getEnv().GEMINI_API_KEY || '';
+        this.llm = getLLMProvider('semantic-match');
     }
 
     /**
      * Check if AI is available
      */
     isConfigured(): boolean {
-        return !!this.apiKey;
+        return this.llm.isConfigured();
     }
 
     /**
@@ -162,7 +142,7 @@ export class SemanticMatcher {
     async generateQueries(analysis: SceneAnalysis): Promise<QueryGenerationResult> {
         const startTime = Date.now();
 
-        // If Gemini available, use AI-powered generation
+        // If an LLM is available, use AI-powered generation
         if (this.isConfigured()) {
             try {
                 return await this.generateQueriesWithAI(analysis, startTime);
@@ -176,54 +156,28 @@ export class SemanticMatcher {
     }
 
     /**
-     * AI-powered query generation using Gemini REST API
+     * AI-powered query generation
      */
     private async generateQueriesWithAI(
         analysis: SceneAnalysis,
         startTime: number
     ): Promise<QueryGenerationResult> {
         const prompt = this.buildQueryGenerationPrompt(analysis);
-        const url = `${GEMINI_CONFIG.BASE_URL}/models/${GEMINI_CONFIG.MODEL}:generateContent?key=${this.apiKey}`;
-
-        const controller = new AbortController();
-        const timeoutId = setTimeout(() => controller.abort(), GEMINI_CONFIG.TIMEOUT_MS);
-
-        try {
-            const response = await fetch(url, {
-                method: 'POST',
-                headers: { 'Content-Type': 'application/json' },
-                body: JSON.stringify({
-                    contents: [{ parts: [{ text: prompt }] }],
-                    generationConfig: {
-                        temperature: 0.7,
-                        maxOutputTokens: 1024,
-                    },
-                }),
-                signal: controller.signal,
-            });
-
-            clearTimeout(timeoutId);
-
-            if (!response.ok) {
-                throw new Error(`Gemini API error: ${response.status}`);
-            }
-
-            const data: GeminiResponse = await response.json();
-            const text = data.candidates?.[0]?.content?.parts?.[0]?.text || '';
-            const parsed = this.parseAIResponse(text, analysis);
+        const text = await this.llm.generateContent(prompt, {
+            temperature: 0.7,
+            maxTokens: 1024,
+            context: { operation: 'semantic-match', platform: analysis.platform },
+        });
+        const parsed = this.parseAIResponse(text, analysis);
 
-            return {
-                ...parsed,
-                metadata: {
-                    generatedAt: new Date().toISOString(),
-                    modelUsed: 'gemini-2.0-flash',
-                    processingTimeMs: Date.now() - startTime,
-                },
-            };
-        } catch (error) {
-            clearTimeout(timeoutId);
-            throw error;
-        }
+        return {
+            ...parsed,
+            metadata: {
+                generatedAt: new Date().toISOString(),
+                modelUsed: this.llm.model,
+                processingTimeMs: Date.now() - startTime,
+            },
+        };
     }
 
     /**
@@ -14,7 +14,7 @@
  */
 
 import { createChildLogger } from '../utils/logger.js';
-import { getGeminiClient, GeminiError } from '../ai/gemini.js';
+import { getLLMProvider, LLMError } from '../ai/llm/index.js';
 
 const logger = createChildLogger('visual-search-specialist');
 
@@ -255,17 +255,17 @@ function parseAIResponse(response: string, input: VisualSearchInput): VisualSear
 /**
  * Visual Search Specialist Class
  * 
- * Uses Gemini AI to generate intelligent, context-aware search queries
+ * Uses the configured LLM provider to generate intelligent, context-aware search queries
  * for stock photo/video discovery.
  */
 export class VisualSearchSpecialist {
-    private gemini = getGeminiClient();
+    private llm = getLLMProvider('visual-search');
 
     /**
      * Check if AI is available
      */
     isConfigured(): boolean {
-        return this.gemini.isConfigured();
+        return this.llm.isConfigured();
     }
 
     /**
@@ -283,7 +283,7 @@ export class VisualSearchSpecialist {
 
         // Use fallback if AI not configured
         if (!this.isConfigured()) {
-            logger.info('Gemini not configured, using fallback extraction');
+            logger.info('LLM provider not configured, using fallback extraction');
             return extractFallbackKeywords(input);
         }
 
@@ -297,10 +297,11 @@ export class VisualSearchSpecialist {
                 category: input.category,
             }, 'Generating visual search queries');
 
-            // Call Gemini
-            const response = await this.gemini.generateContent(userPrompt, {
+            // Call the LLM
+            const response = await this.llm.generateContent(userPrompt, {
                 temperature: 0.7, // Creative but focused
                 systemInstruction: SYSTEM_PROMPT,
+                context: { operation: 'visual-search', platform: input.platform },
             });
 
             // Parse response
@@ -316,8 +317,8 @@ export class VisualSearchSpecialist {
             return result;
 
         } catch (error) {
-            if (error instanceof GeminiError) {
-                logger.warn({ error: error.message }, 'Gemini error, using fallback');
+            if (error instanceof LLMError) {
+                logger.warn({ error: error.message, provider: error.provider }, 'LLM error, using fallback');
             } else {
                 logger.error({ error }, 'Unexpected error in visual search');
             }
@@ -327,7 +328,7 @@ export class VisualSearchSpecialist {
     }
 
     /**
-     * Build the user prompt for Gemini
+     * Build the user prompt for the LLM
      */
     private buildPrompt(input: VisualSearchInput): string {
         const parts: string[] = [
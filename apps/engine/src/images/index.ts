@@ -46,6 +46,7 @@ export {
 export {
     SceneAnalyzer,
     createSceneAnalyzer,
+    getDominantMood,
     type Scene,
     type SceneAnalysis,
     type SceneType,
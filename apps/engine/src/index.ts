@@ -11,11 +11,12 @@ import { serve } from '@hono/node-server';
 import { Hono } from 'hono';
 import { prettyJSON } from 'hono/pretty-json';
 import { bodyLimit } from 'hono/body-limit';
-import { createApiRouter } from './api/index.js';
+import { createApiRouter, createAuthMiddleware, isAuthRequired } from './api/index.js';
 import { getWorker } from './worker/index.js';
 import { closeDatabase, getDatabaseStats } from './cache/index.js';
 import { createChildLogger } from './utils/logger.js';
 import { getEnv } from './utils/env.js';
+import { getLLMProvider } from './ai/llm/index.js';
 
 const appLogger = createChildLogger('app');
 
@@ -42,10 +43,11 @@ async function main(): Promise<void> {
         // ═══════════════════════════════════════════════════════════════
         // STARTUP VALIDATION - Report feature availability
         // ═══════════════════════════════════════════════════════════════
-        if (!env.GEMINI_API_KEY) {
-            appLogger.warn('⚠️  GEMINI_API_KEY not set - AI script generation will be disabled');
+        const llm = getLLMProvider('scripts');
+        if (!llm.isConfigured()) {
+            appLogger.warn({ provider: llm.name }, '⚠️  LLM provider not configured - AI script generation will be disabled');
         } else {
-            appLogger.info('✅ Gemini AI configured');
+            appLogger.info({ provider: llm.name, model: llm.model }, '✅ AI configured');
         }
 
         if (!env.ELEVENLABS_API_KEY && !env.FISHAUDIO_API_KEY) {
@@ -63,6 +65,12 @@ async function main(): Promise<void> {
         } else {
             appLogger.info('✅ Pexels Image API configured');
         }
+
+        if (!isAuthRequired()) {
+            appLogger.warn('⚠️  No API_SECRET_KEY or API keys - API is open to anyone who can reach the port');
+        } else {
+            appLogger.info('✅ API key auth enabled');
+        }
         // ═══════════════════════════════════════════════════════════════
 
         // Create Hono app
@@ -119,10 +127,18 @@ async function main(): Promise<void> {
                 endpoints: {
                     trends: '/api/trends',
                     summary: '/api/trends/summary',
+                    trendHistory: '/api/trends/:id/history',
+                    trendClusters: '/api/trends/clusters',
                     subreddits: '/api/subreddits',
                     categories: '/api/categories',
                     status: '/api/status',
                     health: '/api/health',
+                    events: '/api/events (SSE)',
+                    music: '/api/music',
+                    usage: '/api/usage',
+                    usageBudgets: '/api/usage/budgets',
+                    brandVoices: '/api/brand-voices',
+                    apiKeys: '/api/auth/keys',
                     cacheInvalidate: 'POST /api/cache/invalidate',
                     cacheCleanup: 'POST /api/cache/cleanup',
                 },
@@ -131,6 +147,7 @@ async function main(): Promise<void> {
                     trendCacheEntries: dbStats.trendCacheCount,
                     subredditStats: dbStats.subredditStatsCount,
                     requestLogs: dbStats.requestLogCount,
+                    trendSnapshots: dbStats.trendSnapshotCount,
                 },
                 worker: workerStatus,
             });
@@ -138,6 +155,8 @@ async function main(): Promise<void> {
 
         // Worker management endpoints (only if worker is enabled)
         if (args.withWorker) {
+            app.use('/api/worker/*', createAuthMiddleware());
+
             app.get('/api/worker/status', (c) => {
                 try {
                     const worker = getWorker({ autoStart: false, enableShutdownHandlers: false });
@@ -269,6 +288,14 @@ async function main(): Promise<void> {
             appLogger.info('Background worker started');
         }
 
+        // Resume video renders queued or interrupted before the last shutdown
+        try {
+            const { getVideoRenderQueue } = await import('./video/index.js');
+            appLogger.info({ queue: getVideoRenderQueue().getStats() }, 'Video render queue ready');
+        } catch (error) {
+            appLogger.warn({ error }, 'Video render queue unavailable');
+        }
+
         // Graceful shutdown handling (when worker is not managing it)
         if (!args.withWorker) {
             const shutdown = async (signal: string) => {
@@ -0,0 +1,148 @@
+/**
+ * RSS Trend Source Tests
+ *
+ * Unit tests for feed list parsing and RSS/Atom normalization.
+ *
+ * @module ingestion/__tests__/rssTrendSource.test
+ */
+
+import { describe, it, expect } from 'vitest';
+import { parseFeed, parseFeedList, RssTrendSource, type RssFeedConfig } from '../rssTrendSource.js';
+import { NesCalculator } from '../../processing/nesCalculator.js';
+
+const FEED: RssFeedConfig = {
+    id: 'hackernews',
+    url: 'https://hnrss.org/frontpage',
+    category: 'technology',
+    tier: 1,
+    weight: 1000,
+};
+
+const RSS_XML = `<?xml version="1.0"?>
+<rss version="2.0" xmlns:dc="http://purl.org/dc/elements/1.1/" xmlns:slash="http://purl.org/rss/1.0/modules/slash/">
+  <channel>
+    <title>Hacker News</title>
+    <link>https://news.ycombinator.com/</link>
+    <item>
+      <title><![CDATA[Show HN: A &amp; B]]></title>
+      <link>https://www.example.com/a-and-b</link>
+      <guid isPermaLink="false">item-1</guid>
+      <pubDate>Mon, 19 Oct 2026 10:00:00 GMT</pubDate>
+      <dc:creator>alice</dc:creator>
+      <description>&lt;p&gt;Some &lt;b&gt;bold&lt;/b&gt; text&lt;/p&gt;</description>
+      <slash:comments>42</slash:comments>
+    </item>
+    <item>
+      <title>No link here</title>
+    </item>
+  </channel>
+</rss>`;
+
+const ATOM_XML = `<?xml version="1.0" encoding="utf-8"?>
+<feed xmlns="http://www.w3.org/2005/Atom">
+  <title>Example Blog</title>
+  <entry>
+    <title>Atom entry</title>
+    <link rel="alternate" href="https://blog.example.org/post"/>
+    <id>urn:uuid:1234</id>
+    <published>2026-10-19T08:00:00Z</published>
+    <author><name>Bob</name></author>
+    <summary>Short summary</summary>
+  </entry>
+</feed>`;
+
+describe('parseFeedList', () => {
+    it('parses entries with optional tier and weight', () => {
+        const feeds = parseFeedList(
+            'hackernews|technology|https://hnrss.org/frontpage|1, bbc|news|https://feeds.bbci.co.uk/news/rss.xml|3|500'
+        );
+
+        expect(feeds).toEqual([
+            { id: 'hackernews', url: 'https://hnrss.org/frontpage', category: 'technology', tier: 1, weight: 1000 },
+            { id: 'bbc', url: 'https://feeds.bbci.co.uk/news/rss.xml', category: 'news', tier: 3, weight: 500 },
+        ]);
+    });
+
+    it('skips invalid entries', () => {
+        const feeds = parseFeedList(
+            'bad id|technology|https://a.com,x|unknown|https://b.com,y|news|ftp://c.com,z|news|https://d.com|7,ok|news|https://e.com'
+        );
+
+        expect(feeds.map(f => f.id)).toEqual(['ok']);
+        expect(feeds[0].tier).toBe(2);
+    });
+
+    it('returns an empty list when unset', () => {
+        expect(parseFeedList(undefined)).toEqual([]);
+        expect(parseFeedList('')).toEqual([]);
+    });
+});
+
+describe('parseFeed', () => {
+    it('normalizes RSS 2.0 items', () => {
+        const posts = parseFeed(RSS_XML, FEED);
+
+        expect(posts).toHaveLength(1);
+        expect(posts[0]).toMatchObject({
+            source: 'rss',
+            channel: 'hackernews',
+            title: 'Show HN: A & B',
+            body: 'Some bold text',
+            author: 'alice',
+            score: 1000,
+            numComments: 42,
+            approvalRatio: null,
+            createdUtc: Date.parse('2026-10-19T10:00:00Z') / 1000,
+            url: 'https://www.example.com/a-and-b',
+            domain: 'example.com',
+            category: 'technology',
+        });
+        expect(posts[0].id).toMatch(/^rss_[0-9a-f]{12}$/);
+    });
+
+    it('normalizes Atom entries', () => {
+        const posts = parseFeed(ATOM_XML, { ...FEED, id: 'blog', weight: 300 });
+
+        expect(posts).toHaveLength(1);
+        expect(posts[0]).toMatchObject({
+            channel: 'blog',
+            title: 'Atom entry',
+            author: 'Bob',
+            body: 'Short summary',
+            score: 300,
+            numComments: 0,
+            url: 'https://blog.example.org/post',
+            domain: 'blog.example.org',
+        });
+    });
+
+    it('derives stable ids from feed and guid', () => {
+        const first = parseFeed(RSS_XML, FEED)[0];
+        const second = parseFeed(RSS_XML, FEED)[0];
+        const otherFeed = parseFeed(RSS_XML, { ...FEED, id: 'other' })[0];
+
+        expect(first.id).toBe(second.id);
+        expect(first.id).not.toBe(otherFeed.id);
+    });
+});
+
+describe('RSS posts through NES', () => {
+    it('uses the feed category and a neutral controversy factor', () => {
+        const post = { ...parseFeed(RSS_XML, FEED)[0], createdUtc: Date.now() / 1000 - 3600 };
+        const trend = new NesCalculator().calculateNes(post);
+
+        expect(trend.source).toBe('rss');
+        expect(trend.subreddit).toBe('hackernews');
+        expect(trend.category).toBe('technology');
+        expect(trend.controversyFactor).toBe(1);
+        expect(trend.upvoteRatio).toBe(1);
+    });
+
+    it('lists configured feeds as channels', () => {
+        const source = new RssTrendSource([FEED]);
+
+        expect(source.isConfigured()).toBe(true);
+        expect(source.listChannels()).toEqual([{ id: 'hackernews', category: 'technology', tier: 1 }]);
+        expect(new RssTrendSource([]).isConfigured()).toBe(false);
+    });
+});
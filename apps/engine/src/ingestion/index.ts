@@ -1,2 +1,13 @@
-export { RedditFetcher, getRedditFetcher, RedditFetchError } from './redditFetcher.js';
+export { RedditFetcher, getRedditFetcher, RedditFetchError, type RedditThread, type RedditComment } from './redditFetcher.js';
 export { RateLimiter, getRateLimiter } from './rateLimiter.js';
+export type { TrendSource, TrendChannel, TrendSourceFetchOptions } from './trendSource.js';
+export { RedditTrendSource, redditPostToSourcePost } from './redditTrendSource.js';
+export { RssTrendSource, RssFetchError, parseFeed, parseFeedList, type RssFeedConfig } from './rssTrendSource.js';
+export {
+    getTrendSources,
+    getTrendSource,
+    resetTrendSources,
+    fetchFromSources,
+    type SourceFetchPlan,
+    type SourceFetchResult,
+} from './sourceRegistry.js';
@@ -49,6 +49,49 @@ interface RedditListingResponse {
     };
 }
 
+interface RedditCommentChild {
+    kind: string;
+    data: {
+        id: string;
+        author?: string;
+        body?: string;
+        score?: number;
+        stickied?: boolean;
+        distinguished?: string | null;
+    };
+}
+
+/**
+ * /comments/{id}.json returns the post listing followed by the comment listing
+ */
+type RedditThreadResponse = [
+    RedditListingResponse,
+    { kind: string; data: { children: RedditCommentChild[] } },
+];
+
+/**
+ * Top-level comment on a thread
+ */
+export interface RedditComment {
+    id: string;
+    author: string;
+    body: string;
+    score: number;
+}
+
+/**
+ * A post with its top-level comments
+ */
+export interface RedditThread {
+    post: RedditPost;
+    comments: RedditComment[];
+}
+
+interface FetchThreadOptions {
+    /** Top-level comments to keep (default 10) */
+    commentLimit?: number;
+}
+
 /**
  * Custom error class for Reddit fetch errors
  */
@@ -177,6 +220,97 @@ export class RedditFetcher {
         }
     }
 
+    /**
+     * Fetch a post's full text and its top-level comments, best first.
+     * Moderator, stickied and removed comments are dropped.
+     */
+    async fetchThread(postId: string, options: FetchThreadOptions = {}): Promise<RedditThread> {
+        const { commentLimit = 10 } = options;
+
+        await this.rateLimiter.waitForSlot();
+
+        const params = new URLSearchParams({
+            sort: 'top',
+            depth: '1',
+            // Headroom for the comments filtered out below
+            limit: Math.min(commentLimit * 2, 100).toString(),
+            raw_json: '1',
+        });
+        const url = `${REDDIT_BASE_URL}/comments/${encodeURIComponent(postId)}.json?${params.toString()}`;
+
+        try {
+            logger.debug({ url, postId }, 'Fetching thread');
+
+            const response = await fetch(url, {
+                headers: {
+                    'User-Agent': this.userAgent,
+                    'Accept': 'application/json',
+                },
+            });
+
+            if (response.status === 429) {
+                this.rateLimiter.recordRateLimitHit();
+                throw new RedditFetchError(`Rate limited by Reddit (429)`, 429, undefined, true);
+            }
+
+            if (response.status === 404) {
+                throw new RedditFetchError(`Post not found: ${postId}`, 404);
+            }
+
+            if (!response.ok) {
+                this.rateLimiter.recordError();
+                throw new RedditFetchError(
+                    `Reddit returned ${response.status}: ${response.statusText}`,
+                    response.status
+                );
+            }
+
+            const data = await response.json() as RedditThreadResponse;
+            const postChild = Array.isArray(data)
+                ? data[0]?.data?.children?.find(child => child.kind === 't3')
+                : undefined;
+
+            if (!postChild) {
+                throw new RedditFetchError(`Invalid thread response from Reddit`);
+            }
+
+            this.rateLimiter.recordSuccess();
+
+            const comments = (data[1]?.data?.children ?? [])
+                .filter(child => child.kind === 't1')
+                .map(child => child.data)
+                .filter(comment =>
+                    comment.body &&
+                    !['[deleted]', '[removed]'].includes(comment.body) &&
+                    !comment.stickied &&
+                    !comment.distinguished &&
+                    comment.author !== 'AutoModerator'
+                )
+                .sort((a, b) => (b.score ?? 0) - (a.score ?? 0))
+                .slice(0, commentLimit)
+                .map(comment => ({
+                    id: comment.id,
+                    author: comment.author || '[deleted]',
+                    body: comment.body!,
+                    score: comment.score ?? 0,
+                }));
+
+            logger.info({ postId, commentCount: comments.length }, 'Successfully fetched thread');
+
+            return { post: this.normalizePost(postChild.data), comments };
+
+        } catch (error) {
+            if (error instanceof RedditFetchError) {
+                throw error;
+            }
+
+            this.rateLimiter.recordError();
+            logger.error({ error, postId, url }, 'Failed to fetch thread');
+
+            throw new RedditFetchError(error instanceof Error ? error.message : 'Unknown fetch error');
+        }
+    }
+
     /**
      * Fetch posts from multiple subreddits with controlled parallel batching.
      * 
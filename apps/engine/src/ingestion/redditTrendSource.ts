@@ -0,0 +1,62 @@
+import type { RedditPost, SourcePost, SubredditConfig } from '@icerik/shared';
+import { getSubredditRegistry } from '../cache/index.js';
+import { getRedditFetcher } from './redditFetcher.js';
+import type { TrendChannel, TrendSource, TrendSourceFetchOptions } from './trendSource.js';
+
+/**
+ * Convert a Reddit post to the source-agnostic post model
+ */
+export function redditPostToSourcePost(post: RedditPost): SourcePost {
+    return {
+        id: post.id,
+        source: 'reddit',
+        channel: post.subreddit,
+        title: post.title,
+        body: post.selftext,
+        author: post.author,
+        score: post.score,
+        numComments: post.num_comments,
+        approvalRatio: post.upvote_ratio,
+        createdUtc: post.created_utc,
+        url: post.url,
+        permalink: post.permalink,
+        domain: post.domain,
+        isPinned: post.stickied,
+        isNsfw: post.over_18,
+    };
+}
+
+/**
+ * Reddit Trend Source
+ * Adapts RedditFetcher to the TrendSource contract; channels are the registry's subreddits.
+ */
+export class RedditTrendSource implements TrendSource {
+    readonly type = 'reddit' as const;
+
+    isConfigured(): boolean {
+        // .json URL append method needs no credentials
+        return true;
+    }
+
+    listChannels(): TrendChannel[] {
+        return getSubredditRegistry().list().map((config: SubredditConfig) => ({
+            id: config.name,
+            category: config.category,
+            tier: config.tier,
+        }));
+    }
+
+    async fetchPosts(
+        channelIds: string[],
+        options: TrendSourceFetchOptions = {}
+    ): Promise<Map<string, SourcePost[]>> {
+        const postsMap = await getRedditFetcher().fetchMultipleSubreddits(channelIds, options);
+
+        const result = new Map<string, SourcePost[]>();
+        for (const [subreddit, posts] of postsMap) {
+            result.set(subreddit, posts.map(redditPostToSourcePost));
+        }
+
+        return result;
+    }
+}
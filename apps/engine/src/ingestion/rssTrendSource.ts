@@ -0,0 +1,296 @@
+import { createHash } from 'crypto';
+import { CATEGORY_LABELS } from '@icerik/shared';
+import type { ContentCategory, SourcePost } from '@icerik/shared';
+import { getEnv } from '../utils/env.js';
+import { createChildLogger } from '../utils/logger.js';
+import type { TrendChannel, TrendSource, TrendSourceFetchOptions } from './trendSource.js';
+
+const logger = createChildLogger('rss-source');
+
+const USER_AGENT = 'TrendEngine/1.0 (Content Automation Tool)';
+const FETCH_TIMEOUT_MS = 10000;
+
+/**
+ * Default score for feed items.
+ * RSS has no votes, so every item counts as a typical post at the default
+ * NES baseline (1000) and NES then decays it by age.
+ */
+const DEFAULT_FEED_WEIGHT = 1000;
+
+/**
+ * Configuration for a single RSS/Atom feed
+ */
+export interface RssFeedConfig {
+    id: string;
+    url: string;
+    category: ContentCategory;
+    tier: 1 | 2 | 3;
+    /** Score assigned to every item of this feed */
+    weight: number;
+}
+
+/**
+ * Custom error class for RSS fetch errors
+ */
+export class RssFetchError extends Error {
+    constructor(
+        message: string,
+        public readonly statusCode?: number,
+        public readonly feedId?: string
+    ) {
+        super(message);
+        this.name = 'RssFetchError';
+    }
+}
+
+/**
+ * Parse the RSS_FEEDS env value
+ *
+ * Format: comma-separated `id|category|url[|tier[|weight]]` entries, e.g.
+ * `hackernews|technology|https://hnrss.org/frontpage|1`
+ */
+export function parseFeedList(value: string | undefined): RssFeedConfig[] {
+    if (!value) {
+        return [];
+    }
+
+    const feeds: RssFeedConfig[] = [];
+
+    for (const entry of value.split(',').map(e => e.trim()).filter(Boolean)) {
+        const [id, category, url, tier, weight] = entry.split('|').map(part => part.trim());
+        const parsedTier = Number(tier || 2);
+        const parsedWeight = Number(weight || DEFAULT_FEED_WEIGHT);
+
+        if (
+            !id || !/^[a-zA-Z0-9_]+$/.test(id) ||
+            !(category in CATEGORY_LABELS) ||
+            !/^https?:\/\//.test(url ?? '') ||
+            ![1, 2, 3].includes(parsedTier) ||
+            !(parsedWeight > 0)
+        ) {
+            logger.warn({ entry }, 'Ignoring invalid RSS feed entry');
+            continue;
+        }
+
+        feeds.push({
+            id,
+            url,
+            category: category as ContentCategory,
+            tier: parsedTier as 1 | 2 | 3,
+            weight: parsedWeight,
+        });
+    }
+
+    return feeds;
+}
+
+const NAMED_ENTITIES: Record<string, string> = {
+    amp: '&',
+    lt: '<',
+    gt: '>',
+    quot: '"',
+    apos: "'",
+    nbsp: ' ',
+};
+
+function decodeEntities(text: string): string {
+    return text.replace(/&(#x[0-9a-f]+|#\d+|[a-z]+);/gi, (match, code: string) => {
+        if (code.startsWith('#')) {
+            const codePoint = code[1].toLowerCase() === 'x'
+                ? parseInt(code.slice(2), 16)
+                : parseInt(code.slice(1), 10);
+            return Number.isFinite(codePoint) ? String.fromCodePoint(codePoint) : match;
+        }
+        return NAMED_ENTITIES[code.toLowerCase()] ?? match;
+    });
+}
+
+/**
+ * Turn a raw element body into plain text (CDATA, entities and markup removed)
+ */
+function toPlainText(raw: string): string {
+    const unwrapped = raw.replace(/<!\[CDATA\[([\s\S]*?)\]\]>/g, '$1');
+    return decodeEntities(unwrapped)
+        .replace(/<[^>]+>/g, ' ')
+        .replace(/\s+/g, ' ')
+        .trim();
+}
+
+/**
+ * Read the raw body of the first matching element
+ */
+function readElement(xml: string, tags: string[]): string | undefined {
+    for (const tag of tags) {
+        const match = xml.match(new RegExp(`<${tag}(?:\\s[^>]*)?>([\\s\\S]*?)</${tag}>`, 'i'));
+        if (match) {
+            return match[1];
+        }
+    }
+    return undefined;
+}
+
+/**
+ * Read an item link (RSS `<link>text</link>` or Atom `<link href>`)
+ */
+function readLink(item: string): string {
+    const rssLink = readElement(item, ['link']);
+    if (rssLink && toPlainText(rssLink)) {
+        return toPlainText(rssLink);
+    }
+
+    for (const match of item.matchAll(/<link\b([^>]*?)\/?>/gi)) {
+        const attrs = match[1];
+        const href = attrs.match(/href\s*=\s*["']([^"']+)["']/i)?.[1];
+        const rel = attrs.match(/rel\s*=\s*["']([^"']+)["']/i)?.[1];
+        if (href && (!rel || rel === 'alternate')) {
+            return decodeEntities(href);
+        }
+    }
+
+    return '';
+}
+
+function getDomain(url: string): string {
+    try {
+        return new URL(url).hostname.replace(/^www\./, '');
+    } catch {
+        return '';
+    }
+}
+
+/**
+ * Parse an RSS 2.0 or Atom document into normalized posts
+ */
+export function parseFeed(xml: string, feed: RssFeedConfig): SourcePost[] {
+    const items = xml.match(/<item\b[\s\S]*?<\/item>/gi)
+        ?? xml.match(/<entry\b[\s\S]*?<\/entry>/gi)
+        ?? [];
+
+    const posts: SourcePost[] = [];
+
+    for (const item of items) {
+        const title = toPlainText(readElement(item, ['title']) ?? '');
+        const link = readLink(item);
+
+        if (!title || !link) {
+            continue;
+        }
+
+        const guid = toPlainText(readElement(item, ['guid', 'id']) ?? '') || link;
+        const published = toPlainText(readElement(item, ['pubDate', 'published', 'updated', 'dc:date']) ?? '');
+        const publishedMs = Date.parse(published);
+
+        const authorRaw = readElement(item, ['dc:creator', 'author']) ?? '';
+        const author = toPlainText(readElement(authorRaw, ['name']) ?? authorRaw);
+
+        const comments = parseInt(toPlainText(readElement(item, ['slash:comments', 'thr:total']) ?? ''), 10);
+
+        posts.push({
+            id: `rss_${createHash('sha1').update(`${feed.id}:${guid}`).digest('hex').slice(0, 12)}`,
+            source: 'rss',
+            channel: feed.id,
+            title,
+            body: toPlainText(readElement(item, ['content:encoded', 'description', 'summary', 'content']) ?? ''),
+            author: author || feed.id,
+            score: feed.weight,
+            numComments: Number.isFinite(comments) ? comments : 0,
+            approvalRatio: null,
+            createdUtc: Number.isFinite(publishedMs) ? publishedMs / 1000 : Date.now() / 1000,
+            url: link,
+            permalink: link,
+            domain: getDomain(link),
+            isPinned: false,
+            isNsfw: false,
+            category: feed.category,
+        });
+    }
+
+    return posts;
+}
+
+/**
+ * RSS/Atom Trend Source
+ * Channels are the feeds configured through RSS_FEEDS.
+ */
+export class RssTrendSource implements TrendSource {
+    readonly type = 'rss' as const;
+    private readonly feeds: Map<string, RssFeedConfig>;
+
+    constructor(feeds: RssFeedConfig[] = parseFeedList(getEnv().RSS_FEEDS)) {
+        this.feeds = new Map(feeds.map(feed => [feed.id, feed]));
+        logger.info({ feedCount: this.feeds.size }, 'RSS source initialized');
+    }
+
+    isConfigured(): boolean {
+        return this.feeds.size > 0;
+    }
+
+    listChannels(): TrendChannel[] {
+        return Array.from(this.feeds.values()).map(feed => ({
+            id: feed.id,
+            category: feed.category,
+            tier: feed.tier,
+        }));
+    }
+
+    /**
+     * Fetch and parse a single feed
+     */
+    async fetchFeed(feed: RssFeedConfig): Promise<SourcePost[]> {
+        let response: Response;
+
+        try {
+            response = await fetch(feed.url, {
+                headers: {
+                    'User-Agent': USER_AGENT,
+                    'Accept': 'application/rss+xml, application/atom+xml, application/xml, text/xml',
+                },
+                signal: AbortSignal.timeout(FETCH_TIMEOUT_MS),
+            });
+        } catch (error) {
+            throw new RssFetchError(
+                error instanceof Error ? error.message : 'Unknown fetch error',
+                undefined,
+                feed.id
+            );
+        }
+
+        if (!response.ok) {
+            throw new RssFetchError(
+                `Feed returned ${response.status}: ${response.statusText}`,
+                response.status,
+                feed.id
+            );
+        }
+
+        const posts = parseFeed(await response.text(), feed);
+
+        logger.info({ feedId: feed.id, postCount: posts.length }, 'Successfully fetched feed');
+
+        return posts;
+    }
+
+    async fetchPosts(
+        channelIds: string[],
+        options: TrendSourceFetchOptions = {}
+    ): Promise<Map<string, SourcePost[]>> {
+        const results = new Map<string, SourcePost[]>();
+        const feeds = channelIds
+            .map(id => this.feeds.get(id))
+            .filter((feed): feed is RssFeedConfig => feed !== undefined);
+
+        const settled = await Promise.allSettled(feeds.map(feed => this.fetchFeed(feed)));
+
+        settled.forEach((result, index) => {
+            const feed = feeds[index];
+            if (result.status === 'fulfilled') {
+                results.set(feed.id, options.limit ? result.value.slice(0, options.limit) : result.value);
+            } else {
+                logger.warn({ feedId: feed.id, error: result.reason?.message }, 'Failed to fetch feed, continuing with others');
+                results.set(feed.id, []);
+            }
+        });
+
+        return results;
+    }
+}
@@ -0,0 +1,91 @@
+/**
+ * Trend Source Registry
+ *
+ * Holds the available trend sources and fans fetches out across them.
+ *
+ * @module ingestion/sourceRegistry
+ */
+
+import type { SourcePost, TrendSourceType } from '@icerik/shared';
+import { createChildLogger } from '../utils/logger.js';
+import { RedditTrendSource } from './redditTrendSource.js';
+import { RssTrendSource } from './rssTrendSource.js';
+import type { TrendSource, TrendSourceFetchOptions } from './trendSource.js';
+
+const logger = createChildLogger('source-registry');
+
+/**
+ * Channels to fetch from one source
+ */
+export interface SourceFetchPlan {
+    source: TrendSource;
+    channelIds: string[];
+}
+
+/**
+ * Posts fetched for one channel of one source
+ */
+export interface SourceFetchResult {
+    source: TrendSourceType;
+    channel: string;
+    posts: SourcePost[];
+}
+
+// Singleton instances
+let sourceInstances: TrendSource[] | null = null;
+
+/**
+ * Gets all registered trend sources (Reddit first)
+ */
+export function getTrendSources(): TrendSource[] {
+    if (!sourceInstances) {
+        sourceInstances = [new RedditTrendSource(), new RssTrendSource()];
+    }
+    return sourceInstances;
+}
+
+/**
+ * Gets a registered trend source by type
+ */
+export function getTrendSource(type: TrendSourceType): TrendSource | undefined {
+    return getTrendSources().find(source => source.type === type);
+}
+
+/**
+ * Resets the registered sources (for testing)
+ */
+export function resetTrendSources(): void {
+    sourceInstances = null;
+}
+
+/**
+ * Fetch posts from several sources in parallel.
+ * A failing source is logged and skipped so the others still contribute.
+ */
+export async function fetchFromSources(
+    plans: SourceFetchPlan[],
+    options: TrendSourceFetchOptions = {}
+): Promise<SourceFetchResult[]> {
+    const activePlans = plans.filter(plan => plan.channelIds.length > 0 && plan.source.isConfigured());
+
+    const settled = await Promise.allSettled(
+        activePlans.map(plan => plan.source.fetchPosts(plan.channelIds, options))
+    );
+
+    const results: SourceFetchResult[] = [];
+
+    settled.forEach((result, index) => {
+        const { source } = activePlans[index];
+
+        if (result.status === 'rejected') {
+            logger.error({ source: source.type, error: result.reason }, 'Source fetch failed');
+            return;
+        }
+
+        for (const [channel, posts] of result.value) {
+            results.push({ source: source.type, channel, posts });
+        }
+    });
+
+    return results;
+}
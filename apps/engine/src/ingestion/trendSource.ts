@@ -0,0 +1,48 @@
+/**
+ * Trend Source Abstraction
+ *
+ * Common contract for everything the engine can ingest trends from.
+ * Each source produces normalized SourcePost objects so that NES
+ * calculation and aggregation never depend on a specific platform.
+ *
+ * @module ingestion/trendSource
+ */
+
+import type { ContentCategory, SourcePost, TimeRange, TrendSourceType } from '@icerik/shared';
+
+/**
+ * A pollable channel within a source (a subreddit, an RSS feed)
+ */
+export interface TrendChannel {
+    id: string;
+    category: ContentCategory;
+    tier: 1 | 2 | 3;
+}
+
+/**
+ * Fetch options shared by all sources (sources ignore what they can't support)
+ */
+export interface TrendSourceFetchOptions {
+    sort?: 'hot' | 'new' | 'top' | 'rising';
+    timeRange?: TimeRange;
+    limit?: number;
+}
+
+/**
+ * Trend source contract
+ */
+export interface TrendSource {
+    readonly type: TrendSourceType;
+
+    /** Whether the source has what it needs to run (e.g. configured feeds) */
+    isConfigured(): boolean;
+
+    /** All channels this source can poll */
+    listChannels(): TrendChannel[];
+
+    /**
+     * Fetch posts for the given channels.
+     * Failed channels map to an empty array instead of rejecting.
+     */
+    fetchPosts(channelIds: string[], options?: TrendSourceFetchOptions): Promise<Map<string, SourcePost[]>>;
+}
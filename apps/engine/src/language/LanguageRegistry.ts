@@ -0,0 +1,233 @@
+/**
+ * Language Registry
+ *
+ * Resolves script languages to their profile, merging the built-in
+ * profiles with LANGUAGE_OVERRIDES (JSON), e.g.
+ * {"de":{"wordsPerSecond":2.1,"emphasisWords":["krass"]}}
+ * Numbers and instructions replace the default; word lists are appended.
+ *
+ * Callers that don't know the language (e.g. keyword extraction from a
+ * trend title) get the union of all languages' word lists.
+ *
+ * @module language/LanguageRegistry
+ */
+
+import type { ScriptLanguage } from '@icerik/shared';
+import { SCRIPT_LANGUAGES } from '@icerik/shared';
+import { createChildLogger } from '../utils/logger.js';
+import { getEnv } from '../utils/env.js';
+import { LANGUAGE_PROFILES, DEFAULT_SCRIPT_LANGUAGE } from './languageProfiles.js';
+import type { LanguageProfile } from './languageProfiles.js';
+
+const logger = createChildLogger('language-registry');
+
+/**
+ * Fields of a profile that LANGUAGE_OVERRIDES may change
+ */
+export type LanguageOverride = Partial<Pick<LanguageProfile, 'instructions' | 'wordsPerSecond' | 'stopwords' | 'emphasisWords'>>;
+
+/**
+ * Voice fields the language filter looks at
+ */
+export interface LanguageTaggedVoice {
+    languages?: string[];
+    labels?: Record<string, string>;
+}
+
+interface ResolvedLanguage {
+    profile: LanguageProfile;
+    stopwords: Set<string>;
+    emphasisWords: Set<string>;
+}
+
+function isStringList(value: unknown): value is string[] {
+    return Array.isArray(value) && value.every(item => typeof item === 'string');
+}
+
+/**
+ * Parse LANGUAGE_OVERRIDES. Unknown languages and invalid fields are logged and ignored.
+ */
+export function loadLanguageOverrides(
+    value: string | undefined = getEnv().LANGUAGE_OVERRIDES
+): Partial<Record<ScriptLanguage, LanguageOverride>> {
+    const overrides: Partial<Record<ScriptLanguage, LanguageOverride>> = {};
+    if (!value) return overrides;
+
+    try {
+        const parsed = JSON.parse(value) as Record<string, Record<string, unknown>>;
+        for (const [code, fields] of Object.entries(parsed)) {
+            if (!SCRIPT_LANGUAGES.includes(code as ScriptLanguage) || typeof fields !== 'object' || !fields) {
+                logger.warn({ language: code }, 'Ignoring invalid LANGUAGE_OVERRIDES entry');
+                continue;
+            }
+
+            const override: LanguageOverride = {};
+            if (typeof fields.instructions === 'string' && fields.instructions.trim()) {
+                override.instructions = fields.instructions;
+            }
+            if (typeof fields.wordsPerSecond === 'number' && fields.wordsPerSecond > 0 && fields.wordsPerSecond <= 6) {
+                override.wordsPerSecond = fields.wordsPerSecond;
+            }
+            if (isStringList(fields.stopwords)) {
+                override.stopwords = fields.stopwords;
+            }
+            if (isStringList(fields.emphasisWords)) {
+                override.emphasisWords = fields.emphasisWords;
+            }
+
+            const ignored = Object.keys(fields).filter(key => !(key in override));
+            if (ignored.length > 0) {
+                logger.warn({ language: code, fields: ignored }, 'Ignoring invalid LANGUAGE_OVERRIDES fields');
+            }
+
+            overrides[code as ScriptLanguage] = override;
+        }
+    } catch (error) {
+        logger.warn({ error }, 'LANGUAGE_OVERRIDES is not valid JSON; using built-in language profiles');
+    }
+
+    return overrides;
+}
+
+/**
+ * Lower-case a word and strip punctuation and diacritic marks, so
+ * "İnanılmaz!" and "أبداً" match their lexicon entries
+ */
+export function normalizeWord(word: string, language?: ScriptLanguage): string {
+    return word.toLocaleLowerCase(language).replace(/[^\p{L}\p{N}]/gu, '');
+}
+
+function resolve(profile: LanguageProfile, override: LanguageOverride = {}): ResolvedLanguage {
+    const merged: LanguageProfile = {
+        ...profile,
+        instructions: override.instructions ?? profile.instructions,
+        wordsPerSecond: override.wordsPerSecond ?? profile.wordsPerSecond,
+        stopwords: [...profile.stopwords, ...(override.stopwords ?? [])],
+        emphasisWords: [...profile.emphasisWords, ...(override.emphasisWords ?? [])],
+    };
+
+    return {
+        profile: merged,
+        stopwords: new Set(merged.stopwords.map(word => normalizeWord(word, merged.code))),
+        emphasisWords: new Set(merged.emphasisWords.map(word => normalizeWord(word, merged.code))),
+    };
+}
+
+// Resolved registry (built on first use)
+let registry: Record<ScriptLanguage, ResolvedLanguage> | null = null;
+let allStopwords: Set<string> | null = null;
+let allEmphasisWords: Set<string> | null = null;
+let allSentenceTerminators: Set<string> | null = null;
+
+function getRegistry(): Record<ScriptLanguage, ResolvedLanguage> {
+    if (!registry) {
+        const overrides = loadLanguageOverrides();
+        registry = Object.fromEntries(
+            SCRIPT_LANGUAGES.map(code => [code, resolve(LANGUAGE_PROFILES[code], overrides[code])])
+        ) as Record<ScriptLanguage, ResolvedLanguage>;
+
+        const resolved = Object.values(registry);
+        allStopwords = new Set(resolved.flatMap(entry => [...entry.stopwords]));
+        allEmphasisWords = new Set(resolved.flatMap(entry => [...entry.emphasisWords]));
+        allSentenceTerminators = new Set(resolved.flatMap(entry => entry.profile.sentenceTerminators));
+    }
+    return registry;
+}
+
+/**
+ * Get a language's profile (the default language when none is given)
+ */
+export function getLanguageProfile(language: ScriptLanguage = DEFAULT_SCRIPT_LANGUAGE): LanguageProfile {
+    return (getRegistry()[language] ?? getRegistry()[DEFAULT_SCRIPT_LANGUAGE]).profile;
+}
+
+/**
+ * All supported languages with their resolved profiles
+ */
+export function listLanguageProfiles(): LanguageProfile[] {
+    return SCRIPT_LANGUAGES.map(code => getRegistry()[code].profile);
+}
+
+/**
+ * Words that fit in a duration at the language's speaking rate
+ */
+export function getWordBudget(durationSeconds: number, language?: ScriptLanguage): number {
+    return Math.round(durationSeconds * getLanguageProfile(language).wordsPerSecond);
+}
+
+/**
+ * Spoken duration of a word count at the language's speaking rate
+ */
+export function estimateSpeechSeconds(wordCount: number, language?: ScriptLanguage): number {
+    return Math.round(wordCount / getLanguageProfile(language).wordsPerSecond);
+}
+
+/**
+ * Whether a word is a stopword in the language (any language when omitted)
+ */
+export function isStopword(word: string, language?: ScriptLanguage): boolean {
+    const normalized = normalizeWord(word, language);
+    if (!language) {
+        getRegistry();
+        return allStopwords!.has(normalized);
+    }
+    return getRegistry()[language]?.stopwords.has(normalized) ?? false;
+}
+
+/**
+ * Whether a caption word should be highlighted (any language when omitted)
+ */
+export function isEmphasisWord(word: string, language?: ScriptLanguage): boolean {
+    const normalized = normalizeWord(word, language);
+    if (!normalized) return false;
+    if (!language) {
+        getRegistry();
+        return allEmphasisWords!.has(normalized);
+    }
+    return getRegistry()[language]?.emphasisWords.has(normalized) ?? false;
+}
+
+/**
+ * Whether text ends with one of the language's sentence terminators
+ * (any language's when omitted)
+ */
+export function endsWithSentenceTerminator(text: string, language?: ScriptLanguage): boolean {
+    const last = text.trim().slice(-1);
+    if (!last) return false;
+    if (!language) {
+        getRegistry();
+        return allSentenceTerminators!.has(last);
+    }
+    return getLanguageProfile(language).sentenceTerminators.includes(last);
+}
+
+/**
+ * Whether a TTS voice can be offered for a language.
+ * Voices that declare a language or accent must match it; voices without
+ * any language metadata are kept, since multilingual models can use them.
+ */
+export function voiceMatchesLanguage(voice: LanguageTaggedVoice, language: ScriptLanguage): boolean {
+    const { languageCodes, accents } = getLanguageProfile(language).voice;
+    const declaredLanguages = [
+        ...(voice.languages ?? []),
+        ...(voice.labels?.language ? [voice.labels.language] : []),
+    ].map(code => code.toLowerCase().split(/[-_]/)[0]);
+    const accent = voice.labels?.accent?.toLowerCase();
+
+    if (declaredLanguages.length === 0 && !accent) {
+        return true;
+    }
+
+    return declaredLanguages.some(code => languageCodes.includes(code)) ||
+        (accent !== undefined && accents.includes(accent));
+}
+
+/**
+ * Resets the resolved registry (for testing or after changing overrides)
+ */
+export function resetLanguageRegistry(): void {
+    registry = null;
+    allStopwords = null;
+    allEmphasisWords = null;
+    allSentenceTerminators = null;
+}
@@ -0,0 +1,71 @@
+/**
+ * Language Registry Tests
+ *
+ * Unit tests for override parsing, speaking-rate budgets, per-language
+ * lexicons and voice filtering.
+ *
+ * @module language/__tests__/LanguageRegistry.test
+ */
+
+import { describe, it, expect, afterEach } from 'vitest';
+import {
+    loadLanguageOverrides,
+    getWordBudget,
+    estimateSpeechSeconds,
+    isStopword,
+    isEmphasisWord,
+    voiceMatchesLanguage,
+    resetLanguageRegistry,
+} from '../LanguageRegistry.js';
+
+describe('loadLanguageOverrides', () => {
+    it('keeps valid fields and ignores unknown languages and bad values', () => {
+        const overrides = loadLanguageOverrides(JSON.stringify({
+            de: { wordsPerSecond: 2.0, emphasisWords: ['krass'], stopwords: 'nope' },
+            fr: { wordsPerSecond: 2.4 },
+            es: { wordsPerSecond: 12 },
+        }));
+
+        expect(overrides).toEqual({
+            de: { wordsPerSecond: 2.0, emphasisWords: ['krass'] },
+            es: {},
+        });
+        expect(loadLanguageOverrides('{not json')).toEqual({});
+        expect(loadLanguageOverrides(undefined)).toEqual({});
+    });
+});
+
+describe('LanguageRegistry', () => {
+    afterEach(() => {
+        resetLanguageRegistry();
+    });
+
+    it('sizes word budgets and durations by speaking rate', () => {
+        expect(getWordBudget(30, 'en')).toBe(75);
+        expect(getWordBudget(30, 'de')).toBe(66);
+        expect(getWordBudget(30, 'es')).toBeGreaterThan(getWordBudget(30, 'en'));
+        expect(estimateSpeechSeconds(66, 'de')).toBe(30);
+        expect(estimateSpeechSeconds(75)).toBe(30);
+    });
+
+    it('checks one language when given and all languages otherwise', () => {
+        expect(isStopword('Die', 'de')).toBe(true);
+        expect(isStopword('die', 'en')).toBe(false);
+        expect(isStopword('también')).toBe(true);
+        expect(isStopword('algoritmo', 'es')).toBe(false);
+
+        expect(isEmphasisWord('ACHTUNG!', 'de')).toBe(true);
+        expect(isEmphasisWord('İnanılmaz,', 'tr')).toBe(true);
+        expect(isEmphasisWord('incrível', 'es')).toBe(false);
+        expect(isEmphasisWord('incrível')).toBe(true);
+        expect(isEmphasisWord('...')).toBe(false);
+    });
+
+    it('filters voices by language metadata and keeps untagged voices', () => {
+        expect(voiceMatchesLanguage({ languages: ['pt-BR'] }, 'pt')).toBe(true);
+        expect(voiceMatchesLanguage({ languages: ['en'] }, 'pt')).toBe(false);
+        expect(voiceMatchesLanguage({ labels: { accent: 'German' } }, 'de')).toBe(true);
+        expect(voiceMatchesLanguage({ labels: { accent: 'american' } }, 'es')).toBe(false);
+        expect(voiceMatchesLanguage({ labels: { gender: 'female' } }, 'ar')).toBe(true);
+    });
+});
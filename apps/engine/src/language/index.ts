@@ -0,0 +1,29 @@
+/**
+ * Language Module
+ *
+ * Exports the script language registry.
+ *
+ * @module language
+ */
+
+export {
+    LANGUAGE_PROFILES,
+    DEFAULT_SCRIPT_LANGUAGE,
+    type LanguageProfile,
+} from './languageProfiles.js';
+
+export {
+    getLanguageProfile,
+    listLanguageProfiles,
+    getWordBudget,
+    estimateSpeechSeconds,
+    isStopword,
+    isEmphasisWord,
+    endsWithSentenceTerminator,
+    normalizeWord,
+    voiceMatchesLanguage,
+    loadLanguageOverrides,
+    resetLanguageRegistry,
+    type LanguageOverride,
+    type LanguageTaggedVoice,
+} from './LanguageRegistry.js';
@@ -0,0 +1,177 @@
+/**
+ * Language Profiles
+ *
+ * Built-in per-language data: prompt instructions, speaking rate,
+ * stopwords, caption emphasis lexicon and the voice metadata that marks a
+ * TTS voice as speaking the language. Adding a language means adding an
+ * entry here and its code to SCRIPT_LANGUAGES in @icerik/shared.
+ *
+ * @module language/languageProfiles
+ */
+
+import type { ScriptLanguage } from '@icerik/shared';
+
+/**
+ * Everything the pipeline needs to know about a script language
+ */
+export interface LanguageProfile {
+    code: ScriptLanguage;
+    /** English name, used inside prompts */
+    name: string;
+    /** Instruction telling the model to write in this language */
+    instructions: string;
+    /** Average short-form speaking rate; drives word budgets and duration estimates */
+    wordsPerSecond: number;
+    direction: 'ltr' | 'rtl';
+    /** Words ignored when extracting keywords */
+    stopwords: string[];
+    /** Words highlighted in captions */
+    emphasisWords: string[];
+    /** Punctuation a finished sentence ends with */
+    sentenceTerminators: string[];
+    /** Voice metadata that marks a TTS voice as speaking this language */
+    voice: {
+        /** Codes matched against Voice.languages and the `language` label */
+        languageCodes: string[];
+        /** Values matched against the `accent` label (ElevenLabs) */
+        accents: string[];
+    };
+}
+
+/**
+ * Default language when a request or stored script doesn't name one
+ */
+export const DEFAULT_SCRIPT_LANGUAGE: ScriptLanguage = 'tr';
+
+export const LANGUAGE_PROFILES: Record<ScriptLanguage, LanguageProfile> = {
+    en: {
+        code: 'en',
+        name: 'English',
+        instructions: 'Write the script in English. Use natural, conversational American English.',
+        wordsPerSecond: 2.5,
+        direction: 'ltr',
+        stopwords: [
+            'the', 'a', 'an', 'and', 'or', 'but', 'in', 'on', 'at', 'to', 'for', 'of',
+            'with', 'by', 'from', 'as', 'is', 'was', 'are', 'were', 'been', 'be', 'have',
+            'has', 'had', 'do', 'does', 'did', 'will', 'would', 'could', 'should', 'may',
+            'might', 'must', 'shall', 'can', 'need', 'dare', 'ought', 'used', 'this',
+            'that', 'these', 'those', 'i', 'you', 'he', 'she', 'it', 'we', 'they', 'what',
+            'which', 'who', 'whom', 'when', 'where', 'why', 'how', 'all', 'each', 'every',
+            'both', 'few', 'more', 'most', 'other', 'some', 'such', 'no', 'nor', 'not',
+            'only', 'own', 'same', 'so', 'than', 'too', 'very', 'just', 'about', 'into',
+        ],
+        emphasisWords: [
+            'amazing', 'incredible', 'secret', 'shocking', 'never', 'always',
+            'best', 'worst', 'only', 'must', 'stop', 'wait', 'listen',
+            'important', 'critical', 'urgent', 'warning', 'attention',
+        ],
+        sentenceTerminators: ['.', '!', '?', '…'],
+        voice: { languageCodes: ['en'], accents: ['american', 'british', 'australian', 'irish', 'english'] },
+    },
+
+    tr: {
+        code: 'tr',
+        name: 'Turkish',
+        instructions: 'Scripti Türkçe yaz. Doğal ve günlük Türkçe kullan. Gen Z ve milenyallara hitap et.',
+        // Kept at the rate the Turkish few-shot examples and limits were tuned with
+        wordsPerSecond: 2.5,
+        direction: 'ltr',
+        stopwords: [
+            've', 'bir', 'bu', 'şu', 'o', 'ile', 'için', 'de', 'da', 'den', 'dan', 'mi',
+            'mu', 'mı', 'mü', 'ne', 'nasıl', 'neden', 'nerede', 'kim', 'ya', 'ama', 'ancak',
+            'gibi', 'kadar', 'çok', 'daha', 'en', 'her', 'hiç', 'bazı', 'şey', 'olan',
+        ],
+        emphasisWords: ['dikkat', 'önemli', 'şok', 'inanılmaz', 'muhteşem', 'asla', 'hemen'],
+        sentenceTerminators: ['.', '!', '?', '…'],
+        voice: { languageCodes: ['tr'], accents: ['turkish'] },
+    },
+
+    es: {
+        code: 'es',
+        name: 'Spanish',
+        instructions: 'Escribe el guion en español. Usa un español neutro y conversacional que funcione en España y Latinoamérica.',
+        wordsPerSecond: 2.7,
+        direction: 'ltr',
+        stopwords: [
+            'el', 'la', 'los', 'las', 'un', 'una', 'unos', 'unas', 'y', 'o', 'pero', 'de',
+            'del', 'al', 'en', 'a', 'por', 'para', 'con', 'sin', 'sobre', 'que', 'es', 'son',
+            'fue', 'ser', 'está', 'están', 'ha', 'han', 'este', 'esta', 'esto', 'ese', 'esa',
+            'yo', 'tú', 'él', 'ella', 'nosotros', 'ellos', 'se', 'su', 'sus', 'lo', 'le',
+            'les', 'muy', 'más', 'menos', 'como', 'cuando', 'donde', 'quién', 'qué', 'cómo',
+            'porque', 'también', 'ya', 'no', 'sí', 'todo', 'todos',
+        ],
+        emphasisWords: [
+            'increíble', 'secreto', 'nunca', 'siempre', 'mejor', 'peor', 'solo', 'atención',
+            'importante', 'urgente', 'cuidado', 'espera', 'escucha', 'ahora', 'impactante',
+        ],
+        sentenceTerminators: ['.', '!', '?', '…'],
+        voice: { languageCodes: ['es'], accents: ['spanish', 'latin american', 'mexican', 'argentinian'] },
+    },
+
+    de: {
+        code: 'de',
+        name: 'German',
+        instructions: 'Schreibe das Skript auf Deutsch. Verwende natürliches, umgangssprachliches Deutsch und duze die Zuschauer.',
+        // Long compound words: fewer words per second than English
+        wordsPerSecond: 2.2,
+        direction: 'ltr',
+        stopwords: [
+            'der', 'die', 'das', 'den', 'dem', 'des', 'ein', 'eine', 'einen', 'einem', 'einer',
+            'und', 'oder', 'aber', 'in', 'im', 'auf', 'an', 'am', 'zu', 'zum', 'zur', 'für',
+            'von', 'vom', 'mit', 'bei', 'aus', 'nach', 'ist', 'sind', 'war', 'waren', 'sein',
+            'hat', 'haben', 'wird', 'werden', 'ich', 'du', 'er', 'sie', 'es', 'wir', 'ihr',
+            'nicht', 'kein', 'keine', 'auch', 'noch', 'nur', 'schon', 'sehr', 'wie', 'was',
+            'wer', 'wo', 'wann', 'warum', 'dass', 'diese', 'dieser', 'dieses', 'so',
+        ],
+        emphasisWords: [
+            'achtung', 'unglaublich', 'geheim', 'niemals', 'immer', 'beste', 'schlimmste',
+            'nur', 'wichtig', 'dringend', 'warnung', 'stopp', 'warte', 'hör', 'sofort',
+        ],
+        sentenceTerminators: ['.', '!', '?', '…'],
+        voice: { languageCodes: ['de'], accents: ['german', 'austrian', 'swiss'] },
+    },
+
+    pt: {
+        code: 'pt',
+        name: 'Portuguese',
+        instructions: 'Escreva o roteiro em português do Brasil. Use linguagem natural e informal, como numa conversa.',
+        wordsPerSecond: 2.6,
+        direction: 'ltr',
+        stopwords: [
+            'o', 'a', 'os', 'as', 'um', 'uma', 'uns', 'umas', 'e', 'ou', 'mas', 'de', 'do',
+            'da', 'dos', 'das', 'em', 'no', 'na', 'nos', 'nas', 'por', 'para', 'com', 'sem',
+            'que', 'é', 'são', 'foi', 'ser', 'está', 'estão', 'tem', 'têm', 'este', 'esta',
+            'isso', 'isto', 'esse', 'essa', 'eu', 'você', 'ele', 'ela', 'nós', 'eles', 'se',
+            'seu', 'sua', 'muito', 'mais', 'menos', 'como', 'quando', 'onde', 'quem', 'qual',
+            'porque', 'também', 'já', 'não', 'sim', 'tudo', 'todos',
+        ],
+        emphasisWords: [
+            'incrível', 'segredo', 'nunca', 'sempre', 'melhor', 'pior', 'só', 'atenção',
+            'importante', 'urgente', 'cuidado', 'espera', 'escuta', 'agora', 'chocante',
+        ],
+        sentenceTerminators: ['.', '!', '?', '…'],
+        voice: { languageCodes: ['pt'], accents: ['brazilian', 'portuguese'] },
+    },
+
+    ar: {
+        code: 'ar',
+        name: 'Arabic',
+        instructions: 'اكتب النص باللغة العربية الفصحى المبسطة، بأسلوب طبيعي وقريب من المحادثة اليومية.',
+        wordsPerSecond: 2.1,
+        direction: 'rtl',
+        stopwords: [
+            'في', 'من', 'على', 'إلى', 'الى', 'عن', 'مع', 'هذا', 'هذه', 'ذلك', 'تلك', 'التي',
+            'الذي', 'الذين', 'و', 'أو', 'او', 'ثم', 'لكن', 'لا', 'لم', 'لن', 'ما', 'ماذا',
+            'كيف', 'لماذا', 'متى', 'أين', 'هو', 'هي', 'هم', 'نحن', 'أنا', 'انا', 'أنت',
+            'كان', 'كانت', 'يكون', 'قد', 'كل', 'بعض', 'أي', 'عند', 'بين', 'حتى', 'إن', 'ان',
+            'أن', 'كما', 'أيضا', 'جدا',
+        ],
+        emphasisWords: [
+            'انتبه', 'مهم', 'عاجل', 'سر', 'أبدا', 'دائما', 'أفضل', 'أسوأ', 'فقط', 'توقف',
+            'انتظر', 'اسمع', 'الآن', 'مذهل', 'صادم',
+        ],
+        // Arabic question mark; Latin ? still shows up in mixed text
+        sentenceTerminators: ['.', '!', '?', '…', '؟'],
+        voice: { languageCodes: ['ar'], accents: ['arabic', 'egyptian', 'gulf', 'levantine', 'saudi'] },
+    },
+};
@@ -0,0 +1,405 @@
+/**
+ * Script Library
+ *
+ * Server-side store of every script the engine produces, so scripts
+ * survive browser changes and are shared by the team. Titles, hooks and
+ * bodies are indexed with SQLite FTS5 (diacritic-insensitive, so "sok"
+ * finds "şok").
+ *
+ * Iterations and restores are stored as child versions of the script
+ * they came from, so every script has a version tree that can be diffed
+ * and rolled back.
+ *
+ * Saving never throws: a library failure is logged and the generation
+ * response goes out without a library id.
+ *
+ * @module library/ScriptLibrary
+ */
+
+import { randomUUID } from 'crypto';
+import type { Platform, PlatformScript, ScriptLanguage, TrendData } from '@icerik/shared';
+import { getDatabase } from '../cache/index.js';
+import { getAlgorithmScorer } from '../ai/scoring/index.js';
+import { getExampleSelector, getExampleStore, exampleIdForScript } from '../ai/examples/index.js';
+import { createChildLogger } from '../utils/logger.js';
+import { ScriptLibraryError } from './libraryTypes.js';
+import { diffScripts } from './scriptDiff.js';
+import type {
+    SaveScriptInput,
+    ScriptOrigin,
+    LibraryScript,
+    LibraryScriptSummary,
+    ScriptListQuery,
+    ScriptListResult,
+    ScriptVersion,
+    ScriptVersionChange,
+    ScriptVersionTree,
+    ScriptDiff,
+} from './libraryTypes.js';
+
+const logger = createChildLogger('script-library');
+
+const DEFAULT_LIMIT = 20;
+
+/**
+ * bm25 column weights: title, hook, body
+ */
+const RANK_SQL = 'bm25(scripts_fts, 3.0, 2.0, 1.0)';
+
+interface ScriptRow {
+    id: string;
+    trend_id: string;
+    trend_title: string;
+    platform: string;
+    origin: string;
+    language: string | null;
+    title: string;
+    hook: string | null;
+    score: number | null;
+    script: string;
+    trend: string | null;
+    options: string | null;
+    created_at: string;
+    parent_id: string | null;
+    root_id: string;
+    change: string | null;
+    snippet?: string;
+}
+
+function rowToSummary(row: ScriptRow): LibraryScriptSummary {
+    return {
+        id: row.id,
+        trendId: row.trend_id,
+        trendTitle: row.trend_title,
+        platform: row.platform as Platform,
+        origin: row.origin as ScriptOrigin,
+        language: (row.language ?? undefined) as ScriptLanguage | undefined,
+        title: row.title,
+        hook: row.hook ?? undefined,
+        score: row.score ?? undefined,
+        script: JSON.parse(row.script) as PlatformScript,
+        createdAt: row.created_at,
+        parentId: row.parent_id ?? undefined,
+        rootId: row.root_id,
+        snippet: row.snippet,
+    };
+}
+
+function rowToScript(row: ScriptRow): LibraryScript {
+    return {
+        ...rowToSummary(row),
+        trend: row.trend ? JSON.parse(row.trend) as TrendData : undefined,
+        options: row.options ? JSON.parse(row.options) as Record<string, unknown> : undefined,
+    };
+}
+
+/**
+ * Turn free text into an FTS5 query: every word must match, as a prefix.
+ * Words are quoted so FTS operators in user input are treated as text.
+ * @returns null when the text has no searchable words
+ */
+export function buildMatchQuery(text: string): string | null {
+    const terms = text.match(/[\p{L}\p{N}]+/gu);
+    if (!terms) return null;
+    return terms.map(term => `"${term}"*`).join(' ');
+}
+
+/**
+ * ScriptLibrary class
+ */
+export class ScriptLibrary {
+    private db = getDatabase();
+
+    /**
+     * Store a script. Never throws.
+     * @returns the library id, or undefined if the script could not be saved
+     */
+    save(input: SaveScriptInput): string | undefined {
+        const { script, origin } = input;
+
+        try {
+            const id = randomUUID();
+            const inherited = input.trend ? undefined : this.findTrendSource(script);
+            const trend = input.trend ?? inherited?.trend;
+            const score = input.score ?? getAlgorithmScorer().score(script).overallScore;
+            const stored: PlatformScript = { ...script, metadata: { ...script.metadata, libraryId: id } };
+            const parent = input.parentId
+                ? this.db.prepare('SELECT id, root_id FROM scripts WHERE id = ?').get(input.parentId) as Pick<ScriptRow, 'id' | 'root_id'> | undefined
+                : undefined;
+
+            this.db.prepare(`
+                INSERT INTO scripts (
+                    id, trend_id, trend_title, platform, origin, language, title, hook, body,
+                    score, script, trend, options, created_at, parent_id, root_id, change
+                ) VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?)
+            `).run(
+                id,
+                script.metadata.trendId,
+                trend?.title ?? inherited?.trendTitle ?? script.title,
+                script.platform,
+                origin,
+                script.metadata.language ?? null,
+                script.title,
+                script.sections.hook?.content ?? null,
+                script.sections.body.content,
+                score,
+                JSON.stringify(stored),
+                trend ? JSON.stringify(trend) : null,
+                input.options ? JSON.stringify(input.options) : null,
+                new Date().toISOString(),
+                parent?.id ?? null,
+                parent?.root_id ?? id,
+                input.change ? JSON.stringify(input.change) : null
+            );
+
+            logger.debug({ id, origin, parentId: parent?.id, platform: script.platform, trendId: script.metadata.trendId }, 'Script saved to library');
+            return id;
+        } catch (error) {
+            logger.error({ error, origin, platform: script.platform, trendId: script.metadata.trendId }, 'Failed to save script to library');
+            return undefined;
+        }
+    }
+
+    /**
+     * List scripts, newest first, or by relevance when searching
+     */
+    list(query: ScriptListQuery = {}): ScriptListResult {
+        const { limit = DEFAULT_LIMIT, offset = 0 } = query;
+        const conditions: string[] = [];
+        const params: unknown[] = [];
+
+        if (query.platform) {
+            conditions.push('s.platform = ?');
+            params.push(query.platform);
+        }
+        if (query.origin) {
+            conditions.push('s.origin = ?');
+            params.push(query.origin);
+        }
+        if (query.trendId) {
+            conditions.push('s.trend_id = ?');
+            params.push(query.trendId);
+        }
+
+        const match = query.q ? buildMatchQuery(query.q) : null;
+
+        if (match) {
+            const where = ['scripts_fts MATCH ?', ...conditions].join(' AND ');
+            const from = 'FROM scripts_fts JOIN scripts s ON s.seq = scripts_fts.rowid';
+
+            const rows = this.db.prepare(`
+                SELECT s.*, snippet(scripts_fts, -1, '[', ']', '…', 12) AS snippet
+                ${from}
+                WHERE ${where}
+                ORDER BY ${RANK_SQL}, s.seq DESC
+                LIMIT ? OFFSET ?
+            `).all(match, ...params, limit, offset) as ScriptRow[];
+
+            const { total } = this.db.prepare(`SELECT COUNT(*) AS total ${from} WHERE ${where}`)
+                .get(match, ...params) as { total: number };
+
+            return { items: rows.map(rowToSummary), total };
+        }
+
+        const where = conditions.length > 0 ? `WHERE ${conditions.join(' AND ')}` : '';
+
+        const rows = this.db.prepare(`
+            SELECT s.* FROM scripts s
+            ${where}
+            ORDER BY s.created_at DESC, s.seq DESC
+            LIMIT ? OFFSET ?
+        `).all(...params, limit, offset) as ScriptRow[];
+
+        const { total } = this.db.prepare(`SELECT COUNT(*) AS total FROM scripts s ${where}`)
+            .get(...params) as { total: number };
+
+        return { items: rows.map(rowToSummary), total };
+    }
+
+    /**
+     * Get a stored script with its trend and options
+     */
+    get(id: string): LibraryScript | undefined {
+        const row = this.db.prepare('SELECT * FROM scripts WHERE id = ?').get(id) as ScriptRow | undefined;
+        return row ? rowToScript(row) : undefined;
+    }
+
+    /**
+     * Delete a stored script. Its child versions move up to its parent; its
+     * rating goes with it, and so does its few-shot example if it had one.
+     * @throws ScriptLibraryError (404) if it does not exist
+     */
+    remove(id: string): void {
+        const removeVersion = this.db.transaction(() => {
+            const row = this.db.prepare('SELECT parent_id FROM scripts WHERE id = ?').get(id) as Pick<ScriptRow, 'parent_id'> | undefined;
+
+            if (!row) {
+                throw new ScriptLibraryError(`Script not found: ${id}`);
+            }
+
+            this.db.prepare('UPDATE scripts SET parent_id = ? WHERE parent_id = ?').run(row.parent_id, id);
+            this.db.prepare('DELETE FROM scripts WHERE id = ?').run(id);
+            this.db.prepare('DELETE FROM script_ratings WHERE script_id = ?').run(id);
+        });
+
+        removeVersion();
+
+        const exampleId = exampleIdForScript(id);
+        getExampleStore().remove(exampleId);
+        getExampleSelector().removeExample(exampleId);
+        logger.info({ id }, 'Script removed from library');
+    }
+
+    /**
+     * All versions of the script the given version belongs to
+     * @throws ScriptLibraryError (404) if the version does not exist
+     */
+    getVersionTree(id: string): ScriptVersionTree {
+        const rootId = this.getRootId(id);
+
+        const rows = this.db.prepare(`
+            SELECT id, parent_id, origin, title, score, created_at, change FROM scripts
+            WHERE root_id = ?
+            ORDER BY seq
+        `).all(rootId) as Array<Pick<ScriptRow, 'id' | 'parent_id' | 'origin' | 'title' | 'score' | 'created_at' | 'change'>>;
+
+        // Parents are always stored before their children
+        const depths = new Map<string, number>();
+        const versions: ScriptVersion[] = rows.map(row => {
+            const depth = row.parent_id !== null ? (depths.get(row.parent_id) ?? -1) + 1 : 0;
+            depths.set(row.id, depth);
+
+            return {
+                id: row.id,
+                parentId: row.parent_id ?? undefined,
+                origin: row.origin as ScriptOrigin,
+                title: row.title,
+                score: row.score ?? undefined,
+                createdAt: row.created_at,
+                change: row.change ? JSON.parse(row.change) as ScriptVersionChange : undefined,
+                depth,
+            };
+        });
+
+        return { rootId, versions };
+    }
+
+    /**
+     * Section-level diff between two versions of the same script
+     * @throws ScriptLibraryError 404 for unknown versions, 400 for versions of different scripts
+     */
+    diff(fromId: string, toId: string): ScriptDiff {
+        const from = this.get(fromId);
+        const to = this.get(toId);
+
+        if (!from || !to) {
+            throw new ScriptLibraryError(`Script not found: ${from ? toId : fromId}`);
+        }
+        if (from.rootId !== to.rootId) {
+            throw new ScriptLibraryError('Versions belong to different scripts', 400);
+        }
+
+        const sections = diffScripts(from.script, to.script);
+
+        return {
+            fromId,
+            toId,
+            sections,
+            changedSections: sections.filter(section => section.changed).map(section => section.section),
+        };
+    }
+
+    /**
+     * Bring back an older version as the newest one. The restored copy is a
+     * child of the current latest version, like a revert commit, so the
+     * versions in between stay in the tree.
+     * @throws ScriptLibraryError 404 for unknown versions, 400 when it already is the latest
+     */
+    restore(id: string): LibraryScript {
+        const version = this.get(id);
+        if (!version) {
+            throw new ScriptLibraryError(`Script not found: ${id}`);
+        }
+
+        const latest = this.db.prepare(`
+            SELECT * FROM scripts WHERE root_id = ? ORDER BY seq DESC LIMIT 1
+        `).get(version.rootId) as ScriptRow;
+
+        if (latest.id === id) {
+            throw new ScriptLibraryError('Version is already the latest', 400);
+        }
+
+        const latestScript = rowToScript(latest).script;
+        const changedSections = diffScripts(latestScript, version.script)
+            .filter(section => section.changed)
+            .map(section => section.section);
+
+        const restoredId = this.save({
+            script: { ...version.script, metadata: { ...version.script.metadata, generatedAt: new Date().toISOString() } },
+            origin: 'restore',
+            trend: version.trend,
+            options: version.options,
+            score: version.score,
+            parentId: latest.id,
+            change: { changedSections, restoredFrom: id },
+        });
+
+        const restored = restoredId ? this.get(restoredId) : undefined;
+        if (!restored) {
+            throw new Error(`Failed to restore script version: ${id}`);
+        }
+
+        logger.info({ id, restoredId, rootId: version.rootId }, 'Script version restored');
+        return restored;
+    }
+
+    private getRootId(id: string): string {
+        const row = this.db.prepare('SELECT root_id FROM scripts WHERE id = ?').get(id) as Pick<ScriptRow, 'root_id'> | undefined;
+
+        if (!row) {
+            throw new ScriptLibraryError(`Script not found: ${id}`);
+        }
+
+        return row.root_id;
+    }
+
+    /**
+     * Trend of the stored script this one was derived from: the script
+     * itself when it carries a library id, else the latest one for its trend
+     */
+    private findTrendSource(script: PlatformScript): { trendTitle: string; trend?: TrendData } | undefined {
+        const row = (script.metadata.libraryId
+            ? this.db.prepare('SELECT trend_title, trend FROM scripts WHERE id = ?').get(script.metadata.libraryId)
+            : undefined) ?? this.db.prepare(`
+                SELECT trend_title, trend FROM scripts
+                WHERE trend_id = ?
+                ORDER BY seq DESC
+                LIMIT 1
+            `).get(script.metadata.trendId);
+
+        if (!row) return undefined;
+
+        const { trend_title, trend } = row as Pick<ScriptRow, 'trend_title' | 'trend'>;
+        return { trendTitle: trend_title, trend: trend ? JSON.parse(trend) as TrendData : undefined };
+    }
+}
+
+// Singleton instance
+let libraryInstance: ScriptLibrary | null = null;
+
+/**
+ * Gets the singleton ScriptLibrary instance
+ */
+export function getScriptLibrary(): ScriptLibrary {
+    if (!libraryInstance) {
+        libraryInstance = new ScriptLibrary();
+    }
+    return libraryInstance;
+}
+
+/**
+ * Resets the library instance (for testing)
+ */
+export function resetScriptLibrary(): void {
+    libraryInstance = null;
+}
@@ -0,0 +1,169 @@
+/**
+ * Script Library Tests
+ *
+ * Unit tests for saving, full-text search, trend inheritance, removal
+ * and version trees.
+ *
+ * @module library/__tests__/ScriptLibrary.test
+ */
+
+import { describe, it, expect, beforeEach, afterEach, afterAll } from 'vitest';
+import type { PlatformScript, TrendData } from '@icerik/shared';
+import { getScriptLibrary, resetScriptLibrary, buildMatchQuery } from '../ScriptLibrary.js';
+import { ScriptLibraryError } from '../libraryTypes.js';
+import { closeDatabase } from '../../cache/database.js';
+
+const TREND_ID = 'test-library-trend';
+
+const TREND = {
+    id: TREND_ID,
+    title: 'Kapı zilleri görüntüleri paylaşıyor',
+    category: 'technology',
+} as TrendData;
+
+function makeScript(hook: string, body: string): PlatformScript {
+    return {
+        platform: 'tiktok',
+        script: `${hook}\n\n${body}`,
+        title: 'Kapı Ziliniz Sizi İzliyor',
+        hashtags: ['#teknoloji'],
+        estimatedDurationSeconds: 10,
+        sections: {
+            hook: { content: hook, wordCount: hook.split(' ').length, estimatedSeconds: 2 },
+            body: { content: body, wordCount: body.split(' ').length, estimatedSeconds: 8 },
+        },
+        optimizations: [],
+        metadata: {
+            generatedAt: new Date().toISOString(),
+            trendId: TREND_ID,
+            category: 'technology',
+            agentVersion: 'test',
+            language: 'tr',
+        },
+    };
+}
+
+describe('buildMatchQuery', () => {
+    it('quotes each word as a prefix term', () => {
+        expect(buildMatchQuery('şok  haber')).toBe('"şok"* "haber"*');
+        expect(buildMatchQuery('title:x OR "y"')).toBe('"title"* "x"* "OR"* "y"*');
+        expect(buildMatchQuery('!!')).toBeNull();
+    });
+});
+
+describe('ScriptLibrary', () => {
+    beforeEach(() => {
+        resetScriptLibrary();
+    });
+
+    afterEach(() => {
+        const library = getScriptLibrary();
+        for (const item of library.list({ trendId: TREND_ID, limit: 100 }).items) {
+            library.remove(item.id);
+        }
+    });
+
+    afterAll(() => {
+        resetScriptLibrary();
+        closeDatabase();
+    });
+
+    it('saves scripts and finds them by title, hook or body without diacritics', () => {
+        const library = getScriptLibrary();
+        const id = library.save({
+            script: makeScript('Şok gözetim iddiası!', 'Flock sistemi görüntüleri paylaşıyor.'),
+            origin: 'generate',
+            trend: TREND,
+            options: { tone: 'casual' },
+        });
+
+        expect(id).toBeDefined();
+
+        const stored = library.get(id!);
+        expect(stored).toMatchObject({
+            trendTitle: TREND.title,
+            origin: 'generate',
+            language: 'tr',
+            options: { tone: 'casual' },
+        });
+        expect(stored?.script.metadata.libraryId).toBe(id);
+        expect(typeof stored?.score).toBe('number');
+
+        const found = library.list({ q: 'sok gozet', trendId: TREND_ID });
+        expect(found.total).toBe(1);
+        expect(found.items[0].snippet).toContain('[Şok]');
+
+        expect(library.list({ q: 'flock', trendId: TREND_ID }).total).toBe(1);
+        expect(library.list({ q: 'flock', platform: 'shorts', trendId: TREND_ID }).total).toBe(0);
+    });
+
+    it('gives iterations the trend of the script they came from', () => {
+        const library = getScriptLibrary();
+        const parentId = library.save({
+            script: makeScript('Kapınız izleniyor', 'Görüntüler paylaşılıyor.'),
+            origin: 'generate',
+            trend: TREND,
+        });
+
+        const iterated = makeScript('Yeni hook', 'Görüntüler paylaşılıyor.');
+        iterated.metadata.libraryId = parentId;
+        const id = library.save({ script: iterated, origin: 'iteration', options: { target: 'hook' } });
+
+        const stored = library.get(id!);
+        expect(stored?.trendTitle).toBe(TREND.title);
+        expect(stored?.trend?.id).toBe(TREND_ID);
+        expect(stored?.script.metadata.libraryId).toBe(id);
+        expect(library.list({ trendId: TREND_ID }).items.map(item => item.id)).toEqual([id, parentId]);
+    });
+
+    it('keeps iterations as a version tree that can be diffed and restored', () => {
+        const library = getScriptLibrary();
+        const rootId = library.save({
+            script: makeScript('İlk hook', 'Görüntüler paylaşılıyor.'),
+            origin: 'generate',
+            trend: TREND,
+        })!;
+
+        // Three hook iterations in a row
+        const ids = [rootId];
+        for (const hook of ['İkinci hook', 'Üçüncü hook', 'Dördüncü hook']) {
+            const script = makeScript(hook, 'Görüntüler paylaşılıyor.');
+            ids.push(library.save({
+                script,
+                origin: 'iteration',
+                parentId: ids[ids.length - 1],
+                change: { target: 'hook', changedSections: ['hook'] },
+            })!);
+        }
+
+        const diff = library.diff(ids[1], ids[3]);
+        expect(diff.changedSections).toEqual(['hook']);
+        expect(diff.sections.find(section => section.section === 'hook')).toMatchObject({
+            from: 'İkinci hook',
+            to: 'Dördüncü hook',
+        });
+
+        const restored = library.restore(ids[1]);
+        expect(restored).toMatchObject({ origin: 'restore', parentId: ids[3], rootId, hook: 'İkinci hook' });
+
+        const tree = library.getVersionTree(ids[2]);
+        expect(tree.rootId).toBe(rootId);
+        expect(tree.versions.map(version => version.depth)).toEqual([0, 1, 2, 3, 4]);
+        expect(tree.versions[4].change).toEqual({ changedSections: ['hook'], restoredFrom: ids[1] });
+
+        expect(() => library.restore(restored.id)).toThrow(ScriptLibraryError);
+        expect(() => library.diff(rootId, 'missing-id')).toThrow(ScriptLibraryError);
+
+        // Removing a middle version moves its children up
+        library.remove(ids[2]);
+        expect(library.get(ids[3])?.parentId).toBe(ids[1]);
+    });
+
+    it('logs instead of throwing on bad input and 404s unknown ids', () => {
+        const library = getScriptLibrary();
+        const broken = { ...makeScript('a', 'b'), sections: {} } as PlatformScript;
+
+        expect(library.save({ script: broken, origin: 'generate', trend: TREND, score: 50 })).toBeUndefined();
+        expect(() => library.remove('missing-id')).toThrow(ScriptLibraryError);
+    });
+});
@@ -0,0 +1,34 @@
+/**
+ * Script Library Module
+ *
+ * Exports the server-side store of generated scripts.
+ *
+ * @module library
+ */
+
+export {
+    ScriptLibrary,
+    getScriptLibrary,
+    resetScriptLibrary,
+    buildMatchQuery,
+} from './ScriptLibrary.js';
+
+export { diffScripts } from './scriptDiff.js';
+
+export {
+    ScriptLibraryError,
+    SCRIPT_ORIGINS,
+    SCRIPT_DIFF_SECTIONS,
+    type ScriptOrigin,
+    type ScriptDiffSection,
+    type ScriptVersionChange,
+    type SaveScriptInput,
+    type LibraryScript,
+    type LibraryScriptSummary,
+    type ScriptListQuery,
+    type ScriptListResult,
+    type ScriptVersion,
+    type ScriptVersionTree,
+    type ScriptSectionDiff,
+    type ScriptDiff,
+} from './libraryTypes.js';
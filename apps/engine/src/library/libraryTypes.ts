@@ -0,0 +1,160 @@
+/**
+ * Script Library Types
+ *
+ * @module library/libraryTypes
+ */
+
+import type { Platform, PlatformScript, ScriptLanguage, TrendData } from '@icerik/shared';
+import type { IterationTarget } from '../ai/iteration/index.js';
+
+/**
+ * Which endpoint produced a stored script
+ */
+export const SCRIPT_ORIGINS = ['generate', 'variant', 'iteration', 'translation', 'restore'] as const;
+
+export type ScriptOrigin = typeof SCRIPT_ORIGINS[number];
+
+/**
+ * Parts of a script compared by version diffs
+ */
+export const SCRIPT_DIFF_SECTIONS = ['title', 'hook', 'body', 'cta', 'hashtags'] as const;
+
+export type ScriptDiffSection = typeof SCRIPT_DIFF_SECTIONS[number];
+
+/**
+ * How a version differs from its parent
+ */
+export interface ScriptVersionChange {
+    /** Iteration target (iterations only) */
+    target?: IterationTarget;
+    newTone?: string;
+    additionalInstructions?: string;
+    profileId?: string;
+    changedSections: string[];
+    /** Version whose content was brought back (restores only) */
+    restoredFrom?: string;
+}
+
+/**
+ * A script to store
+ */
+export interface SaveScriptInput {
+    script: PlatformScript;
+    origin: ScriptOrigin;
+    /**
+     * Source trend. Iterations and translations usually don't have it and
+     * inherit it from the stored script they came from.
+     */
+    trend?: TrendData;
+    /** Request options the script was produced with */
+    options?: Record<string, unknown>;
+    /** Algorithm score (0-100); computed when omitted */
+    score?: number;
+    /** Stored version this one was derived from; starts a new tree when unknown */
+    parentId?: string;
+    change?: ScriptVersionChange;
+}
+
+/**
+ * List entry (without the stored trend and options)
+ */
+export interface LibraryScriptSummary {
+    id: string;
+    trendId: string;
+    trendTitle: string;
+    platform: Platform;
+    origin: ScriptOrigin;
+    language?: ScriptLanguage;
+    title: string;
+    hook?: string;
+    score?: number;
+    script: PlatformScript;
+    createdAt: string;
+    parentId?: string;
+    /** First version of the script; equals id for roots */
+    rootId: string;
+    /** Matching text with [brackets] around the hits (search results only) */
+    snippet?: string;
+}
+
+/**
+ * Full stored script
+ */
+export interface LibraryScript extends LibraryScriptSummary {
+    trend?: TrendData;
+    options?: Record<string, unknown>;
+}
+
+/**
+ * List filters; q is a full-text search over title, hook and body
+ */
+export interface ScriptListQuery {
+    q?: string;
+    platform?: Platform;
+    origin?: ScriptOrigin;
+    trendId?: string;
+    limit?: number;
+    offset?: number;
+}
+
+/**
+ * One page of the list
+ */
+export interface ScriptListResult {
+    items: LibraryScriptSummary[];
+    total: number;
+}
+
+/**
+ * Node of a version tree
+ */
+export interface ScriptVersion {
+    id: string;
+    /** Missing for the root, or when the parent was deleted */
+    parentId?: string;
+    origin: ScriptOrigin;
+    title: string;
+    score?: number;
+    createdAt: string;
+    change?: ScriptVersionChange;
+    /** Distance from the root */
+    depth: number;
+}
+
+/**
+ * All versions of a script, oldest first
+ */
+export interface ScriptVersionTree {
+    rootId: string;
+    versions: ScriptVersion[];
+}
+
+/**
+ * One compared part of two versions
+ */
+export interface ScriptSectionDiff {
+    section: ScriptDiffSection;
+    from?: string;
+    to?: string;
+    changed: boolean;
+}
+
+/**
+ * Section-level comparison of two versions of a script
+ */
+export interface ScriptDiff {
+    fromId: string;
+    toId: string;
+    sections: ScriptSectionDiff[];
+    changedSections: ScriptDiffSection[];
+}
+
+/**
+ * Error for library operations that carries the HTTP status to answer with
+ */
+export class ScriptLibraryError extends Error {
+    constructor(message: string, public readonly statusCode: 400 | 404 = 404) {
+        super(message);
+        this.name = 'ScriptLibraryError';
+    }
+}
@@ -0,0 +1,44 @@
+/**
+ * Script Diff
+ *
+ * Section-level comparison of two script versions.
+ *
+ * @module library/scriptDiff
+ */
+
+import type { PlatformScript } from '@icerik/shared';
+import { SCRIPT_DIFF_SECTIONS } from './libraryTypes.js';
+import type { ScriptDiffSection, ScriptSectionDiff } from './libraryTypes.js';
+
+/**
+ * Text of one part of a script; hashtags are joined with spaces
+ */
+function sectionText(script: PlatformScript, section: ScriptDiffSection): string | undefined {
+    switch (section) {
+        case 'title':
+            return script.title;
+        case 'hashtags':
+            return script.hashtags.length > 0 ? script.hashtags.join(' ') : undefined;
+        default:
+            return script.sections[section]?.content;
+    }
+}
+
+/**
+ * Compare two scripts part by part. Whitespace-only edits don't count
+ * as changes.
+ */
+export function diffScripts(from: PlatformScript, to: PlatformScript): ScriptSectionDiff[] {
+    return SCRIPT_DIFF_SECTIONS.map(section => {
+        const before = sectionText(from, section);
+        const after = sectionText(to, section);
+        const normalize = (text?: string) => text?.replace(/\s+/g, ' ').trim() ?? '';
+
+        return {
+            section,
+            from: before,
+            to: after,
+            changed: normalize(before) !== normalize(after),
+        };
+    });
+}
@@ -0,0 +1,403 @@
+/**
+ * Music Library
+ *
+ * Indexes a local directory of background tracks (mood, BPM, duration)
+ * into SQLite and picks a track for a video's dominant mood.
+ *
+ * Track metadata, in order of precedence:
+ * 1. `library.json` in the library root: `{ "<relative path>": { title?, moods?, bpm? } }`
+ * 2. Mood names in folder/file names (`energetic/track.mp3`, `calm_lofi.mp3`)
+ *    and `<n>bpm` in the file name
+ * Duration is probed with ffprobe and reused until the file changes.
+ *
+ * @module music/MusicLibrary
+ */
+
+import { spawn } from 'child_process';
+import { promises as fs } from 'fs';
+import path from 'path';
+import crypto from 'crypto';
+import ffprobePath from '@ffprobe-installer/ffprobe';
+import { getDatabase } from '../cache/index.js';
+import { createChildLogger } from '../utils/logger.js';
+import { getEnv } from '../utils/env.js';
+import type {
+    MusicTrack,
+    MusicTrackMetadata,
+    MusicTrackQuery,
+    MusicSelectionCriteria,
+    MusicSelection,
+    MusicScanResult,
+    SceneMood,
+} from './musicTypes.js';
+
+const logger = createChildLogger('music-library');
+
+/**
+ * Probes an audio file's duration in seconds (null if unknown)
+ */
+export type DurationProbe = (filePath: string) => Promise<number | null>;
+
+// =============================================================================
+// Constants
+// =============================================================================
+
+const AUDIO_EXTENSIONS = new Set(['.mp3', '.m4a', '.aac', '.wav', '.ogg', '.flac']);
+const MANIFEST_FILE = 'library.json';
+/** Re-scan before selecting when the index is older than this */
+const RESCAN_INTERVAL_MS = 5 * 60 * 1000;
+
+export const SCENE_MOODS: SceneMood[] = [
+    'energetic', 'calm', 'dramatic', 'informative', 'humorous', 'urgent', 'inspiring',
+];
+
+/**
+ * Moods to try, in order, when no track has the requested one
+ */
+const RELATED_MOODS: Record<SceneMood, SceneMood[]> = {
+    energetic: ['energetic', 'urgent', 'humorous', 'inspiring'],
+    calm: ['calm', 'informative', 'inspiring'],
+    dramatic: ['dramatic', 'urgent', 'inspiring'],
+    informative: ['informative', 'calm', 'inspiring'],
+    humorous: ['humorous', 'energetic'],
+    urgent: ['urgent', 'dramatic', 'energetic'],
+    inspiring: ['inspiring', 'calm', 'dramatic'],
+};
+
+/**
+ * Typical tempo per mood; closer tracks are preferred
+ */
+const MOOD_BPM: Record<SceneMood, number> = {
+    energetic: 128,
+    calm: 75,
+    dramatic: 95,
+    informative: 100,
+    humorous: 115,
+    urgent: 140,
+    inspiring: 105,
+};
+
+/** Candidates scoring within this of the best are picked between by seed */
+const SELECTION_TOLERANCE = 0.5;
+
+// =============================================================================
+// Helpers
+// =============================================================================
+
+interface MusicTrackRow {
+    id: string;
+    path: string;
+    title: string;
+    moods: string;
+    bpm: number | null;
+    duration_seconds: number | null;
+    file_size: number;
+    modified_at: string;
+    indexed_at: string;
+}
+
+function rowToTrack(row: MusicTrackRow): MusicTrack {
+    return {
+        id: row.id,
+        path: row.path,
+        title: row.title,
+        moods: JSON.parse(row.moods) as SceneMood[],
+        bpm: row.bpm,
+        durationSeconds: row.duration_seconds,
+        fileSize: row.file_size,
+        modifiedAt: row.modified_at,
+        indexedAt: row.indexed_at,
+    };
+}
+
+/**
+ * Metadata from folder/file names: mood words and `<n>bpm`
+ */
+export function parseTrackName(relativePath: string): MusicTrackMetadata {
+    const parsed = path.parse(relativePath);
+    const tokens = relativePath.toLowerCase().split(/[^a-z0-9]+/);
+    const bpm = /(\d{2,3})\s*-?bpm/i.exec(parsed.name);
+
+    return {
+        title: parsed.name
+            .replace(/(\d{2,3})\s*-?bpm/gi, '')
+            .replace(/[_-]+/g, ' ')
+            .replace(/\s+/g, ' ')
+            .trim() || parsed.name,
+        moods: SCENE_MOODS.filter(mood => tokens.includes(mood)),
+        bpm: bpm ? parseInt(bpm[1], 10) : undefined,
+    };
+}
+
+function seededIndex(seed: string, length: number): number {
+    return crypto.createHash('sha256').update(seed).digest().readUInt32BE(0) % length;
+}
+
+/**
+ * ffprobe-based duration probe
+ */
+const probeWithFfprobe: DurationProbe = (filePath) => new Promise((resolve) => {
+    const ffprobe = spawn(ffprobePath.path, [
+        '-v', 'error',
+        '-show_entries', 'format=duration',
+        '-of', 'default=noprint_wrappers=1:nokey=1',
+        filePath,
+    ]);
+    let output = '';
+
+    ffprobe.stdout.on('data', (data) => {
+        output += data.toString();
+    });
+
+    ffprobe.on('close', (code) => {
+        const duration = parseFloat(output.trim());
+        resolve(code === 0 && Number.isFinite(duration) ? duration : null);
+    });
+
+    ffprobe.on('error', () => resolve(null));
+});
+
+// =============================================================================
+// Music Library Class
+// =============================================================================
+
+export class MusicLibrary {
+    private db = getDatabase();
+    private libraryDir: string;
+    private lastScanAt = 0;
+    private scanning: Promise<MusicScanResult> | null = null;
+
+    constructor(
+        libraryDir: string = getEnv().MUSIC_LIBRARY_DIR,
+        private probeDuration: DurationProbe = probeWithFfprobe
+    ) {
+        this.libraryDir = path.resolve(libraryDir);
+    }
+
+    getLibraryDir(): string {
+        return this.libraryDir;
+    }
+
+    /**
+     * Re-index the library directory. Never throws; a missing directory
+     * simply empties the index.
+     */
+    scan(): Promise<MusicScanResult> {
+        if (!this.scanning) {
+            this.scanning = this.runScan().finally(() => {
+                this.scanning = null;
+            });
+        }
+        return this.scanning;
+    }
+
+    /**
+     * Indexed tracks (title order), optionally filtered
+     */
+    list(query: MusicTrackQuery = {}): MusicTrack[] {
+        const rows = this.db.prepare(`
+            SELECT * FROM music_tracks WHERE library_dir = ? ORDER BY title COLLATE NOCASE
+        `).all(this.libraryDir) as MusicTrackRow[];
+
+        return rows.map(rowToTrack).filter(track =>
+            (!query.mood || track.moods.includes(query.mood)) &&
+            (query.minDuration === undefined || (track.durationSeconds ?? 0) >= query.minDuration)
+        );
+    }
+
+    get(id: string): MusicTrack | null {
+        const row = this.db.prepare(`
+            SELECT * FROM music_tracks WHERE library_dir = ? AND id = ?
+        `).get(this.libraryDir, id) as MusicTrackRow | undefined;
+        return row ? rowToTrack(row) : null;
+    }
+
+    /**
+     * Pick a track for a mood. Tracks tagged with the mood come first, then
+     * related moods, then untagged tracks; within a tier, tracks long enough
+     * for the video and close to the mood's tempo win, and the seed picks
+     * between near-equal ones. Returns null when nothing fits.
+     */
+    async selectTrack(criteria: MusicSelectionCriteria): Promise<MusicSelection | null> {
+        if (Date.now() - this.lastScanAt > RESCAN_INTERVAL_MS) {
+            await this.scan();
+        }
+
+        const tracks = this.list();
+        if (tracks.length === 0) return null;
+
+        const related = RELATED_MOODS[criteria.mood];
+        const candidates: { track: MusicTrack; matchedMood: SceneMood; score: number }[] = [];
+
+        for (const track of tracks) {
+            const rank = related.findIndex(mood => track.moods.includes(mood));
+            // Tracks tagged only with unrelated moods are never picked
+            if (rank === -1 && track.moods.length > 0) continue;
+
+            const tier = rank === -1 ? related.length : rank;
+            candidates.push({
+                track,
+                matchedMood: rank === -1 ? criteria.mood : related[rank],
+                score: tier * 10 + this.fitPenalty(track, criteria),
+            });
+        }
+
+        if (candidates.length === 0) return null;
+
+        const best = Math.min(...candidates.map(candidate => candidate.score));
+        const shortlist = candidates
+            .filter(candidate => candidate.score - best <= SELECTION_TOLERANCE)
+            .sort((a, b) => a.track.id.localeCompare(b.track.id));
+        const pick = shortlist[criteria.seed ? seededIndex(criteria.seed, shortlist.length) : 0];
+
+        return { track: pick.track, mood: criteria.mood, matchedMood: pick.matchedMood };
+    }
+
+    /**
+     * Lower is better: penalize tracks that would loop and off-tempo tracks
+     */
+    private fitPenalty(track: MusicTrack, criteria: MusicSelectionCriteria): number {
+        let penalty = 0;
+
+        if (criteria.minDurationSeconds) {
+            if (track.durationSeconds === null) {
+                penalty += 1;
+            } else if (track.durationSeconds < criteria.minDurationSeconds) {
+                penalty += 3;
+            }
+        }
+
+        penalty += track.bpm === null ? 1 : Math.abs(track.bpm - MOOD_BPM[criteria.mood]) / 20;
+
+        return penalty;
+    }
+
+    private async runScan(): Promise<MusicScanResult> {
+        const result: MusicScanResult = { indexed: 0, unchanged: 0, removed: 0, total: 0 };
+
+        try {
+            const files = await this.findAudioFiles(this.libraryDir);
+            const manifest = await this.readManifest();
+            const existing = new Map(this.list().map(track => [track.id, track]));
+            const now = new Date().toISOString();
+
+            const upsert = this.db.prepare(`
+                INSERT OR REPLACE INTO music_tracks
+                    (library_dir, id, path, title, moods, bpm, duration_seconds, file_size, modified_at, indexed_at)
+                VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?)
+            `);
+
+            for (const filePath of files) {
+                const id = path.relative(this.libraryDir, filePath).split(path.sep).join('/');
+                const stats = await fs.stat(filePath);
+                const modifiedAt = stats.mtime.toISOString();
+                const previous = existing.get(id);
+                existing.delete(id);
+
+                const unchanged = previous && previous.fileSize === stats.size && previous.modifiedAt === modifiedAt;
+                const durationSeconds = unchanged ? previous.durationSeconds : await this.probeDuration(filePath);
+
+                const fromName = parseTrackName(id);
+                const fromManifest = manifest[id] ?? {};
+                const moods = (fromManifest.moods ?? fromName.moods ?? []).filter(mood => SCENE_MOODS.includes(mood));
+
+                upsert.run(
+                    this.libraryDir,
+                    id,
+                    filePath,
+                    fromManifest.title ?? fromName.title ?? id,
+                    JSON.stringify(moods),
+                    fromManifest.bpm ?? fromName.bpm ?? null,
+                    durationSeconds,
+                    stats.size,
+                    modifiedAt,
+                    unchanged ? previous.indexedAt : now
+                );
+
+                if (unchanged) {
+                    result.unchanged++;
+                } else {
+                    result.indexed++;
+                }
+            }
+
+            // Files that disappeared
+            const remove = this.db.prepare('DELETE FROM music_tracks WHERE library_dir = ? AND id = ?');
+            for (const id of existing.keys()) {
+                remove.run(this.libraryDir, id);
+                result.removed++;
+            }
+
+            result.total = files.length;
+            logger.info({ libraryDir: this.libraryDir, ...result }, 'Music library scanned');
+        } catch (error) {
+            logger.error({ error, libraryDir: this.libraryDir }, 'Failed to scan music library');
+            result.total = this.list().length;
+        }
+
+        this.lastScanAt = Date.now();
+        return result;
+    }
+
+    private async findAudioFiles(dir: string): Promise<string[]> {
+        let entries;
+        try {
+            entries = await fs.readdir(dir, { withFileTypes: true });
+        } catch (error) {
+            if ((error as NodeJS.ErrnoException).code === 'ENOENT') {
+                if (dir === this.libraryDir) {
+                    logger.info({ libraryDir: dir }, 'Music library directory not found');
+                }
+                return [];
+            }
+            throw error;
+        }
+
+        const files: string[] = [];
+        for (const entry of entries) {
+            const fullPath = path.join(dir, entry.name);
+            if (entry.isDirectory()) {
+                files.push(...await this.findAudioFiles(fullPath));
+            } else if (AUDIO_EXTENSIONS.has(path.extname(entry.name).toLowerCase())) {
+                files.push(fullPath);
+            }
+        }
+
+        return files.sort();
+    }
+
+    private async readManifest(): Promise<Record<string, MusicTrackMetadata>> {
+        try {
+            const content = await fs.readFile(path.join(this.libraryDir, MANIFEST_FILE), 'utf-8');
+            return JSON.parse(content) as Record<string, MusicTrackMetadata>;
+        } catch (error) {
+            if ((error as NodeJS.ErrnoException).code !== 'ENOENT') {
+                logger.warn({ error }, `Ignoring unreadable ${MANIFEST_FILE}`);
+            }
+            return {};
+        }
+    }
+}
+
+// =============================================================================
+// Singleton
+// =============================================================================
+
+let libraryInstance: MusicLibrary | null = null;
+
+/**
+ * Get the music library for MUSIC_LIBRARY_DIR
+ */
+export function getMusicLibrary(): MusicLibrary {
+    if (!libraryInstance) {
+        libraryInstance = new MusicLibrary();
+    }
+    return libraryInstance;
+}
+
+/**
+ * Reset singleton (for testing)
+ */
+export function resetMusicLibrary(): void {
+    libraryInstance = null;
+}
@@ -0,0 +1,108 @@
+/**
+ * Music Library Tests
+ *
+ * Unit tests for library indexing and mood-based track selection.
+ *
+ * @module music/__tests__/MusicLibrary.test
+ */
+
+import { describe, it, expect, beforeAll, afterAll } from 'vitest';
+import { mkdirSync, writeFileSync, rmSync } from 'fs';
+import { tmpdir } from 'os';
+import path from 'path';
+import { MusicLibrary, parseTrackName } from '../MusicLibrary.js';
+import { getDatabase } from '../../cache/database.js';
+
+const LIBRARY_DIR = path.join(tmpdir(), `music_library_${Date.now()}`);
+
+const DURATIONS: Record<string, number> = {
+    'pulse_128bpm.mp3': 90,
+    'short_energetic_130bpm.mp3': 20,
+    'rain.mp3': 120,
+    'energetic/drive_125bpm.mp3': 95,
+    'untagged.wav': 60,
+};
+
+function createLibrary(probeCalls: string[] = []): MusicLibrary {
+    return new MusicLibrary(LIBRARY_DIR, async (filePath) => {
+        const id = path.relative(LIBRARY_DIR, filePath).split(path.sep).join('/');
+        probeCalls.push(id);
+        return DURATIONS[id] ?? null;
+    });
+}
+
+beforeAll(() => {
+    mkdirSync(path.join(LIBRARY_DIR, 'energetic'), { recursive: true });
+    for (const file of Object.keys(DURATIONS)) {
+        writeFileSync(path.join(LIBRARY_DIR, file), 'audio');
+    }
+    writeFileSync(path.join(LIBRARY_DIR, 'notes.txt'), 'not audio');
+    writeFileSync(path.join(LIBRARY_DIR, 'library.json'), JSON.stringify({
+        'pulse_128bpm.mp3': { title: 'Pulse', moods: ['energetic', 'urgent'] },
+        'rain.mp3': { moods: ['calm'], bpm: 70 },
+    }));
+});
+
+afterAll(() => {
+    getDatabase().prepare('DELETE FROM music_tracks WHERE library_dir = ?').run(LIBRARY_DIR);
+    rmSync(LIBRARY_DIR, { recursive: true, force: true });
+});
+
+describe('parseTrackName', () => {
+    it('reads moods and tempo from the path', () => {
+        expect(parseTrackName('calm/ocean_waves-72bpm.mp3')).toEqual({
+            title: 'ocean waves',
+            moods: ['calm'],
+            bpm: 72,
+        });
+    });
+});
+
+describe('MusicLibrary', () => {
+    it('indexes audio files with manifest and file-name metadata', async () => {
+        const library = createLibrary();
+        const result = await library.scan();
+
+        expect(result).toMatchObject({ indexed: 5, removed: 0, total: 5 });
+        expect(library.get('pulse_128bpm.mp3')).toMatchObject({
+            title: 'Pulse',
+            moods: ['energetic', 'urgent'],
+            bpm: 128,
+            durationSeconds: 90,
+        });
+        expect(library.get('energetic/drive_125bpm.mp3')?.moods).toEqual(['energetic']);
+        expect(library.list({ mood: 'calm' }).map(track => track.id)).toEqual(['rain.mp3']);
+    });
+
+    it('reuses probed durations for unchanged files and drops removed ones', async () => {
+        const probeCalls: string[] = [];
+        const library = createLibrary(probeCalls);
+        rmSync(path.join(LIBRARY_DIR, 'untagged.wav'));
+
+        const result = await library.scan();
+
+        expect(probeCalls).toEqual([]);
+        expect(result).toMatchObject({ indexed: 0, unchanged: 4, removed: 1, total: 4 });
+    });
+
+    it('selects long-enough tracks for the mood and falls back to related moods', async () => {
+        const library = createLibrary();
+        await library.scan();
+
+        const energetic = await library.selectTrack({ mood: 'energetic', minDurationSeconds: 60, seed: 'job-1' });
+        expect(['pulse_128bpm.mp3', 'energetic/drive_125bpm.mp3']).toContain(energetic?.track.id);
+        expect(energetic?.matchedMood).toBe('energetic');
+
+        const informative = await library.selectTrack({ mood: 'informative', minDurationSeconds: 60 });
+        expect(informative).toMatchObject({ matchedMood: 'calm', track: { id: 'rain.mp3' } });
+
+        expect(await library.selectTrack({ mood: 'humorous', minDurationSeconds: 60 }))
+            .toMatchObject({ matchedMood: 'energetic' });
+    });
+
+    it('returns null for an empty or missing library', async () => {
+        const library = new MusicLibrary(path.join(LIBRARY_DIR, 'missing'), async () => null);
+
+        expect(await library.selectTrack({ mood: 'calm' })).toBeNull();
+    });
+});
@@ -0,0 +1,28 @@
+/**
+ * Music Module
+ *
+ * Local background music library with mood-based track selection.
+ *
+ * @module music
+ */
+
+// Types
+export type {
+    MusicTrack,
+    MusicTrackMetadata,
+    MusicTrackQuery,
+    MusicSelectionCriteria,
+    MusicSelection,
+    MusicScanResult,
+    SceneMood,
+} from './musicTypes.js';
+
+// Library
+export {
+    MusicLibrary,
+    getMusicLibrary,
+    resetMusicLibrary,
+    parseTrackName,
+    SCENE_MOODS,
+    type DurationProbe,
+} from './MusicLibrary.js';
@@ -0,0 +1,87 @@
+/**
+ * Music Library Types
+ *
+ * Shared types for the background music library.
+ *
+ * @module music/types
+ */
+
+import type { SceneMood } from '../images/SceneAnalyzer.js';
+
+export type { SceneMood };
+
+/**
+ * Indexed background music track
+ */
+export interface MusicTrack {
+    /** Path relative to the library directory (stable id) */
+    id: string;
+    /** Absolute file path (passed to FFmpeg) */
+    path: string;
+    /** Display title */
+    title: string;
+    /** Moods this track fits */
+    moods: SceneMood[];
+    /** Tempo, if known */
+    bpm: number | null;
+    /** Length in seconds, if it could be probed */
+    durationSeconds: number | null;
+    fileSize: number;
+    modifiedAt: string;
+    indexedAt: string;
+}
+
+/**
+ * Per-track metadata from library.json (keyed by relative path)
+ */
+export interface MusicTrackMetadata {
+    title?: string;
+    moods?: SceneMood[];
+    bpm?: number;
+}
+
+/**
+ * Filters for listing tracks
+ */
+export interface MusicTrackQuery {
+    mood?: SceneMood;
+    /** Only tracks at least this long (seconds) */
+    minDuration?: number;
+}
+
+/**
+ * What a video needs from a background track
+ */
+export interface MusicSelectionCriteria {
+    /** Dominant mood of the script */
+    mood: SceneMood;
+    /** Video length; longer tracks are preferred (shorter ones loop) */
+    minDurationSeconds?: number;
+    /** Varies the pick between equally good tracks (e.g. job id) */
+    seed?: string;
+}
+
+/**
+ * Selected track and how it matched
+ */
+export interface MusicSelection {
+    track: MusicTrack;
+    /** Mood that was asked for */
+    mood: SceneMood;
+    /** Mood the track was matched on (may be a related mood) */
+    matchedMood: SceneMood;
+}
+
+/**
+ * Result of scanning the library directory
+ */
+export interface MusicScanResult {
+    /** Tracks added or whose file changed */
+    indexed: number;
+    /** Tracks reused from the index */
+    unchanged: number;
+    /** Index entries whose file is gone */
+    removed: number;
+    /** Tracks in the index after the scan */
+    total: number;
+}
@@ -0,0 +1,73 @@
+/**
+ * Baseline Calibrator Tests
+ *
+ * Unit tests for learned subreddit baselines.
+ *
+ * @module processing/__tests__/baselineCalibrator.test
+ */
+
+import { describe, it, expect, beforeAll, afterAll } from 'vitest';
+import { NES_CONSTANTS } from '@icerik/shared';
+import { BaselineCalibrator, median } from '../baselineCalibrator.js';
+import { NesCalculator } from '../nesCalculator.js';
+import { getCacheService, resetCacheService } from '../../cache/CacheService.js';
+import { resetSubredditRegistry } from '../../cache/SubredditRegistry.js';
+import { closeDatabase } from '../../cache/database.js';
+
+const SUBREDDIT = `calibration_${Date.now()}`;
+const SAMPLE_SCORES = [400, 500, 20000, 600, 450, 550, 480];
+
+describe('median', () => {
+    it('handles odd, even and empty lists', () => {
+        expect(median([3, 1, 2])).toBe(2);
+        expect(median([4, 1, 3, 2])).toBe(2.5);
+        expect(median([])).toBe(0);
+    });
+});
+
+describe('BaselineCalibrator', () => {
+    beforeAll(() => {
+        const cache = getCacheService();
+        for (const score of SAMPLE_SCORES) {
+            cache.updateSubredditStats(SUBREDDIT, score, 10, 25);
+        }
+    });
+
+    afterAll(() => {
+        resetCacheService();
+        resetSubredditRegistry();
+        closeDatabase();
+    });
+
+    it('learns the median of observed average scores', () => {
+        const calibrator = new BaselineCalibrator({ mode: 'learned', windowDays: 7 });
+
+        expect(calibrator.getLearnedBaseline(SUBREDDIT)).toEqual({
+            baseline: 500,
+            sampleCount: SAMPLE_SCORES.length,
+        });
+        expect(calibrator.resolveBaseline(SUBREDDIT, 5000)).toBe(500);
+    });
+
+    it('keeps the static baseline in static mode', () => {
+        const calibrator = new BaselineCalibrator({ mode: 'static', windowDays: 7 });
+
+        expect(calibrator.getLearnedBaseline(SUBREDDIT)?.baseline).toBe(500);
+        expect(calibrator.resolveBaseline(SUBREDDIT, 5000)).toBe(5000);
+        expect(calibrator.resolveBaseline(SUBREDDIT)).toBe(NES_CONSTANTS.DEFAULT_BASELINE);
+    });
+
+    it('falls back until enough polls were recorded', () => {
+        const calibrator = new BaselineCalibrator({ mode: 'learned', windowDays: 7 });
+
+        expect(calibrator.getLearnedBaseline('never_polled_subreddit')).toBeNull();
+        expect(calibrator.resolveBaseline('never_polled_subreddit', 2000)).toBe(2000);
+    });
+
+    it('is used by NES for unregistered subreddits', () => {
+        const calculator = new NesCalculator(new BaselineCalibrator({ mode: 'learned', windowDays: 7 }));
+
+        expect(calculator.getBaseline('reddit', SUBREDDIT)).toBe(500);
+        expect(calculator.getBaseline('rss', SUBREDDIT)).toBe(NES_CONSTANTS.DEFAULT_BASELINE);
+    });
+});
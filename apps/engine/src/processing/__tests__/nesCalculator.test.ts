@@ -0,0 +1,129 @@
+/**
+ * NES Calculator Tests
+ *
+ * Unit tests for snapshot-based acceleration and rising detection.
+ *
+ * @module processing/__tests__/nesCalculator.test
+ */
+
+import { describe, it, expect } from 'vitest';
+import { NesCalculator } from '../nesCalculator.js';
+import { TrendAggregator } from '../trendAggregator.js';
+import type { TrendData, TrendSnapshot } from '@icerik/shared';
+
+const HOUR_MS = 60 * 60 * 1000;
+const now = Date.now();
+
+/**
+ * Builds a trend created `ageHours` ago in r/technology (baseline 5000)
+ */
+function makeTrend(id: string, ageHours: number): TrendData {
+    return {
+        id,
+        title: `Trend ${id}`,
+        subreddit: 'technology',
+        category: 'technology',
+        score: 1000,
+        upvoteRatio: 0.95,
+        numComments: 100,
+        createdUtc: (now - ageHours * HOUR_MS) / 1000,
+        nes: 10,
+        engagementVelocity: 100,
+        controversyFactor: 1,
+        ageHours,
+        sourceUrl: '',
+        permalink: '',
+        fetchedAt: new Date(),
+    };
+}
+
+/**
+ * Builds a snapshot `hoursAgo` hours in the past
+ */
+function snapshot(score: number, numComments: number, hoursAgo: number): TrendSnapshot {
+    return {
+        score,
+        numComments,
+        upvoteRatio: 0.95,
+        nes: 0,
+        capturedAt: new Date(now - hoursAgo * HOUR_MS).toISOString(),
+    };
+}
+
+describe('NesCalculator.calculateAcceleration', () => {
+    const calculator = new NesCalculator();
+
+    it('should return 0 without at least two snapshots', () => {
+        const trend = makeTrend('a', 3);
+
+        expect(calculator.calculateAcceleration(trend, [])).toBe(0);
+        expect(calculator.calculateAcceleration(trend, [snapshot(1000, 0, 0)])).toBe(0);
+    });
+
+    it('should be positive when engagement speeds up between polls', () => {
+        const trend = makeTrend('a', 3);
+        const snapshots = [
+            snapshot(1000, 0, 1),
+            snapshot(1500, 0, 0.5),
+            snapshot(3000, 0, 0),
+        ];
+
+        // 1000/h then 3000/h over 0.5h steps → +4000/h² → 0.8 at baseline 5000
+        expect(calculator.calculateAcceleration(trend, snapshots)).toBeCloseTo(0.8);
+    });
+
+    it('should be negative when engagement is fading', () => {
+        const trend = makeTrend('a', 3);
+        const snapshots = [
+            snapshot(1000, 0, 1),
+            snapshot(2000, 0, 0.5),
+            snapshot(2100, 0, 0),
+        ];
+
+        expect(calculator.calculateAcceleration(trend, snapshots)).toBeLessThan(0);
+    });
+
+    it('should use post creation as the first point when only two snapshots exist', () => {
+        const trend = makeTrend('a', 2);
+        const snapshots = [
+            snapshot(1000, 0, 1),
+            snapshot(3000, 0, 0),
+        ];
+
+        // 1000/h since creation, then 2000/h → +1000/h² → 0.2 at baseline 5000
+        expect(calculator.calculateAcceleration(trend, snapshots)).toBeCloseTo(0.2);
+    });
+});
+
+describe('TrendAggregator rising sort', () => {
+    it('should order trends by acceleration when sortBy is rising', () => {
+        const calculator = new NesCalculator();
+        const aggregator = new TrendAggregator();
+
+        const history = new Map<string, TrendSnapshot[]>([
+            ['slow', [snapshot(1000, 0, 1), snapshot(1100, 0, 0.5), snapshot(1150, 0, 0)]],
+            ['fast', [snapshot(1000, 0, 1), snapshot(1500, 0, 0.5), snapshot(3000, 0, 0)]],
+        ]);
+
+        const trends = calculator.applyAcceleration(
+            [makeTrend('slow', 3), makeTrend('fast', 3), makeTrend('new', 0.5)],
+            history
+        );
+
+        const sorted = aggregator.filterTrends(trends, { timeRange: 'day', sortBy: 'rising' });
+
+        expect(sorted.map(t => t.id)).toEqual(['fast', 'new', 'slow']);
+    });
+
+    it('should break acceleration ties by velocity, then NES', () => {
+        const aggregator = new TrendAggregator();
+
+        const trends = [
+            { ...makeTrend('quiet', 2), engagementVelocity: 50, nes: 30 },
+            { ...makeTrend('low-nes', 2), nes: 5 },
+            { ...makeTrend('high-nes', 2), nes: 20 },
+        ];
+
+        expect(aggregator.sortTrends(trends, 'rising').map(t => t.id)).toEqual(['high-nes', 'low-nes', 'quiet']);
+    });
+});
@@ -0,0 +1,93 @@
+/**
+ * Trend Clusterer Tests
+ *
+ * Unit tests for cross-subreddit story clustering.
+ *
+ * @module processing/__tests__/trendClusterer.test
+ */
+
+import { describe, it, expect } from 'vitest';
+import { TrendClusterer } from '../trendClusterer.js';
+import type { TrendData } from '@icerik/shared';
+
+function makeTrend(id: string, subreddit: string, title: string, sourceUrl: string, nes: number): TrendData {
+    return {
+        id,
+        title,
+        subreddit,
+        category: 'technology',
+        score: 1000,
+        upvoteRatio: 0.95,
+        numComments: 100,
+        createdUtc: Date.now() / 1000,
+        nes,
+        engagementVelocity: 10,
+        controversyFactor: 1,
+        ageHours: 1,
+        sourceUrl,
+        permalink: `/r/${subreddit}/comments/${id}`,
+        fetchedAt: new Date(),
+    };
+}
+
+describe('TrendClusterer', () => {
+    const clusterer = new TrendClusterer();
+
+    it('groups the same story posted to several subreddits', () => {
+        const clusters = clusterer.clusterTrends([
+            makeTrend('a', 'technology', 'Apple announces M5 MacBook Pro with faster chips', 'https://www.theverge.com/apple-m5', 40),
+            makeTrend('b', 'apple', "Apple's new M5 MacBook Pro is here", 'https://www.apple.com/newsroom/m5', 25),
+            makeTrend('c', 'gadgets', 'Apple announces M5 MacBook Pro', 'https://arstechnica.com/m5-macbook', 10),
+            makeTrend('d', 'programming', 'Rust 2.0 roadmap published', 'https://blog.rust-lang.org/roadmap', 30),
+        ]);
+
+        expect(clusters).toHaveLength(2);
+
+        const [apple, rust] = clusters;
+        expect(apple.members.map(m => m.id)).toEqual(['a', 'b', 'c']);
+        expect(apple.leadTrendId).toBe('a');
+        expect(apple.title).toBe('Apple announces M5 MacBook Pro with faster chips');
+        expect(apple.combinedNes).toBe(75);
+        expect(apple.subreddits).toEqual(['technology', 'apple', 'gadgets']);
+        expect(rust.members.map(m => m.id)).toEqual(['d']);
+    });
+
+    it('groups posts linking the same article regardless of title', () => {
+        const clusters = clusterer.clusterTrends([
+            makeTrend('a', 'worldnews', 'Big announcement today', 'https://www.bbc.co.uk/news/123?utm_source=x', 5),
+            makeTrend('b', 'news', 'You will not believe this', 'http://bbc.co.uk/news/123/', 3),
+        ]);
+
+        expect(clusters).toHaveLength(1);
+        expect(clusters[0].domains).toEqual(['bbc.co.uk']);
+    });
+
+    it('uses a lower title bar for posts on the same domain', () => {
+        const titles = ['SpaceX Starship reaches orbit on test flight', 'Starship orbit achieved, SpaceX confirms'];
+
+        expect(clusterer.titleSimilarity(titles[0], titles[1])).toBeLessThan(0.5);
+
+        const sameDomain = clusterer.clusterTrends([
+            makeTrend('a', 'space', titles[0], 'https://spacenews.com/a', 5),
+            makeTrend('b', 'spacex', titles[1], 'https://spacenews.com/b', 4),
+        ]);
+        const otherDomains = clusterer.clusterTrends([
+            makeTrend('a', 'space', titles[0], 'https://spacenews.com/a', 5),
+            makeTrend('b', 'spacex', titles[1], 'https://space.com/b', 4),
+        ]);
+
+        expect(sameDomain).toHaveLength(1);
+        expect(otherDomains).toHaveLength(2);
+    });
+
+    it('does not treat media hosts or self posts as a shared link', () => {
+        const clusters = clusterer.clusterTrends([
+            makeTrend('a', 'pics', 'My cat sleeping', 'https://i.redd.it/abc.jpg', 5),
+            makeTrend('b', 'aww', 'Sunset over the lake', 'https://i.redd.it/def.jpg', 4),
+            makeTrend('c', 'askreddit', 'What is your favorite movie?', 'https://www.reddit.com/r/askreddit/comments/c', 3),
+        ]);
+
+        expect(clusters).toHaveLength(3);
+        expect(clusters.every(cluster => cluster.domains.length === 0)).toBe(true);
+    });
+});
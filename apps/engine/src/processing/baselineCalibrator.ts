@@ -0,0 +1,130 @@
+import { createChildLogger } from '../utils/logger.js';
+import { getEnv } from '../utils/env.js';
+import { NES_CONSTANTS } from '@icerik/shared';
+import { getCacheService } from '../cache/index.js';
+
+const logger = createChildLogger('baseline-calibrator');
+
+/** How long learned baselines are reused before re-reading the stats history */
+const REFRESH_INTERVAL_MS = 5 * 60 * 1000;
+
+export type BaselineMode = 'static' | 'learned';
+
+export interface LearnedBaseline {
+    /** Median of the per-poll average scores in the window */
+    baseline: number;
+    /** Number of polls the median was taken over */
+    sampleCount: number;
+}
+
+export interface BaselineCalibratorOptions {
+    mode: BaselineMode;
+    windowDays: number;
+}
+
+/**
+ * Median of a list of numbers (0 for an empty list)
+ */
+export function median(values: number[]): number {
+    if (values.length === 0) return 0;
+
+    const sorted = [...values].sort((a, b) => a - b);
+    const mid = Math.floor(sorted.length / 2);
+
+    return sorted.length % 2 === 0
+        ? (sorted[mid - 1] + sorted[mid]) / 2
+        : sorted[mid];
+}
+
+/**
+ * Baseline Calibrator
+ *
+ * Learns subreddit baselines from the stats recorded on every poll.
+ * The median of the per-poll average scores over a rolling window is used,
+ * so a few viral posts (or a quiet night) do not move the baseline.
+ *
+ * In 'static' mode the learned values are only reported; in 'learned' mode
+ * they replace the registry's baselineScore once enough polls were seen.
+ */
+export class BaselineCalibrator {
+    private options: BaselineCalibratorOptions;
+    private learned: Map<string, LearnedBaseline> = new Map();
+    private loadedAt = 0;
+
+    constructor(options: Partial<BaselineCalibratorOptions> = {}) {
+        const env = getEnv();
+        this.options = {
+            mode: options.mode ?? env.NES_BASELINE_MODE,
+            windowDays: options.windowDays ?? env.NES_BASELINE_WINDOW_DAYS,
+        };
+
+        logger.info(this.options, 'Baseline Calibrator initialized');
+    }
+
+    getMode(): BaselineMode {
+        return this.options.mode;
+    }
+
+    /**
+     * Learned baseline for a subreddit, or null until enough polls were recorded
+     */
+    getLearnedBaseline(subreddit: string): LearnedBaseline | null {
+        if (Date.now() - this.loadedAt > REFRESH_INTERVAL_MS) {
+            this.refresh();
+        }
+
+        const learned = this.learned.get(subreddit.toLowerCase());
+        if (!learned || learned.sampleCount < NES_CONSTANTS.LEARNED_BASELINE_MIN_SAMPLES) {
+            return null;
+        }
+
+        return learned;
+    }
+
+    /**
+     * Baseline NES should normalize against
+     * @param subreddit - Subreddit name
+     * @param staticBaseline - Registry baselineScore, if the subreddit is registered
+     */
+    resolveBaseline(subreddit: string, staticBaseline?: number): number {
+        if (this.options.mode === 'learned') {
+            const learned = this.getLearnedBaseline(subreddit);
+            if (learned) {
+                return learned.baseline;
+            }
+        }
+
+        return staticBaseline || NES_CONSTANTS.DEFAULT_BASELINE;
+    }
+
+    /**
+     * Re-reads the stats history and recomputes all learned baselines
+     */
+    refresh(): void {
+        const windowSeconds = this.options.windowDays * 24 * 60 * 60;
+        const samples = getCacheService().getSubredditScoreSamples(windowSeconds);
+
+        const learned = new Map<string, LearnedBaseline>();
+        for (const [subreddit, scores] of samples) {
+            const baseline = Math.round(median(scores));
+            if (baseline > 0) {
+                learned.set(subreddit, { baseline, sampleCount: scores.length });
+            }
+        }
+
+        this.learned = learned;
+        this.loadedAt = Date.now();
+
+        logger.debug({ subredditCount: learned.size }, 'Learned baselines refreshed');
+    }
+}
+
+// Singleton instance
+let calibratorInstance: BaselineCalibrator | null = null;
+
+export function getBaselineCalibrator(): BaselineCalibrator {
+    if (!calibratorInstance) {
+        calibratorInstance = new BaselineCalibrator();
+    }
+    return calibratorInstance;
+}
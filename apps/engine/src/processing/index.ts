@@ -1,2 +1,4 @@
 export { NesCalculator, getNesCalculator } from './nesCalculator.js';
 export { TrendAggregator, getTrendAggregator } from './trendAggregator.js';
+export { BaselineCalibrator, getBaselineCalibrator, median, type BaselineMode, type LearnedBaseline } from './baselineCalibrator.js';
+export { TrendClusterer, getTrendClusterer, type ClusterOptions } from './trendClusterer.js';
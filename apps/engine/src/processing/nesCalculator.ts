@@ -1,6 +1,8 @@
 import { createChildLogger } from '../utils/logger.js';
-import { SUBREDDIT_CONFIG, NES_CONSTANTS } from '@icerik/shared';
-import type { RedditPost, TrendData, ContentCategory, SubredditConfig } from '@icerik/shared';
+import { NES_CONSTANTS } from '@icerik/shared';
+import type { SourcePost, TrendData, TrendSnapshot, ContentCategory, TrendSourceType } from '@icerik/shared';
+import { getSubredditRegistry, type SubredditRegistry } from '../cache/index.js';
+import { getBaselineCalibrator, type BaselineCalibrator } from './baselineCalibrator.js';
 
 const logger = createChildLogger('nes-calculator');
 
@@ -12,33 +14,39 @@ const logger = createChildLogger('nes-calculator');
  * - Engagement Velocity: How fast the post is gaining engagement relative to its age
  * - Controversy Factor: Higher weight for controversial posts (balanced upvotes/downvotes)
  * - Subreddit Baseline: Normalizes scores across different-sized subreddits
+ *   (static registry value, or learned from observed stats in calibration mode)
  */
 export class NesCalculator {
-    private subredditConfigMap: Map<string, SubredditConfig>;
+    /** Looked up per post so registry edits apply without a restart */
+    private registry: SubredditRegistry;
+    private calibrator: BaselineCalibrator;
 
-    constructor() {
-        this.subredditConfigMap = new Map(
-            SUBREDDIT_CONFIG.map(config => [config.name.toLowerCase(), config])
-        );
+    constructor(calibrator: BaselineCalibrator = getBaselineCalibrator()) {
+        this.registry = getSubredditRegistry();
+        this.calibrator = calibrator;
 
-        logger.info({ subredditCount: this.subredditConfigMap.size }, 'NES Calculator initialized');
+        logger.info({ subredditCount: this.registry.list().length }, 'NES Calculator initialized');
     }
 
     /**
      * Calculate NES score for a single post
      */
-    calculateNes(post: RedditPost): TrendData {
+    calculateNes(post: SourcePost): TrendData {
         const now = Date.now() / 1000; // Current time in seconds
-        const ageHours = Math.max((now - post.created_utc) / 3600, 0.1); // Minimum 6 minutes
+        const ageHours = Math.max((now - post.createdUtc) / 3600, 0.1); // Minimum 6 minutes
 
-        // Get subreddit configuration
-        const subredditConfig = this.subredditConfigMap.get(post.subreddit.toLowerCase());
-        const baselineScore = subredditConfig?.baselineScore || 1000;
-        const category = subredditConfig?.category || 'other';
+        // Get subreddit configuration (other sources carry their own category hint)
+        const subredditConfig = post.source === 'reddit'
+            ? this.registry.get(post.channel)
+            : undefined;
+        const baselineScore = this.getBaseline(post.source, post.channel);
+        const category = subredditConfig?.category || post.category || 'other';
 
         // Calculate components
-        const engagementVelocity = this.calculateEngagementVelocity(post.score, post.num_comments, ageHours);
-        const controversyFactor = this.calculateControversyFactor(post.upvote_ratio);
+        const engagementVelocity = this.calculateEngagementVelocity(post.score, post.numComments, ageHours);
+        const controversyFactor = post.approvalRatio === null
+            ? 1
+            : this.calculateControversyFactor(post.approvalRatio);
         const normalizedScore = post.score / baselineScore;
 
         // Final NES calculation
@@ -47,14 +55,15 @@ export class NesCalculator {
         return {
             id: post.id,
             title: post.title,
-            subreddit: post.subreddit,
+            subreddit: post.channel,
             category: category as ContentCategory,
+            source: post.source,
 
             // Raw metrics
             score: post.score,
-            upvoteRatio: post.upvote_ratio,
-            numComments: post.num_comments,
-            createdUtc: post.created_utc,
+            upvoteRatio: post.approvalRatio ?? 1,
+            numComments: post.numComments,
+            createdUtc: post.createdUtc,
 
             // Calculated metrics
             nes: Math.round(nes * 1000) / 1000, // Round to 3 decimal places
@@ -86,6 +95,67 @@ export class NesCalculator {
         return rawVelocity * decayFactor;
     }
 
+    /**
+     * Calculate engagement acceleration from consecutive poll snapshots
+     *
+     * Velocity is measured between the last three observations (the post's creation
+     * counts as an observation with zero engagement, so two snapshots are enough).
+     * Acceleration is the change in velocity per hour, normalized by the subreddit
+     * baseline so that small and large subreddits are comparable.
+     *
+     * @param trend - Current trend data
+     * @param snapshots - Recent snapshots for the trend, oldest first
+     * @returns Normalized acceleration (positive = taking off, negative = fading)
+     */
+    calculateAcceleration(trend: TrendData, snapshots: TrendSnapshot[]): number {
+        if (snapshots.length < 2) {
+            return 0;
+        }
+
+        const points = [
+            { timeHours: trend.createdUtc / 3600, engagement: 0 },
+            ...snapshots.map(snapshot => ({
+                timeHours: Date.parse(snapshot.capturedAt) / 3600000,
+                engagement: snapshot.score + (snapshot.numComments * 2),
+            })),
+        ].slice(-3);
+
+        const [p0, p1, p2] = points;
+        const dt1 = Math.max(p1.timeHours - p0.timeHours, NES_CONSTANTS.ACCELERATION_MIN_INTERVAL_HOURS);
+        const dt2 = Math.max(p2.timeHours - p1.timeHours, NES_CONSTANTS.ACCELERATION_MIN_INTERVAL_HOURS);
+
+        const previousVelocity = (p1.engagement - p0.engagement) / dt1;
+        const currentVelocity = (p2.engagement - p1.engagement) / dt2;
+        const acceleration = (currentVelocity - previousVelocity) / ((dt1 + dt2) / 2);
+
+        const baselineScore = this.getBaseline(trend.source ?? 'reddit', trend.subreddit);
+
+        return Math.round((acceleration / baselineScore) * 1000) / 1000;
+    }
+
+    /**
+     * Baseline a channel is normalized against
+     * Non-Reddit sources have no subreddit stats and use the default baseline.
+     */
+    getBaseline(source: TrendSourceType, channel: string): number {
+        if (source !== 'reddit') {
+            return NES_CONSTANTS.DEFAULT_BASELINE;
+        }
+        return this.calibrator.resolveBaseline(channel, this.registry.get(channel)?.baselineScore);
+    }
+
+    /**
+     * Attach acceleration to a batch of trends using their snapshot history
+     * @param trends - Trends to enrich
+     * @param history - Map of trend ID to recent snapshots (oldest first)
+     */
+    applyAcceleration(trends: TrendData[], history: Map<string, TrendSnapshot[]>): TrendData[] {
+        return trends.map(trend => ({
+            ...trend,
+            acceleration: this.calculateAcceleration(trend, history.get(trend.id) ?? []),
+        }));
+    }
+
     /**
      * Calculate controversy factor
      * Posts with more balanced upvotes/downvotes get higher scores
@@ -110,11 +180,11 @@ export class NesCalculator {
     /**
      * Batch process multiple posts
      */
-    processPostBatch(posts: RedditPost[]): TrendData[] {
+    processPostBatch(posts: SourcePost[]): TrendData[] {
         const trends = posts
             .filter(post => {
-                // Filter out stickied posts and low-score posts
-                if (post.stickied) return false;
+                // Filter out stickied/pinned posts and low-score posts
+                if (post.isPinned) return false;
                 if (post.score < NES_CONSTANTS.MIN_SCORE_THRESHOLD) return false;
                 return true;
             })
@@ -129,7 +199,7 @@ export class NesCalculator {
      * Get category for a subreddit
      */
     getCategoryForSubreddit(subreddit: string): ContentCategory {
-        const config = this.subredditConfigMap.get(subreddit.toLowerCase());
+        const config = this.registry.get(subreddit);
         return config?.category || 'other';
     }
 }
@@ -38,6 +38,11 @@ export class TrendAggregator {
             filtered = filtered.filter(t => t.category === query.category);
         }
 
+        // Filter by source (trends without a source predate multi-source ingestion)
+        if (query.source) {
+            filtered = filtered.filter(t => (t.source ?? 'reddit') === query.source);
+        }
+
         // Filter by minimum score
         if (query.minScore) {
             filtered = filtered.filter(t => t.score >= query.minScore!);
@@ -53,19 +58,7 @@ export class TrendAggregator {
 
         // Sort by specified field
         if (query.sortBy) {
-            filtered.sort((a, b) => {
-                switch (query.sortBy) {
-                    case 'score':
-                        return b.score - a.score;
-                    case 'velocity':
-                        return b.engagementVelocity - a.engagementVelocity;
-                    case 'comments':
-                        return b.numComments - a.numComments;
-                    case 'nes':
-                    default:
-                        return b.nes - a.nes;
-                }
-            });
+            filtered = this.sortTrends(filtered, query.sortBy);
         }
 
         // Apply limit
@@ -82,6 +75,31 @@ export class TrendAggregator {
         return filtered;
     }
 
+    /**
+     * Sort trends by a query's sort field (returns a new array).
+     * Rising breaks acceleration ties (0 for posts without snapshot history)
+     * by engagement velocity, then NES.
+     */
+    sortTrends(trends: TrendData[], sortBy: NonNullable<TrendQuery['sortBy']>): TrendData[] {
+        return [...trends].sort((a, b) => {
+            switch (sortBy) {
+                case 'score':
+                    return b.score - a.score;
+                case 'velocity':
+                    return b.engagementVelocity - a.engagementVelocity;
+                case 'comments':
+                    return b.numComments - a.numComments;
+                case 'rising':
+                    return (b.acceleration ?? 0) - (a.acceleration ?? 0)
+                        || b.engagementVelocity - a.engagementVelocity
+                        || b.nes - a.nes;
+                case 'nes':
+                default:
+                    return b.nes - a.nes;
+            }
+        });
+    }
+
     /**
      * Generate a summary of trends
      */
@@ -0,0 +1,228 @@
+import { createChildLogger } from '../utils/logger.js';
+import type { TrendData, TrendCluster } from '@icerik/shared';
+
+const logger = createChildLogger('trend-clusterer');
+
+/**
+ * Hosts that say nothing about the story (self posts, media hosts, social sites).
+ * Identical URLs on them still cluster, a shared domain alone does not count.
+ */
+const GENERIC_DOMAINS = new Set([
+    'reddit.com', 'old.reddit.com', 'redd.it', 'i.redd.it', 'v.redd.it',
+    'imgur.com', 'i.imgur.com', 'youtube.com', 'youtu.be', 'twitter.com', 'x.com',
+    'instagram.com', 'tiktok.com', 'facebook.com',
+]);
+
+const STOPWORDS = new Set([
+    'the', 'and', 'for', 'are', 'but', 'not', 'you', 'all', 'any', 'can', 'has', 'have',
+    'had', 'her', 'his', 'its', 'our', 'out', 'was', 'were', 'will', 'with', 'this', 'that',
+    'from', 'they', 'them', 'their', 'what', 'when', 'where', 'which', 'who', 'why', 'how',
+    'about', 'after', 'just', 'now', 'new', 'into', 'over', 'than', 'then', 'there', 'here',
+    'been', 'being', 'does', 'did', 'get', 'got', 'more', 'most', 'some', 'such', 'only',
+    'own', 'same', 'very', 'too', 'also', 'say', 'says', 'said', 'would', 'could', 'should',
+]);
+
+export interface ClusterOptions {
+    /** Title similarity (Jaccard) needed on its own */
+    titleSimilarity: number;
+    /** Title similarity needed when both posts link the same domain */
+    sharedDomainTitleSimilarity: number;
+    /** Shared title tokens needed for any title-based match */
+    minSharedTokens: number;
+}
+
+const DEFAULT_OPTIONS: ClusterOptions = {
+    titleSimilarity: 0.5,
+    sharedDomainTitleSimilarity: 0.25,
+    minSharedTokens: 2,
+};
+
+interface TrendFeatures {
+    tokens: Set<string>;
+    canonicalUrl: string | null;
+    domain: string | null;
+}
+
+/**
+ * Trend Clusterer
+ * Groups posts about the same story across subreddits (and sources)
+ * using title similarity and shared linked URLs/domains.
+ */
+export class TrendClusterer {
+    private options: ClusterOptions;
+
+    constructor(options: Partial<ClusterOptions> = {}) {
+        this.options = { ...DEFAULT_OPTIONS, ...options };
+    }
+
+    /**
+     * Cluster trends; every trend ends up in exactly one cluster
+     * @returns Clusters sorted by combined NES (descending)
+     */
+    clusterTrends(trends: TrendData[]): TrendCluster[] {
+        const features = trends.map(trend => this.extractFeatures(trend));
+
+        // Union-find over all pairs
+        const parent = trends.map((_, i) => i);
+        const find = (i: number): number => {
+            while (parent[i] !== i) {
+                parent[i] = parent[parent[i]];
+                i = parent[i];
+            }
+            return i;
+        };
+
+        for (let i = 0; i < trends.length; i++) {
+            for (let j = i + 1; j < trends.length; j++) {
+                if (find(i) !== find(j) && this.isSameStory(trends[i], trends[j], features[i], features[j])) {
+                    parent[find(j)] = find(i);
+                }
+            }
+        }
+
+        const groups = new Map<number, TrendData[]>();
+        trends.forEach((trend, i) => {
+            const root = find(i);
+            if (!groups.has(root)) {
+                groups.set(root, []);
+            }
+            groups.get(root)!.push(trend);
+        });
+
+        const clusters = Array.from(groups.values())
+            .map(members => this.buildCluster(members))
+            .sort((a, b) => b.combinedNes - a.combinedNes);
+
+        logger.debug({
+            input: trends.length,
+            clusters: clusters.length,
+            multiMember: clusters.filter(c => c.members.length > 1).length,
+        }, 'Clustered trends');
+
+        return clusters;
+    }
+
+    /**
+     * Title token similarity (Jaccard index)
+     */
+    titleSimilarity(a: string, b: string): number {
+        return this.jaccard(this.tokenize(a), this.tokenize(b));
+    }
+
+    private isSameStory(a: TrendData, b: TrendData, fa: TrendFeatures, fb: TrendFeatures): boolean {
+        if (a.id === b.id) {
+            return true;
+        }
+
+        if (fa.canonicalUrl && fa.canonicalUrl === fb.canonicalUrl) {
+            return true;
+        }
+
+        const shared = this.countShared(fa.tokens, fb.tokens);
+        if (shared < this.options.minSharedTokens) {
+            return false;
+        }
+
+        const similarity = this.jaccard(fa.tokens, fb.tokens, shared);
+        const sameDomain = fa.domain !== null && fa.domain === fb.domain;
+
+        return similarity >= (sameDomain
+            ? this.options.sharedDomainTitleSimilarity
+            : this.options.titleSimilarity);
+    }
+
+    private buildCluster(trends: TrendData[]): TrendCluster {
+        const members = [...trends].sort((a, b) => b.nes - a.nes);
+        const lead = members[0];
+
+        const domains = new Set<string>();
+        for (const member of members) {
+            const domain = this.getDomain(member.sourceUrl);
+            if (domain && !GENERIC_DOMAINS.has(domain)) {
+                domains.add(domain);
+            }
+        }
+
+        return {
+            id: `cluster_${lead.id}`,
+            title: lead.title,
+            category: lead.category,
+            combinedNes: Math.round(members.reduce((sum, m) => sum + m.nes, 0) * 1000) / 1000,
+            leadTrendId: lead.id,
+            subreddits: Array.from(new Set(members.map(m => m.subreddit))),
+            domains: Array.from(domains),
+            members,
+        };
+    }
+
+    private extractFeatures(trend: TrendData): TrendFeatures {
+        const domain = this.getDomain(trend.sourceUrl);
+        const isLinkPost = domain !== null && !domain.endsWith('reddit.com') && domain !== 'redd.it';
+
+        return {
+            tokens: this.tokenize(trend.title),
+            canonicalUrl: isLinkPost ? this.canonicalizeUrl(trend.sourceUrl) : null,
+            domain: domain && !GENERIC_DOMAINS.has(domain) ? domain : null,
+        };
+    }
+
+    private tokenize(title: string): Set<string> {
+        const tokens = title
+            .toLowerCase()
+            .replace(/['’]s\b/g, '')
+            .replace(/[^\p{L}\p{N}\s]/gu, ' ')
+            .split(/\s+/)
+            .filter(token => token.length >= 2 && !STOPWORDS.has(token))
+            // Light plural folding so "chips"/"chip" match
+            .map(token => (token.length > 4 && token.endsWith('s') ? token.slice(0, -1) : token));
+
+        return new Set(tokens);
+    }
+
+    private countShared(a: Set<string>, b: Set<string>): number {
+        let shared = 0;
+        for (const token of a) {
+            if (b.has(token)) shared++;
+        }
+        return shared;
+    }
+
+    private jaccard(a: Set<string>, b: Set<string>, shared = this.countShared(a, b)): number {
+        const union = a.size + b.size - shared;
+        return union === 0 ? 0 : shared / union;
+    }
+
+    private getDomain(url: string): string | null {
+        try {
+            return new URL(url).hostname.toLowerCase().replace(/^www\./, '');
+        } catch {
+            return null;
+        }
+    }
+
+    /**
+     * host + path without protocol, query, fragment or trailing slash
+     * (YouTube's video id query param is kept)
+     */
+    private canonicalizeUrl(url: string): string | null {
+        try {
+            const parsed = new URL(url);
+            const host = parsed.hostname.toLowerCase().replace(/^www\./, '');
+            const path = parsed.pathname.replace(/\/+$/, '');
+            const videoId = parsed.searchParams.get('v');
+            return `${host}${path}${videoId ? `?v=${videoId}` : ''}`;
+        } catch {
+            return null;
+        }
+    }
+}
+
+// Singleton instance
+let clustererInstance: TrendClusterer | null = null;
+
+export function getTrendClusterer(): TrendClusterer {
+    if (!clustererInstance) {
+        clustererInstance = new TrendClusterer();
+    }
+    return clustererInstance;
+}
@@ -0,0 +1,208 @@
+/**
+ * Script Ratings
+ *
+ * Team ratings of library scripts. Ratings close the loop with few-shot
+ * prompting: a liked script rated 4 or more stars is promoted into the
+ * ExampleSelector pool (and persisted), anything rated lower is kept out
+ * of it, and the rating feeds the example's similarity ranking.
+ *
+ * @module ratings/ScriptRatings
+ */
+
+import { getDatabase } from '../cache/index.js';
+import { getScriptLibrary, type LibraryScript } from '../library/index.js';
+import { getExampleSelector, getExampleStore, exampleIdForScript, type ExampleSourceTrend } from '../ai/examples/index.js';
+import { createChildLogger } from '../utils/logger.js';
+import { RatingError } from './ratingTypes.js';
+import type { RatingInput, RatingType, ScriptRating, RateScriptResult, RatingStats } from './ratingTypes.js';
+
+const logger = createChildLogger('script-ratings');
+
+/**
+ * Lowest user rating that promotes a liked script to a few-shot example
+ */
+const PROMOTE_MIN_RATING = 4;
+
+interface RatingRow {
+    script_id: string;
+    rating: string;
+    stars: number | null;
+    feedback: string | null;
+    created_at: string;
+    updated_at: string;
+}
+
+/**
+ * 1-5 rating used for ranking: the stars when given, else 4 for a like
+ * and 1 for a dislike
+ */
+export function toUserRating(input: Pick<RatingInput, 'rating' | 'stars'>): number {
+    return input.stars ?? (input.rating === 'like' ? 4 : 1);
+}
+
+function rowToRating(row: RatingRow): ScriptRating {
+    const rating = row.rating as RatingType;
+    const stars = row.stars ?? undefined;
+
+    return {
+        scriptId: row.script_id,
+        rating,
+        stars,
+        feedback: row.feedback ?? undefined,
+        userRating: toUserRating({ rating, stars }),
+        createdAt: row.created_at,
+        updatedAt: row.updated_at,
+    };
+}
+
+/**
+ * ScriptRatings class
+ */
+export class ScriptRatings {
+    private db = getDatabase();
+
+    /**
+     * Rate a library script, replacing an earlier rating, and promote it to
+     * or remove it from the few-shot pool
+     * @throws RatingError (404) if the script is not in the library
+     */
+    rate(scriptId: string, input: RatingInput): RateScriptResult {
+        const script = getScriptLibrary().get(scriptId);
+        if (!script) {
+            throw new RatingError(`Script not found: ${scriptId}`);
+        }
+
+        const now = new Date().toISOString();
+        this.db.prepare(`
+            INSERT INTO script_ratings (script_id, rating, stars, feedback, created_at, updated_at)
+            VALUES (?, ?, ?, ?, ?, ?)
+            ON CONFLICT(script_id) DO UPDATE SET
+                rating = excluded.rating,
+                stars = excluded.stars,
+                feedback = excluded.feedback,
+                updated_at = excluded.updated_at
+        `).run(scriptId, input.rating, input.stars ?? null, input.feedback ?? null, now, now);
+
+        const rating = this.get(scriptId)!;
+        const promoted = input.rating === 'like' && rating.userRating >= PROMOTE_MIN_RATING;
+
+        if (promoted) {
+            this.promote(script, rating.userRating);
+        } else {
+            this.exclude(scriptId);
+        }
+
+        logger.info({ scriptId, rating: input.rating, stars: input.stars, promoted }, 'Script rated');
+        return { rating, promoted };
+    }
+
+    /**
+     * Get the rating of a script
+     */
+    get(scriptId: string): ScriptRating | undefined {
+        const row = this.db.prepare('SELECT * FROM script_ratings WHERE script_id = ?').get(scriptId) as RatingRow | undefined;
+        return row ? rowToRating(row) : undefined;
+    }
+
+    /**
+     * Rating totals, overall and per platform
+     */
+    getStats(): RatingStats {
+        const rows = this.db.prepare(`
+            SELECT r.rating, r.stars, s.platform FROM script_ratings r
+            LEFT JOIN scripts s ON s.id = r.script_id
+        `).all() as Array<{ rating: string; stars: number | null; platform: string | null }>;
+
+        const byPlatform: RatingStats['byPlatform'] = {
+            tiktok: { likes: 0, dislikes: 0 },
+            reels: { likes: 0, dislikes: 0 },
+            shorts: { likes: 0, dislikes: 0 },
+        };
+
+        let likes = 0;
+        let starTotal = 0;
+        let starCount = 0;
+
+        for (const row of rows) {
+            const liked = row.rating === 'like';
+            if (liked) likes++;
+
+            if (row.stars !== null) {
+                starTotal += row.stars;
+                starCount++;
+            }
+
+            const platform = row.platform ? byPlatform[row.platform as keyof typeof byPlatform] : undefined;
+            if (platform) {
+                if (liked) platform.likes++;
+                else platform.dislikes++;
+            }
+        }
+
+        return {
+            totalRatings: rows.length,
+            likes,
+            dislikes: rows.length - likes,
+            likePercentage: rows.length > 0 ? (likes / rows.length) * 100 : 0,
+            averageStars: starCount > 0 ? starTotal / starCount : 0,
+            byPlatform,
+            exampleCount: getExampleSelector().getExampleCount(),
+        };
+    }
+
+    /**
+     * Add a script to the few-shot pool, or refresh its rating there
+     */
+    private promote(script: LibraryScript, userRating: number): void {
+        const selector = getExampleSelector();
+
+        // Iterations and translations may not carry the full trend
+        const trend: ExampleSourceTrend = script.trend ?? {
+            id: script.trendId,
+            title: script.trendTitle,
+            category: script.script.metadata.category,
+        };
+
+        const base = selector.createExampleFromScript(trend, script.script, { overallScore: script.score ?? 0 });
+        const example = {
+            ...base,
+            id: exampleIdForScript(script.id),
+            scriptId: script.id,
+            performance: { ...base.performance, userRating },
+        };
+
+        getExampleStore().save(example);
+        selector.addExample(example);
+    }
+
+    /**
+     * Keep a script out of the few-shot pool
+     */
+    private exclude(scriptId: string): void {
+        const id = exampleIdForScript(scriptId);
+        const removed = getExampleStore().remove(id);
+        if (getExampleSelector().removeExample(id) || removed) {
+            logger.info({ scriptId }, 'Script removed from few-shot examples');
+        }
+    }
+}
+
+// Singleton instance
+let ratingsInstance: ScriptRatings | null = null;
+
+/**
+ * Gets the singleton ScriptRatings instance
+ */
+export function getScriptRatings(): ScriptRatings {
+    if (!ratingsInstance) {
+        ratingsInstance = new ScriptRatings();
+    }
+    return ratingsInstance;
+}
+
+/**
+ * Resets the ratings instance (for testing)
+ */
+export function resetScriptRatings(): void {
+    ratingsInstance = null;
+}
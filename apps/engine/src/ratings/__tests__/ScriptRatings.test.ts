@@ -0,0 +1,130 @@
+/**
+ * Script Ratings Tests
+ *
+ * Tests for rating library scripts and promoting them into (or keeping
+ * them out of) the few-shot example pool.
+ *
+ * @module ratings/__tests__/ScriptRatings.test
+ */
+
+import { describe, it, expect, beforeEach, afterEach, afterAll } from 'vitest';
+import type { PlatformScript, TrendData } from '@icerik/shared';
+import { getScriptRatings, resetScriptRatings, toUserRating } from '../ScriptRatings.js';
+import { RatingError } from '../ratingTypes.js';
+import { getScriptLibrary, resetScriptLibrary } from '../../library/index.js';
+import { getExampleSelector, resetExampleSelector, getExampleStore, resetExampleStore } from '../../ai/examples/index.js';
+import type { ScriptExample } from '../../ai/examples/index.js';
+import { closeDatabase } from '../../cache/database.js';
+
+const TREND_ID = 'test-ratings-trend';
+
+const TREND = {
+    id: TREND_ID,
+    title: 'Doorbell cameras share footage with police',
+    subreddit: 'technology',
+    category: 'technology',
+    nes: 60,
+    engagementVelocity: 10,
+} as TrendData;
+
+function makeScript(hook: string): PlatformScript {
+    return {
+        platform: 'tiktok',
+        script: `${hook}\n\nGörüntüler paylaşılıyor.`,
+        title: 'Kapı Ziliniz Sizi İzliyor',
+        hashtags: ['#teknoloji'],
+        estimatedDurationSeconds: 10,
+        sections: {
+            hook: { content: hook, wordCount: 2, estimatedSeconds: 1 },
+            body: { content: 'Görüntüler paylaşılıyor.', wordCount: 2, estimatedSeconds: 1 },
+        },
+        optimizations: [],
+        metadata: {
+            generatedAt: new Date().toISOString(),
+            trendId: TREND_ID,
+            category: 'technology',
+            agentVersion: 'test',
+            language: 'tr',
+        },
+    };
+}
+
+describe('ScriptRatings', () => {
+    beforeEach(() => {
+        resetScriptRatings();
+        resetExampleSelector();
+        resetExampleStore();
+    });
+
+    afterEach(() => {
+        const library = getScriptLibrary();
+        for (const item of library.list({ trendId: TREND_ID, limit: 100 }).items) {
+            library.remove(item.id);
+        }
+    });
+
+    afterAll(() => {
+        resetScriptLibrary();
+        resetExampleSelector();
+        closeDatabase();
+    });
+
+    it('maps likes, dislikes and stars to a 1-5 rating', () => {
+        expect(toUserRating({ rating: 'like' })).toBe(4);
+        expect(toUserRating({ rating: 'dislike' })).toBe(1);
+        expect(toUserRating({ rating: 'like', stars: 2 })).toBe(2);
+    });
+
+    it('promotes highly rated scripts into the persisted example pool and drops disliked ones', () => {
+        const scriptId = getScriptLibrary().save({ script: makeScript('Şok gözetim!'), origin: 'generate', trend: TREND })!;
+
+        const liked = getScriptRatings().rate(scriptId, { rating: 'like', stars: 5, feedback: 'Harika hook' });
+        expect(liked.promoted).toBe(true);
+        expect(liked.rating).toMatchObject({ scriptId, userRating: 5, feedback: 'Harika hook' });
+
+        // Survives a restart: a fresh selector loads it from the store
+        resetExampleSelector();
+        const [example] = getExampleSelector().selectExamples(TREND, 1, { platform: 'tiktok', language: 'tr' });
+        expect(example).toMatchObject({ id: `ex_${scriptId}`, scriptId, performance: { userRating: 5 } });
+        expect(example.script.hook).toBe('Şok gözetim!');
+
+        const disliked = getScriptRatings().rate(scriptId, { rating: 'dislike' });
+        expect(disliked.promoted).toBe(false);
+        expect(getScriptRatings().get(scriptId)?.rating).toBe('dislike');
+        expect(getExampleStore().list().some(e => e.id === `ex_${scriptId}`)).toBe(false);
+        expect(getExampleSelector().selectExamples(TREND, 5, { platform: 'tiktok' }).some(e => e.scriptId === scriptId)).toBe(false);
+    });
+
+    it('drops the rating and the few-shot example when the script is deleted', () => {
+        const library = getScriptLibrary();
+        const scriptId = library.save({ script: makeScript('Şok gözetim!'), origin: 'generate', trend: TREND })!;
+        getScriptRatings().rate(scriptId, { rating: 'like', stars: 5 });
+
+        library.remove(scriptId);
+
+        expect(getScriptRatings().get(scriptId)).toBeUndefined();
+        expect(getExampleStore().list().some(e => e.scriptId === scriptId)).toBe(false);
+        expect(getExampleSelector().selectExamples(TREND, 5, { platform: 'tiktok' }).some(e => e.scriptId === scriptId)).toBe(false);
+    });
+
+    it('promotes scripts saved without their trend without inventing NES or subreddit', () => {
+        const scriptId = getScriptLibrary().save({ script: makeScript('Şok gözetim!'), origin: 'generate' })!;
+        getScriptRatings().rate(scriptId, { rating: 'like', stars: 5 });
+
+        const example = getExampleStore().list().find(e => e.scriptId === scriptId);
+        expect(example?.trend).toEqual({ title: 'Kapı Ziliniz Sizi İzliyor', category: 'technology' });
+        expect(getExampleSelector().selectExamples(TREND, 1, { nesRange: { min: 0, max: 100 } })
+            .some(e => e.scriptId === scriptId)).toBe(false);
+    });
+
+    it('ranks better rated examples first and 404s unknown scripts', () => {
+        const selector = getExampleSelector();
+        const base = selector.createExampleFromScript(TREND, makeScript('Hook'), { overallScore: 70 });
+
+        selector.addExample({ ...base, id: 'ok', performance: { algorithmScore: 70, userRating: 4 } } as ScriptExample);
+        selector.addExample({ ...base, id: 'best', performance: { algorithmScore: 70, userRating: 5 } } as ScriptExample);
+
+        expect(selector.selectExamples({ ...TREND, nes: 20 }, 2).map(e => e.id)).toEqual(['best', 'ok']);
+        expect(() => getScriptRatings().rate('missing-id', { rating: 'like' })).toThrow(RatingError);
+    });
+});
@@ -0,0 +1,24 @@
+/**
+ * Script Ratings Module
+ *
+ * Exports team ratings of library scripts and their few-shot promotion.
+ *
+ * @module ratings
+ */
+
+export {
+    ScriptRatings,
+    getScriptRatings,
+    resetScriptRatings,
+    toUserRating,
+} from './ScriptRatings.js';
+
+export {
+    RatingError,
+    RATING_TYPES,
+    type RatingType,
+    type RatingInput,
+    type ScriptRating,
+    type RateScriptResult,
+    type RatingStats,
+} from './ratingTypes.js';
@@ -0,0 +1,65 @@
+/**
+ * Script Rating Types
+ *
+ * @module ratings/ratingTypes
+ */
+
+import type { Platform } from '@icerik/shared';
+
+export const RATING_TYPES = ['like', 'dislike'] as const;
+
+export type RatingType = typeof RATING_TYPES[number];
+
+/**
+ * A rating as submitted
+ */
+export interface RatingInput {
+    rating: RatingType;
+    /** Optional 1-5 stars */
+    stars?: number;
+    feedback?: string;
+}
+
+/**
+ * Stored rating of a library script
+ */
+export interface ScriptRating extends RatingInput {
+    scriptId: string;
+    /** 1-5: the stars, else 4 for a like and 1 for a dislike */
+    userRating: number;
+    createdAt: string;
+    updatedAt: string;
+}
+
+/**
+ * Result of rating a script
+ */
+export interface RateScriptResult {
+    rating: ScriptRating;
+    /** Whether the script is now a few-shot example */
+    promoted: boolean;
+}
+
+/**
+ * Rating totals across all scripts
+ */
+export interface RatingStats {
+    totalRatings: number;
+    likes: number;
+    dislikes: number;
+    likePercentage: number;
+    averageStars: number;
+    byPlatform: Record<Platform, { likes: number; dislikes: number }>;
+    /** Examples in the few-shot pool */
+    exampleCount: number;
+}
+
+/**
+ * Error for rating operations that carries the HTTP status to answer with
+ */
+export class RatingError extends Error {
+    constructor(message: string, public readonly statusCode: 404 = 404) {
+        super(message);
+        this.name = 'RatingError';
+    }
+}
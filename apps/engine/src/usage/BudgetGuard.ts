@@ -0,0 +1,225 @@
+/**
+ * Budget Guard
+ *
+ * Enforces daily and monthly USD budgets per provider before a metered call
+ * is made. Spend is read from the usage_events table, so a call is blocked
+ * once recorded spend reaches the limit (the call that crosses it finishes).
+ * A warning is logged once per window when spend passes 80%.
+ *
+ * Budgets come from the USAGE_BUDGETS env var (JSON), e.g.
+ * {"gemini":{"daily":2,"monthly":30},"elevenlabs":{"monthly":22}}
+ *
+ * @module usage/BudgetGuard
+ */
+
+import { createChildLogger } from '../utils/logger.js';
+import { getEnv } from '../utils/env.js';
+import { getUsageTracker } from './UsageTracker.js';
+import type { UsageTracker } from './UsageTracker.js';
+import type {
+    UsageProvider,
+    UsageBudgets,
+    ProviderBudget,
+    BudgetPeriod,
+    BudgetStatus,
+} from './usageTypes.js';
+import { BudgetExceededError } from './usageTypes.js';
+
+const logger = createChildLogger('budget-guard');
+
+/**
+ * Share of a budget at which a warning is logged
+ */
+export const BUDGET_WARNING_RATIO = 0.8;
+
+const BUDGET_PERIODS: BudgetPeriod[] = ['daily', 'monthly'];
+
+const BUDGET_PROVIDERS: UsageProvider[] = ['gemini', 'openai', 'elevenlabs', 'fishaudio', 'pexels'];
+
+// =============================================================================
+// Helpers
+// =============================================================================
+
+/**
+ * Start and end of the UTC window containing `now`
+ */
+function getPeriodWindow(period: BudgetPeriod, now: Date): { start: Date; end: Date } {
+    const year = now.getUTCFullYear();
+    const month = now.getUTCMonth();
+
+    if (period === 'daily') {
+        const start = new Date(Date.UTC(year, month, now.getUTCDate()));
+        return { start, end: new Date(start.getTime() + 24 * 60 * 60 * 1000) };
+    }
+
+    return { start: new Date(Date.UTC(year, month, 1)), end: new Date(Date.UTC(year, month + 1, 1)) };
+}
+
+function isValidLimit(value: unknown): value is number {
+    return typeof value === 'number' && Number.isFinite(value) && value >= 0;
+}
+
+/**
+ * Parse USAGE_BUDGETS. Unknown providers and invalid limits are logged and ignored.
+ */
+export function loadBudgets(value: string | undefined = getEnv().USAGE_BUDGETS): UsageBudgets {
+    const budgets: UsageBudgets = {};
+    if (!value) return budgets;
+
+    try {
+        const parsed = JSON.parse(value) as Record<string, Record<string, unknown>>;
+        for (const [provider, limits] of Object.entries(parsed)) {
+            if (!BUDGET_PROVIDERS.includes(provider as UsageProvider) || typeof limits !== 'object' || !limits) {
+                logger.warn({ provider }, 'Ignoring invalid USAGE_BUDGETS entry');
+                continue;
+            }
+
+            const budget: ProviderBudget = {};
+            for (const period of BUDGET_PERIODS) {
+                if (limits[period] === undefined) continue;
+                if (isValidLimit(limits[period])) {
+                    budget[period] = limits[period];
+                } else {
+                    logger.warn({ provider, period }, 'Ignoring invalid USAGE_BUDGETS limit');
+                }
+            }
+            budgets[provider as UsageProvider] = budget;
+        }
+    } catch (error) {
+        logger.warn({ error }, 'USAGE_BUDGETS is not valid JSON, budgets disabled');
+    }
+
+    return budgets;
+}
+
+// =============================================================================
+// Budget Guard Class
+// =============================================================================
+
+export class BudgetGuard {
+    /** provider:period:windowStart keys already warned about */
+    private warned = new Set<string>();
+
+    constructor(
+        private budgets: UsageBudgets = loadBudgets(),
+        private tracker: UsageTracker = getUsageTracker()
+    ) { }
+
+    getBudgets(): UsageBudgets {
+        return { ...this.budgets };
+    }
+
+    /**
+     * Spend against each configured window of a provider. Logs the 80%
+     * warning once per window. Returns [] when spend can't be read, so a
+     * broken usage table never blocks calls.
+     */
+    getStatus(provider: UsageProvider, now: Date = new Date()): BudgetStatus[] {
+        const budget = this.budgets[provider];
+        if (!budget) return [];
+
+        try {
+            return BUDGET_PERIODS.flatMap(period => {
+                const limitUsd = budget[period];
+                if (limitUsd === undefined) return [];
+
+                const { start, end } = getPeriodWindow(period, now);
+                const spentUsd = this.tracker.getCostSince(provider, start.toISOString());
+                const ratio = limitUsd > 0 ? spentUsd / limitUsd : 1;
+                const state: BudgetStatus['state'] = ratio >= 1
+                    ? 'exceeded'
+                    : ratio >= BUDGET_WARNING_RATIO ? 'warning' : 'ok';
+
+                const status: BudgetStatus = {
+                    provider,
+                    period,
+                    limitUsd,
+                    spentUsd,
+                    ratio: Math.round(ratio * 1000) / 1000,
+                    state,
+                    resetsAt: end.toISOString(),
+                };
+
+                if (state !== 'ok') {
+                    this.warnOnce(status, start);
+                }
+
+                return [status];
+            });
+        } catch (error) {
+            logger.error({ error, provider }, 'Failed to read budget spend');
+            return [];
+        }
+    }
+
+    /**
+     * Status of every configured budget
+     */
+    getAllStatuses(now: Date = new Date()): BudgetStatus[] {
+        return (Object.keys(this.budgets) as UsageProvider[]).flatMap(provider => this.getStatus(provider, now));
+    }
+
+    /**
+     * First exhausted window of a provider, or null if calls are allowed
+     */
+    getExceeded(provider: UsageProvider): BudgetStatus | null {
+        return this.getStatus(provider).find(status => status.state === 'exceeded') ?? null;
+    }
+
+    /**
+     * Throws BudgetExceededError when the provider's budget is used up
+     */
+    assertWithinBudget(provider: UsageProvider): void {
+        const exceeded = this.getExceeded(provider);
+        if (exceeded) {
+            throw new BudgetExceededError(exceeded);
+        }
+    }
+
+    private warnOnce(status: BudgetStatus, windowStart: Date): void {
+        const key = `${status.provider}:${status.period}:${windowStart.toISOString()}:${status.state}`;
+        if (this.warned.has(key)) return;
+        this.warned.add(key);
+
+        const message = status.state === 'exceeded'
+            ? 'Budget exceeded, blocking calls until reset'
+            : 'Budget nearly used up';
+        logger.warn({
+            provider: status.provider,
+            period: status.period,
+            spentUsd: status.spentUsd,
+            limitUsd: status.limitUsd,
+            resetsAt: status.resetsAt,
+        }, message);
+    }
+}
+
+// =============================================================================
+// Singleton
+// =============================================================================
+
+let guardInstance: BudgetGuard | null = null;
+
+/**
+ * Get the budget guard
+ */
+export function getBudgetGuard(): BudgetGuard {
+    if (!guardInstance) {
+        guardInstance = new BudgetGuard();
+    }
+    return guardInstance;
+}
+
+/**
+ * Reset singleton (for testing)
+ */
+export function resetBudgetGuard(): void {
+    guardInstance = null;
+}
+
+/**
+ * Throw BudgetExceededError if the shared guard blocks the provider
+ */
+export function assertWithinBudget(provider: UsageProvider): void {
+    getBudgetGuard().assertWithinBudget(provider);
+}
@@ -0,0 +1,305 @@
+/**
+ * Usage Tracker
+ *
+ * Persists every metered external call (LLM tokens, TTS characters, stock
+ * image requests) to SQLite with its cost, and rolls usage up by day, trend,
+ * platform, provider or operation.
+ *
+ * Costs are computed when the call is recorded, so later price changes don't
+ * rewrite history. Prices come from DEFAULT_PRICES merged with the
+ * USAGE_PRICES env var (JSON, same shape).
+ *
+ * @module usage/UsageTracker
+ */
+
+import { getDatabase } from '../cache/index.js';
+import { createChildLogger } from '../utils/logger.js';
+import { getEnv } from '../utils/env.js';
+import type {
+    UsageProvider,
+    UsageEvent,
+    UsageRecord,
+    UsagePrice,
+    UsagePriceTable,
+    UsageQuery,
+    UsageGroupBy,
+    UsageTotals,
+    UsageBucket,
+    UsageSummary,
+} from './usageTypes.js';
+
+const logger = createChildLogger('usage-tracker');
+
+/**
+ * List prices in USD. Self-hosted OpenAI-compatible models are free unless
+ * priced via USAGE_PRICES.
+ */
+export const DEFAULT_PRICES: UsagePriceTable = {
+    'gemini:gemini-3-flash-preview': { input: 0.5, output: 3, per: 1_000_000 },
+    'gemini:gemini-2.0-flash': { input: 0.1, output: 0.4, per: 1_000_000 },
+    'gemini': { input: 0.5, output: 3, per: 1_000_000 },
+    'openai:gpt-4o-mini': { input: 0.15, output: 0.6, per: 1_000_000 },
+    'openai': { input: 0, output: 0, per: 1_000_000 },
+    'elevenlabs': { input: 0.3, per: 1000 },
+    'fishaudio': { input: 0.015, per: 1000 },
+    'pexels': { input: 0, per: 1 },
+};
+
+/**
+ * Default summary window
+ */
+const DEFAULT_RANGE_DAYS = 30;
+
+/**
+ * SQL expression for each rollup dimension
+ */
+const GROUP_BY_SQL: Record<UsageGroupBy, string> = {
+    day: 'substr(created_at, 1, 10)',
+    trend: "COALESCE(trend_id, 'unattributed')",
+    platform: "COALESCE(platform, 'unattributed')",
+    provider: 'provider',
+    operation: "COALESCE(operation, 'unattributed')",
+};
+
+// =============================================================================
+// Helpers
+// =============================================================================
+
+interface UsageBucketRow {
+    key: string;
+    events: number;
+    input_tokens: number;
+    output_tokens: number;
+    characters: number;
+    requests: number;
+    cost_usd: number;
+}
+
+function rowToBucket(row: UsageBucketRow): UsageBucket {
+    return {
+        key: row.key,
+        events: row.events,
+        inputTokens: row.input_tokens,
+        outputTokens: row.output_tokens,
+        characters: row.characters,
+        requests: row.requests,
+        costUsd: roundCost(row.cost_usd),
+    };
+}
+
+function roundCost(value: number): number {
+    return Math.round(value * 1_000_000) / 1_000_000;
+}
+
+function isValidPrice(value: unknown): value is UsagePrice {
+    const price = value as UsagePrice;
+    return typeof price === 'object' && price !== null
+        && typeof price.input === 'number'
+        && (price.output === undefined || typeof price.output === 'number')
+        && typeof price.per === 'number' && price.per > 0;
+}
+
+/**
+ * Default prices overridden by USAGE_PRICES. Invalid entries are logged and ignored.
+ */
+export function loadPriceTable(overrides: string | undefined = getEnv().USAGE_PRICES): UsagePriceTable {
+    const table: UsagePriceTable = { ...DEFAULT_PRICES };
+    if (!overrides) return table;
+
+    try {
+        const parsed = JSON.parse(overrides) as Record<string, unknown>;
+        for (const [key, price] of Object.entries(parsed)) {
+            if (isValidPrice(price)) {
+                table[key] = price;
+            } else {
+                logger.warn({ key }, 'Ignoring invalid USAGE_PRICES entry');
+            }
+        }
+    } catch (error) {
+        logger.warn({ error }, 'USAGE_PRICES is not valid JSON, using default prices');
+    }
+
+    return table;
+}
+
+// =============================================================================
+// Usage Tracker Class
+// =============================================================================
+
+export class UsageTracker {
+    private db = getDatabase();
+
+    constructor(private prices: UsagePriceTable = loadPriceTable()) { }
+
+    getPriceTable(): UsagePriceTable {
+        return { ...this.prices };
+    }
+
+    /**
+     * Price for a call: provider:model first, then provider
+     */
+    getPrice(provider: string, model?: string): UsagePrice | null {
+        return (model && this.prices[`${provider}:${model}`]) || this.prices[provider] || null;
+    }
+
+    calculateCost(event: UsageEvent): number {
+        const price = this.getPrice(event.provider, event.model);
+        if (!price) return 0;
+
+        const outputPrice = price.output ?? price.input;
+        return roundCost((event.inputUnits * price.input + (event.outputUnits ?? 0) * outputPrice) / price.per);
+    }
+
+    /**
+     * Store a metered call. Never throws; accounting must not fail the call
+     * being accounted for.
+     */
+    record(event: UsageEvent): UsageRecord | null {
+        try {
+            const outputUnits = event.outputUnits ?? 0;
+            const costUsd = this.calculateCost(event);
+            const createdAt = new Date().toISOString();
+
+            const result = this.db.prepare(`
+                INSERT INTO usage_events (
+                    provider, model, operation, trend_id, platform, unit,
+                    input_units, output_units, estimated, cost_usd, created_at
+                ) VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?)
+            `).run(
+                event.provider,
+                event.model ?? null,
+                event.operation ?? null,
+                event.trendId ?? null,
+                event.platform ?? null,
+                event.unit,
+                event.inputUnits,
+                outputUnits,
+                event.estimated ? 1 : 0,
+                costUsd,
+                createdAt
+            );
+
+            return {
+                ...event,
+                id: Number(result.lastInsertRowid),
+                outputUnits,
+                costUsd,
+                createdAt,
+            };
+        } catch (error) {
+            logger.error({ error, provider: event.provider }, 'Failed to record usage');
+            return null;
+        }
+    }
+
+    /**
+     * Total recorded cost for a provider since an ISO timestamp
+     */
+    getCostSince(provider: UsageProvider, since: string): number {
+        const row = this.db.prepare(`
+            SELECT COALESCE(SUM(cost_usd), 0) AS cost_usd
+            FROM usage_events
+            WHERE provider = ? AND created_at >= ?
+        `).get(provider, since) as { cost_usd: number };
+
+        return roundCost(row.cost_usd);
+    }
+
+    /**
+     * Usage and cost for a time range, rolled up by one dimension.
+     * `from` is inclusive and `to` exclusive; days are UTC.
+     */
+    getSummary(query: UsageQuery = {}): UsageSummary {
+        const groupBy = query.groupBy ?? 'day';
+        const to = query.to ? new Date(query.to).toISOString() : new Date().toISOString();
+        const from = query.from
+            ? new Date(query.from).toISOString()
+            : new Date(Date.now() - DEFAULT_RANGE_DAYS * 24 * 60 * 60 * 1000).toISOString();
+
+        const conditions = ['created_at >= ?'];
+        const params: string[] = [from];
+
+        // Without an explicit end the range is open, so nothing recorded "now" is cut off
+        if (query.to) {
+            conditions.push('created_at < ?');
+            params.push(to);
+        }
+
+        if (query.trendId) {
+            conditions.push('trend_id = ?');
+            params.push(query.trendId);
+        }
+        if (query.platform) {
+            conditions.push('platform = ?');
+            params.push(query.platform);
+        }
+        if (query.provider) {
+            conditions.push('provider = ?');
+            params.push(query.provider);
+        }
+
+        const rows = this.db.prepare(`
+            SELECT
+                ${GROUP_BY_SQL[groupBy]} AS key,
+                COUNT(*) AS events,
+                SUM(CASE WHEN unit = 'tokens' THEN input_units ELSE 0 END) AS input_tokens,
+                SUM(CASE WHEN unit = 'tokens' THEN output_units ELSE 0 END) AS output_tokens,
+                SUM(CASE WHEN unit = 'characters' THEN input_units ELSE 0 END) AS characters,
+                SUM(CASE WHEN unit = 'requests' THEN input_units ELSE 0 END) AS requests,
+                SUM(cost_usd) AS cost_usd
+            FROM usage_events
+            WHERE ${conditions.join(' AND ')}
+            GROUP BY key
+            ORDER BY ${groupBy === 'day' ? 'key' : 'cost_usd DESC, key'}
+        `).all(...params) as UsageBucketRow[];
+
+        const buckets = rows.map(rowToBucket);
+        const totals = buckets.reduce<UsageTotals>((sum, bucket) => ({
+            events: sum.events + bucket.events,
+            inputTokens: sum.inputTokens + bucket.inputTokens,
+            outputTokens: sum.outputTokens + bucket.outputTokens,
+            characters: sum.characters + bucket.characters,
+            requests: sum.requests + bucket.requests,
+            costUsd: roundCost(sum.costUsd + bucket.costUsd),
+        }), { events: 0, inputTokens: 0, outputTokens: 0, characters: 0, requests: 0, costUsd: 0 });
+
+        return { from, to, groupBy, currency: 'USD', totals, buckets };
+    }
+}
+
+// =============================================================================
+// Singleton
+// =============================================================================
+
+let trackerInstance: UsageTracker | null = null;
+
+/**
+ * Get the usage tracker
+ */
+export function getUsageTracker(): UsageTracker {
+    if (!trackerInstance) {
+        trackerInstance = new UsageTracker();
+    }
+    return trackerInstance;
+}
+
+/**
+ * Reset singleton (for testing)
+ */
+export function resetUsageTracker(): void {
+    trackerInstance = null;
+}
+
+/**
+ * Rough token count for providers that report none (~4 characters per token)
+ */
+export function estimateTokens(text: string): number {
+    return Math.ceil(text.length / 4);
+}
+
+/**
+ * Record a metered call on the shared tracker
+ */
+export function recordUsage(event: UsageEvent): UsageRecord | null {
+    return getUsageTracker().record(event);
+}
@@ -0,0 +1,85 @@
+/**
+ * Budget Guard Tests
+ *
+ * Unit tests for budget parsing, window status and enforcement.
+ *
+ * @module usage/__tests__/BudgetGuard.test
+ */
+
+import { describe, it, expect } from 'vitest';
+import { BudgetGuard, loadBudgets } from '../BudgetGuard.js';
+import { BudgetExceededError } from '../usageTypes.js';
+import type { UsageTracker } from '../UsageTracker.js';
+import type { UsageProvider } from '../usageTypes.js';
+
+/**
+ * Tracker stub reporting fixed spend per provider and window start
+ */
+function createTracker(spend: (provider: UsageProvider, since: string) => number): UsageTracker {
+    return { getCostSince: spend } as unknown as UsageTracker;
+}
+
+describe('loadBudgets', () => {
+    it('keeps valid limits and drops unknown providers and bad values', () => {
+        expect(loadBudgets(JSON.stringify({
+            gemini: { daily: 2, monthly: 30 },
+            elevenlabs: { monthly: 'lots' },
+            anthropic: { daily: 5 },
+        }))).toEqual({
+            gemini: { daily: 2, monthly: 30 },
+            elevenlabs: {},
+        });
+        expect(loadBudgets('{not json')).toEqual({});
+    });
+});
+
+describe('BudgetGuard', () => {
+    const now = new Date('2026-03-15T10:00:00.000Z');
+
+    it('reports daily and monthly windows in UTC', () => {
+        const guard = new BudgetGuard(
+            { gemini: { daily: 2, monthly: 30 } },
+            createTracker((_, since) => (since.startsWith('2026-03-15') ? 1.7 : 12))
+        );
+
+        expect(guard.getStatus('gemini', now)).toEqual([
+            {
+                provider: 'gemini', period: 'daily', limitUsd: 2, spentUsd: 1.7,
+                ratio: 0.85, state: 'warning', resetsAt: '2026-03-16T00:00:00.000Z',
+            },
+            {
+                provider: 'gemini', period: 'monthly', limitUsd: 30, spentUsd: 12,
+                ratio: 0.4, state: 'ok', resetsAt: '2026-04-01T00:00:00.000Z',
+            },
+        ]);
+        expect(guard.getStatus('elevenlabs', now)).toEqual([]);
+    });
+
+    it('blocks a provider once any window is used up', () => {
+        const guard = new BudgetGuard(
+            { elevenlabs: { monthly: 22 }, fishaudio: { daily: 0 } },
+            createTracker(provider => (provider === 'elevenlabs' ? 22.5 : 0))
+        );
+
+        expect(() => guard.assertWithinBudget('elevenlabs')).toThrow(BudgetExceededError);
+        // A zero limit disables the provider
+        expect(guard.getExceeded('fishaudio')?.period).toBe('daily');
+        expect(() => guard.assertWithinBudget('gemini')).not.toThrow();
+
+        try {
+            guard.assertWithinBudget('elevenlabs');
+        } catch (error) {
+            expect((error as BudgetExceededError).code).toBe('BUDGET_EXCEEDED');
+            expect((error as BudgetExceededError).status.spentUsd).toBe(22.5);
+        }
+    });
+
+    it('allows calls when spend cannot be read', () => {
+        const guard = new BudgetGuard(
+            { gemini: { daily: 1 } },
+            createTracker(() => { throw new Error('no such table: usage_events'); })
+        );
+
+        expect(() => guard.assertWithinBudget('gemini')).not.toThrow();
+    });
+});
@@ -0,0 +1,95 @@
+/**
+ * Usage Tracker Tests
+ *
+ * Unit tests for cost calculation, price overrides and usage rollups.
+ *
+ * @module usage/__tests__/UsageTracker.test
+ */
+
+import { describe, it, expect, afterAll } from 'vitest';
+import { UsageTracker, loadPriceTable, DEFAULT_PRICES } from '../UsageTracker.js';
+import { getDatabase } from '../../cache/database.js';
+
+const TREND_ID = `usage_test_${Date.now()}`;
+
+afterAll(() => {
+    getDatabase().prepare('DELETE FROM usage_events WHERE trend_id = ?').run(TREND_ID);
+});
+
+describe('loadPriceTable', () => {
+    it('merges valid overrides and ignores invalid ones', () => {
+        const table = loadPriceTable(JSON.stringify({
+            'openai:llama3.1': { input: 0.2, output: 0.2, per: 1_000_000 },
+            'elevenlabs': { input: 'free', per: 1000 },
+        }));
+
+        expect(table['openai:llama3.1']).toEqual({ input: 0.2, output: 0.2, per: 1_000_000 });
+        expect(table.elevenlabs).toEqual(DEFAULT_PRICES.elevenlabs);
+        expect(loadPriceTable('{not json')).toEqual(DEFAULT_PRICES);
+    });
+});
+
+describe('UsageTracker', () => {
+    const tracker = new UsageTracker({
+        'gemini:gemini-pro': { input: 2, output: 10, per: 1_000_000 },
+        'gemini': { input: 1, output: 4, per: 1_000_000 },
+        'elevenlabs': { input: 0.3, per: 1000 },
+    });
+
+    it('prices by provider:model, then provider, else free', () => {
+        expect(tracker.calculateCost({
+            provider: 'gemini', model: 'gemini-pro', unit: 'tokens', inputUnits: 1000, outputUnits: 500,
+        })).toBe(0.007);
+        expect(tracker.calculateCost({
+            provider: 'gemini', model: 'other', unit: 'tokens', inputUnits: 1000, outputUnits: 500,
+        })).toBe(0.003);
+        expect(tracker.calculateCost({
+            provider: 'elevenlabs', unit: 'characters', inputUnits: 2500,
+        })).toBe(0.75);
+        expect(tracker.calculateCost({
+            provider: 'pexels', unit: 'requests', inputUnits: 3,
+        })).toBe(0);
+    });
+
+    it('rolls recorded usage up by platform and operation', () => {
+        tracker.record({
+            provider: 'gemini', model: 'gemini-pro', unit: 'tokens', inputUnits: 1000, outputUnits: 500,
+            operation: 'scripts', trendId: TREND_ID, platform: 'tiktok',
+        });
+        tracker.record({
+            provider: 'gemini', model: 'gemini-pro', unit: 'tokens', inputUnits: 2000, outputUnits: 1000,
+            operation: 'variants', trendId: TREND_ID, platform: 'reels',
+        });
+        tracker.record({
+            provider: 'elevenlabs', unit: 'characters', inputUnits: 1000,
+            operation: 'tts', trendId: TREND_ID,
+        });
+
+        const byPlatform = tracker.getSummary({ trendId: TREND_ID, groupBy: 'platform' });
+
+        expect(byPlatform.totals).toEqual({
+            events: 3,
+            inputTokens: 3000,
+            outputTokens: 1500,
+            characters: 1000,
+            requests: 0,
+            costUsd: 0.321,
+        });
+        expect(byPlatform.buckets.map(bucket => [bucket.key, bucket.costUsd])).toEqual([
+            ['unattributed', 0.3],
+            ['reels', 0.014],
+            ['tiktok', 0.007],
+        ]);
+
+        const byDay = tracker.getSummary({ trendId: TREND_ID, groupBy: 'day' });
+        expect(byDay.buckets).toHaveLength(1);
+        expect(byDay.buckets[0].key).toBe(new Date().toISOString().slice(0, 10));
+    });
+
+    it('excludes usage outside the date range', () => {
+        const summary = tracker.getSummary({ trendId: TREND_ID, from: '2020-01-01', to: '2020-02-01' });
+
+        expect(summary.totals.events).toBe(0);
+        expect(summary.buckets).toEqual([]);
+    });
+});
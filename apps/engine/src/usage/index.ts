@@ -0,0 +1,49 @@
+/**
+ * Usage Module
+ *
+ * Persistent token/character usage and cost accounting for external providers.
+ *
+ * @module usage
+ */
+
+// Types
+export type {
+    UsageProvider,
+    UsageUnit,
+    UsageContext,
+    UsageEvent,
+    UsageRecord,
+    UsagePrice,
+    UsagePriceTable,
+    UsageGroupBy,
+    UsageQuery,
+    UsageTotals,
+    UsageBucket,
+    UsageSummary,
+    BudgetPeriod,
+    ProviderBudget,
+    UsageBudgets,
+    BudgetStatus,
+} from './usageTypes.js';
+export { BudgetExceededError } from './usageTypes.js';
+
+// Tracker
+export {
+    UsageTracker,
+    getUsageTracker,
+    resetUsageTracker,
+    recordUsage,
+    estimateTokens,
+    loadPriceTable,
+    DEFAULT_PRICES,
+} from './UsageTracker.js';
+
+// Budgets
+export {
+    BudgetGuard,
+    getBudgetGuard,
+    resetBudgetGuard,
+    assertWithinBudget,
+    loadBudgets,
+    BUDGET_WARNING_RATIO,
+} from './BudgetGuard.js';
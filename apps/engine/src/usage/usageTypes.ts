@@ -0,0 +1,170 @@
+/**
+ * Usage Accounting Types
+ *
+ * Shared types for persistent token/character usage and cost accounting.
+ *
+ * @module usage/types
+ */
+
+import type { Platform } from '@icerik/shared';
+
+/**
+ * Metered external services
+ */
+export type UsageProvider = 'gemini' | 'openai' | 'elevenlabs' | 'fishaudio' | 'pexels';
+
+/**
+ * What a provider bills by
+ */
+export type UsageUnit = 'tokens' | 'characters' | 'requests';
+
+/**
+ * What the usage should be attributed to
+ */
+export interface UsageContext {
+    /** AI operation (scripts, variants...), 'tts' or 'image-search' */
+    operation?: string;
+    trendId?: string;
+    platform?: Platform;
+}
+
+/**
+ * A metered call, as reported by a client
+ */
+export interface UsageEvent extends UsageContext {
+    provider: UsageProvider;
+    model?: string;
+    unit: UsageUnit;
+    /** Prompt tokens, synthesized characters or request count */
+    inputUnits: number;
+    /** Completion tokens (0 for character/request billing) */
+    outputUnits?: number;
+    /** True when the provider reported no counts and they were estimated */
+    estimated?: boolean;
+}
+
+/**
+ * Stored usage event with its cost
+ */
+export interface UsageRecord extends UsageEvent {
+    id: number;
+    outputUnits: number;
+    costUsd: number;
+    createdAt: string;
+}
+
+/**
+ * Price for one provider or provider:model key
+ */
+export interface UsagePrice {
+    /** USD per `per` input units */
+    input: number;
+    /** USD per `per` output units (defaults to input) */
+    output?: number;
+    /** Units the prices are quoted for (e.g. 1_000_000 tokens, 1000 characters) */
+    per: number;
+}
+
+/**
+ * Prices keyed by "provider:model" or "provider"
+ */
+export type UsagePriceTable = Record<string, UsagePrice>;
+
+/**
+ * Rollup dimension
+ */
+export type UsageGroupBy = 'day' | 'trend' | 'platform' | 'provider' | 'operation';
+
+/**
+ * Usage summary filters
+ */
+export interface UsageQuery {
+    /** ISO date/time, inclusive (default: 30 days ago) */
+    from?: string;
+    /** ISO date/time, exclusive (default: now) */
+    to?: string;
+    groupBy?: UsageGroupBy;
+    trendId?: string;
+    platform?: Platform;
+    provider?: UsageProvider;
+}
+
+/**
+ * Aggregated usage for one group (or the whole range)
+ */
+export interface UsageTotals {
+    events: number;
+    inputTokens: number;
+    outputTokens: number;
+    characters: number;
+    requests: number;
+    costUsd: number;
+}
+
+/**
+ * Usage for one rollup key
+ */
+export interface UsageBucket extends UsageTotals {
+    /** Day (YYYY-MM-DD), trend id, platform, provider or operation; 'unattributed' when unknown */
+    key: string;
+}
+
+/**
+ * GET /api/usage response
+ */
+export interface UsageSummary {
+    from: string;
+    to: string;
+    groupBy: UsageGroupBy;
+    currency: 'USD';
+    totals: UsageTotals;
+    buckets: UsageBucket[];
+}
+
+/**
+ * Budget window (UTC day or calendar month)
+ */
+export type BudgetPeriod = 'daily' | 'monthly';
+
+/**
+ * Spending limits in USD for one provider
+ */
+export interface ProviderBudget {
+    daily?: number;
+    monthly?: number;
+}
+
+/**
+ * Budgets keyed by provider
+ */
+export type UsageBudgets = Partial<Record<UsageProvider, ProviderBudget>>;
+
+/**
+ * Spend against one budget window
+ */
+export interface BudgetStatus {
+    provider: UsageProvider;
+    period: BudgetPeriod;
+    limitUsd: number;
+    spentUsd: number;
+    /** spentUsd / limitUsd */
+    ratio: number;
+    state: 'ok' | 'warning' | 'exceeded';
+    /** When the window rolls over */
+    resetsAt: string;
+}
+
+/**
+ * Thrown before a metered call when the provider's budget is used up
+ */
+export class BudgetExceededError extends Error {
+    readonly code = 'BUDGET_EXCEEDED';
+
+    constructor(public readonly status: BudgetStatus) {
+        super(
+            `${status.provider} ${status.period} budget exceeded: ` +
+            `$${status.spentUsd.toFixed(2)} of $${status.limitUsd.toFixed(2)} spent (resets ${status.resetsAt})`
+        );
+        this.name = 'BudgetExceededError';
+    }
+}
@@ -8,6 +8,32 @@ const envSchema = z.object({
     POLL_INTERVAL_MS: z.coerce.number().default(300000),
     LOG_LEVEL: z.enum(['trace', 'debug', 'info', 'warn', 'error', 'fatal']).default('info'),
     GEMINI_API_KEY: z.string().optional(),
+    // LLM routing: default provider, fallback, and per-operation overrides (op=provider[:model],...)
+    LLM_PROVIDER: z.enum(['gemini', 'openai']).default('gemini'),
+    LLM_FALLBACK_PROVIDER: z.enum(['gemini', 'openai']).optional(),
+    LLM_OPERATION_PROVIDERS: z.string().optional(),
+    // OpenAI-compatible chat completions endpoint (OpenAI, Ollama, llama.cpp, vLLM...)
+    OPENAI_BASE_URL: z.string().default('https://api.openai.com/v1'),
+    OPENAI_API_KEY: z.string().optional(), // Not needed for local servers
+    OPENAI_MODEL: z.string().default('gpt-4o-mini'),
+    // Record/replay LLM responses as fixtures (replay runs offline without API keys)
+    LLM_RECORD_MODE: z.enum(['off', 'record', 'replay']).default('off'),
+    LLM_FIXTURES_DIR: z.string().default('fixtures/llm'), // Committed, unlike data/
+    // Usage accounting: JSON price overrides, e.g. {"elevenlabs":{"input":0.18,"per":1000}}
+    USAGE_PRICES: z.string().optional(),
+    // Spending limits in USD per provider, e.g. {"gemini":{"daily":2,"monthly":30}}
+    USAGE_BUDGETS: z.string().optional(),
+    // Per-language tweaks, e.g. {"de":{"wordsPerSecond":2.1,"emphasisWords":["krass"]}}
+    LANGUAGE_OVERRIDES: z.string().optional(),
+    // NES baseline calibration: 'learned' normalizes by the rolling median of observed scores
+    NES_BASELINE_MODE: z.enum(['static', 'learned']).default('static'),
+    NES_BASELINE_WINDOW_DAYS: z.coerce.number().int().min(1).max(30).default(7),
+    // Video render queue: max concurrent FFmpeg processes
+    VIDEO_RENDER_CONCURRENCY: z.coerce.number().int().min(1).max(8).default(2),
+    // Background music library directory (tracks + optional library.json)
+    MUSIC_LIBRARY_DIR: z.string().default('data/music'),
+    // Additional trend sources
+    RSS_FEEDS: z.string().optional(), // Comma-separated id|category|url[|tier[|weight]] entries
     // Security-related env vars
     CORS_ORIGINS: z.string().optional(), // Comma-separated list of allowed origins
     API_SECRET_KEY: z.string().min(32).optional(), // Optional API key for auth
@@ -0,0 +1,121 @@
+/**
+ * Job Event Bus for İçerik Trend Engine
+ *
+ * In-process pub/sub for long-running job progress:
+ * - Video renders (render queue)
+ * - Voice generation
+ * - Multi-platform script generation
+ *
+ * Streamed to clients by GET /api/events (SSE).
+ *
+ * @module jobEvents
+ */
+
+import { EventEmitter } from 'events';
+import { createChildLogger } from './logger.js';
+
+const logger = createChildLogger('job-events');
+
+// ============================================
+// TYPES
+// ============================================
+
+export type JobEventKind = 'video' | 'voice' | 'scripts';
+
+export interface JobEvent {
+    /** Monotonic event id (SSE id, used for Last-Event-ID replay) */
+    id: number;
+    kind: JobEventKind;
+    jobId: string;
+    /** Job status; video uses VideoJobStatus, voice/scripts use started|progress|complete|failed */
+    status: string;
+    /** 0-100 */
+    progress?: number;
+    currentStep?: string;
+    /** Kind-specific payload (e.g. the full video job record) */
+    data?: unknown;
+    timestamp: string;
+}
+
+export type JobEventInput = Omit<JobEvent, 'id' | 'timestamp'>;
+
+export type JobEventListener = (event: JobEvent) => void;
+
+// ============================================
+// EVENT BUS
+// ============================================
+
+class JobEventBus {
+    private emitter = new EventEmitter();
+    private recent: JobEvent[] = [];
+    private nextId = 1;
+    private readonly maxRecent = 200;
+
+    constructor() {
+        // One listener per open SSE connection
+        this.emitter.setMaxListeners(0);
+    }
+
+    publish(input: JobEventInput): JobEvent {
+        const event: JobEvent = {
+            ...input,
+            id: this.nextId++,
+            timestamp: new Date().toISOString(),
+        };
+
+        this.recent.push(event);
+        if (this.recent.length > this.maxRecent) {
+            this.recent = this.recent.slice(-this.maxRecent);
+        }
+
+        try {
+            this.emitter.emit('job', event);
+        } catch (error) {
+            // A broken subscriber must never fail the job itself
+            logger.warn({ error, kind: event.kind, jobId: event.jobId }, 'Job event listener failed');
+        }
+
+        return event;
+    }
+
+    /**
+     * @returns Unsubscribe function
+     */
+    subscribe(listener: JobEventListener): () => void {
+        this.emitter.on('job', listener);
+        return () => {
+            this.emitter.off('job', listener);
+        };
+    }
+
+    /**
+     * Buffered events newer than the given id (for reconnecting clients)
+     */
+    getSince(lastEventId: number): JobEvent[] {
+        return this.recent.filter(event => event.id > lastEventId);
+    }
+
+    getSubscriberCount(): number {
+        return this.emitter.listenerCount('job');
+    }
+}
+
+// ============================================
+// SINGLETON
+// ============================================
+
+let busInstance: JobEventBus | null = null;
+
+export function getJobEventBus(): JobEventBus {
+    if (!busInstance) {
+        busInstance = new JobEventBus();
+    }
+    return busInstance;
+}
+
+/**
+ * Shorthand for getJobEventBus().publish()
+ */
+export function publishJobEvent(input: JobEventInput): JobEvent {
+    return getJobEventBus().publish(input);
+}
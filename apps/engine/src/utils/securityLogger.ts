@@ -5,7 +5,7 @@
  * - Rate limit violations
  * - Invalid input attempts
  * - Suspicious patterns
- * - Authentication failures (future)
+ * - Authentication failures
  * 
  * @module securityLogger
  * @version 1.0.0
@@ -29,37 +29,44 @@ export class AudioMixer {
             backgroundVolume: config.backgroundVolume ?? DEFAULT_BACKGROUND_VOLUME,
             enableDucking: config.enableDucking ?? true,
             duckingAmount: config.duckingAmount ?? DUCKING_AMOUNT,
-            normalizeVolume: config.normalizeVolume ?? true
+            normalizeVolume: config.normalizeVolume ?? true,
+            durationSeconds: config.durationSeconds
         };
     }
 
     /**
      * Generate FFmpeg filter chain for audio mixing
+     * @param firstInputIndex - FFmpeg input index of the voiceover (audio inputs
+     *   follow the image inputs); background music is the next input
      */
-    generateAudioFilters(): { filters: string[]; inputs: string[]; mappings: string[] } {
+    generateAudioFilters(firstInputIndex: number = 1): { filters: string[]; inputs: string[]; mappings: string[] } {
         const filters: string[] = [];
         const inputs: string[] = [];
         const mappings: string[] = [];
 
-        // Voiceover is always input [1] (after video/images)
-        const voiceoverInput = '1:a';
+        const voiceoverInput = `${firstInputIndex}:a`;
         inputs.push(this.config.voiceoverPath);
 
         if (this.config.backgroundMusicPath) {
-            // Background music is input [2]
-            const bgMusicInput = '2:a';
+            const bgMusicInput = `${firstInputIndex + 1}:a`;
             inputs.push(this.config.backgroundMusicPath);
 
+            // Background music is looped by the composer, so fade it out where the voiceover ends
+            const fades = [`afade=t=in:d=${FADE_DURATION}`];
+            if (this.config.durationSeconds && this.config.durationSeconds > FADE_DURATION) {
+                fades.push(`afade=t=out:st=${this.config.durationSeconds - FADE_DURATION}:d=${FADE_DURATION}`);
+            }
+
             if (this.config.enableDucking) {
                 // Audio ducking: lower music volume when voice is present
                 // Uses sidechaincompress filter
                 filters.push(
-                    // Normalize voiceover
-                    `[${voiceoverInput}]loudnorm=I=-16:TP=-1.5:LRA=11[voice_norm]`,
+                    // Normalize voiceover (split: one copy drives the sidechain)
+                    `[${voiceoverInput}]loudnorm=I=-16:TP=-1.5:LRA=11,asplit=2[voice_norm][voice_sc]`,
                     // Set background volume and add fade in/out
-                    `[${bgMusicInput}]volume=${this.config.backgroundVolume},afade=t=in:d=${FADE_DURATION},afade=t=out:st=-${FADE_DURATION}:d=${FADE_DURATION}[bg_vol]`,
+                    `[${bgMusicInput}]volume=${this.config.backgroundVolume},${fades.join(',')}[bg_vol]`,
                     // Sidechain compression: duck music when voice plays
-                    `[bg_vol][voice_norm]sidechaincompress=threshold=0.02:ratio=8:attack=50:release=500[bg_ducked]`,
+                    `[bg_vol][voice_sc]sidechaincompress=threshold=0.02:ratio=8:attack=50:release=500[bg_ducked]`,
                     // Mix voice and ducked background
                     `[voice_norm][bg_ducked]amix=inputs=2:duration=first:dropout_transition=2[audio_mixed]`
                 );
@@ -68,7 +75,7 @@ export class AudioMixer {
                 // Simple mixing without ducking
                 filters.push(
                     `[${voiceoverInput}]loudnorm=I=-16:TP=-1.5:LRA=11[voice_norm]`,
-                    `[${bgMusicInput}]volume=${this.config.backgroundVolume}[bg_vol]`,
+                    `[${bgMusicInput}]volume=${this.config.backgroundVolume},${fades.join(',')}[bg_vol]`,
                     `[voice_norm][bg_vol]amix=inputs=2:duration=first:dropout_transition=2[audio_mixed]`
                 );
                 mappings.push('[audio_mixed]');
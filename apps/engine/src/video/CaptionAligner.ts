@@ -0,0 +1,374 @@
+/**
+ * Caption Aligner
+ * Finds real word timings for the voiceover so captions follow the audio
+ *
+ * Sources, in order of preference:
+ * 1. Word timings sent with the project
+ * 2. TTS provider alignment stored for the voiceover audio (matched by hash)
+ * 3. Local energy-based speech/silence detection on the decoded voiceover
+ * When none is available the CaptionGenerator falls back to estimated timing.
+ */
+
+import { spawn } from 'child_process';
+import { promises as fs } from 'fs';
+import ffmpegPath from '@ffmpeg-installer/ffmpeg';
+
+import type { VideoProject, WordTiming, CaptionTimingSource } from './types.js';
+import { splitCaptionWords } from './CaptionGenerator.js';
+import { getVoiceCache } from '../voice/VoiceCache.js';
+import { createChildLogger } from '../utils/logger.js';
+
+// =============================================================================
+// Constants
+// =============================================================================
+
+const SAMPLE_RATE = 16000;
+const FRAME_SECONDS = 0.02;             // 20ms RMS frames
+const THRESHOLD_RATIO = 0.25;           // Between noise floor (p10) and speech level (p90)
+const MIN_DYNAMIC_RANGE = 0.01;         // Below this the signal is treated as silence
+const MIN_GAP_SECONDS = 0.08;           // Shorter dips are inside a word
+const MIN_BURST_SECONDS = 0.06;         // Shorter bursts are clicks/breaths
+const PHRASE_PAUSE_SECONDS = 0.25;      // Pauses at least this long separate phrases
+const NON_PUNCTUATION_PENALTY = 0.04;   // Prefer phrase breaks after punctuation
+const logger = createChildLogger('caption-aligner');
+
+// =============================================================================
+// Types
+// =============================================================================
+
+export interface SpeechSegment {
+    start: number;      // seconds
+    end: number;
+}
+
+export interface CaptionAlignment {
+    source: Exclude<CaptionTimingSource, 'estimated'>;
+    /** One timing per caption word of the project script */
+    wordTimings: WordTiming[];
+}
+
+// =============================================================================
+// Helpers
+// =============================================================================
+
+function percentile(sorted: number[], p: number): number {
+    const index = Math.min(sorted.length - 1, Math.max(0, Math.round(p * (sorted.length - 1))));
+    return sorted[index];
+}
+
+function normalizeWord(word: string): string {
+    return word.toLocaleLowerCase().replace(/[^\p{L}\p{N}]/gu, '');
+}
+
+function wordWeight(word: string): number {
+    return Math.max(1, normalizeWord(word).length);
+}
+
+function hasPunctuation(word: string): boolean {
+    return /[.!?,;:]["')\]]*$/.test(word);
+}
+
+/**
+ * Detect spoken regions from 16-bit PCM samples using frame RMS energy
+ */
+export function detectSpeechSegments(samples: ArrayLike<number>, sampleRate: number = SAMPLE_RATE): SpeechSegment[] {
+    const frameSize = Math.max(1, Math.round(sampleRate * FRAME_SECONDS));
+    const frameCount = Math.floor(samples.length / frameSize);
+    if (frameCount === 0) return [];
+
+    const energies: number[] = [];
+    for (let f = 0; f < frameCount; f++) {
+        let sum = 0;
+        for (let i = f * frameSize; i < (f + 1) * frameSize; i++) {
+            const sample = samples[i] / 32768;
+            sum += sample * sample;
+        }
+        energies.push(Math.sqrt(sum / frameSize));
+    }
+
+    const sorted = [...energies].sort((a, b) => a - b);
+    const floor = percentile(sorted, 0.1);
+    const level = percentile(sorted, 0.9);
+    if (level - floor < MIN_DYNAMIC_RANGE) return [];
+
+    const threshold = floor + (level - floor) * THRESHOLD_RATIO;
+    const frameSeconds = frameSize / sampleRate;
+
+    // Runs of voiced frames
+    const raw: SpeechSegment[] = [];
+    let runStart = -1;
+    for (let f = 0; f <= frameCount; f++) {
+        const voiced = f < frameCount && energies[f] >= threshold;
+        if (voiced && runStart === -1) {
+            runStart = f;
+        } else if (!voiced && runStart !== -1) {
+            raw.push({ start: runStart * frameSeconds, end: f * frameSeconds });
+            runStart = -1;
+        }
+    }
+
+    // Fill short gaps, then drop short bursts
+    const merged: SpeechSegment[] = [];
+    for (const segment of raw) {
+        const last = merged[merged.length - 1];
+        if (last && segment.start - last.end < MIN_GAP_SECONDS) {
+            last.end = segment.end;
+        } else {
+            merged.push({ ...segment });
+        }
+    }
+
+    return merged.filter(segment => segment.end - segment.start >= MIN_BURST_SECONDS);
+}
+
+/**
+ * Map a position on the speech-only timeline to clock time within segments
+ */
+function speechToClock(segments: SpeechSegment[], speechTime: number): number {
+    let remaining = speechTime;
+    for (const segment of segments) {
+        const length = segment.end - segment.start;
+        if (remaining <= length) {
+            return segment.start + remaining;
+        }
+        remaining -= length;
+    }
+    return segments[segments.length - 1].end;
+}
+
+function speechLength(segments: SpeechSegment[]): number {
+    return segments.reduce((sum, segment) => sum + (segment.end - segment.start), 0);
+}
+
+/**
+ * Spread words over detected speech.
+ * Segments are grouped into phrases at longer pauses; each phrase break is
+ * placed after the word (preferably ending in punctuation) whose cumulative
+ * weight is closest to the share of speech before that pause. Inside a phrase
+ * words share the voiced time by character weight, skipping short gaps.
+ */
+export function alignWordsToSpeech(words: string[], segments: SpeechSegment[]): WordTiming[] {
+    if (words.length === 0 || segments.length === 0) return [];
+
+    const phrases: SpeechSegment[][] = [];
+    for (const segment of segments) {
+        const current = phrases[phrases.length - 1];
+        const previous = current?.[current.length - 1];
+        if (previous && segment.start - previous.end < PHRASE_PAUSE_SECONDS) {
+            current.push(segment);
+        } else {
+            phrases.push([segment]);
+        }
+    }
+
+    const weights = words.map(wordWeight);
+    const cumulative: number[] = [0];
+    for (const weight of weights) {
+        cumulative.push(cumulative[cumulative.length - 1] + weight);
+    }
+    const totalWeight = cumulative[cumulative.length - 1];
+    const totalSpeech = speechLength(segments);
+
+    // Word index where each phrase starts
+    const breaks: number[] = [0];
+    let speechBefore = 0;
+    for (let p = 0; p < phrases.length - 1; p++) {
+        speechBefore += speechLength(phrases[p]);
+        const target = speechBefore / totalSpeech;
+        const previous = breaks[breaks.length - 1];
+
+        let best = previous;
+        let bestCost = Infinity;
+        for (let i = previous; i <= words.length; i++) {
+            const punctuated = i > 0 && hasPunctuation(words[i - 1]);
+            const cost = Math.abs(cumulative[i] / totalWeight - target) + (punctuated ? 0 : NON_PUNCTUATION_PENALTY);
+            if (cost < bestCost) {
+                best = i;
+                bestCost = cost;
+            }
+        }
+        breaks.push(best);
+    }
+    breaks.push(words.length);
+
+    const timings: WordTiming[] = [];
+    phrases.forEach((phrase, p) => {
+        const from = breaks[p];
+        const to = breaks[p + 1];
+        if (to <= from) return;
+
+        const phraseSpeech = speechLength(phrase);
+        const phraseWeight = cumulative[to] - cumulative[from];
+
+        for (let i = from; i < to; i++) {
+            timings.push({
+                word: words[i],
+                startTime: speechToClock(phrase, ((cumulative[i] - cumulative[from]) / phraseWeight) * phraseSpeech),
+                endTime: speechToClock(phrase, ((cumulative[i + 1] - cumulative[from]) / phraseWeight) * phraseSpeech),
+            });
+        }
+    });
+
+    return timings;
+}
+
+/**
+ * Map timed words (as spoken) onto script words.
+ * Words are matched by longest common subsequence of normalized tokens;
+ * unmatched script words share the time between their matched neighbours.
+ */
+export function matchTimingsToWords(words: string[], timings: WordTiming[]): WordTiming[] {
+    if (words.length === 0 || timings.length === 0) return [];
+
+    const a = words.map(normalizeWord);
+    const b = timings.map(timing => normalizeWord(timing.word));
+    const n = a.length;
+    const m = b.length;
+
+    // LCS lengths of suffixes
+    const table = new Int32Array((n + 1) * (m + 1));
+    for (let i = n - 1; i >= 0; i--) {
+        for (let j = m - 1; j >= 0; j--) {
+            table[i * (m + 1) + j] = a[i] !== '' && a[i] === b[j]
+                ? table[(i + 1) * (m + 1) + j + 1] + 1
+                : Math.max(table[(i + 1) * (m + 1) + j], table[i * (m + 1) + j + 1]);
+        }
+    }
+
+    const matched: (WordTiming | null)[] = new Array(n).fill(null);
+    for (let i = 0, j = 0; i < n && j < m;) {
+        if (a[i] !== '' && a[i] === b[j]) {
+            matched[i] = timings[j];
+            i++;
+            j++;
+        } else if (table[(i + 1) * (m + 1) + j] >= table[i * (m + 1) + j + 1]) {
+            i++;
+        } else {
+            j++;
+        }
+    }
+
+    const audioStart = timings[0].startTime;
+    const audioEnd = timings[timings.length - 1].endTime;
+    const result: WordTiming[] = [];
+
+    for (let i = 0; i < n;) {
+        const match = matched[i];
+        if (match) {
+            result.push({ word: words[i], startTime: match.startTime, endTime: match.endTime });
+            i++;
+            continue;
+        }
+
+        // Run of unmatched words between two anchors
+        let end = i;
+        while (end < n && !matched[end]) end++;
+
+        const from = i > 0 ? result[i - 1].endTime : audioStart;
+        const to = end < n ? matched[end]!.startTime : audioEnd;
+        const step = Math.max(0, to - from) / (end - i);
+
+        for (let k = i; k < end; k++) {
+            const startTime = from + (k - i) * step;
+            result.push({ word: words[k], startTime, endTime: startTime + step });
+        }
+        i = end;
+    }
+
+    return result;
+}
+
+// =============================================================================
+// Caption Aligner Class
+// =============================================================================
+
+export class CaptionAligner {
+    private ffmpegBinary: string;
+
+    constructor(ffmpegBinary: string = ffmpegPath.path) {
+        this.ffmpegBinary = ffmpegBinary;
+    }
+
+    /**
+     * Word timings for the project's script, or null to use estimated timing
+     */
+    async align(project: VideoProject): Promise<CaptionAlignment | null> {
+        const words = [project.script.hook, project.script.body, project.script.cta]
+            .flatMap(splitCaptionWords);
+        if (words.length === 0) return null;
+
+        try {
+            if (project.audio.wordTimings?.length) {
+                return { source: 'provided', wordTimings: matchTimingsToWords(words, project.audio.wordTimings) };
+            }
+
+            const audio = await fs.readFile(project.audio.voiceoverPath);
+            const stored = getVoiceCache().getAlignment(audio);
+            if (stored?.wordTimings.length) {
+                return { source: 'provider', wordTimings: matchTimingsToWords(words, stored.wordTimings) };
+            }
+
+            const segments = detectSpeechSegments(await this.decodePCM(project.audio.voiceoverPath));
+            const wordTimings = alignWordsToSpeech(words, segments);
+            if (wordTimings.length === words.length) {
+                return { source: 'energy', wordTimings };
+            }
+        } catch (error) {
+            logger.warn({ error, projectId: project.id }, 'Caption alignment failed, using estimated timing');
+        }
+
+        return null;
+    }
+
+    /**
+     * Decode audio to mono 16-bit PCM at SAMPLE_RATE
+     */
+    private decodePCM(audioPath: string): Promise<Int16Array> {
+        return new Promise((resolve, reject) => {
+            const args = [
+                '-v', 'error',
+                '-i', audioPath,
+                '-f', 's16le',
+                '-ac', '1',
+                '-ar', String(SAMPLE_RATE),
+                'pipe:1'
+            ];
+
+            const ffmpeg = spawn(this.ffmpegBinary, args);
+            const chunks: Buffer[] = [];
+            let errorOutput = '';
+
+            ffmpeg.stdout.on('data', (data: Buffer) => {
+                chunks.push(data);
+            });
+
+            ffmpeg.stderr.on('data', (data) => {
+                errorOutput += data.toString();
+            });
+
+            ffmpeg.on('close', (code) => {
+                if (code === 0) {
+                    const pcm = Buffer.concat(chunks);
+                    // Copy so the samples are 2-byte aligned
+                    const aligned = new Uint8Array(pcm.length - (pcm.length % 2));
+                    aligned.set(pcm.subarray(0, aligned.length));
+                    resolve(new Int16Array(aligned.buffer));
+                } else {
+                    reject(new Error(`FFmpeg decode error: ${errorOutput}`));
+                }
+            });
+
+            ffmpeg.on('error', (err) => {
+                reject(new Error(`FFmpeg spawn error: ${err.message}`));
+            });
+        });
+    }
+}
+
+// =============================================================================
+// Factory Function
+// =============================================================================
+
+export function createCaptionAligner(): CaptionAligner {
+    return new CaptionAligner();
+}
@@ -8,9 +8,12 @@ import type {
     CaptionWord,
     TimelineSection,
     CaptionStyle,
-    VideoPlatform
+    VideoPlatform,
+    WordTiming
 } from './types.js';
 import { CAPTION_STYLES, PLATFORM_PROFILES } from './types.js';
+import type { ScriptLanguage } from '@icerik/shared';
+import { isEmphasisWord } from '../language/index.js';
 
 // =============================================================================
 // Constants
@@ -20,12 +23,6 @@ const TARGET_CPS = 17;              // Characters per second (middle of 15-20 ra
 const MIN_WORD_DURATION = 0.15;     // Minimum duration per word (150ms)
 const MAX_WORD_DURATION = 1.5;      // Maximum duration per word
 const PUNCTUATION_PAUSE = 0.3;      // Extra pause after punctuation
-const EMPHASIS_WORDS = [
-    'amazing', 'incredible', 'secret', 'shocking', 'never', 'always',
-    'best', 'worst', 'only', 'must', 'stop', 'wait', 'listen',
-    'important', 'critical', 'urgent', 'warning', 'attention',
-    'dikkat', 'önemli', 'şok', 'inanılmaz', 'muhteşem', 'asla', 'hemen'
-];
 
 // =============================================================================
 // Caption Generator Class
@@ -35,23 +32,69 @@ export class CaptionGenerator {
     private captionStyle: CaptionStyle['type'];
     private platform: VideoPlatform;
     private safeZone: { bottom: number };
+    private language?: ScriptLanguage;
 
-    constructor(captionStyle: CaptionStyle['type'], platform: VideoPlatform) {
+    /**
+     * @param language - Script language for the emphasis lexicon; every
+     *   language's lexicon is used when omitted
+     */
+    constructor(captionStyle: CaptionStyle['type'], platform: VideoPlatform, language?: ScriptLanguage) {
         this.captionStyle = captionStyle;
         this.platform = platform;
+        this.language = language;
         this.safeZone = PLATFORM_PROFILES[platform].safeZone;
     }
 
     /**
      * Generate captions for all timeline sections
+     * @param wordTimings - Aligned timings, one per caption word across all
+     *   sections in order; estimated timing is used when absent or mismatched
      */
-    generateCaptions(sections: TimelineSection[]): TimelineSection[] {
+    generateCaptions(sections: TimelineSection[], wordTimings?: WordTiming[]): TimelineSection[] {
+        const wordCount = sections.reduce((sum, section) => sum + splitCaptionWords(section.text).length, 0);
+
+        if (wordTimings && wordTimings.length === wordCount) {
+            let offset = 0;
+            return sections.map(section => {
+                const words = splitCaptionWords(section.text);
+                const timings = wordTimings.slice(offset, offset + words.length);
+                offset += words.length;
+
+                return {
+                    ...section,
+                    captions: this.generateAlignedCaptions(words, timings)
+                };
+            });
+        }
+
         return sections.map(section => ({
             ...section,
             captions: this.generateSectionCaptions(section)
         }));
     }
 
+    /**
+     * Build captions from aligned word timings
+     */
+    private generateAlignedCaptions(words: string[], timings: WordTiming[]): CaptionWord[] {
+        return words.map((word, i) => {
+            const startTime = timings[i].startTime;
+            // Hold each word until the next starts so captions don't flicker in pauses
+            const nextStart = timings[i + 1]?.startTime;
+            const endTime = Math.max(
+                startTime + MIN_WORD_DURATION,
+                Math.min(nextStart ?? timings[i].endTime, startTime + MAX_WORD_DURATION)
+            );
+
+            return {
+                text: word,
+                startTime,
+                endTime: Math.max(endTime, timings[i].endTime),
+                isHighlighted: this.isEmphasisWord(word)
+            };
+        });
+    }
+
     /**
      * Generate word-by-word captions for a single section
      */
@@ -127,11 +170,7 @@ export class CaptionGenerator {
      * Split text into words, preserving punctuation
      */
     private tokenizeText(text: string): string[] {
-        // Split on whitespace, filter empty strings
-        return text
-            .split(/\s+/)
-            .filter(word => word.length > 0)
-            .map(word => word.trim());
+        return splitCaptionWords(text);
     }
 
     /**
@@ -145,8 +184,7 @@ export class CaptionGenerator {
      * Check if word should be highlighted for emphasis
      */
     private isEmphasisWord(word: string): boolean {
-        const cleanWord = word.toLowerCase().replace(/[^a-zA-ZçğıöşüÇĞİÖŞÜ]/g, '');
-        return EMPHASIS_WORDS.includes(cleanWord);
+        return isEmphasisWord(word, this.language);
     }
 
     /**
@@ -185,15 +223,26 @@ export class CaptionGenerator {
 
 export function createCaptionGenerator(
     captionStyle: CaptionStyle['type'],
-    platform: VideoPlatform
+    platform: VideoPlatform,
+    language?: ScriptLanguage
 ): CaptionGenerator {
-    return new CaptionGenerator(captionStyle, platform);
+    return new CaptionGenerator(captionStyle, platform, language);
 }
 
 // =============================================================================
 // Utility Functions
 // =============================================================================
 
+/**
+ * Split text into caption words (whitespace separated, punctuation kept)
+ */
+export function splitCaptionWords(text: string): string[] {
+    return text
+        .split(/\s+/)
+        .filter(word => word.length > 0)
+        .map(word => word.trim());
+}
+
 /**
  * Calculate estimated reading time for text
  */
@@ -209,10 +258,12 @@ export function estimateReadingTime(text: string): number {
  * Format caption time to SRT timestamp format
  */
 export function formatSRTTimestamp(seconds: number): string {
-    const hours = Math.floor(seconds / 3600);
-    const minutes = Math.floor((seconds % 3600) / 60);
-    const secs = Math.floor(seconds % 60);
-    const ms = Math.round((seconds % 1) * 1000);
+    // Round once on the total so e.g. 1.9996s becomes 00:00:02,000 rather than 00:00:01,1000
+    const totalMs = Math.max(0, Math.round(seconds * 1000));
+    const hours = Math.floor(totalMs / 3_600_000);
+    const minutes = Math.floor((totalMs % 3_600_000) / 60_000);
+    const secs = Math.floor((totalMs % 60_000) / 1000);
+    const ms = totalMs % 1000;
 
     return `${hours.toString().padStart(2, '0')}:${minutes.toString().padStart(2, '0')}:${secs.toString().padStart(2, '0')},${ms.toString().padStart(3, '0')}`;
 }
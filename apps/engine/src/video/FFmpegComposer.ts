@@ -302,10 +302,13 @@ export class FFmpegComposer {
             args.push('-loop', '1', '-i', file);
         }
 
-        // Audio inputs
-        for (const audio of audioInputs) {
+        // Audio inputs (voiceover first; background music loops, amix ends with the voiceover)
+        audioInputs.forEach((audio, index) => {
+            if (index > 0) {
+                args.push('-stream_loop', '-1');
+            }
             args.push('-i', audio);
-        }
+        });
 
         // Filter complex
         args.push('-filter_complex', filterComplex);
@@ -330,6 +333,9 @@ export class FFmpegComposer {
         // Output settings
         args.push('-pix_fmt', this.profile.pixelFormat);
         args.push('-movflags', '+faststart');
+
+        // Machine-readable progress on stdout (parsed for % and ETA)
+        args.push('-progress', 'pipe:1', '-nostats');
         args.push('-y');  // Overwrite output
         args.push(outputPath);
 
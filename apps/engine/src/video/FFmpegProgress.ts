@@ -0,0 +1,135 @@
+/**
+ * FFmpeg Progress Parser
+ * Turns FFmpeg's `-progress` key=value output into percentages and an ETA
+ */
+
+// =============================================================================
+// Types
+// =============================================================================
+
+export interface FFmpegProgressUpdate {
+    /** Seconds of output encoded so far */
+    outTimeSeconds: number;
+    /** 0-1 share of the expected duration */
+    ratio: number;
+    /** Encoding speed relative to realtime (e.g. 1.5 = 1.5x), if reported */
+    speed: number | null;
+    /** Estimated seconds until encoding finishes, null until it can be estimated */
+    etaSeconds: number | null;
+    /** FFmpeg reported `progress=end` */
+    done: boolean;
+}
+
+// =============================================================================
+// Helpers
+// =============================================================================
+
+/**
+ * Parse an FFmpeg timestamp (HH:MM:SS.micro) into seconds
+ */
+export function parseFFmpegTimestamp(value: string): number | null {
+    const match = value.trim().match(/^(-?\d+):(\d{2}):(\d{2}(?:\.\d+)?)$/);
+    if (!match) return null;
+
+    return parseInt(match[1], 10) * 3600 + parseInt(match[2], 10) * 60 + parseFloat(match[3]);
+}
+
+// =============================================================================
+// FFmpeg Progress Parser Class
+// =============================================================================
+
+/**
+ * Incremental parser for `ffmpeg -progress pipe:1` output.
+ * FFmpeg writes blocks of key=value lines, each terminated by a
+ * `progress=continue|end` line; one update is produced per block.
+ */
+export class FFmpegProgressParser {
+    private buffer = '';
+    private block: Map<string, string> = new Map();
+    private startedAt: number;
+
+    constructor(
+        private totalDurationSeconds: number,
+        private now: () => number = Date.now
+    ) {
+        this.startedAt = now();
+    }
+
+    /**
+     * Feed a chunk of FFmpeg output
+     * @returns Updates for every block completed by this chunk (usually 0 or 1)
+     */
+    push(chunk: string): FFmpegProgressUpdate[] {
+        this.buffer += chunk;
+        const lines = this.buffer.split(/\r?\n/);
+        this.buffer = lines.pop() ?? '';
+
+        const updates: FFmpegProgressUpdate[] = [];
+
+        for (const line of lines) {
+            const separator = line.indexOf('=');
+            if (separator === -1) continue;
+
+            const key = line.slice(0, separator).trim();
+            const value = line.slice(separator + 1).trim();
+            this.block.set(key, value);
+
+            if (key === 'progress') {
+                updates.push(this.buildUpdate(value === 'end'));
+                this.block.clear();
+            }
+        }
+
+        return updates;
+    }
+
+    private buildUpdate(done: boolean): FFmpegProgressUpdate {
+        const outTimeSeconds = this.readOutTime();
+        const ratio = done
+            ? 1
+            : this.totalDurationSeconds > 0
+                ? Math.min(Math.max(outTimeSeconds / this.totalDurationSeconds, 0), 1)
+                : 0;
+
+        const speedValue = parseFloat((this.block.get('speed') ?? '').replace(/x$/, ''));
+        const speed = Number.isFinite(speedValue) && speedValue > 0 ? speedValue : null;
+
+        return {
+            outTimeSeconds,
+            ratio,
+            speed,
+            etaSeconds: done ? 0 : this.estimateRemaining(outTimeSeconds, ratio, speed),
+            done,
+        };
+    }
+
+    /**
+     * out_time_us is preferred; out_time_ms is also microseconds (FFmpeg quirk)
+     */
+    private readOutTime(): number {
+        for (const key of ['out_time_us', 'out_time_ms']) {
+            const micros = parseInt(this.block.get(key) ?? '', 10);
+            if (Number.isFinite(micros) && micros >= 0) {
+                return micros / 1_000_000;
+            }
+        }
+
+        return parseFFmpegTimestamp(this.block.get('out_time') ?? '') ?? 0;
+    }
+
+    private estimateRemaining(outTimeSeconds: number, ratio: number, speed: number | null): number | null {
+        const remainingMedia = Math.max(this.totalDurationSeconds - outTimeSeconds, 0);
+
+        if (speed) {
+            return Math.round(remainingMedia / speed);
+        }
+
+        // Fall back to wall-clock extrapolation
+        const elapsedSeconds = (this.now() - this.startedAt) / 1000;
+        if (ratio <= 0 || elapsedSeconds <= 0) {
+            return null;
+        }
+
+        return Math.round(elapsedSeconds * (1 - ratio) / ratio);
+    }
+}
@@ -0,0 +1,277 @@
+/**
+ * Subtitle Exporter
+ * Writes SRT, WebVTT and styled ASS sidecar files for rendered videos
+ *
+ * Words are grouped into cues following the caption style: hormozi keeps
+ * the burned-in word-by-word rhythm, classic/minimal use short phrases.
+ */
+
+import { promises as fs } from 'fs';
+
+import type {
+    CaptionWord,
+    CaptionStyle,
+    VideoPlatform,
+    PlatformExportProfile,
+    SubtitleFormat,
+    SubtitleFiles
+} from './types.js';
+import { CAPTION_STYLES, PLATFORM_PROFILES } from './types.js';
+import { generateSRT } from './CaptionGenerator.js';
+
+// =============================================================================
+// Constants
+// =============================================================================
+
+export const SUBTITLE_FORMATS: SubtitleFormat[] = ['srt', 'vtt', 'ass'];
+
+export const SUBTITLE_CONTENT_TYPES: Record<SubtitleFormat, string> = {
+    srt: 'application/x-subrip; charset=utf-8',
+    vtt: 'text/vtt; charset=utf-8',
+    ass: 'text/x-ssa; charset=utf-8',
+};
+
+/** Cue grouping limits per caption style */
+const CUE_LIMITS: Record<CaptionStyle['type'], { maxWords: number; maxChars: number; maxDuration: number }> = {
+    hormozi: { maxWords: 1, maxChars: 32, maxDuration: 1.5 },
+    classic: { maxWords: 8, maxChars: 42, maxDuration: 4 },
+    minimal: { maxWords: 6, maxChars: 32, maxDuration: 3 },
+};
+
+const CUE_BREAK_PAUSE = 0.5;        // Start a new cue after this much silence
+const HIGHLIGHT_COLOR = '#FFD700';  // Same as burned-in emphasis words
+
+// =============================================================================
+// Helpers
+// =============================================================================
+
+function splitTime(seconds: number): { hours: number; minutes: number; secs: number; ms: number } {
+    const totalMs = Math.max(0, Math.round(seconds * 1000));
+    return {
+        hours: Math.floor(totalMs / 3_600_000),
+        minutes: Math.floor((totalMs % 3_600_000) / 60_000),
+        secs: Math.floor((totalMs % 60_000) / 1000),
+        ms: totalMs % 1000,
+    };
+}
+
+const pad = (value: number, length: number = 2): string => value.toString().padStart(length, '0');
+
+/**
+ * Format time as a WebVTT timestamp (HH:MM:SS.mmm)
+ */
+export function formatVTTTimestamp(seconds: number): string {
+    const { hours, minutes, secs, ms } = splitTime(seconds);
+    return `${pad(hours)}:${pad(minutes)}:${pad(secs)}.${pad(ms, 3)}`;
+}
+
+/**
+ * Format time as an ASS timestamp (H:MM:SS.cc)
+ */
+export function formatASSTimestamp(seconds: number): string {
+    const centis = Math.max(0, Math.round(seconds * 100));
+    const hours = Math.floor(centis / 360_000);
+    const minutes = Math.floor((centis % 360_000) / 6000);
+    const secs = Math.floor((centis % 6000) / 100);
+    return `${hours}:${pad(minutes)}:${pad(secs)}.${pad(centis % 100)}`;
+}
+
+/**
+ * Convert #RRGGBB (+ opacity) to ASS &HAABBGGRR
+ */
+function toASSColor(color: string, opacity: number = 1): string {
+    const hex = /^#([0-9a-f]{6})$/i.exec(color)?.[1] ?? '000000';
+    const alpha = color === 'transparent' ? 255 : Math.round((1 - opacity) * 255);
+    const [r, g, b] = [hex.slice(0, 2), hex.slice(2, 4), hex.slice(4, 6)];
+    return `&H${alpha.toString(16).padStart(2, '0')}${b}${g}${r}`.toUpperCase();
+}
+
+function escapeVTT(text: string): string {
+    return text.replace(/&/g, '&amp;').replace(/</g, '&lt;').replace(/>/g, '&gt;');
+}
+
+function escapeASS(text: string): string {
+    return text.replace(/\\/g, '\\\\').replace(/\{/g, '(').replace(/\}/g, ')');
+}
+
+// =============================================================================
+// Subtitle Exporter Class
+// =============================================================================
+
+export class SubtitleExporter {
+    private captionStyle: CaptionStyle['type'];
+    private profile: PlatformExportProfile;
+
+    constructor(captionStyle: CaptionStyle['type'], platform: VideoPlatform) {
+        this.captionStyle = captionStyle;
+        this.profile = PLATFORM_PROFILES[platform];
+    }
+
+    /**
+     * Group caption words into subtitle cues
+     */
+    buildCues(captions: CaptionWord[]): CaptionWord[][] {
+        const limits = CUE_LIMITS[this.captionStyle];
+        const cues: CaptionWord[][] = [];
+        let current: CaptionWord[] = [];
+
+        for (const word of captions) {
+            const first = current[0];
+            const last = current[current.length - 1];
+            const chars = current.reduce((sum, w) => sum + w.text.length + 1, 0) + word.text.length;
+
+            const full = first && (
+                current.length >= limits.maxWords ||
+                chars > limits.maxChars ||
+                word.endTime - first.startTime > limits.maxDuration ||
+                word.startTime - last.endTime > CUE_BREAK_PAUSE ||
+                /[.!?]$/.test(last.text)
+            );
+
+            if (full) {
+                cues.push(current);
+                current = [];
+            }
+            current.push(word);
+        }
+
+        if (current.length > 0) cues.push(current);
+        return cues;
+    }
+
+    /**
+     * SubRip (.srt) content
+     */
+    toSRT(captions: CaptionWord[]): string {
+        return generateSRT(this.buildCues(captions).map(cue => ({
+            text: cue.map(word => word.text).join(' '),
+            startTime: cue[0].startTime,
+            endTime: cue[cue.length - 1].endTime,
+            isHighlighted: cue.some(word => word.isHighlighted),
+        })));
+    }
+
+    /**
+     * WebVTT (.vtt) content; emphasis words are bold, cue position follows the style
+     */
+    toVTT(captions: CaptionWord[]): string {
+        const position = CAPTION_STYLES[this.captionStyle].position;
+        const settings = position === 'center' ? ' line:50% align:center' : position === 'top' ? ' line:10% align:center' : '';
+
+        const cues = this.buildCues(captions).map((cue, index) => {
+            const text = cue
+                .map(word => word.isHighlighted ? `<b>${escapeVTT(word.text)}</b>` : escapeVTT(word.text))
+                .join(' ');
+            const start = formatVTTTimestamp(cue[0].startTime);
+            const end = formatVTTTimestamp(cue[cue.length - 1].endTime);
+            return `${index + 1}\n${start} --> ${end}${settings}\n${text}\n`;
+        });
+
+        return ['WEBVTT\n', ...cues].join('\n');
+    }
+
+    /**
+     * Advanced SubStation Alpha (.ass) content styled from the CaptionStyle
+     */
+    toASS(captions: CaptionWord[]): string {
+        const style = CAPTION_STYLES[this.captionStyle];
+        const { width, height, safeZone } = this.profile;
+
+        // Numpad alignment: 2 = bottom center, 5 = middle center, 8 = top center
+        const alignment = style.position === 'center' ? 5 : style.position === 'top' ? 8 : 2;
+        const marginV = style.position === 'top' ? safeZone.top : style.position === 'bottom' ? safeZone.bottom : 0;
+        // BorderStyle 3 draws an opaque box behind the text
+        const borderStyle = style.backgroundOpacity > 0 ? 3 : 1;
+        const animation = style.animation === 'pop'
+            ? '{\\fscx120\\fscy120\\t(0,100,\\fscx100\\fscy100)}'
+            : style.animation === 'fade' ? '{\\fad(100,100)}' : '';
+        const highlight = `{\\c${toASSColor(HIGHLIGHT_COLOR).replace(/^&H00/, '&H')}&}`;
+
+        const header = [
+            '[Script Info]',
+            'ScriptType: v4.00+',
+            `PlayResX: ${width}`,
+            `PlayResY: ${height}`,
+            'WrapStyle: 0',
+            'ScaledBorderAndShadow: yes',
+            '',
+            '[V4+ Styles]',
+            'Format: Name, Fontname, Fontsize, PrimaryColour, SecondaryColour, OutlineColour, BackColour, Bold, Italic, Underline, StrikeOut, ScaleX, ScaleY, Spacing, Angle, BorderStyle, Outline, Shadow, Alignment, MarginL, MarginR, MarginV, Encoding',
+            [
+                `Style: ${this.captionStyle}`,
+                style.fontFamily,
+                style.fontSize,
+                toASSColor(style.fontColor),
+                toASSColor(HIGHLIGHT_COLOR),
+                toASSColor(style.strokeColor),
+                toASSColor(style.backgroundColor, style.backgroundOpacity),
+                this.captionStyle === 'hormozi' ? -1 : 0,
+                0, 0, 0, 100, 100, 0, 0,
+                borderStyle,
+                style.strokeWidth,
+                0,
+                alignment,
+                safeZone.left,
+                safeZone.right,
+                marginV,
+                1,
+            ].join(','),
+            '',
+            '[Events]',
+            'Format: Layer, Start, End, Style, Name, MarginL, MarginR, MarginV, Effect, Text',
+        ];
+
+        const events = this.buildCues(captions).map(cue => {
+            const text = cue
+                .map(word => word.isHighlighted ? `${highlight}${escapeASS(word.text)}{\\r}` : escapeASS(word.text))
+                .join(' ');
+            const start = formatASSTimestamp(cue[0].startTime);
+            const end = formatASSTimestamp(cue[cue.length - 1].endTime);
+            return `Dialogue: 0,${start},${end},${this.captionStyle},,0,0,0,,${animation}${text}`;
+        });
+
+        return [...header, ...events, ''].join('\n');
+    }
+
+    /**
+     * Render one format
+     */
+    render(format: SubtitleFormat, captions: CaptionWord[]): string {
+        switch (format) {
+            case 'vtt':
+                return this.toVTT(captions);
+            case 'ass':
+                return this.toASS(captions);
+            case 'srt':
+            default:
+                return this.toSRT(captions);
+        }
+    }
+
+    /**
+     * Write all sidecar formats next to the video
+     * @param basePath - Output path without extension
+     */
+    async writeAll(captions: CaptionWord[], basePath: string): Promise<SubtitleFiles> {
+        const files = {} as SubtitleFiles;
+
+        for (const format of SUBTITLE_FORMATS) {
+            const filePath = `${basePath}.${format}`;
+            await fs.writeFile(filePath, this.render(format, captions), 'utf-8');
+            files[format] = filePath;
+        }
+
+        return files;
+    }
+}
+
+// =============================================================================
+// Factory Function
+// =============================================================================
+
+export function createSubtitleExporter(
+    captionStyle: CaptionStyle['type'],
+    platform: VideoPlatform
+): SubtitleExporter {
+    return new SubtitleExporter(captionStyle, platform);
+}
@@ -13,17 +13,23 @@ import ffprobePath from '@ffprobe-installer/ffprobe';
 import type {
     VideoProject,
     VideoGenerationResult,
-    VideoGenerationProgress,
     VideoJobStatus,
+    VideoProgressCallback,
     TimelineSection,
     VideoPlatform,
-    VideoGenerationOptions
+    VideoGenerationOptions,
+    SubtitleFiles
 } from './types.js';
 import { PLATFORM_PROFILES } from './types.js';
 import { TimelineBuilder, createTimelineBuilder } from './TimelineBuilder.js';
 import { CaptionGenerator, createCaptionGenerator } from './CaptionGenerator.js';
+import { createCaptionAligner } from './CaptionAligner.js';
+import { createSubtitleExporter } from './SubtitleExporter.js';
 import { AudioMixer, createAudioMixer } from './AudioMixer.js';
 import { FFmpegComposer, createFFmpegComposer } from './FFmpegComposer.js';
+import { FFmpegProgressParser } from './FFmpegProgress.js';
+import { createSceneAnalyzer, getDominantMood } from '../images/SceneAnalyzer.js';
+import { getMusicLibrary } from '../music/index.js';
 import { createChildLogger } from '../utils/logger.js';
 
 // =============================================================================
@@ -32,6 +38,9 @@ import { createChildLogger } from '../utils/logger.js';
 
 const OUTPUT_DIR = 'data/videos';
 const TEMP_DIR = 'data/video-temp';
+/** Overall progress range covered by the FFmpeg encode */
+const ENCODING_PROGRESS_START = 70;
+const ENCODING_PROGRESS_END = 99;
 const logger = createChildLogger('video-agent');
 
 // =============================================================================
@@ -40,7 +49,7 @@ const logger = createChildLogger('video-agent');
 
 export class VideoEditingAgent {
     private static instance: VideoEditingAgent | null = null;
-    private jobs: Map<string, VideoGenerationProgress> = new Map();
+    private progressListeners: Map<string, VideoProgressCallback> = new Map();
     private ffmpegBinary: string;
     private ffprobeBinary: string;
 
@@ -61,11 +70,16 @@ export class VideoEditingAgent {
 
     /**
      * Generate video from project specification
+     * @param onProgress - Receives status updates while the job runs
      */
-    async generateVideo(project: VideoProject): Promise<VideoGenerationResult> {
+    async generateVideo(project: VideoProject, onProgress?: VideoProgressCallback): Promise<VideoGenerationResult> {
         const jobId = project.id || randomUUID();
         const startTime = Date.now();
 
+        if (onProgress) {
+            this.progressListeners.set(jobId, onProgress);
+        }
+
         try {
             // Initialize job tracking
             this.updateJobStatus(jobId, 'queued', 0, 'Initializing...');
@@ -86,13 +100,18 @@ export class VideoEditingAgent {
                 audioDuration
             );
 
-            // Step 3: Generate captions
+            // Step 3: Generate captions, timed against the voiceover when possible
+            this.updateJobStatus(jobId, 'generating-captions', 30, 'Aligning captions...');
+            const alignment = await createCaptionAligner().align(project);
+            const captionTiming = alignment?.source ?? 'estimated';
+
             this.updateJobStatus(jobId, 'generating-captions', 40, 'Generating captions...');
             const captionGenerator = createCaptionGenerator(
                 project.options.captionStyle,
-                project.platform
+                project.platform,
+                project.language
             );
-            const sectionsWithCaptions = captionGenerator.generateCaptions(timeline);
+            const sectionsWithCaptions = captionGenerator.generateCaptions(timeline, alignment?.wordTimings);
 
             // Step 4: Compose video
             this.updateJobStatus(jobId, 'composing-video', 60, 'Composing video...');
@@ -102,32 +121,47 @@ export class VideoEditingAgent {
                 audioDuration
             );
 
-            // Step 5: Setup audio
+            // Step 5: Setup audio (library music matched to the script's mood if none was given)
+            const backgroundMusic = await this.selectBackgroundMusic(project, audioDuration, jobId);
             const audioMixer = createAudioMixer({
                 voiceoverPath: project.audio.voiceoverPath,
-                backgroundMusicPath: project.audio.backgroundMusicPath,
+                backgroundMusicPath: project.audio.backgroundMusicPath ?? backgroundMusic?.path,
                 backgroundVolume: project.options.backgroundMusicVolume,
-                enableDucking: project.options.audioDucking
+                enableDucking: project.options.audioDucking,
+                durationSeconds: audioDuration
             });
-            const audioResult = audioMixer.generateAudioFilters();
+            // Audio inputs follow the image inputs
+            const audioResult = audioMixer.generateAudioFilters(inputFiles.length);
+            const fullFilterComplex = [filterComplex, ...audioResult.filters].join(';');
 
             // Step 6: Generate output path
             const outputFilename = `${project.platform}_${jobId}.mp4`;
             const outputPath = path.join(OUTPUT_DIR, outputFilename);
 
             // Step 7: Execute FFmpeg
-            this.updateJobStatus(jobId, 'encoding', 70, 'Encoding video...');
+            this.updateJobStatus(jobId, 'encoding', ENCODING_PROGRESS_START, 'Encoding video...');
             const ffmpegArgs = composer.generateCommandArgs(
                 inputFiles,
-                filterComplex,
+                fullFilterComplex,
                 audioMixer.getAudioInputs(),
-                audioResult.mappings[0] || '1:a',
+                audioResult.mappings[0] || `${inputFiles.length}:a`,
                 outputPath
             );
 
-            await this.executeFFmpeg(ffmpegArgs, jobId);
+            await this.executeFFmpeg(ffmpegArgs, jobId, audioDuration);
+
+            // Step 8: Write subtitle sidecars (a failure here keeps the video)
+            let subtitles: SubtitleFiles | undefined;
+            try {
+                subtitles = await createSubtitleExporter(project.options.captionStyle, project.platform).writeAll(
+                    sectionsWithCaptions.flatMap(section => section.captions),
+                    outputPath.replace(/\.mp4$/, '')
+                );
+            } catch (error) {
+                logger.warn({ jobId, error }, 'Failed to write subtitle files');
+            }
 
-            // Step 8: Get final file info
+            // Step 9: Get final file info
             this.updateJobStatus(jobId, 'complete', 100, 'Complete!');
             const stats = await fs.stat(outputPath);
 
@@ -138,6 +172,7 @@ export class VideoEditingAgent {
                 platform: project.platform,
                 duration: audioDuration,
                 fileSize: stats.size,
+                captionTiming,
                 processingTimeMs
             }, 'Video generation complete');
 
@@ -147,7 +182,10 @@ export class VideoEditingAgent {
                 outputPath,
                 duration: audioDuration,
                 fileSize: stats.size,
-                processingTimeMs
+                processingTimeMs,
+                captionTiming,
+                subtitles,
+                backgroundMusic: backgroundMusic?.info
             };
 
         } catch (error) {
@@ -166,6 +204,46 @@ export class VideoEditingAgent {
                 error: errorMessage,
                 processingTimeMs: Date.now() - startTime
             };
+        } finally {
+            this.progressListeners.delete(jobId);
+        }
+    }
+
+    /**
+     * Pick a library track for the script's dominant mood.
+     * Skipped when the caller supplied music or opted out; never fails the render.
+     */
+    private async selectBackgroundMusic(
+        project: VideoProject,
+        audioDuration: number,
+        jobId: string
+    ): Promise<{ path: string; info: NonNullable<VideoGenerationResult['backgroundMusic']> } | null> {
+        if (project.audio.backgroundMusicPath || project.options.autoSelectMusic === false) {
+            return null;
+        }
+
+        try {
+            const mood = getDominantMood(createSceneAnalyzer().extractScenes(project.script));
+            const selection = await getMusicLibrary().selectTrack({
+                mood,
+                minDurationSeconds: audioDuration,
+                seed: jobId
+            });
+
+            if (!selection) {
+                logger.info({ jobId, mood }, 'No library music matches, rendering without music');
+                return null;
+            }
+
+            logger.info({ jobId, mood, trackId: selection.track.id, matchedMood: selection.matchedMood }, 'Background music selected');
+
+            return {
+                path: selection.track.path,
+                info: { trackId: selection.track.id, title: selection.track.title, mood }
+            };
+        } catch (error) {
+            logger.warn({ jobId, error }, 'Background music selection failed');
+            return null;
         }
     }
 
@@ -214,34 +292,41 @@ export class VideoEditingAgent {
 
     /**
      * Execute FFmpeg command
+     * @param durationSeconds - Expected output duration, for progress/ETA
      */
-    private async executeFFmpeg(args: string[], jobId: string): Promise<void> {
+    private async executeFFmpeg(args: string[], jobId: string, durationSeconds: number): Promise<void> {
         return new Promise((resolve, reject) => {
             logger.debug({ args: args.join(' ') }, 'Executing FFmpeg');
 
             const ffmpeg = spawn(this.ffmpegBinary, args);
+            const parser = new FFmpegProgressParser(durationSeconds);
             let errorOutput = '';
-            let progressMatch: RegExpMatchArray | null;
+            let lastReported = -1;
+
+            // -progress pipe:1 writes key=value blocks to stdout
+            ffmpeg.stdout.on('data', (data) => {
+                for (const update of parser.push(data.toString())) {
+                    const percent = Math.round(
+                        ENCODING_PROGRESS_START + update.ratio * (ENCODING_PROGRESS_END - ENCODING_PROGRESS_START)
+                    );
+
+                    // Only report when the percentage moves (blocks arrive ~2x per second)
+                    if (percent === lastReported) continue;
+                    lastReported = percent;
+
+                    this.updateJobStatus(
+                        jobId,
+                        'encoding',
+                        percent,
+                        `Encoding: ${Math.floor(update.outTimeSeconds)}s / ${Math.round(durationSeconds)}s${update.speed ? ` (${update.speed}x)` : ''}`,
+                        update.etaSeconds ?? undefined
+                    );
+                }
+            });
 
-            // FFmpeg outputs progress to stderr
+            // Keep stderr for error reporting only
             ffmpeg.stderr.on('data', (data) => {
-                const output = data.toString();
-                errorOutput += output;
-
-                // Parse progress (time=HH:MM:SS.ms)
-                progressMatch = output.match(/time=(\d{2}):(\d{2}):(\d{2})\.(\d{2})/);
-                if (progressMatch) {
-                    const hours = parseInt(progressMatch[1]);
-                    const minutes = parseInt(progressMatch[2]);
-                    const seconds = parseInt(progressMatch[3]);
-                    const currentTime = hours * 3600 + minutes * 60 + seconds;
-
-                    // Update progress (encoding is 70-95% of total)
-                    const job = this.jobs.get(jobId);
-                    if (job) {
-                        job.currentStep = `Encoding: ${currentTime}s processed`;
-                    }
-                }
+                errorOutput = (errorOutput + data.toString()).slice(-5000);
             });
 
             ffmpeg.on('close', (code) => {
@@ -275,44 +360,17 @@ export class VideoEditingAgent {
         jobId: string,
         status: VideoJobStatus,
         progress: number,
-        currentStep: string
+        currentStep: string,
+        estimatedTimeRemaining?: number
     ): void {
-        this.jobs.set(jobId, {
+        this.progressListeners.get(jobId)?.({
             jobId,
             status,
             progress,
-            currentStep
+            currentStep,
+            estimatedTimeRemaining
         });
     }
-
-    /**
-     * Get job progress
-     */
-    getJobProgress(jobId: string): VideoGenerationProgress | null {
-        return this.jobs.get(jobId) || null;
-    }
-
-    /**
-     * Get all jobs
-     */
-    getAllJobs(): VideoGenerationProgress[] {
-        return Array.from(this.jobs.values());
-    }
-
-    /**
-     * Clean up completed jobs
-     */
-    cleanupCompletedJobs(maxAgeMs: number = 3600000): number {
-        let cleaned = 0;
-        // Note: For full implementation, add timestamp tracking to jobs
-        for (const [jobId, job] of this.jobs) {
-            if (job.status === 'complete' || job.status === 'failed') {
-                this.jobs.delete(jobId);
-                cleaned++;
-            }
-        }
-        return cleaned;
-    }
 }
 
 // =============================================================================
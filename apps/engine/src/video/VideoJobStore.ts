@@ -0,0 +1,235 @@
+/**
+ * Video Job Store
+ * SQLite persistence for render jobs so the queue survives restarts
+ */
+
+import { getDatabase } from '../cache/index.js';
+import { createChildLogger } from '../utils/logger.js';
+import type {
+    VideoProject,
+    VideoJobRecord,
+    VideoJobStatus,
+    VideoGenerationProgress,
+    VideoGenerationResult,
+} from './types.js';
+
+const logger = createChildLogger('video-job-store');
+
+// =============================================================================
+// Types
+// =============================================================================
+
+interface VideoJobRow {
+    id: string;
+    platform: string;
+    title: string;
+    project: string;
+    status: string;
+    progress: number;
+    current_step: string;
+    estimated_time_remaining: number | null;
+    result: string | null;
+    error: string | null;
+    attempts: number;
+    created_at: string;
+    updated_at: string;
+    started_at: string | null;
+    completed_at: string | null;
+}
+
+/** Statuses of a job that has started rendering but not finished */
+export const IN_PROGRESS_STATUSES: VideoJobStatus[] = [
+    'building-timeline',
+    'generating-captions',
+    'composing-video',
+    'encoding',
+];
+
+const FINISHED_STATUSES: VideoJobStatus[] = ['complete', 'failed'];
+
+function rowToRecord(row: VideoJobRow): VideoJobRecord {
+    return {
+        jobId: row.id,
+        platform: row.platform as VideoJobRecord['platform'],
+        title: row.title,
+        status: row.status as VideoJobStatus,
+        progress: row.progress,
+        currentStep: row.current_step,
+        estimatedTimeRemaining: row.estimated_time_remaining ?? undefined,
+        attempts: row.attempts,
+        result: row.result ? JSON.parse(row.result) as VideoGenerationResult : null,
+        error: row.error,
+        createdAt: row.created_at,
+        updatedAt: row.updated_at,
+        startedAt: row.started_at,
+        completedAt: row.completed_at,
+    };
+}
+
+// =============================================================================
+// Video Job Store Class
+// =============================================================================
+
+export class VideoJobStore {
+    private db = getDatabase();
+
+    /**
+     * Persist a new queued job
+     */
+    create(project: VideoProject): VideoJobRecord {
+        const now = new Date().toISOString();
+
+        this.db.prepare(`
+            INSERT INTO video_jobs (id, platform, title, project, status, progress, current_step, created_at, updated_at)
+            VALUES (?, ?, ?, ?, 'queued', 0, 'Queued', ?, ?)
+        `).run(project.id, project.platform, project.title, JSON.stringify(project), now, now);
+
+        logger.info({ jobId: project.id, platform: project.platform }, 'Video job queued');
+
+        return this.get(project.id)!;
+    }
+
+    get(jobId: string): VideoJobRecord | null {
+        const row = this.db.prepare('SELECT * FROM video_jobs WHERE id = ?').get(jobId) as VideoJobRow | undefined;
+        return row ? rowToRecord(row) : null;
+    }
+
+    /**
+     * Stored project of a job (input for a (re)render)
+     */
+    getProject(jobId: string): VideoProject | null {
+        const row = this.db.prepare('SELECT project FROM video_jobs WHERE id = ?').get(jobId) as { project: string } | undefined;
+        return row ? JSON.parse(row.project) as VideoProject : null;
+    }
+
+    /**
+     * All jobs, newest first
+     */
+    list(limit: number = 200): VideoJobRecord[] {
+        const rows = this.db.prepare(`
+            SELECT * FROM video_jobs
+            ORDER BY created_at DESC
+            LIMIT ?
+        `).all(limit) as VideoJobRow[];
+
+        return rows.map(rowToRecord);
+    }
+
+    /**
+     * Jobs in any of the given statuses, oldest first
+     */
+    listByStatus(statuses: VideoJobStatus[]): VideoJobRecord[] {
+        const placeholders = statuses.map(() => '?').join(', ');
+        const rows = this.db.prepare(`
+            SELECT * FROM video_jobs
+            WHERE status IN (${placeholders})
+            ORDER BY created_at ASC
+        `).all(...statuses) as VideoJobRow[];
+
+        return rows.map(rowToRecord);
+    }
+
+    /**
+     * Oldest queued job that is not in the exclusion list
+     */
+    nextQueued(excludeIds: string[] = []): VideoJobRecord | null {
+        return this.listByStatus(['queued']).find(job => !excludeIds.includes(job.jobId)) ?? null;
+    }
+
+    /**
+     * Mark a job as picked up by the queue
+     */
+    markStarted(jobId: string): void {
+        const now = new Date().toISOString();
+        this.db.prepare(`
+            UPDATE video_jobs
+            SET status = 'building-timeline', progress = 0, current_step = 'Starting...',
+                estimated_time_remaining = NULL, attempts = attempts + 1, started_at = ?, updated_at = ?, error = NULL
+            WHERE id = ?
+        `).run(now, now, jobId);
+    }
+
+    updateProgress(progress: VideoGenerationProgress): void {
+        this.db.prepare(`
+            UPDATE video_jobs
+            SET status = ?, progress = ?, current_step = ?, estimated_time_remaining = ?, updated_at = ?
+            WHERE id = ? AND status NOT IN ('complete', 'failed')
+        `).run(
+            progress.status,
+            progress.progress,
+            progress.currentStep,
+            progress.estimatedTimeRemaining ?? null,
+            new Date().toISOString(),
+            progress.jobId
+        );
+    }
+
+    markComplete(jobId: string, result: VideoGenerationResult): void {
+        const now = new Date().toISOString();
+        this.db.prepare(`
+            UPDATE video_jobs
+            SET status = 'complete', progress = 100, current_step = 'Complete!',
+                estimated_time_remaining = NULL, result = ?, completed_at = ?, updated_at = ?
+            WHERE id = ?
+        `).run(JSON.stringify(result), now, now, jobId);
+    }
+
+    markFailed(jobId: string, error: string, result?: VideoGenerationResult): void {
+        const now = new Date().toISOString();
+        this.db.prepare(`
+            UPDATE video_jobs
+            SET status = 'failed', current_step = ?, error = ?, result = ?, estimated_time_remaining = NULL,
+                completed_at = ?, updated_at = ?
+            WHERE id = ?
+        `).run(`Error: ${error}`, error, result ? JSON.stringify(result) : null, now, now, jobId);
+    }
+
+    /**
+     * Put an interrupted job back in the queue
+     */
+    requeue(jobId: string): void {
+        this.db.prepare(`
+            UPDATE video_jobs
+            SET status = 'queued', progress = 0, current_step = 'Queued (resumed after restart)',
+                estimated_time_remaining = NULL, updated_at = ?
+            WHERE id = ?
+        `).run(new Date().toISOString(), jobId);
+    }
+
+    /**
+     * Delete finished (complete/failed) jobs
+     * @param maxAgeMs - Only delete jobs finished longer ago than this (default: all)
+     * @returns Number of deleted jobs
+     */
+    deleteFinished(maxAgeMs: number = 0): number {
+        const cutoff = new Date(Date.now() - maxAgeMs).toISOString();
+        const result = this.db.prepare(`
+            DELETE FROM video_jobs
+            WHERE status IN (${FINISHED_STATUSES.map(() => '?').join(', ')})
+              AND completed_at <= ?
+        `).run(...FINISHED_STATUSES, cutoff);
+
+        return result.changes;
+    }
+
+    countByStatus(): Record<string, number> {
+        const rows = this.db.prepare(`
+            SELECT status, COUNT(*) as count FROM video_jobs GROUP BY status
+        `).all() as Array<{ status: string; count: number }>;
+
+        return Object.fromEntries(rows.map(row => [row.status, row.count]));
+    }
+}
+
+// =============================================================================
+// Factory Function
+// =============================================================================
+
+let storeInstance: VideoJobStore | null = null;
+
+export function getVideoJobStore(): VideoJobStore {
+    if (!storeInstance) {
+        storeInstance = new VideoJobStore();
+    }
+    return storeInstance;
+}
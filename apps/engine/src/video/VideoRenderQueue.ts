@@ -0,0 +1,203 @@
+/**
+ * Video Render Queue
+ * Runs persisted render jobs in the background with a concurrency cap
+ */
+
+import { existsSync } from 'fs';
+import type { VideoProject, VideoJobRecord } from './types.js';
+import { VideoEditingAgent, getVideoEditingAgent } from './VideoEditingAgent.js';
+import { VideoJobStore, getVideoJobStore, IN_PROGRESS_STATUSES } from './VideoJobStore.js';
+import { getEnv } from '../utils/env.js';
+import { publishJobEvent } from '../utils/jobEvents.js';
+import { createChildLogger } from '../utils/logger.js';
+
+const logger = createChildLogger('video-queue');
+
+// =============================================================================
+// Constants
+// =============================================================================
+
+/** Jobs interrupted more often than this are marked as failed instead of resumed */
+const MAX_ATTEMPTS = 2;
+
+// =============================================================================
+// Types
+// =============================================================================
+
+type VideoRenderer = Pick<VideoEditingAgent, 'generateVideo'>;
+
+export interface VideoRenderQueueStats {
+    concurrency: number;
+    running: number;
+    queued: number;
+}
+
+// =============================================================================
+// Video Render Queue Class
+// =============================================================================
+
+export class VideoRenderQueue {
+    private running: Map<string, Promise<void>> = new Map();
+    private concurrency: number;
+
+    constructor(
+        private renderer: VideoRenderer = getVideoEditingAgent(),
+        private store: VideoJobStore = getVideoJobStore(),
+        concurrency: number = getEnv().VIDEO_RENDER_CONCURRENCY
+    ) {
+        this.concurrency = concurrency;
+    }
+
+    /**
+     * Persist a job and start it as soon as a slot is free
+     */
+    enqueue(project: VideoProject): VideoJobRecord {
+        const job = this.store.create(project);
+        this.publish(job.jobId);
+        this.pump();
+        return job;
+    }
+
+    /**
+     * Handle jobs left over from a previous run.
+     * Queued jobs simply start again; jobs that were mid-render are resumed
+     * (from scratch) if their input is still there, otherwise marked as failed.
+     */
+    recover(): { resumed: number; failed: number } {
+        let resumed = 0;
+        let failed = 0;
+
+        for (const job of this.store.listByStatus(IN_PROGRESS_STATUSES)) {
+            if (this.running.has(job.jobId)) {
+                continue;
+            }
+
+            const project = this.store.getProject(job.jobId);
+            const inputAvailable = project !== null && existsSync(project.audio.voiceoverPath);
+
+            if (job.attempts < MAX_ATTEMPTS && inputAvailable) {
+                this.store.requeue(job.jobId);
+                resumed++;
+                this.publish(job.jobId);
+            } else {
+                this.store.markFailed(job.jobId, inputAvailable
+                    ? 'Interrupted by engine restart'
+                    : 'Interrupted by engine restart (voiceover file missing)');
+                failed++;
+                this.publish(job.jobId);
+            }
+        }
+
+        if (resumed > 0 || failed > 0) {
+            logger.warn({ resumed, failed }, 'Recovered interrupted video jobs');
+        }
+
+        this.pump();
+
+        return { resumed, failed };
+    }
+
+    getStats(): VideoRenderQueueStats {
+        return {
+            concurrency: this.concurrency,
+            running: this.running.size,
+            queued: this.store.listByStatus(['queued']).length,
+        };
+    }
+
+    /**
+     * Resolves once no job is running (mainly for tests and shutdown)
+     */
+    async drain(): Promise<void> {
+        while (this.running.size > 0) {
+            await Promise.all(this.running.values());
+        }
+    }
+
+    /**
+     * Start queued jobs until all slots are taken
+     */
+    private pump(): void {
+        while (this.running.size < this.concurrency) {
+            const next = this.store.nextQueued(Array.from(this.running.keys()));
+            if (!next) {
+                return;
+            }
+
+            const task = this.run(next.jobId).finally(() => {
+                this.running.delete(next.jobId);
+                this.pump();
+            });
+            this.running.set(next.jobId, task);
+        }
+    }
+
+    private async run(jobId: string): Promise<void> {
+        const project = this.store.getProject(jobId);
+        if (!project) {
+            return;
+        }
+
+        this.store.markStarted(jobId);
+        this.publish(jobId);
+        logger.info({ jobId, running: this.running.size, concurrency: this.concurrency }, 'Video render started');
+
+        try {
+            const result = await this.renderer.generateVideo(project, (progress) => {
+                // Queued/terminal states are owned by the queue (markStarted/markComplete/markFailed)
+                if (IN_PROGRESS_STATUSES.includes(progress.status)) {
+                    this.store.updateProgress({ ...progress, jobId });
+                    this.publish(jobId);
+                }
+            });
+
+            if (result.success) {
+                this.store.markComplete(jobId, result);
+            } else {
+                this.store.markFailed(jobId, result.error || 'Unknown error', result);
+            }
+        } catch (error) {
+            const errorMessage = error instanceof Error ? error.message : 'Unknown error';
+            logger.error({ jobId, error: errorMessage }, 'Video render crashed');
+            this.store.markFailed(jobId, errorMessage);
+        }
+
+        this.publish(jobId);
+    }
+
+    /**
+     * Push the job's current record to /api/events subscribers
+     */
+    private publish(jobId: string): void {
+        const job = this.store.get(jobId);
+        if (!job) {
+            return;
+        }
+
+        publishJobEvent({
+            kind: 'video',
+            jobId,
+            status: job.status,
+            progress: job.progress,
+            currentStep: job.currentStep,
+            data: job,
+        });
+    }
+}
+
+// =============================================================================
+// Factory Function
+// =============================================================================
+
+let queueInstance: VideoRenderQueue | null = null;
+
+/**
+ * Get the render queue; the first call recovers jobs from a previous run
+ */
+export function getVideoRenderQueue(): VideoRenderQueue {
+    if (!queueInstance) {
+        queueInstance = new VideoRenderQueue();
+        queueInstance.recover();
+    }
+    return queueInstance;
+}
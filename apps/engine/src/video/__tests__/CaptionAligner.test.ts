@@ -0,0 +1,112 @@
+/**
+ * Caption Aligner Tests
+ *
+ * Unit tests for speech detection, word alignment and timing matching.
+ *
+ * @module video/__tests__/CaptionAligner.test
+ */
+
+import { describe, it, expect } from 'vitest';
+import { detectSpeechSegments, alignWordsToSpeech, matchTimingsToWords } from '../CaptionAligner.js';
+import { createCaptionGenerator } from '../CaptionGenerator.js';
+import { charactersToWordTimings } from '../../voice/providers/ElevenLabsProvider.js';
+import type { TimelineSection } from '../types.js';
+
+const SAMPLE_RATE = 16000;
+
+/**
+ * Builds PCM with a 200Hz tone in the given [start, end) ranges and faint noise elsewhere
+ */
+function synthesize(durationSeconds: number, voiced: [number, number][]): Int16Array {
+    const samples = new Int16Array(Math.round(durationSeconds * SAMPLE_RATE));
+    for (let i = 0; i < samples.length; i++) {
+        const t = i / SAMPLE_RATE;
+        const speaking = voiced.some(([start, end]) => t >= start && t < end);
+        samples[i] = speaking
+            ? Math.round(Math.sin(2 * Math.PI * 200 * t) * 12000)
+            : ((i * 7919) % 41) - 20;
+    }
+    return samples;
+}
+
+function section(text: string, startTime: number, duration: number): TimelineSection {
+    return { id: text, type: 'body', text, startTime, duration, images: [], captions: [] };
+}
+
+describe('detectSpeechSegments', () => {
+    it('finds voiced regions and ignores short clicks', () => {
+        const samples = synthesize(3, [[0.5, 1.2], [1.24, 1.5], [2.0, 2.6], [2.8, 2.82]]);
+
+        const segments = detectSpeechSegments(samples, SAMPLE_RATE);
+
+        expect(segments).toHaveLength(2);
+        expect(segments[0].start).toBeCloseTo(0.5, 1);
+        expect(segments[0].end).toBeCloseTo(1.5, 1);
+        expect(segments[1].start).toBeCloseTo(2.0, 1);
+        expect(segments[1].end).toBeCloseTo(2.6, 1);
+    });
+
+    it('returns nothing for silence', () => {
+        expect(detectSpeechSegments(new Int16Array(SAMPLE_RATE), SAMPLE_RATE)).toEqual([]);
+    });
+});
+
+describe('alignWordsToSpeech', () => {
+    it('breaks phrases at pauses after punctuation', () => {
+        const words = ['Stop', 'scrolling', 'now.', 'This', 'changes', 'everything.'];
+        const segments = [{ start: 0.2, end: 1.4 }, { start: 2.0, end: 3.5 }];
+
+        const timings = alignWordsToSpeech(words, segments);
+
+        expect(timings).toHaveLength(words.length);
+        expect(timings[0].startTime).toBeCloseTo(0.2);
+        expect(timings[2].endTime).toBeCloseTo(1.4);
+        expect(timings[3].startTime).toBeCloseTo(2.0);
+        expect(timings[5].endTime).toBeCloseTo(3.5);
+    });
+});
+
+describe('matchTimingsToWords', () => {
+    it('maps provider words onto script words and fills gaps', () => {
+        const timings = charactersToWordTimings({
+            characters: [...'Hello big world'],
+            character_start_times_seconds: [...'Hello big world'].map((_, i) => i * 0.1),
+            character_end_times_seconds: [...'Hello big world'].map((_, i) => i * 0.1 + 0.1),
+        });
+        expect(timings.map(t => t.word)).toEqual(['Hello', 'big', 'world']);
+
+        const matched = matchTimingsToWords(['Hello,', 'very', 'big', 'WORLD!'], timings);
+
+        expect(matched.map(t => t.word)).toEqual(['Hello,', 'very', 'big', 'WORLD!']);
+        expect(matched[0]).toMatchObject({ startTime: 0, endTime: 0.5 });
+        expect(matched[1].startTime).toBeCloseTo(0.5);
+        expect(matched[1].endTime).toBeCloseTo(0.6);
+        expect(matched[3].endTime).toBeCloseTo(1.5);
+    });
+});
+
+describe('CaptionGenerator with word timings', () => {
+    it('uses aligned timings across sections', () => {
+        const generator = createCaptionGenerator('classic', 'tiktok');
+        const sections = [section('Wait for it', 0, 2), section('Done.', 2, 1)];
+        const timings = [
+            { word: 'Wait', startTime: 0.4, endTime: 0.6 },
+            { word: 'for', startTime: 0.7, endTime: 0.8 },
+            { word: 'it', startTime: 0.8, endTime: 1.0 },
+            { word: 'Done.', startTime: 2.5, endTime: 2.9 },
+        ];
+
+        const [first, second] = generator.generateCaptions(sections, timings);
+
+        expect(first.captions[0]).toMatchObject({ text: 'Wait', startTime: 0.4, endTime: 0.7 });
+        expect(second.captions[0]).toMatchObject({ text: 'Done.', startTime: 2.5, endTime: 2.9 });
+    });
+
+    it('falls back to estimated timing when counts differ', () => {
+        const generator = createCaptionGenerator('classic', 'tiktok');
+        const [first] = generator.generateCaptions([section('Wait for it', 0, 2)], []);
+
+        expect(first.captions[0].startTime).toBe(0);
+        expect(first.captions[2].endTime).toBeCloseTo(2);
+    });
+});
@@ -0,0 +1,76 @@
+/**
+ * FFmpeg Progress Parser Tests
+ *
+ * Unit tests for parsing `ffmpeg -progress` output into percentages and ETA.
+ *
+ * @module video/__tests__/FFmpegProgress.test
+ */
+
+import { describe, it, expect } from 'vitest';
+import { FFmpegProgressParser, parseFFmpegTimestamp } from '../FFmpegProgress.js';
+
+function progressBlock(outTimeUs: number, speed: string, progress = 'continue'): string {
+    return [
+        'frame=150',
+        'fps=30.00',
+        `out_time_us=${outTimeUs}`,
+        `out_time_ms=${outTimeUs}`,
+        `out_time=00:00:${String(outTimeUs / 1_000_000).padStart(2, '0')}.000000`,
+        `speed=${speed}`,
+        `progress=${progress}`,
+        '',
+    ].join('\n');
+}
+
+describe('parseFFmpegTimestamp', () => {
+    it('parses HH:MM:SS.micro', () => {
+        expect(parseFFmpegTimestamp('00:01:05.500000')).toBe(65.5);
+        expect(parseFFmpegTimestamp('N/A')).toBeNull();
+    });
+});
+
+describe('FFmpegProgressParser', () => {
+    it('reports ratio and speed-based ETA per block', () => {
+        const parser = new FFmpegProgressParser(40);
+
+        const [update] = parser.push(progressBlock(10_000_000, '2x'));
+
+        expect(update.outTimeSeconds).toBe(10);
+        expect(update.ratio).toBe(0.25);
+        expect(update.speed).toBe(2);
+        expect(update.etaSeconds).toBe(15);
+        expect(update.done).toBe(false);
+    });
+
+    it('handles blocks split across chunks', () => {
+        const parser = new FFmpegProgressParser(20);
+        const block = progressBlock(5_000_000, '1x');
+
+        expect(parser.push(block.slice(0, 30))).toEqual([]);
+        const updates = parser.push(block.slice(30));
+
+        expect(updates).toHaveLength(1);
+        expect(updates[0].ratio).toBe(0.25);
+    });
+
+    it('falls back to wall-clock extrapolation without a speed', () => {
+        let now = 1_000;
+        const parser = new FFmpegProgressParser(30, () => now);
+
+        now += 6_000;
+        const [update] = parser.push(progressBlock(10_000_000, 'N/A'));
+
+        expect(update.speed).toBeNull();
+        expect(update.etaSeconds).toBe(12);
+    });
+
+    it('finishes at 100% on progress=end and clamps overshoot', () => {
+        const parser = new FFmpegProgressParser(10);
+
+        const [overshoot] = parser.push(progressBlock(12_000_000, '3x'));
+        const [end] = parser.push(progressBlock(12_000_000, '3x', 'end'));
+
+        expect(overshoot.ratio).toBe(1);
+        expect(end).toMatchObject({ ratio: 1, etaSeconds: 0, done: true });
+    });
+});
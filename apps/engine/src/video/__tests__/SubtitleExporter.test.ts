@@ -0,0 +1,62 @@
+/**
+ * Subtitle Exporter Tests
+ *
+ * Unit tests for SRT, WebVTT and ASS sidecar generation.
+ *
+ * @module video/__tests__/SubtitleExporter.test
+ */
+
+import { describe, it, expect } from 'vitest';
+import { createSubtitleExporter, formatVTTTimestamp, formatASSTimestamp } from '../SubtitleExporter.js';
+import { formatSRTTimestamp } from '../CaptionGenerator.js';
+import type { CaptionWord } from '../types.js';
+
+const captions: CaptionWord[] = [
+    { text: 'This', startTime: 0, endTime: 0.3, isHighlighted: false },
+    { text: 'is', startTime: 0.3, endTime: 0.5, isHighlighted: false },
+    { text: 'shocking.', startTime: 0.5, endTime: 1.1, isHighlighted: true },
+    { text: 'Watch', startTime: 1.2, endTime: 1.5, isHighlighted: false },
+    { text: 'this', startTime: 1.5, endTime: 1.8, isHighlighted: false },
+];
+
+describe('timestamps', () => {
+    it('formats each subtitle flavour', () => {
+        expect(formatSRTTimestamp(3661.5)).toBe('01:01:01,500');
+        expect(formatSRTTimestamp(1.9996)).toBe('00:00:02,000');
+        expect(formatVTTTimestamp(61.25)).toBe('00:01:01.250');
+        expect(formatASSTimestamp(61.256)).toBe('0:01:01.26');
+    });
+});
+
+describe('SubtitleExporter', () => {
+    it('groups phrases for classic and breaks after sentences', () => {
+        const srt = createSubtitleExporter('classic', 'tiktok').toSRT(captions);
+
+        expect(srt).toBe(
+            '1\n00:00:00,000 --> 00:00:01,100\nThis is shocking.\n\n' +
+            '2\n00:00:01,200 --> 00:00:01,800\nWatch this\n'
+        );
+    });
+
+    it('keeps word-by-word cues for hormozi', () => {
+        const exporter = createSubtitleExporter('hormozi', 'tiktok');
+
+        expect(exporter.buildCues(captions)).toHaveLength(captions.length);
+    });
+
+    it('writes WebVTT with emphasis and style position', () => {
+        const vtt = createSubtitleExporter('hormozi', 'tiktok').toVTT(captions);
+
+        expect(vtt.startsWith('WEBVTT\n\n1\n00:00:00.000 --> 00:00:00.300 line:50% align:center\nThis\n')).toBe(true);
+        expect(vtt).toContain('<b>shocking.</b>');
+    });
+
+    it('writes ASS with the caption style and platform resolution', () => {
+        const ass = createSubtitleExporter('classic', 'tiktok').toASS(captions);
+
+        expect(ass).toContain('PlayResX: 1080');
+        expect(ass).toContain('PlayResY: 1920');
+        expect(ass).toMatch(/^Style: classic,Arial,48,&H00FFFFFF,&H0000D7FF,&H00000000,&H4D000000,0,0,0,0,100,100,0,0,3,2,0,2,/m);
+        expect(ass).toContain('Dialogue: 0,0:00:00.00,0:00:01.10,classic,,0,0,0,,{\\fad(100,100)}This is {\\c&H00D7FF&}shocking.{\\r}');
+    });
+});
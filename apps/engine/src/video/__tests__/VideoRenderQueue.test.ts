@@ -0,0 +1,138 @@
+/**
+ * Video Render Queue Tests
+ *
+ * Unit tests for the persisted render queue (concurrency cap and restart recovery).
+ *
+ * @module video/__tests__/VideoRenderQueue.test
+ */
+
+import { describe, it, expect, beforeAll, afterAll } from 'vitest';
+import { writeFileSync, rmSync } from 'fs';
+import { tmpdir } from 'os';
+import path from 'path';
+import { VideoRenderQueue } from '../VideoRenderQueue.js';
+import { VideoJobStore } from '../VideoJobStore.js';
+import { getDatabase, closeDatabase } from '../../cache/database.js';
+import type { VideoProject, VideoGenerationResult, VideoProgressCallback } from '../types.js';
+
+const RUN_ID = Date.now();
+const VOICEOVER_PATH = path.join(tmpdir(), `render_queue_${RUN_ID}.mp3`);
+
+function makeProject(id: string, voiceoverPath = VOICEOVER_PATH): VideoProject {
+    return {
+        id: `${RUN_ID}_${id}`,
+        platform: 'tiktok',
+        title: `Test ${id}`,
+        script: { hook: 'Hook', body: 'Body', cta: 'CTA' },
+        images: { hook: [], body: [], cta: [] },
+        audio: { voiceoverPath, voiceoverDuration: 10 },
+        options: {
+            captionStyle: 'hormozi',
+            transitionStyle: 'smooth',
+            kenBurnsEnabled: true,
+            backgroundMusicVolume: 0.15,
+            audioDucking: true,
+        },
+        createdAt: new Date().toISOString(),
+        status: 'queued',
+    };
+}
+
+/**
+ * Renderer whose jobs finish only when the test resolves them
+ */
+class FakeRenderer {
+    active = 0;
+    maxActive = 0;
+    private pending = new Map<string, (result: VideoGenerationResult) => void>();
+
+    generateVideo(project: VideoProject, onProgress?: VideoProgressCallback): Promise<VideoGenerationResult> {
+        this.active++;
+        this.maxActive = Math.max(this.maxActive, this.active);
+        onProgress?.({ jobId: project.id, status: 'encoding', progress: 70, currentStep: 'Encoding video...' });
+
+        return new Promise((resolve) => {
+            this.pending.set(project.id, (result) => {
+                this.active--;
+                resolve(result);
+            });
+        });
+    }
+
+    finish(jobId: string, success = true): void {
+        this.pending.get(jobId)?.(success
+            ? { success: true, jobId, outputPath: `data/videos/${jobId}.mp4`, duration: 10 }
+            : { success: false, jobId, error: 'FFmpeg exited with code 1' });
+        this.pending.delete(jobId);
+    }
+
+    get pendingIds(): string[] {
+        return Array.from(this.pending.keys());
+    }
+}
+
+describe('VideoRenderQueue', () => {
+    let store: VideoJobStore;
+
+    beforeAll(() => {
+        writeFileSync(VOICEOVER_PATH, 'fake audio');
+        store = new VideoJobStore();
+    });
+
+    afterAll(() => {
+        getDatabase().prepare('DELETE FROM video_jobs WHERE id LIKE ?').run(`${RUN_ID}_%`);
+        rmSync(VOICEOVER_PATH, { force: true });
+        closeDatabase();
+    });
+
+    it('returns immediately and never runs more jobs than the cap', async () => {
+        const renderer = new FakeRenderer();
+        const queue = new VideoRenderQueue(renderer, store, 2);
+
+        const jobs = ['a', 'b', 'c'].map(id => queue.enqueue(makeProject(id)));
+
+        expect(jobs.every(job => job.status === 'queued')).toBe(true);
+        expect(renderer.active).toBe(2);
+        expect(queue.getStats()).toMatchObject({ running: 2, concurrency: 2 });
+        expect(store.get(jobs[0].jobId)).toMatchObject({ status: 'encoding', progress: 70, attempts: 1 });
+        expect(store.get(jobs[2].jobId)?.status).toBe('queued');
+
+        renderer.finish(jobs[0].jobId);
+        await new Promise(resolve => setTimeout(resolve, 0));
+
+        expect(store.get(jobs[0].jobId)?.status).toBe('complete');
+        expect(store.get(jobs[0].jobId)?.result?.outputPath).toBe(`data/videos/${jobs[0].jobId}.mp4`);
+        expect(store.get(jobs[2].jobId)?.status).toBe('encoding');
+
+        renderer.finish(jobs[1].jobId, false);
+        renderer.finish(jobs[2].jobId);
+        await queue.drain();
+
+        expect(store.get(jobs[1].jobId)).toMatchObject({ status: 'failed', error: 'FFmpeg exited with code 1' });
+        expect(renderer.maxActive).toBe(2);
+    });
+
+    it('resumes or fails jobs interrupted by a restart', async () => {
+        // Simulate a previous process that died mid-render
+        const resumable = store.create(makeProject('resumable'));
+        const missingInput = store.create(makeProject('missing', path.join(tmpdir(), `missing_${RUN_ID}.mp3`)));
+        const retried = store.create(makeProject('retried'));
+        for (const job of [resumable, missingInput, retried]) {
+            store.markStarted(job.jobId);
+        }
+        store.markStarted(retried.jobId);
+
+        const renderer = new FakeRenderer();
+        const queue = new VideoRenderQueue(renderer, store, 4);
+
+        expect(queue.recover()).toEqual({ resumed: 1, failed: 2 });
+        expect(renderer.pendingIds).toEqual([resumable.jobId]);
+        expect(store.get(missingInput.jobId)?.error).toContain('voiceover file missing');
+        expect(store.get(retried.jobId)).toMatchObject({ status: 'failed', error: 'Interrupted by engine restart' });
+
+        renderer.finish(resumable.jobId);
+        await queue.drain();
+
+        expect(store.get(resumable.jobId)).toMatchObject({ status: 'complete', attempts: 2 });
+    });
+});
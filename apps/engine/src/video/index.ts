@@ -6,9 +6,17 @@
 // Main Agent
 export { VideoEditingAgent, getVideoEditingAgent } from './VideoEditingAgent.js';
 
+// Render Queue
+export { VideoJobStore, getVideoJobStore } from './VideoJobStore.js';
+export { VideoRenderQueue, getVideoRenderQueue } from './VideoRenderQueue.js';
+export type { VideoRenderQueueStats } from './VideoRenderQueue.js';
+
 // Core Components
 export { TimelineBuilder, createTimelineBuilder } from './TimelineBuilder.js';
-export { CaptionGenerator, createCaptionGenerator, estimateReadingTime, formatSRTTimestamp, generateSRT } from './CaptionGenerator.js';
+export { CaptionGenerator, createCaptionGenerator, estimateReadingTime, formatSRTTimestamp, generateSRT, splitCaptionWords } from './CaptionGenerator.js';
+export { CaptionAligner, createCaptionAligner, detectSpeechSegments, alignWordsToSpeech, matchTimingsToWords } from './CaptionAligner.js';
+export type { SpeechSegment, CaptionAlignment } from './CaptionAligner.js';
+export { SubtitleExporter, createSubtitleExporter, formatVTTTimestamp, formatASSTimestamp, SUBTITLE_FORMATS, SUBTITLE_CONTENT_TYPES } from './SubtitleExporter.js';
 export { AudioMixer, createAudioMixer, generateFadeFilter, calculateNormalizationParams } from './AudioMixer.js';
 export { FFmpegComposer, createFFmpegComposer } from './FFmpegComposer.js';
 
@@ -22,6 +30,10 @@ export type {
     TransitionConfig,
     CaptionWord,
     CaptionStyle,
+    CaptionTimingSource,
+    WordTiming,
+    SubtitleFormat,
+    SubtitleFiles,
     AudioTrack,
     AudioMixConfig,
     VideoProject,
@@ -29,6 +41,8 @@ export type {
     VideoJobStatus,
     VideoGenerationResult,
     VideoGenerationProgress,
+    VideoJobRecord,
+    VideoProgressCallback,
     FFmpegFilterConfig,
     FFmpegComplexFilter,
     ScriptSectionType
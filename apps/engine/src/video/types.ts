@@ -3,6 +3,12 @@
  * Phase 26: Automated video generation from script, images, and audio
  */
 
+import type { ScriptLanguage } from '@icerik/shared';
+import type { WordTiming } from '../voice/voiceTypes.js';
+import type { SceneMood } from '../images/SceneAnalyzer.js';
+
+export type { WordTiming };
+
 // =============================================================================
 // Platform Types
 // =============================================================================
@@ -74,6 +80,15 @@ export interface CaptionWord {
     isHighlighted: boolean; // for emphasis words
 }
 
+/**
+ * Where caption timings came from:
+ * - provided: word timings sent with the project
+ * - provider: TTS provider alignment stored for the voiceover audio
+ * - energy: local speech/silence detection on the voiceover
+ * - estimated: character-weighted spread over each section
+ */
+export type CaptionTimingSource = 'provided' | 'provider' | 'energy' | 'estimated';
+
 export interface CaptionStyle {
     type: 'hormozi' | 'classic' | 'minimal';
     fontFamily: string;
@@ -109,6 +124,7 @@ export interface AudioMixConfig {
     enableDucking: boolean;         // auto-lower music when voice plays
     duckingAmount: number;          // how much to lower (0.0-1.0)
     normalizeVolume: boolean;
+    durationSeconds?: number;       // output length, for the music fade-out
 }
 
 // =============================================================================
@@ -119,6 +135,8 @@ export interface VideoProject {
     id: string;
     platform: VideoPlatform;
     title: string;
+    /** Script language, for caption emphasis */
+    language?: ScriptLanguage;
 
     // Input content
     script: {
@@ -137,6 +155,8 @@ export interface VideoProject {
         voiceoverPath: string;
         voiceoverDuration: number;
         backgroundMusicPath?: string;
+        /** Word timings for the voiceover (e.g. from TTS alignment) */
+        wordTimings?: WordTiming[];
     };
 
     // Generation options
@@ -153,6 +173,8 @@ export interface VideoGenerationOptions {
     kenBurnsEnabled: boolean;
     backgroundMusicVolume: number;
     audioDucking: boolean;
+    /** Pick library music by script mood when no backgroundMusicPath is given (default true) */
+    autoSelectMusic?: boolean;
 }
 
 export type VideoJobStatus =
@@ -168,6 +190,11 @@ export type VideoJobStatus =
 // Generation Result Types
 // =============================================================================
 
+export type SubtitleFormat = 'srt' | 'vtt' | 'ass';
+
+/** Sidecar subtitle file paths by format */
+export type SubtitleFiles = Record<SubtitleFormat, string>;
+
 export interface VideoGenerationResult {
     success: boolean;
     jobId: string;
@@ -176,6 +203,15 @@ export interface VideoGenerationResult {
     fileSize?: number;
     error?: string;
     processingTimeMs?: number;
+    captionTiming?: CaptionTimingSource;
+    /** SRT/VTT/ASS sidecars written next to the video */
+    subtitles?: SubtitleFiles;
+    /** Library track picked for the script's mood (not set for caller-supplied music) */
+    backgroundMusic?: {
+        trackId: string;
+        title: string;
+        mood: SceneMood;
+    };
 }
 
 export interface VideoGenerationProgress {
@@ -183,9 +219,30 @@ export interface VideoGenerationProgress {
     status: VideoJobStatus;
     progress: number;       // 0-100
     currentStep: string;
-    estimatedTimeRemaining?: number;
+    estimatedTimeRemaining?: number;  // Seconds, while encoding
+}
+
+/**
+ * Persisted render job (queue entry + latest progress)
+ */
+export interface VideoJobRecord extends VideoGenerationProgress {
+    platform: VideoPlatform;
+    title: string;
+    /** Render attempts so far (a restart mid-render counts as one) */
+    attempts: number;
+    result: VideoGenerationResult | null;
+    error: string | null;
+    createdAt: string;
+    updatedAt: string;
+    startedAt: string | null;
+    completedAt: string | null;
 }
 
+/**
+ * Receives progress updates while a video renders
+ */
+export type VideoProgressCallback = (progress: VideoGenerationProgress) => void;
+
 // =============================================================================
 // FFmpeg Types
 // =============================================================================
@@ -11,7 +11,7 @@ import Database from 'better-sqlite3';
 import path from 'path';
 import crypto from 'crypto';
 import { createChildLogger } from '../utils/logger.js';
-import type { CachedAudio, VoiceProvider } from './voiceTypes.js';
+import type { CachedAudio, VoiceProvider, WordTiming } from './voiceTypes.js';
 
 const logger = createChildLogger('voice-cache');
 
@@ -41,6 +41,14 @@ export function generateCacheId(textHash: string, voiceId: string): string {
     return crypto.createHash('sha256').update(`${textHash}:${voiceId}`).digest('hex').substring(0, 32);
 }
 
+/**
+ * Hash of the audio bytes; word timings are keyed by this so they can be
+ * found again from the voiceover file alone (e.g. at video render time)
+ */
+export function generateAudioHash(audio: Buffer): string {
+    return crypto.createHash('sha256').update(audio).digest('hex').substring(0, 32);
+}
+
 /**
  * Voice Cache Service
  */
@@ -104,6 +112,16 @@ export class VoiceCache {
             );
 
             CREATE INDEX IF NOT EXISTS idx_voice_previews_fetched_at ON voice_previews(fetched_at);
+
+            -- Provider word timings for generated audio (caption alignment)
+            CREATE TABLE IF NOT EXISTS voice_alignments (
+                audio_hash TEXT PRIMARY KEY,
+                provider TEXT NOT NULL,
+                word_timings TEXT NOT NULL,
+                created_at TEXT NOT NULL
+            );
+
+            CREATE INDEX IF NOT EXISTS idx_voice_alignments_created_at ON voice_alignments(created_at);
         `);
     }
 
@@ -264,6 +282,8 @@ export class VoiceCache {
             `).run(expiryDate);
             result.deletedExpired = expiredResult.changes;
 
+            this.db.prepare(`DELETE FROM voice_alignments WHERE created_at < ?`).run(expiryDate);
+
             // Check total size and delete oldest if over limit
             let stats = this.getStats();
             while (stats.totalSizeBytes > CACHE_CONFIG.maxSizeBytes && stats.totalEntries > 0) {
@@ -313,6 +333,42 @@ export class VoiceCache {
         logger.info('Voice cache closed');
     }
 
+    // ============================================
+    // ALIGNMENT METHODS (same TTL as audio)
+    // ============================================
+
+    /**
+     * Store provider word timings for an audio buffer
+     */
+    setAlignment(audio: Buffer, provider: VoiceProvider, wordTimings: WordTiming[]): void {
+        try {
+            this.db.prepare(`
+                INSERT OR REPLACE INTO voice_alignments (audio_hash, provider, word_timings, created_at)
+                VALUES (?, ?, ?, ?)
+            `).run(generateAudioHash(audio), provider, JSON.stringify(wordTimings), new Date().toISOString());
+        } catch (error) {
+            logger.error({ error }, 'Failed to store word timings');
+        }
+    }
+
+    /**
+     * Get provider word timings for an audio buffer
+     */
+    getAlignment(audio: Buffer): { provider: VoiceProvider; wordTimings: WordTiming[] } | null {
+        try {
+            const row = this.db.prepare(`
+                SELECT provider, word_timings FROM voice_alignments WHERE audio_hash = ?
+            `).get(generateAudioHash(audio)) as { provider: VoiceProvider; word_timings: string } | undefined;
+
+            if (!row) return null;
+
+            return { provider: row.provider, wordTimings: JSON.parse(row.word_timings) as WordTiming[] };
+        } catch (error) {
+            logger.error({ error }, 'Failed to get word timings');
+            return null;
+        }
+    }
+
     // ============================================
     // PREVIEW CACHE METHODS (7 day TTL)
     // ============================================
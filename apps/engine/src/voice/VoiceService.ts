@@ -7,6 +7,7 @@
  * @module voice/VoiceService
  */
 
+import type { ScriptLanguage } from '@icerik/shared';
 import { createChildLogger } from '../utils/logger.js';
 import type {
     Voice,
@@ -16,11 +17,14 @@ import type {
     VoiceProvider,
     IVoiceProvider,
     VoiceListResponse,
+    WordTiming,
 } from './voiceTypes.js';
 import { VoiceError } from './voiceTypes.js';
 import { getElevenLabsProvider } from './providers/ElevenLabsProvider.js';
 import { getFishAudioProvider } from './providers/FishAudioProvider.js';
 import { getVoiceCache, generateTextHash, generateCacheId } from './VoiceCache.js';
+import { recordUsage, getBudgetGuard, BudgetExceededError } from '../usage/index.js';
+import { voiceMatchesLanguage } from '../language/index.js';
 
 const logger = createChildLogger('voice-service');
 
@@ -54,13 +58,13 @@ export class VoiceService {
     }
 
     /**
-     * Get first available provider based on configuration and quota
+     * Get first available provider based on configuration, quota and budget
      */
     private async getAvailableProvider(preferredProvider?: VoiceProvider): Promise<IVoiceProvider | null> {
         // If preferred provider is specified and available, use it
         if (preferredProvider) {
             const provider = this.getProvider(preferredProvider);
-            if (provider?.isConfigured()) {
+            if (provider?.isConfigured() && this.isWithinBudget(preferredProvider)) {
                 const status = await provider.getStatus();
                 if (status.available && (status.quotaRemaining === undefined || status.quotaRemaining > MIN_QUOTA_THRESHOLD)) {
                     return provider;
@@ -71,7 +75,7 @@ export class VoiceService {
         // Otherwise, try providers in priority order
         for (const providerName of PROVIDER_PRIORITY) {
             const provider = this.getProvider(providerName);
-            if (!provider?.isConfigured()) continue;
+            if (!provider?.isConfigured() || !this.isWithinBudget(providerName)) continue;
 
             try {
                 const status = await provider.getStatus();
@@ -88,9 +92,10 @@ export class VoiceService {
     }
 
     /**
-     * Get available voices from a specific provider or all providers
+     * Get available voices from a specific provider or all providers,
+     * optionally only those that can speak a script language
      */
-    async getVoices(provider?: VoiceProvider): Promise<VoiceListResponse> {
+    async getVoices(provider?: VoiceProvider, language?: ScriptLanguage): Promise<VoiceListResponse> {
         if (provider) {
             const p = this.getProvider(provider);
             if (!p?.isConfigured()) {
@@ -101,7 +106,7 @@ export class VoiceService {
                 );
             }
 
-            const voices = await p.getVoices();
+            const voices = this.filterByLanguage(await p.getVoices(), language);
             return {
                 voices,
                 provider,
@@ -127,13 +132,22 @@ export class VoiceService {
             }
         }
 
+        const voices = this.filterByLanguage(allVoices, language);
         return {
-            voices: allVoices,
+            voices,
             provider: primaryProvider,
-            total: allVoices.length,
+            total: voices.length,
         };
     }
 
+    /**
+     * Keep voices that match the language (all voices when none is given)
+     */
+    private filterByLanguage(voices: Voice[], language?: ScriptLanguage): Voice[] {
+        if (!language) return voices;
+        return voices.filter(voice => voiceMatchesLanguage(voice, language));
+    }
+
     /**
      * Generate speech from text with caching and fallback
      */
@@ -174,6 +188,16 @@ export class VoiceService {
         const provider = await this.getAvailableProvider(request.provider);
 
         if (!provider) {
+            const overBudget = this.getOverBudgetProvider();
+            if (overBudget) {
+                return {
+                    success: false,
+                    error: overBudget.message,
+                    errorCode: overBudget.code,
+                    provider: overBudget.status.provider as VoiceProvider,
+                };
+            }
+
             return {
                 success: false,
                 error: 'No TTS provider available. Please configure ELEVENLABS_API_KEY or FISHAUDIO_API_KEY.',
@@ -183,6 +207,7 @@ export class VoiceService {
 
         // Generate with primary provider
         let result = await provider.generateSpeech(request);
+        this.recordSpeechUsage(request, result);
 
         // If failed and not the only option, try fallback
         if (!result.success && !request.provider) {
@@ -196,6 +221,7 @@ export class VoiceService {
                     'Trying fallback provider'
                 );
                 result = await fallbackProvider.generateSpeech(request);
+                this.recordSpeechUsage(request, result);
             }
         }
 
@@ -210,6 +236,11 @@ export class VoiceService {
                     result.contentType || 'audio/mpeg',
                     result.durationSeconds || 0
                 );
+
+                // Keep provider timings so video captions can be aligned to this audio
+                if (result.wordTimings?.length) {
+                    cache.setAlignment(result.audioBuffer, result.provider, result.wordTimings);
+                }
             } catch (error) {
                 logger.warn({ error }, 'Failed to cache audio');
             }
@@ -218,6 +249,44 @@ export class VoiceService {
         return result;
     }
 
+    /**
+     * Whether the provider's spending budget still allows calls
+     */
+    private isWithinBudget(name: VoiceProvider): boolean {
+        return getBudgetGuard().getExceeded(name) === null;
+    }
+
+    /**
+     * Budget error for the first configured provider that is over budget
+     */
+    private getOverBudgetProvider(): BudgetExceededError | null {
+        for (const name of PROVIDER_PRIORITY) {
+            if (!this.getProvider(name)?.isConfigured()) continue;
+
+            const exceeded = getBudgetGuard().getExceeded(name);
+            if (exceeded) {
+                return new BudgetExceededError(exceeded);
+            }
+        }
+        return null;
+    }
+
+    /**
+     * Record billed characters for a provider call (cache hits are free)
+     */
+    private recordSpeechUsage(request: VoiceGenerationRequest, result: VoiceGenerationResult): void {
+        if (!result.success) return;
+
+        recordUsage({
+            provider: result.provider,
+            model: request.modelId,
+            unit: 'characters',
+            inputUnits: result.charactersUsed ?? request.text.length,
+            operation: 'tts',
+            ...request.context,
+        });
+    }
+
     /**
      * Get provider status for all configured providers
      */
@@ -269,6 +338,13 @@ export class VoiceService {
         return getVoiceCache().getStats();
     }
 
+    /**
+     * Get provider word timings for previously generated audio
+     */
+    getAlignment(audio: Buffer): { provider: VoiceProvider; wordTimings: WordTiming[] } | null {
+        return getVoiceCache().getAlignment(audio);
+    }
+
     /**
      * Clear voice cache
      */
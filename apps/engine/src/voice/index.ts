@@ -14,6 +14,7 @@ export {
     type VoiceProvider,
     type VoiceGenerationRequest,
     type VoiceGenerationResult,
+    type WordTiming,
     type ProviderStatus,
     type VoiceListResponse,
     type CachedAudio,
@@ -36,12 +37,14 @@ export {
     resetVoiceCache,
     generateTextHash,
     generateCacheId,
+    generateAudioHash,
 } from './VoiceCache.js';
 
 // Providers
 export {
     ElevenLabsProvider,
     getElevenLabsProvider,
+    charactersToWordTimings,
     resetElevenLabsProvider,
 } from './providers/ElevenLabsProvider.js';
 
@@ -15,6 +15,7 @@ import type {
     VoiceGenerationResult,
     ProviderStatus,
     VoiceSettings,
+    WordTiming,
 } from '../voiceTypes.js';
 import { VoiceError, DEFAULT_VOICE_SETTINGS } from '../voiceTypes.js';
 
@@ -52,6 +53,52 @@ interface ElevenLabsSubscription {
     next_character_count_reset_unix?: number;
 }
 
+/**
+ * Character-level alignment returned by the with-timestamps endpoint
+ */
+interface ElevenLabsAlignment {
+    characters: string[];
+    character_start_times_seconds: number[];
+    character_end_times_seconds: number[];
+}
+
+/**
+ * ElevenLabs with-timestamps response shape
+ */
+interface ElevenLabsTimestampedResponse {
+    audio_base64: string;
+    alignment?: ElevenLabsAlignment | null;
+    normalized_alignment?: ElevenLabsAlignment | null;
+}
+
+/**
+ * Collapse ElevenLabs character timings into word timings (split on whitespace)
+ */
+export function charactersToWordTimings(alignment: ElevenLabsAlignment): WordTiming[] {
+    const words: WordTiming[] = [];
+    let current: WordTiming | null = null;
+
+    alignment.characters.forEach((char, i) => {
+        const start = alignment.character_start_times_seconds[i] ?? 0;
+        const end = alignment.character_end_times_seconds[i] ?? start;
+
+        if (/\s/.test(char)) {
+            current = null;
+            return;
+        }
+
+        if (!current) {
+            current = { word: '', startTime: start, endTime: end };
+            words.push(current);
+        }
+
+        current.word += char;
+        current.endTime = end;
+    });
+
+    return words;
+}
+
 /**
  * ElevenLabs TTS Provider Implementation
  */
@@ -136,13 +183,12 @@ export class ElevenLabsProvider implements IVoiceProvider {
             logger.info({ voiceId: request.voiceId, textLength: request.text.length }, 'Generating ElevenLabs speech');
 
             const response = await fetch(
-                `${API_BASE}/text-to-speech/${request.voiceId}`,
+                `${API_BASE}/text-to-speech/${request.voiceId}/with-timestamps`,
                 {
                     method: 'POST',
                     headers: {
                         'xi-api-key': this.apiKey!,
                         'Content-Type': 'application/json',
-                        'Accept': 'audio/mpeg',
                     },
                     body: JSON.stringify({
                         text: request.text,
@@ -184,24 +230,32 @@ export class ElevenLabsProvider implements IVoiceProvider {
                 };
             }
 
-            const audioBuffer = Buffer.from(await response.arrayBuffer());
+            const data = await response.json() as ElevenLabsTimestampedResponse;
+            const audioBuffer = Buffer.from(data.audio_base64, 'base64');
+
+            // Original-text alignment keeps the script's words; normalized is the fallback
+            const alignment = data.alignment ?? data.normalized_alignment;
+            const wordTimings = alignment ? charactersToWordTimings(alignment) : [];
 
-            // Estimate duration based on typical speech rate (~150 words/min)
+            // Prefer the aligned end time; otherwise estimate (~150 words/min)
             const wordCount = request.text.split(/\s+/).length;
-            const estimatedDuration = (wordCount / 150) * 60;
+            const durationSeconds = wordTimings.length > 0
+                ? wordTimings[wordTimings.length - 1].endTime
+                : (wordCount / 150) * 60;
 
             logger.info(
-                { voiceId: request.voiceId, audioSize: audioBuffer.length, estimatedDuration },
+                { voiceId: request.voiceId, audioSize: audioBuffer.length, durationSeconds, alignedWords: wordTimings.length },
                 'ElevenLabs generation successful'
             );
 
             return {
                 success: true,
                 audioBuffer,
-                durationSeconds: estimatedDuration,
+                durationSeconds,
                 contentType: 'audio/mpeg',
                 charactersUsed: request.text.length,
                 provider: 'elevenlabs',
+                wordTimings: wordTimings.length > 0 ? wordTimings : undefined,
             };
         } catch (error) {
             logger.error({ error }, 'ElevenLabs generation error');
@@ -6,6 +6,8 @@
  * @module voice/types
  */
 
+import type { UsageContext } from '../usage/usageTypes.js';
+
 /**
  * Supported TTS providers
  */
@@ -79,6 +81,20 @@ export interface VoiceGenerationRequest {
     format?: 'mp3' | 'wav' | 'ogg';
     /** Model ID (provider-specific) */
     modelId?: string;
+    /** Trend/platform the audio is for (usage accounting) */
+    context?: UsageContext;
+}
+
+/**
+ * Spoken word with its position in the generated audio
+ */
+export interface WordTiming {
+    /** Word as synthesized (may differ from the script after TTS sanitizing) */
+    word: string;
+    /** Start time in seconds */
+    startTime: number;
+    /** End time in seconds */
+    endTime: number;
 }
 
 /**
@@ -97,8 +113,12 @@ export interface VoiceGenerationResult {
     charactersUsed?: number;
     /** Error message (on failure) */
     error?: string;
+    /** Error code (on failure, when known) */
+    errorCode?: VoiceErrorCode;
     /** Provider used */
     provider: VoiceProvider;
+    /** Word timings reported by the provider (if it supports alignment) */
+    wordTimings?: WordTiming[];
 }
 
 /**
@@ -205,6 +225,7 @@ export type VoiceErrorCode =
     | 'VOICE_NOT_FOUND'
     | 'GENERATION_FAILED'
     | 'QUOTA_EXCEEDED'
+    | 'BUDGET_EXCEEDED'
     | 'RATE_LIMITED'
     | 'INVALID_TEXT'
     | 'NETWORK_ERROR'
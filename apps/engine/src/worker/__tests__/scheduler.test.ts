@@ -0,0 +1,51 @@
+/**
+ * Polling Scheduler Tests
+ *
+ * Tests for building the per-tier polling jobs from every trend source.
+ *
+ * @module worker/__tests__/scheduler.test
+ */
+
+import { describe, it, expect, vi } from 'vitest';
+import type { SubredditConfig } from '@icerik/shared';
+
+const SUBREDDITS: SubredditConfig[] = [
+    { name: 'technology', category: 'technology', tier: 1, baselineScore: 5000, subscribers: 0 },
+];
+
+vi.mock('../../cache/index.js', () => ({
+    getSubredditRegistry: vi.fn(() => ({
+        list: () => SUBREDDITS,
+        onChange: () => () => {},
+    })),
+}));
+
+vi.mock('../../ingestion/index.js', () => ({
+    getTrendSources: vi.fn(() => [
+        {
+            type: 'reddit',
+            isConfigured: () => true,
+            listChannels: () => SUBREDDITS.map(s => ({ id: s.name, category: s.category, tier: s.tier })),
+        },
+        {
+            type: 'rss',
+            isConfigured: () => true,
+            listChannels: () => [{ id: 'bbc', category: 'news', tier: 3 }],
+        },
+    ]),
+}));
+
+const { PollingScheduler } = await import('../scheduler.js');
+
+describe('PollingScheduler', () => {
+    it('creates a job for a tier that only has RSS feeds', () => {
+        const scheduler = new PollingScheduler();
+        scheduler.initialize();
+
+        const jobs = scheduler.getStatus();
+        expect(jobs.map(job => job.tier).sort()).toEqual([1, 3]);
+        expect(jobs.find(job => job.tier === 3)?.subredditCount).toBe(0);
+
+        scheduler.dispose();
+    });
+});
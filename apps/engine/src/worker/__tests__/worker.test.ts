@@ -0,0 +1,78 @@
+/**
+ * Background Worker Tests
+ *
+ * Tests for the poll pipeline across tiers: clusters are built from the
+ * latest trends of every tier, not just the tier that polled last.
+ *
+ * @module worker/__tests__/worker.test
+ */
+
+import { describe, it, expect, vi, afterAll } from 'vitest';
+import type { SourcePost, SubredditConfig } from '@icerik/shared';
+import type { SourceFetchPlan } from '../../ingestion/index.js';
+
+const POSTS: Record<string, SourcePost[]> = {
+    technology: [makePost('worker-a', 'technology', 'Apple announces M5 MacBook Pro with faster chips', 'https://www.theverge.com/apple-m5')],
+    apple: [makePost('worker-b', 'apple', "Apple's new M5 MacBook Pro is here", 'https://www.apple.com/newsroom/m5')],
+    gadgets: [makePost('worker-c', 'gadgets', 'Apple announces M5 MacBook Pro', 'https://arstechnica.com/m5-macbook')],
+};
+
+vi.mock('../../ingestion/index.js', () => ({
+    getTrendSources: vi.fn(() => [{ type: 'reddit', isConfigured: () => true, listChannels: () => [] }]),
+    fetchFromSources: vi.fn(async (plans: SourceFetchPlan[]) => plans.flatMap(plan =>
+        plan.channelIds.map(channel => ({ source: 'reddit', channel, posts: POSTS[channel] ?? [] }))
+    )),
+}));
+
+const { BackgroundWorker } = await import('../worker.js');
+const { getCacheService, closeDatabase } = await import('../../cache/index.js');
+
+function makePost(id: string, channel: string, title: string, url: string): SourcePost {
+    return {
+        id,
+        source: 'reddit',
+        channel,
+        title,
+        body: '',
+        author: 'tester',
+        score: 2000,
+        numComments: 150,
+        approvalRatio: 0.95,
+        createdUtc: Date.now() / 1000 - 3600,
+        url,
+        permalink: `/r/${channel}/comments/${id}`,
+        domain: new URL(url).hostname,
+        isPinned: false,
+        isNsfw: false,
+    };
+}
+
+function subreddit(name: string, tier: 1 | 2 | 3): SubredditConfig {
+    return { name, category: 'technology', tier, baselineScore: 5000, subscribers: 0 };
+}
+
+describe('BackgroundWorker', () => {
+    afterAll(() => {
+        closeDatabase();
+    });
+
+    it('clusters a story across tiers whichever tier polls last', async () => {
+        const worker = new BackgroundWorker({ autoStart: false, enableShutdownHandlers: false });
+        const poll = (worker as unknown as {
+            pollSubreddits(subreddits: SubredditConfig[], tier: 1 | 2 | 3): Promise<void>;
+        }).pollSubreddits.bind(worker);
+
+        await poll([subreddit('technology', 1), subreddit('apple', 1)], 1);
+        await poll([subreddit('gadgets', 2)], 2);
+
+        const cluster = getCacheService().getClusters('technology')?.data
+            .find(c => c.members.some(m => m.id === 'worker-a'));
+        expect(cluster?.members.map(m => m.id).sort()).toEqual(['worker-a', 'worker-b', 'worker-c']);
+
+        await poll([subreddit('technology', 1), subreddit('apple', 1)], 1);
+
+        const global = getCacheService().getClusters()?.data
+            .find(c => c.members.some(m => m.id === 'worker-c'));
+        expect(global?.subreddits.sort()).toEqual(['apple', 'gadgets', 'technology']);
+    });
+});
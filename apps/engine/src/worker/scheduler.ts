@@ -7,8 +7,10 @@
  * @module worker/scheduler
  */
 
-import { SUBREDDIT_CONFIG, POLL_INTERVALS } from '@icerik/shared';
+import { POLL_INTERVALS } from '@icerik/shared';
 import type { SubredditConfig } from '@icerik/shared';
+import { getSubredditRegistry } from '../cache/index.js';
+import { getTrendSources } from '../ingestion/index.js';
 import { createChildLogger } from '../utils/logger.js';
 
 const logger = createChildLogger('scheduler');
@@ -41,8 +43,9 @@ export interface ScheduledJob {
 
 /**
  * Job execution callback type
+ * The tier lets the callback add same-tier channels from non-Reddit sources.
  */
-export type JobCallback = (subreddits: SubredditConfig[]) => Promise<void>;
+export type JobCallback = (subreddits: SubredditConfig[], tier: 1 | 2 | 3) => Promise<void>;
 
 /**
  * Scheduler configuration options
@@ -79,6 +82,7 @@ export class PollingScheduler {
     private callback: JobCallback | null = null;
     private options: SchedulerOptions;
     private isRunning: boolean = false;
+    private unsubscribeRegistry: (() => void) | null = null;
 
     constructor(options: Partial<SchedulerOptions> = {}) {
         this.options = { ...DEFAULT_OPTIONS, ...options };
@@ -93,16 +97,24 @@ export class PollingScheduler {
     }
 
     /**
-     * Initializes jobs based on subreddit configuration
-     * Groups subreddits by tier and creates jobs for each tier
+     * Initializes jobs based on the subreddit registry and the other trend sources
+     * Groups subreddits by tier and creates jobs for each tier that has channels
+     * in any source, so a tier with only RSS feeds is polled too.
+     * Safe to call again: existing jobs get the new subreddit lists, tiers that
+     * gained channels get a job and emptied tiers are stopped. Runs again
+     * automatically whenever the registry changes.
      */
     initialize(): void {
         logger.info('Initializing scheduler...');
 
+        if (!this.unsubscribeRegistry) {
+            this.unsubscribeRegistry = getSubredditRegistry().onChange(() => this.initialize());
+        }
+
         // Group subreddits by tier
         const tiers = new Map<1 | 2 | 3, SubredditConfig[]>();
 
-        for (const subreddit of SUBREDDIT_CONFIG) {
+        for (const subreddit of getSubredditRegistry().list()) {
             const tier = subreddit.tier;
             if (!tiers.has(tier)) {
                 tiers.set(tier, []);
@@ -110,11 +122,38 @@ export class PollingScheduler {
             tiers.get(tier)!.push(subreddit);
         }
 
-        // Create jobs for each tier
+        // Other sources poll their own same-tier channels within the tier's job
+        for (const source of getTrendSources()) {
+            if (source.type === 'reddit' || !source.isConfigured()) continue;
+
+            for (const channel of source.listChannels()) {
+                if (!tiers.has(channel.tier)) {
+                    tiers.set(channel.tier, []);
+                }
+            }
+        }
+
+        // Remove jobs for tiers that no longer have channels
+        for (const [jobId, job] of this.jobs) {
+            if (!tiers.has(job.tier)) {
+                this.stopJob(job);
+                this.jobs.delete(jobId);
+                logger.info({ jobId }, 'Removed empty polling job');
+            }
+        }
+
+        // Create or update jobs for each tier
         for (const [tier, subreddits] of tiers) {
             const intervalMs = POLL_INTERVALS[tier];
             const jobId = `tier-${tier}`;
 
+            const existing = this.jobs.get(jobId);
+            if (existing) {
+                existing.subreddits = subreddits;
+                logger.info({ jobId, subredditCount: subreddits.length }, 'Updated polling job');
+                continue;
+            }
+
             const job: ScheduledJob = {
                 id: jobId,
                 subreddits,
@@ -136,13 +175,26 @@ export class PollingScheduler {
                 subredditCount: subreddits.length,
                 intervalMinutes: intervalMs / (60 * 1000),
             }, 'Created polling job');
+
+            // Tiers added while running start right away
+            if (this.isRunning) {
+                this.startJob(job);
+            }
         }
 
-        if (this.options.autoStart) {
+        if (this.options.autoStart && !this.isRunning) {
             this.startAll();
         }
     }
 
+    /**
+     * Stops listening for registry changes
+     */
+    dispose(): void {
+        this.unsubscribeRegistry?.();
+        this.unsubscribeRegistry = null;
+    }
+
     /**
      * Adds random jitter to interval to prevent thundering herd
      * @param intervalMs - Base interval in milliseconds
@@ -215,7 +267,7 @@ export class PollingScheduler {
                 subredditCount: job.subreddits.length
             }, 'Executing job...');
 
-            await this.callback(job.subreddits);
+            await this.callback(job.subreddits, job.tier);
 
             const duration = Date.now() - startTime;
             job.lastRun = new Date();
@@ -395,6 +447,7 @@ export function getScheduler(options?: Partial<SchedulerOptions>): PollingSchedu
 export function resetScheduler(): void {
     if (schedulerInstance) {
         schedulerInstance.stopAll();
+        schedulerInstance.dispose();
         schedulerInstance = null;
     }
 }
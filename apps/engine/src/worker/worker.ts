@@ -9,10 +9,13 @@
 
 import type { SubredditConfig, TrendData } from '@icerik/shared';
 import { getScheduler, PollingScheduler } from './scheduler.js';
-import { getRedditFetcher } from '../ingestion/index.js';
-import { getNesCalculator, getTrendAggregator } from '../processing/index.js';
+import { fetchFromSources, getTrendSources } from '../ingestion/index.js';
+import type { SourceFetchPlan } from '../ingestion/index.js';
+import { getNesCalculator, getTrendAggregator, getTrendClusterer } from '../processing/index.js';
 import { getCacheService, closeDatabase } from '../cache/index.js';
 import { createChildLogger } from '../utils/logger.js';
+import { getBudgetGuard } from '../usage/index.js';
+import type { BudgetStatus } from '../usage/index.js';
 
 const logger = createChildLogger('worker');
 
@@ -45,6 +48,8 @@ export class BackgroundWorker {
     private options: WorkerOptions;
     private isShuttingDown: boolean = false;
     private shutdownPromise: Promise<void> | null = null;
+    /** Latest trends of each tier's poll; clusters are built from all of them */
+    private trendsByTier = new Map<1 | 2 | 3, TrendData[]>();
 
     constructor(options: Partial<WorkerOptions> = {}) {
         this.options = { ...DEFAULT_OPTIONS, ...options };
@@ -84,59 +89,78 @@ export class BackgroundWorker {
     }
 
     /**
-     * Polls subreddits and caches the results
+     * Polls subreddits (plus same-tier channels of other sources) and caches the results
      * This is the main work function called by the scheduler
      * 
      * @param subreddits - List of subreddits to poll
+     * @param tier - Polling tier of the job
      */
-    private async pollSubreddits(subreddits: SubredditConfig[]): Promise<void> {
+    private async pollSubreddits(subreddits: SubredditConfig[], tier: 1 | 2 | 3): Promise<void> {
         if (this.isShuttingDown) {
             logger.info('Skipping poll - worker is shutting down');
             return;
         }
 
+        // Surfaces 80%/exceeded budget warnings even when no request is being served
+        getBudgetGuard().getAllStatuses();
+
         const startTime = Date.now();
         const subredditNames = subreddits.map(s => s.name);
 
+        // Reddit channels come from the scheduler, other sources poll their own same-tier channels
+        const plans: SourceFetchPlan[] = getTrendSources().map(source => ({
+            source,
+            channelIds: source.type === 'reddit'
+                ? subredditNames
+                : source.listChannels().filter(c => c.tier === tier).map(c => c.id),
+        }));
+
         logger.info({
             subredditCount: subreddits.length,
             subreddits: subredditNames,
+            tier,
         }, 'Polling subreddits...');
 
         try {
-            const fetcher = getRedditFetcher();
             const nesCalculator = getNesCalculator();
             const aggregator = getTrendAggregator();
+            const clusterer = getTrendClusterer();
             const cache = getCacheService();
 
-            // Fetch posts from Reddit
-            const postsMap = await fetcher.fetchMultipleSubreddits(
-                subredditNames,
-                { sort: 'hot', limit: 50 }
-            );
+            // Fetch posts from every configured source
+            const results = await fetchFromSources(plans, { sort: 'hot', limit: 50 });
 
-            // Process each subreddit's posts
+            // Process each channel's posts
             const trendsBySubreddit = new Map<string, TrendData[]>();
             let totalPosts = 0;
 
-            for (const [subreddit, posts] of postsMap) {
+            for (const { source, channel, posts } of results) {
                 totalPosts += posts.length;
 
                 // Calculate NES for each post
                 const trends = nesCalculator.processPostBatch(posts);
-                trendsBySubreddit.set(subreddit, trends);
+                trendsBySubreddit.set(`${source}:${channel}`, trends);
 
                 // Update subreddit statistics for baseline calculations
-                if (posts.length > 0) {
+                if (source === 'reddit' && posts.length > 0) {
                     const avgScore = posts.reduce((sum, p) => sum + p.score, 0) / posts.length;
-                    const avgComments = posts.reduce((sum, p) => sum + p.num_comments, 0) / posts.length;
-                    cache.updateSubredditStats(subreddit, avgScore, avgComments, posts.length);
+                    const avgComments = posts.reduce((sum, p) => sum + p.numComments, 0) / posts.length;
+                    cache.updateSubredditStats(channel, avgScore, avgComments, posts.length);
                 }
             }
 
             // Aggregate and cache trends by category
             const allTrends = aggregator.aggregateTrends(trendsBySubreddit);
-            const uniqueTrends = aggregator.deduplicateTrends(allTrends);
+
+            // Record a snapshot of every observed post for trend history
+            const snapshotsRecorded = cache.recordTrendSnapshots(allTrends);
+
+            // Derive acceleration from the snapshots of consecutive polls
+            const dedupedTrends = aggregator.deduplicateTrends(allTrends);
+            const uniqueTrends = nesCalculator.applyAcceleration(
+                dedupedTrends,
+                cache.getRecentSnapshots(dedupedTrends.map(t => t.id))
+            );
 
             // Group by category and cache each group
             const trendsByCategory = new Map<string, TrendData[]>();
@@ -150,16 +174,12 @@ export class BackgroundWorker {
 
             // Cache trends for each category with multiple sort variants
             // This enables instant response for different sort options in dashboard
-            const sortVariants: Array<'nes' | 'score' | 'comments'> = ['nes', 'score', 'comments'];
+            const sortVariants: Array<'nes' | 'score' | 'comments' | 'rising'> = ['nes', 'score', 'comments', 'rising'];
 
             for (const [category, categoryTrends] of trendsByCategory) {
                 for (const sortBy of sortVariants) {
-                    // Sort trends according to the variant
-                    const sortedTrends = [...categoryTrends].sort((a, b) => {
-                        if (sortBy === 'nes') return b.nes - a.nes;
-                        if (sortBy === 'score') return b.score - a.score;
-                        return b.numComments - a.numComments;
-                    });
+                    // Sort trends according to the variant, the same way the /trends route does
+                    const sortedTrends = aggregator.sortTrends(categoryTrends, sortBy);
 
                     const query = {
                         category: category as SubredditConfig['category'],
@@ -183,16 +203,32 @@ export class BackgroundWorker {
             const summary = aggregator.generateSummary(uniqueTrends);
             cache.setSummary(summary);
 
-            // Clean up expired cache entries periodically
+            // Group posts about the same story across subreddits and tiers (before deduplication)
+            this.trendsByTier.set(tier, allTrends);
+            const clusters = clusterer.clusterTrends(Array.from(this.trendsByTier.values()).flat());
+            cache.setClusters(clusters);
+            for (const category of new Set(clusters.map(cluster => cluster.category))) {
+                cache.setClusters(
+                    clusters.filter(cluster => cluster.category === category),
+                    category
+                );
+            }
+
+            // Clean up expired cache entries, old snapshots and stats history periodically
             cache.cleanupExpired();
+            cache.cleanupTrendSnapshots();
+            cache.cleanupSubredditStatsHistory();
 
             const duration = Date.now() - startTime;
 
             logger.info({
                 subredditCount: subreddits.length,
+                channelCount: results.length,
                 totalPosts,
                 uniqueTrends: uniqueTrends.length,
+                snapshotsRecorded,
                 categoriesCached: trendsByCategory.size,
+                clusters: clusters.length,
                 durationMs: duration,
             }, 'Poll completed successfully');
 
@@ -282,12 +318,14 @@ export class BackgroundWorker {
         isShuttingDown: boolean;
         scheduler: ReturnType<PollingScheduler['getStats']>;
         jobs: ReturnType<PollingScheduler['getStatus']>;
+        budgets: BudgetStatus[];
     } {
         return {
             isRunning: this.scheduler.isActive(),
             isShuttingDown: this.isShuttingDown,
             scheduler: this.scheduler.getStats(),
             jobs: this.scheduler.getStatus(),
+            budgets: getBudgetGuard().getAllStatuses(),
         };
     }
 
@@ -1,4 +1,4 @@
-import type { ContentCategory, SubredditConfig, TrendType, ContentFormat } from './types.js';
+import type { ContentCategory, SubredditConfig, TrendType, ContentFormat, ScriptLanguage } from './types.js';
 
 /**
  * Subreddit to Category Mapping
@@ -98,6 +98,12 @@ export const NES_CONSTANTS = {
     MIN_SCORE_THRESHOLD: 100,
     CONTROVERSY_WEIGHT: 2,
     VELOCITY_DECAY_HOURS: 24,
+    /** Minimum gap between snapshots used for acceleration (1 minute) */
+    ACCELERATION_MIN_INTERVAL_HOURS: 1 / 60,
+    /** Baseline for channels without a configured or learned one */
+    DEFAULT_BASELINE: 1000,
+    /** Polls needed before a learned baseline replaces the static one */
+    LEARNED_BASELINE_MIN_SAMPLES: 6,
 } as const;
 
 /**
@@ -116,6 +122,23 @@ export const CATEGORY_LABELS: Record<ContentCategory, string> = {
     other: 'Diğer',
 };
 
+/**
+ * Supported script languages
+ */
+export const SCRIPT_LANGUAGES: readonly ScriptLanguage[] = ['tr', 'en', 'es', 'de', 'pt', 'ar'];
+
+/**
+ * Language display names (in the language itself)
+ */
+export const LANGUAGE_LABELS: Record<ScriptLanguage, string> = {
+    tr: 'Türkçe',
+    en: 'English',
+    es: 'Español',
+    de: 'Deutsch',
+    pt: 'Português',
+    ar: 'العربية',
+};
+
 /**
  * Category to suggested video format mapping
  */
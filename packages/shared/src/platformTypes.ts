@@ -7,7 +7,7 @@
  * @module shared/platformTypes
  */
 
-import type { ContentCategory, TrendData } from './types.js';
+import type { ContentCategory, TrendData, ScriptLanguage } from './types.js';
 
 /**
  * Supported short-form video platforms
@@ -191,7 +191,7 @@ export interface ScriptSection {
     content: string;
     /** Word count */
     wordCount: number;
-    /** Estimated duration in seconds (2.5 words/sec) */
+    /** Estimated duration in seconds (at the script language's speaking rate) */
     estimatedSeconds: number;
 }
 
@@ -223,6 +223,14 @@ export interface PlatformScript {
         trendId: string;
         category: ContentCategory;
         agentVersion: string;
+        /** Script language; older scripts without it are treated as Turkish */
+        language?: ScriptLanguage;
+        /** Id of the script this one was translated from */
+        sourceScriptId?: string;
+        /** Language of that script */
+        translatedFrom?: ScriptLanguage;
+        /** Id in the engine's script library, set once the script is saved */
+        libraryId?: string;
     };
     /** Optional warnings about script generation (e.g., truncation, incomplete sections) */
     warnings?: string[];
@@ -255,7 +263,7 @@ export interface MultiPlatformResult {
  */
 export type PlatformScriptResult =
     | { success: true; script: PlatformScript }
-    | { success: false; error: string; retryable: boolean };
+    | { success: false; error: string; retryable: boolean; code?: string };
 
 /**
  * Multi-platform script generation options
@@ -268,17 +276,19 @@ export interface MultiPlatformOptions {
     /** Content tone */
     tone?: 'casual' | 'professional' | 'humorous' | 'dramatic';
     /** Script language */
-    language?: 'en' | 'tr';
+    language?: ScriptLanguage;
     /** Include hook section */
     includeHook?: boolean;
     /** Include CTA section */
     includeCta?: boolean;
+    /** Brand voice profile applied on top of the tone */
+    profileId?: string;
 }
 
 /**
- * Default multi-platform options
+ * Default multi-platform options (no brand voice unless requested)
  */
-export const DEFAULT_MULTI_PLATFORM_OPTIONS: Required<MultiPlatformOptions> = {
+export const DEFAULT_MULTI_PLATFORM_OPTIONS: Required<Omit<MultiPlatformOptions, 'profileId'>> = {
     platforms: [...ALL_PLATFORMS],
     durationSeconds: 30,
     tone: 'casual',
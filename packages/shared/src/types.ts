@@ -25,14 +25,47 @@ export interface RedditPost {
     stickied: boolean;
 }
 
+/**
+ * Trend sources the engine can ingest from
+ */
+export type TrendSourceType = 'reddit' | 'rss';
+
+/**
+ * Source-agnostic post model produced by every trend source
+ */
+export interface SourcePost {
+    id: string;
+    source: TrendSourceType;
+    /** Channel within the source (subreddit name, feed id) */
+    channel: string;
+    title: string;
+    body: string;
+    author: string;
+    score: number;
+    numComments: number;
+    /** Share of positive votes (0-1), null when the source has no voting */
+    approvalRatio: number | null;
+    createdUtc: number;
+    url: string;
+    permalink: string;
+    domain: string;
+    isPinned: boolean;
+    isNsfw: boolean;
+    /** Category hint for channels without a subreddit config (e.g. RSS feeds) */
+    category?: ContentCategory;
+}
+
 /**
  * Processed trend data with calculated metrics
  */
 export interface TrendData {
     id: string;
     title: string;
+    /** Subreddit name, or the channel id for non-Reddit sources */
     subreddit: string;
     category: ContentCategory;
+    /** Where the trend came from (absent on data cached before sources existed = reddit) */
+    source?: TrendSourceType;
 
     // Raw metrics
     score: number;
@@ -45,6 +78,8 @@ export interface TrendData {
     engagementVelocity: number;
     controversyFactor: number;
     ageHours: number;
+    /** Change in engagement velocity between recent polls, normalized by subreddit baseline */
+    acceleration?: number;
 
     // Metadata
     sourceUrl: string;
@@ -52,6 +87,48 @@ export interface TrendData {
     fetchedAt: Date;
 }
 
+/**
+ * Single observation of a post, recorded on every worker poll
+ */
+export interface TrendSnapshot {
+    score: number;
+    numComments: number;
+    upvoteRatio: number;
+    nes: number;
+    capturedAt: string;
+}
+
+/**
+ * Time series of snapshots for a single trend
+ */
+export interface TrendHistory {
+    trendId: string;
+    subreddit: string | null;
+    snapshots: TrendSnapshot[];
+    /** NES change between the first and latest snapshot */
+    nesDelta: number;
+    /** Score change between the first and latest snapshot */
+    scoreDelta: number;
+}
+
+/**
+ * Group of posts about the same story (across subreddits and sources)
+ */
+export interface TrendCluster {
+    id: string;
+    /** Title of the highest-NES member */
+    title: string;
+    category: ContentCategory;
+    /** Sum of member NES */
+    combinedNes: number;
+    leadTrendId: string;
+    subreddits: string[];
+    /** Linked domains shared by the members (media/social hosts excluded) */
+    domains: string[];
+    /** Member posts, highest NES first */
+    members: TrendData[];
+}
+
 /**
  * Content categories for filtering trends
  */
@@ -78,6 +155,11 @@ export interface SubredditConfig {
     subscribers: number;
 }
 
+/**
+ * Languages scripts can be generated in (ISO 639-1)
+ */
+export type ScriptLanguage = 'en' | 'tr' | 'es' | 'de' | 'pt' | 'ar';
+
 /**
  * Time range for trend queries
  */
@@ -101,7 +183,8 @@ export interface TrendQuery {
     timeRange: TimeRange;
     limit?: number;
     minScore?: number;
-    sortBy?: 'nes' | 'score' | 'velocity' | 'comments';
+    sortBy?: 'nes' | 'score' | 'velocity' | 'comments' | 'rising';
+    source?: TrendSourceType;
 }
 
 /**
@@ -274,7 +357,7 @@ export interface VariantGenerationOptions {
     /** Tone of the content */
     tone?: 'casual' | 'professional' | 'humorous' | 'dramatic';
     /** Language */
-    language?: 'en' | 'tr';
+    language?: ScriptLanguage;
     /** Calculate algorithm scores for each */
     calculateScores?: boolean;
 }